@@ -1,19 +1,50 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { InvoiceEditor } from './components/InvoiceEditor';
 import { SessionSidebar } from './components/SessionSidebar';
 import { Navbar } from './components/Navbar';
-import { extractInvoiceData, translateLineItems, analyzeBatch } from './services/geminiService';
+import { WorkspaceSettingsModal } from './components/WorkspaceSettingsModal';
+import { DocumentViewer } from './components/DocumentViewer';
+import { ExtractionOptions, hintsStillCurrent, resolveExtractionProvider, PROVIDER_LABELS } from './services/extractionProvider';
+import { reconcileTotals } from './services/extractionQuality';
+import { applyRemittanceCheck, recheckRemittance } from './services/remittanceRisk';
+import { SchedulerStatus } from './services/requestScheduler';
+import { createIngestionQueue, QueueItem, QueueOutcome, QueueSnapshot, QueueWorker } from './services/ingestionQueue';
+import { QueuePanel } from './components/QueuePanel';
+import { DuplicateReviewModal } from './components/DuplicateReviewModal';
+import { DuplicateMatch, duplicatePairKey, findDuplicateCandidates, scoreDuplicate } from './services/duplicateDetection';
 import { StrategicInsights } from './components/StrategicInsights';
-import { InvoiceData, ProcessingState, StrategicInsight } from './types';
-import { Loader2, Download, Wand2, ShieldCheck, AlertCircle, Languages, Sun, Moon, Coins, Clock, RefreshCw, FileText, Globe2, Plane, Archive, Layers, AlertTriangle, Copy, Printer, FileJson, Table, X } from 'lucide-react';
+import { FieldFocus, InvoiceData, LineItem, ProcessingState, StrategicInsight, TokenUsage, VendorMasterEntry, WorkspaceSettings } from './types';
+import { Download, Wand2, ShieldCheck, AlertCircle, Languages, Sun, Moon, Coins, Clock, RefreshCw, FileText, Globe2, Plane, Archive, Layers, AlertTriangle, Copy, Printer, FileJson, Table, X } from 'lucide-react';
 import { translations } from './utils/translations';
 import { EXAMPLES } from './utils/exampleData';
+import { loadWorkspaces, saveWorkspaces, loadActiveWorkspaceId, saveActiveWorkspaceId } from './utils/workspaceSettings';
+import { loadVendorMaster, saveVendorMaster, parseVendorMaster } from './utils/vendorMaster';
+import { extractionCacheKey, getCachedExtraction, hashFile, putCachedExtraction } from './utils/extractionCache';
+import { loadDuplicateSuppressions, saveDuplicateSuppressions } from './utils/duplicateSuppressions';
+import { addUsage, DEFAULT_COST_SETTINGS, formatCost, usageCost } from './utils/modelPricing';
+import { loadVendorCorrections, replaceInvoiceCorrections } from './utils/vendorCorrections';
+import { buildVendorHints, diffCorrections } from './services/correctionLearning';
+import { formatBaseUnitPrice } from './utils/unitConversion';
+import { buildMatchGroups, DEFAULT_MATCH_TOLERANCES, findMatchGroup } from './services/threeWayMatch';
+import { ThreeWayMatchView } from './components/ThreeWayMatchView';
+import { isCreditNote, isShippingDocument } from './utils/documentTypes';
+import { linkCreditNotes } from './services/creditNotes';
+import { emailProvenanceOf } from './utils/emailMessage';
+import { importEInvoice } from './services/eInvoiceImport';
+import { buildUblInvoice, bundleUblDocuments, UblDocument } from './services/ublExport';
+import { UblExportReviewModal } from './components/UblExportReviewModal';
+
+// Pause in editing after which a document's corrections are written to local storage
+const CORRECTION_SAVE_DELAY_MS = 1500;
 
 const App: React.FC = () => {
   const [files, setFiles] = useState<File[]>([]);
   const [invoiceData, setInvoiceData] = useState<InvoiceData | null>(null);
   const [sessionHistory, setSessionHistory] = useState<InvoiceData[]>([]);
+  // Uploaded originals by invoice id, kept for the side-by-side document viewer
+  const [sourceFiles, setSourceFiles] = useState<Record<string, File>>({});
+  const [focusedField, setFocusedField] = useState<FieldFocus | null>(null);
   const [processingState, setProcessingState] = useState<ProcessingState>({ status: 'idle' });
   
   // TIER 4 STATE: Strategic Insights
@@ -34,16 +65,92 @@ const App: React.FC = () => {
   const [showHomeConfirm, setShowHomeConfirm] = useState(false);
   const [sessionStartTime, setSessionStartTime] = useState<number | null>(null);
   const [exportFormat, setExportFormat] = useState<string>('csv');
+  // UBL documents held back because they miss Peppol terms; downloaded once the user confirms
+  const [ublReview, setUblReview] = useState<{ documents: UblDocument[], asArchive: boolean } | null>(null);
   
-  const [duplicateWarning, setDuplicateWarning] = useState<{show: boolean, invoice: InvoiceData | null}>({show: false, invoice: null});
+  // Snapshot of the document currently streaming in; replaced by the final result when extraction completes
+  const [provisionalInvoice, setProvisionalInvoice] = useState<InvoiceData | null>(null);
+  // Skip the local extraction cache for the next batch (e.g. after fixing a bad scan's settings)
+  const [forceReextract, setForceReextract] = useState(false);
+  const [duplicateWarning, setDuplicateWarning] = useState<{show: boolean, invoice: InvoiceData | null, match?: DuplicateMatch, queueItemId?: string}>({show: false, invoice: null});
+  // Pairs a reviewer marked as "not a duplicate"; persisted so they stop re-alerting
+  const [duplicateSuppressions, setDuplicateSuppressions] = useState<string[]>(loadDuplicateSuppressions);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
   const [clearNotification, setClearNotification] = useState<string | null>(null);
 
+  // Workspaces pick the extraction backend (compliance: not every document may go to Google)
+  const [workspaces, setWorkspaces] = useState<WorkspaceSettings[]>(loadWorkspaces);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string>(loadActiveWorkspaceId);
+  const [showWorkspaceSettings, setShowWorkspaceSettings] = useState(false);
+  const [showMatching, setShowMatching] = useState(false);
+  // Known vendor bank accounts imported from the ERP; used to spot payment-redirection fraud
+  const [vendorMaster, setVendorMaster] = useState<VendorMasterEntry[]>(loadVendorMaster);
+  const activeWorkspace = workspaces.find(ws => ws.id === activeWorkspaceId) || workspaces[0];
+  const provider = useMemo(() => resolveExtractionProvider(activeWorkspace.provider, isDemoMode, activeWorkspace.prompts), [activeWorkspace, isDemoMode]);
+  const [schedulerStatus, setSchedulerStatus] = useState<SchedulerStatus | null>(null);
+  useEffect(() => provider.scheduler.subscribe(setSchedulerStatus), [provider]);
+  // Tokens of every model call this session, including audits that belong to no single document
+  const [sessionUsage, setSessionUsage] = useState<TokenUsage[]>([]);
+  useEffect(() => provider.subscribeUsage(usage => setSessionUsage(prev => addUsage(prev, usage))), [provider]);
+  const costSettings = activeWorkspace.cost || DEFAULT_COST_SETTINGS;
+  // Recomputed from the session on every change, so edits in the editor re-run the match
+  const matchGroups = useMemo(() => buildMatchGroups(sessionHistory, activeWorkspace.matching || DEFAULT_MATCH_TOLERANCES), [sessionHistory, activeWorkspace.matching]);
+  const creditLinks = useMemo(() => linkCreditNotes(sessionHistory), [sessionHistory]);
+  // A credit note shows the invoice it credits; both sides see every credit against that invoice
+  const creditOriginal = invoiceData ? creditLinks.originals[invoiceData.id] : undefined;
+  const linkedCredits = invoiceData ? creditLinks.credits[(creditOriginal || invoiceData).id] : undefined;
+  const sessionCost = usageCost(sessionUsage, costSettings.prices);
+  const sessionBudget = costSettings.sessionBudgetUsd;
+  const budgetExceeded = !!sessionBudget && sessionCost >= sessionBudget;
+  // Pause once per crossing; a reviewer who resumes anyway is not stopped again until the budget changes
+  const budgetHaltedRef = useRef(false);
+
+  // One queue for the app's lifetime; the worker is re-bound every render so it sees current state.
+  const queueWorkerRef = useRef<QueueWorker>(() => Promise.reject(new Error('Queue worker not ready')));
+  const queue = useMemo(() => createIngestionQueue(item => queueWorkerRef.current(item)), []);
+  const [queueSnapshot, setQueueSnapshot] = useState<QueueSnapshot | null>(null);
+  useEffect(() => queue.subscribe(setQueueSnapshot), [queue]);
+  const wasQueueActiveRef = useRef(false);
+  const provisionalOwnerRef = useRef<string | null>(null);
+  const sessionHistoryRef = useRef<InvoiceData[]>(sessionHistory);
+  sessionHistoryRef.current = sessionHistory;
+  // Each document as extracted, before review, so edits can be learned as corrections
+  const extractionBaselinesRef = useRef<Record<string, InvoiceData>>({});
+  // The latest edit of a document, learned once typing pauses instead of rewriting local storage per keystroke
+  const pendingCorrectionRef = useRef<{ baseline: InvoiceData, edited: InvoiceData } | null>(null);
+  const correctionTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const flushCorrections = () => {
+    if (correctionTimerRef.current) clearTimeout(correctionTimerRef.current);
+    correctionTimerRef.current = null;
+    const pending = pendingCorrectionRef.current;
+    pendingCorrectionRef.current = null;
+    if (pending) replaceInvoiceCorrections(pending.edited.id, diffCorrections(pending.baseline, pending.edited));
+  };
+
+  useEffect(() => {
+    window.addEventListener('beforeunload', flushCorrections);
+    return () => { window.removeEventListener('beforeunload', flushCorrections); flushCorrections(); };
+  }, []);
+
+  useEffect(() => {
+    if (!budgetExceeded) {
+        budgetHaltedRef.current = false;
+    } else if (!budgetHaltedRef.current) {
+        budgetHaltedRef.current = true;
+        if (queue.getSnapshot().isActive) queue.pause();
+    }
+  }, [budgetExceeded, sessionBudget]);
+
   // Derive UI translations from Interface Language
   const t = translations[interfaceLanguage] || translations['English'];
   
+  const focusedRegion = !invoiceData || !focusedField ? null
+    : focusedField.lineIndex !== undefined ? invoiceData.lineItems[focusedField.lineIndex]?.sourceRegion || null
+    : invoiceData.fieldRegions?.[focusedField.field] || null;
+
   const toggleTheme = () => setIsDarkMode(!isDarkMode);
-  const currentView = invoiceData ? 'editor' : (processingState.status === 'processing' || processingState.status === 'quota_cooldown') ? 'processing' : 'home';
+  const currentView = invoiceData || provisionalInvoice ? 'editor' : (processingState.status === 'processing' || processingState.status === 'quota_cooldown') ? 'processing' : 'home';
 
   useEffect(() => {
     if (isDarkMode) document.documentElement.classList.add('dark');
@@ -90,12 +197,12 @@ const App: React.FC = () => {
 
     const data = EXAMPLES[key];
     if (data) {
-        const dataWithId: InvoiceData = { 
+        const dataWithId: InvoiceData = applyRemittanceCheck({ 
             ...data, 
             id: crypto.randomUUID(),
             language: data.language || 'Original',
             originalLineItems: data.lineItems
-        };
+        }, sessionHistory, vendorMaster);
         setInvoiceData(dataWithId);
         setSessionHistory(prev => [dataWithId, ...prev]);
         setProcessingState({ status: 'complete' });
@@ -109,98 +216,109 @@ const App: React.FC = () => {
     }
   };
 
-  const handleTransform = async () => {
-    if (files.length === 0) return;
-
-    setProcessingState({ status: 'processing', message: t.processing }); 
-    setShowInsights(false);
-    
-    // Accumulate the batch locally since state updates are async
-    const currentBatch: InvoiceData[] = [];
-
-    for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        const startTime = Date.now();
-        
-        if (files.length > 1) {
-             setProcessingState(prev => ({ 
-                 ...prev, 
-                 message: t.processingBatch.replace('{current}', (i + 1).toString()).replace('{total}', files.length.toString()).replace('{filename}', file.name)
-             }));
-        } else {
-             setTimeout(() => { if (processingState.status !== 'error') setProcessingState(prev => ({ ...prev, message: t.analyzing })); }, 1500);
-             setTimeout(() => { if (processingState.status !== 'error') setProcessingState(prev => ({ ...prev, message: t.sanitizing })); }, 3500);
-        }
+  // Extract one queued file. Runs in parallel with others, so it reads the latest session through a ref
+  // and records accepted documents there immediately for the next file's duplicate and bank checks.
+  queueWorkerRef.current = async (item: QueueItem): Promise<QueueOutcome> => {
+    const file = item.file;
+    const startTime = Date.now();
+    // Re-extracting a finished file replaces its earlier result instead of colliding with it
+    const replacesId = item.invoice?.id;
+    const known = sessionHistoryRef.current.filter(doc => doc.id !== replacesId);
+    const contentHash = await hashFile(file);
+
+    // Exact same bytes as a document already in the session: no need to ask the model again
+    const sameFile = known.find(doc => doc.contentHash === contentHash);
+    if (sameFile && !item.forceRefresh) {
+        const copy = { ...sameFile, id: crypto.randomUUID(), sourceEmail: emailProvenanceOf(file) };
+        setSourceFiles(prev => ({ ...prev, [copy.id]: file }));
+        return { status: 'duplicate', invoice: copy, duplicateOf: scoreDuplicate(copy, sameFile) };
+    }
 
+    // Structured e-invoices (UBL, CII, Factur-X, CFDI) are read as data; no model call at all
+    const structured = await importEInvoice(file);
+
+    // Reviewer corrections for the document's vendor ride along as few-shot hints
+    const corrections = loadVendorCorrections();
+    const extractionOptions: ExtractionOptions = { vendorHints: (vendorName: string) => buildVendorHints(corrections, vendorName), requestId: item.id };
+    const cacheKey = extractionCacheKey(contentHash, provider.id, provider.model, provider.promptVersion(extractionOptions));
+    const cachedEntry = !structured && provider.id !== 'mock' && !item.forceRefresh ? getCachedExtraction(cacheKey) : null;
+    const cached = cachedEntry && hintsStillCurrent(cachedEntry, extractionOptions.vendorHints) ? cachedEntry : null;
+
+    // Parallel files would fight over the live preview; the first one to stream owns it until it finishes.
+    const handlePartial = (partial: InvoiceData) => {
+        if (!provisionalOwnerRef.current) provisionalOwnerRef.current = item.id;
+        if (provisionalOwnerRef.current === item.id) setProvisionalInvoice(partial);
+    };
+
+    let data: InvoiceData;
+    if (structured) {
+        data = structured;
+    } else if (cached) {
+        data = { ...cached, usage: undefined }; // Nothing was spent on it this time
+    } else {
         try {
-            const data = await extractInvoiceData(file, isDemoMode);
-            const endTime = Date.now();
-            const processingTimeMs = endTime - startTime;
-
-            const dataWithId: InvoiceData = { 
-                ...data, 
-                id: crypto.randomUUID(),
-                language: 'Original', // Initial capture is always original
-                originalLineItems: data.lineItems,
-                processingTimeMs,
-                isDemo: isDemoMode 
-            };
-            
-            const isDuplicateInHistory = sessionHistory.some(inv => {
-                const vendorMatch = inv.vendorName.toLowerCase().trim() === dataWithId.vendorName.toLowerCase().trim();
-                const dateMatch = inv.invoiceDate === dataWithId.invoiceDate;
-                const amountMatch = Math.abs(inv.totalAmount - dataWithId.totalAmount) < 0.01;
-                return vendorMatch && dateMatch && amountMatch;
-            });
-
-            if (isDuplicateInHistory) {
-                setDuplicateWarning({ show: true, invoice: dataWithId });
-                setProcessingState({ status: 'complete' });
-                continue; 
-            }
-
-            // Add to local batch and state
-            currentBatch.push(dataWithId);
-            setSessionHistory(prev => [dataWithId, ...prev]);
-
-            if (i === files.length - 1) {
-                setInvoiceData(dataWithId);
-                // Auto-translate logic if Target Language is set
-                if (targetLanguage !== 'Original' && targetLanguage !== 'English') {
-                    handleTranslate(targetLanguage, dataWithId);
-                }
-            }
-
-            if (i < files.length - 1) {
-                await new Promise(r => setTimeout(r, 2000));
+            data = await provider.extractInvoiceData(file, handlePartial, extractionOptions);
+        } finally {
+            if (provisionalOwnerRef.current === item.id) {
+                provisionalOwnerRef.current = null;
+                setProvisionalInvoice(null);
             }
+        }
+        if (provider.id !== 'mock') putCachedExtraction(cacheKey, data);
+    }
 
-        } catch (error: any) {
-            const code = error.code || 'GENERIC';
-            let message = t.uploadError;
-            
-            if (code === 'QUOTA_EXCEEDED') {
-                message = t.quotaError;
-                setRetryCountdown(60); 
-                setProcessingState({ status: 'quota_cooldown', message: message, errorCode: code, retryIn: 60 });
-                return;
-            } else if (code === 'READ_ERROR') message = t.readError;
-            else if (code === 'INVALID_FILE') message = t.fileTypeError;
-
-            setProcessingState({ status: 'error', message: message, errorCode: code });
-            return;
+    const dataWithId: InvoiceData = applyRemittanceCheck({ 
+        ...data, 
+        id: crypto.randomUUID(),
+        contentHash,
+        fromCache: !!cached,
+        language: 'Original', // Initial capture is always original
+        originalLineItems: data.lineItems,
+        processingTimeMs: Date.now() - startTime,
+        sourceEmail: emailProvenanceOf(file),
+        isDemo: provider.id === 'mock' && !structured
+    }, known, vendorMaster);
+    setSourceFiles(prev => ({ ...prev, [dataWithId.id]: file }));
+
+    const [duplicateOf] = item.forceRefresh ? [] : findDuplicateCandidates(dataWithId, known, duplicateSuppressions);
+    if (duplicateOf) return { status: 'duplicate', invoice: dataWithId, duplicateOf };
+
+    extractionBaselinesRef.current[dataWithId.id] = dataWithId;
+    sessionHistoryRef.current = [dataWithId, ...known];
+    setSessionHistory(prev => [dataWithId, ...prev.filter(doc => doc.id !== replacesId)]);
+    if (replacesId && invoiceData?.id === replacesId) setInvoiceData(dataWithId);
+
+    // Only the last document of a run opens in the editor (and gets auto-translated)
+    const othersPending = queue.getSnapshot().items.some(other => other.id !== item.id && (other.status === 'queued' || other.status === 'running'));
+    if (!othersPending) {
+        setInvoiceData(dataWithId);
+        if (targetLanguage !== 'Original' && targetLanguage !== 'English') {
+            handleTranslate(targetLanguage, dataWithId);
         }
     }
+    return { status: 'done', invoice: dataWithId };
+  };
+
+  const handleTransform = () => {
+    if (files.length === 0) return;
+    setShowInsights(false);
+    // Over budget: queue the files but hold them until the reviewer resumes
+    if (budgetExceeded) queue.pause();
+    queue.add(files, forceReextract);
+    setFiles([]);
+  };
 
-    // --- TIER 4 AUDIT TRIGGER ---
-    if (currentBatch.length > 1 || sessionHistory.length > 0) {
+  // --- TIER 4 AUDIT TRIGGER --- once the queue has drained
+  const finishBatch = async (items: QueueItem[]) => {
+    const history = sessionHistoryRef.current;
+    if (items.some(item => item.status === 'done') && history.length > 1 && !budgetExceeded) {
         setProcessingState({ status: 'processing', message: '⚡ Running Strategic Supply Chain Audit...' });
         
         // Analyze recent history + current batch
-        const analysisSet = [...currentBatch, ...sessionHistory].slice(0, 15);
+        const analysisSet = history.slice(0, 15);
         
         try {
-            const auditResult = await analyzeBatch(analysisSet);
+            const auditResult = await provider.analyzeBatch(analysisSet);
             if (auditResult.insights && auditResult.insights.length > 0) {
                 setStrategicInsights(auditResult.insights);
                 setShowInsights(true);
@@ -212,19 +330,55 @@ const App: React.FC = () => {
 
     setProcessingState({ status: 'complete' });
     setRetryCountdown(0);
-    setFiles([]); 
   };
-  
+
+  useEffect(() => {
+    if (!queueSnapshot) return;
+    if (queueSnapshot.isActive && !wasQueueActiveRef.current) {
+        wasQueueActiveRef.current = true;
+        setProcessingState({ status: 'processing', message: t.processing });
+    } else if (!queueSnapshot.isActive && wasQueueActiveRef.current) {
+        wasQueueActiveRef.current = false;
+        finishBatch(queueSnapshot.items);
+        return;
+    }
+
+    // The scheduler gave up on a rate limit and the queue is holding until the server's retry hint
+    if (queueSnapshot.resumeAt) {
+        const retryIn = Math.ceil((queueSnapshot.resumeAt - Date.now()) / 1000);
+        setRetryCountdown(retryIn);
+        setProcessingState({ status: 'quota_cooldown', message: t.quotaError, errorCode: 'QUOTA_EXCEEDED', retryIn });
+    } else if (processingState.status === 'quota_cooldown' && processingState.errorCode === 'QUOTA_EXCEEDED') {
+        setProcessingState({ status: 'processing', message: t.processing });
+    }
+  }, [queueSnapshot]);
+
+  const handleReviewDuplicate = (item: QueueItem) => {
+      if (item.invoice) setDuplicateWarning({ show: true, invoice: item.invoice, match: item.duplicateOf, queueItemId: item.id });
+  };
+
   const confirmDuplicate = () => {
       if (duplicateWarning.invoice) {
           const inv = duplicateWarning.invoice;
+          extractionBaselinesRef.current[inv.id] = inv;
           setSessionHistory(prev => [inv, ...prev]);
           setInvoiceData(inv);
+          if (duplicateWarning.queueItemId) queue.setStatus(duplicateWarning.queueItemId, 'done');
           setDuplicateWarning({ show: false, invoice: null });
           setFiles([]); 
       }
   };
 
+  const dismissDuplicate = () => {
+      const { invoice, match } = duplicateWarning;
+      if (invoice && match) {
+          const updated = [duplicatePairKey(invoice, match.invoice), ...duplicateSuppressions];
+          setDuplicateSuppressions(updated);
+          saveDuplicateSuppressions(updated);
+      }
+      confirmDuplicate();
+  };
+
   const cancelDuplicate = () => {
       setDuplicateWarning({ show: false, invoice: null });
   };
@@ -234,9 +388,14 @@ const App: React.FC = () => {
   };
 
   const confirmClearAll = () => {
+    queue.cancel();
+    queue.clearFinished();
     setFiles([]);
     setInvoiceData(null);
     setSessionHistory([]);
+    setSessionUsage([]);
+    extractionBaselinesRef.current = {};
+    setSourceFiles({});
     setStrategicInsights([]);
     setShowInsights(false);
     setProcessingState({ status: 'idle' });
@@ -249,12 +408,26 @@ const App: React.FC = () => {
     setShowClearConfirm(false);
   };
 
+  // While the scheduler is backing off mid-batch, show the cooldown with its live queue position and ETA.
+  useEffect(() => {
+    if (!schedulerStatus) return;
+    const cooling = !!schedulerStatus.cooldownUntil;
+    const queueInfo = { queued: schedulerStatus.queued + schedulerStatus.running, etaSeconds: Math.ceil(schedulerStatus.etaMs / 1000) };
+    if (processingState.status === 'processing' && cooling) {
+        const retryIn = Math.ceil((schedulerStatus.cooldownUntil! - Date.now()) / 1000);
+        setRetryCountdown(retryIn);
+        setProcessingState({ status: 'quota_cooldown', message: t.quotaError, retryIn, ...queueInfo });
+    } else if (processingState.status === 'quota_cooldown' && !processingState.errorCode && !cooling) {
+        setProcessingState({ status: 'processing', message: t.processing, ...queueInfo });
+    } else if (processingState.status === 'processing' || processingState.status === 'quota_cooldown') {
+        setProcessingState(prev => ({ ...prev, ...queueInfo }));
+    }
+  }, [schedulerStatus]);
+
   useEffect(() => {
     if (processingState.status === 'quota_cooldown' && retryCountdown > 0) {
         const timer = setTimeout(() => setRetryCountdown(prev => prev - 1), 1000);
         return () => clearTimeout(timer);
-    } else if (processingState.status === 'quota_cooldown' && retryCountdown === 0) {
-        handleTransform();
     }
   }, [processingState.status, retryCountdown]);
 
@@ -262,12 +435,23 @@ const App: React.FC = () => {
     if (targetLanguage === 'Original' || newData.language === 'Original') {
       newData.originalLineItems = newData.lineItems;
     }
-    setInvoiceData(newData);
-    setSessionHistory(prev => prev.map(item => item.id === newData.id ? newData : item));
+    // Demo documents are generated, so there is nothing to learn from fixing them
+    const baseline = extractionBaselinesRef.current[newData.id];
+    if (baseline && !newData.isDemo) {
+      if (pendingCorrectionRef.current && pendingCorrectionRef.current.edited.id !== newData.id) flushCorrections();
+      pendingCorrectionRef.current = { baseline, edited: newData };
+      if (correctionTimerRef.current) clearTimeout(correctionTimerRef.current);
+      correctionTimerRef.current = setTimeout(flushCorrections, CORRECTION_SAVE_DELAY_MS);
+    }
+    // Bank details may have been corrected, so every later document's comparison can change
+    const updatedHistory = recheckRemittance(sessionHistory.map(item => item.id === newData.id ? newData : item), vendorMaster);
+    setInvoiceData(updatedHistory.find(item => item.id === newData.id) || applyRemittanceCheck(newData, updatedHistory, vendorMaster));
+    setSessionHistory(updatedHistory);
   };
 
   const handleHistorySelect = (data: InvoiceData) => {
       setInvoiceData(data);
+      setFocusedField(null);
       // When selecting history, we don't change the GLOBAL target language, 
       // but we might want to reflect the document's current state if it was translated.
       if (data.language && ['English', 'Spanish', 'French', 'German', 'Chinese', 'Japanese', 'Portuguese', 'Korean', 'Italian', 'Hindi', 'Arabic'].includes(data.language)) {
@@ -346,9 +530,11 @@ const App: React.FC = () => {
     setIsTranslating(true);
     try {
       const sourceItems = dataToTranslate.originalLineItems || dataToTranslate.lineItems;
-      const translatedItems = await translateLineItems(sourceItems, lang);
+      let usage = dataToTranslate.usage;
+      const translatedItems = await provider.translateLineItems(sourceItems, lang, spent => { spent.forEach(call => { usage = addUsage(usage, call); }); });
       const updatedData = { 
         ...dataToTranslate, 
+        usage,
         lineItems: translatedItems, 
         language: lang,
         originalLineItems: dataToTranslate.originalLineItems || sourceItems 
@@ -362,20 +548,64 @@ const App: React.FC = () => {
     }
   };
 
+  const handleSaveWorkspaces = (updated: WorkspaceSettings[], activeId: string) => {
+    setWorkspaces(updated);
+    setActiveWorkspaceId(activeId);
+    saveWorkspaces(updated);
+    saveActiveWorkspaceId(activeId);
+    setShowWorkspaceSettings(false);
+  };
+
+  const handleImportVendorMaster = async (file: File) => {
+    try {
+      const entries = parseVendorMaster(await file.text(), file.name);
+      setVendorMaster(entries);
+      saveVendorMaster(entries);
+      const updatedHistory = recheckRemittance(sessionHistory, entries);
+      setSessionHistory(updatedHistory);
+      if (invoiceData) setInvoiceData(updatedHistory.find(item => item.id === invoiceData.id) || invoiceData);
+      setExportNotification(`✓ ${t.vendorMasterImported.replace('{count}', entries.length.toString())}`);
+    } catch (e) {
+      console.error("Vendor master import failed", e);
+      setExportNotification(t.vendorMasterImportError);
+    }
+    setTimeout(() => setExportNotification(null), 3000);
+  };
+
+  const handleClearVendorMaster = () => {
+    setVendorMaster([]);
+    saveVendorMaster([]);
+    const updatedHistory = recheckRemittance(sessionHistory, []);
+    setSessionHistory(updatedHistory);
+    if (invoiceData) setInvoiceData(updatedHistory.find(item => item.id === invoiceData.id) || invoiceData);
+  };
+
   const handleCurrencyChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     setTargetCurrency(e.target.value);
   };
 
   const handleCopyToClipboard = useCallback(async () => {
     if (!invoiceData) return;
-    const headers = [t.sku, t.description, t.glCategory, t.qty, t.unitPrice, t.lineTotal];
-    const rows = invoiceData.lineItems.map(item => [
+    const shipping = isShippingDocument(invoiceData);
+    const headers = shipping ? [t.sku, t.description, t.qty, t.unitOfMeasure, t.packSize, t.lineWeight, t.freightClass] : [t.sku, t.description, t.glCategory, t.qty, t.unitOfMeasure, t.packSize, t.unitPrice, t.lineTotal, t.baseUnitPrice];
+    const rows = invoiceData.lineItems.map(item => shipping ? [
+        item.sku,
+        item.description,
+        item.quantity,
+        item.unitOfMeasure || '',
+        item.packSize ?? '',
+        item.weight ?? '',
+        item.freightClass || ''
+    ] : [
         item.sku,
         item.description,
         item.glCategory,
         item.quantity,
+        item.unitOfMeasure || '',
+        item.packSize ?? '',
         item.unitPrice,
-        (item.totalAmount || 0).toFixed(2)
+        (item.totalAmount || 0).toFixed(2),
+        formatBaseUnitPrice(item, invoiceData.currencySymbol || '$')
     ]);
     const tsvContent = [headers.join('\t'), ...rows.map(row => row.join('\t'))].join('\n');
     
@@ -392,39 +622,122 @@ const App: React.FC = () => {
       window.print();
   }, []);
 
+  // Document-level totals repeated on every exported row, like vendor and date
+  const summarizeTotals = (doc: InvoiceData) => {
+    const recon = reconcileTotals(doc);
+    return {
+      subtotal: recon.subtotal.toFixed(2),
+      taxTotal: recon.taxTotal.toFixed(2),
+      taxDetail: (doc.taxLines || []).map(tax => `${tax.jurisdiction || 'Tax'}${tax.rate !== undefined ? ` ${tax.rate}%` : ''}: ${tax.amount.toFixed(2)}`).join('; '),
+      discountTotal: recon.discountTotal.toFixed(2),
+      shippingTotal: recon.shippingTotal.toFixed(2),
+      amountDue: (doc.amountDue ?? doc.totalAmount).toFixed(2)
+    };
+  };
+
+  type ExportTotals = ReturnType<typeof summarizeTotals>;
+  interface ExportColumn {
+    header: string;
+    scope: 'all' | 'invoice' | 'shipping'; // Which documents fill the column; others leave it blank
+    value: (doc: InvoiceData, item: LineItem, totals: ExportTotals) => string | number | undefined;
+  }
+
+  // Export layout, in column order. Money columns are left out of shipping-only exports and consignment
+  // columns out of invoice-only ones; a mixed export carries both.
+  const EXPORT_COLUMNS: ExportColumn[] = [
+    { header: t.csvDocumentType, scope: 'all', value: doc => doc.documentType || 'Unknown' },
+    { header: t.csvVendor, scope: 'all', value: doc => doc.vendorName },
+    { header: t.csvVendorTaxId, scope: 'invoice', value: doc => doc.vendorTaxId },
+    { header: t.csvBillTo, scope: 'all', value: doc => doc.billToName },
+    { header: t.csvIban, scope: 'invoice', value: doc => doc.remittance?.iban },
+    { header: t.csvSwift, scope: 'invoice', value: doc => doc.remittance?.swiftBic },
+    { header: t.csvBankAccount, scope: 'invoice', value: doc => [doc.remittance?.accountNumber, doc.remittance?.routingNumber].filter(Boolean).join(' / ') },
+    { header: t.csvDate, scope: 'all', value: doc => doc.invoiceDate },
+    { header: t.csvInvoiceNumber, scope: 'all', value: doc => doc.invoiceNumber },
+    { header: t.csvOriginalInvoice, scope: 'invoice', value: doc => doc.originalInvoiceNumber },
+    { header: t.csvPoNumber, scope: 'all', value: doc => doc.purchaseOrderNumber },
+    { header: t.csvPaymentTerms, scope: 'invoice', value: doc => doc.paymentTerms },
+    { header: t.csvDueDate, scope: 'invoice', value: doc => doc.dueDate },
+    { header: t.csvTotalAmount, scope: 'invoice', value: doc => doc.totalAmount },
+    { header: t.csvCurrency, scope: 'invoice', value: doc => doc.currencySymbol || '$' },
+    { header: t.csvSubtotal, scope: 'invoice', value: (doc, item, totals) => totals.subtotal },
+    { header: t.csvTaxTotal, scope: 'invoice', value: (doc, item, totals) => totals.taxTotal },
+    { header: t.csvTaxDetail, scope: 'invoice', value: (doc, item, totals) => totals.taxDetail },
+    { header: t.csvDiscountTotal, scope: 'invoice', value: (doc, item, totals) => totals.discountTotal },
+    { header: t.csvShippingTotal, scope: 'invoice', value: (doc, item, totals) => totals.shippingTotal },
+    { header: t.csvAmountDue, scope: 'invoice', value: (doc, item, totals) => totals.amountDue },
+    { header: t.csvShipper, scope: 'shipping', value: doc => doc.shipment?.shipperName },
+    { header: t.csvConsignee, scope: 'shipping', value: doc => doc.shipment?.consigneeName || doc.shipToAddress },
+    { header: t.csvCarrier, scope: 'shipping', value: doc => doc.shipment?.carrierName },
+    { header: t.csvProNumber, scope: 'shipping', value: doc => doc.shipment?.proNumber },
+    { header: t.csvTrackingNumber, scope: 'shipping', value: doc => doc.shipment?.trackingNumber },
+    { header: t.csvPalletCount, scope: 'shipping', value: doc => doc.shipment?.palletCount },
+    { header: t.csvPieceCount, scope: 'shipping', value: doc => doc.shipment?.pieceCount },
+    { header: t.csvGrossWeight, scope: 'shipping', value: doc => doc.shipment?.grossWeight },
+    { header: t.csvWeightUnit, scope: 'shipping', value: doc => doc.shipment?.weightUnit },
+    { header: t.csvSku, scope: 'all', value: (doc, item) => item.sku },
+    { header: t.csvDescription, scope: 'all', value: (doc, item) => item.description },
+    { header: t.csvGlCategory, scope: 'invoice', value: (doc, item) => item.glCategory },
+    { header: t.csvQuantity, scope: 'all', value: (doc, item) => item.quantity },
+    { header: t.csvUnitOfMeasure, scope: 'all', value: (doc, item) => item.unitOfMeasure },
+    { header: t.csvPackSize, scope: 'all', value: (doc, item) => item.packSize },
+    { header: t.csvUnitPrice, scope: 'invoice', value: (doc, item) => item.unitPrice },
+    { header: t.csvLineTotal, scope: 'invoice', value: (doc, item) => (item.totalAmount || 0).toFixed(2) },
+    { header: t.csvBaseQuantity, scope: 'all', value: (doc, item) => item.baseQuantity },
+    { header: t.csvBaseUnit, scope: 'all', value: (doc, item) => item.baseUnit },
+    { header: t.csvBaseUnitPrice, scope: 'invoice', value: (doc, item) => item.baseUnitPrice },
+    { header: t.csvLineWeight, scope: 'shipping', value: (doc, item) => item.weight },
+    { header: t.csvFreightClass, scope: 'shipping', value: (doc, item) => item.freightClass || doc.shipment?.freightClass }
+  ];
+
+  // Columns for a set of documents, and one row of cells per line item
+  const exportTable = (data: InvoiceData[]) => {
+    const hasInvoices = data.some(doc => !isShippingDocument(doc));
+    const hasShipments = data.some(doc => isShippingDocument(doc));
+    const columns = EXPORT_COLUMNS.filter(column => column.scope === 'all' || (column.scope === 'invoice' ? hasInvoices : hasShipments));
+    const rows = data.flatMap(doc => {
+      const totals = summarizeTotals(doc);
+      const scope = isShippingDocument(doc) ? 'shipping' : 'invoice';
+      return doc.lineItems.map(item => columns.map(column => column.scope === 'all' || column.scope === scope ? column.value(doc, item, totals) : undefined));
+    });
+    return { headers: columns.map(column => column.header), rows };
+  };
+
+  const csvCell = (value: string | number | undefined) => typeof value === 'number' ? String(value) : value ? `"${value.replace(/"/g, '""')}"` : '';
+
   const generateCSV = (data: InvoiceData[], format: string) => {
     if (format === 'csv') {
-       const headers = [t.csvDocumentType, t.csvVendor, t.csvDate, t.csvTotalAmount, t.csvCurrency, t.csvSku, t.csvDescription, t.csvGlCategory, t.csvQuantity, t.csvUnitPrice, t.csvLineTotal];
-       const allRows = data.flatMap(doc => doc.lineItems.map(item => [
-           `"${(doc.documentType || 'Unknown').replace(/"/g, '""')}"`,
-           `"${doc.vendorName.replace(/"/g, '""')}"`,
-           doc.invoiceDate,
-           doc.totalAmount,
-           doc.currencySymbol || '$',
-           `"${(item.sku || '').replace(/"/g, '""')}"`,
-           `"${item.description.replace(/"/g, '""')}"`,
-           `"${(item.glCategory || '').replace(/"/g, '""')}"`,
-           item.quantity,
-           item.unitPrice,
-           (item.totalAmount || 0).toFixed(2)
-       ]));
-       return [headers.join(','), ...allRows.map(row => row.join(','))].join('\n');
+       const { headers, rows } = exportTable(data);
+       return [headers.join(','), ...rows.map(row => row.map(csvCell).join(','))].join('\n');
     }
     // ... (Keep existing QB logic)
     if (format === 'quickbooks') {
-        const headers = ['Customer', 'InvoiceDate', 'Item', 'Quantity', 'Rate', 'Amount'];
-        const allRows = data.flatMap(doc => doc.lineItems.map(item => {
-            const d = new Date(doc.invoiceDate);
-            const qbDate = `${d.getMonth()+1}/${d.getDate()}/${d.getFullYear()}`;
+        const headers = ['InvoiceNo', 'Customer', 'InvoiceDate', 'DueDate', 'Terms', 'PONumber', 'Item', 'Quantity', 'Rate', 'Amount', 'Subtotal', 'TaxAmount', 'Discount', 'Shipping', 'AmountDue', 'Type', 'AppliesTo'];
+        // Packing slips and bills of lading are not bills; QuickBooks would book them at zero
+        // Credit notes import as vendor credits, which QuickBooks expects with positive amounts
+        const qbAmount = (value: string | number) => Math.abs(typeof value === 'number' ? value : parseFloat(value) || 0).toFixed(2);
+        const allRows = data.filter(doc => !isShippingDocument(doc)).flatMap(doc => { const totals = summarizeTotals(doc); const credit = isCreditNote(doc); return doc.lineItems.map(item => {
+            const toQbDate = (dateStr: string) => { const d = new Date(dateStr); return `${d.getMonth()+1}/${d.getDate()}/${d.getFullYear()}`; };
             return [
+                `"${(doc.invoiceNumber || '').replace(/"/g, '""')}"`,
                 `"${doc.vendorName.replace(/"/g, '""')}"`,
-                qbDate,
+                toQbDate(doc.invoiceDate),
+                doc.dueDate ? toQbDate(doc.dueDate) : '',
+                `"${(doc.paymentTerms || '').replace(/"/g, '""')}"`,
+                `"${(doc.purchaseOrderNumber || '').replace(/"/g, '""')}"`,
                 `"${item.description.replace(/"/g, '""')}"`,
-                item.quantity,
+                credit ? Math.abs(item.quantity) : item.quantity,
                 item.unitPrice,
-                (item.totalAmount || 0).toFixed(2)
+                credit ? qbAmount(item.totalAmount || 0) : (item.totalAmount || 0).toFixed(2),
+                credit ? qbAmount(totals.subtotal) : totals.subtotal,
+                credit ? qbAmount(totals.taxTotal) : totals.taxTotal,
+                totals.discountTotal,
+                totals.shippingTotal,
+                credit ? qbAmount(totals.amountDue) : totals.amountDue,
+                credit ? 'VendorCredit' : 'Bill',
+                `"${(doc.originalInvoiceNumber || '').replace(/"/g, '""')}"`
             ];
-        }));
+        }); });
         return [headers.join(','), ...allRows.map(row => row.join(','))].join('\n');
     }
     return generateCSV(data, 'csv');
@@ -445,31 +758,49 @@ const App: React.FC = () => {
     setTimeout(() => setExportNotification(null), 3000);
   }, [invoiceData, t, exportFormat]);
 
+  const downloadUbl = (documents: UblDocument[], asArchive: boolean) => {
+    const blob = asArchive ? new Blob([bundleUblDocuments(documents)], { type: 'application/zip' }) : new Blob([documents[0].xml], { type: 'application/xml' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', asArchive ? `combined_peppol_ubl_${new Date().toISOString().split('T')[0]}.zip` : documents[0].fileName);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setUblReview(null);
+    setExportNotification(`✓ ${t.ublExported.replace('{count}', documents.length.toString())}`);
+    setTimeout(() => setExportNotification(null), 3000);
+  };
+
+  // Shipping documents have no UBL counterpart; anything missing mandatory terms is reviewed before download
+  const handleExportUbl = (docs: InvoiceData[], asArchive: boolean) => {
+    const exportable = docs.filter(doc => !isShippingDocument(doc));
+    if (exportable.length === 0) {
+      setExportNotification(t.ublNothingToExport);
+      setTimeout(() => setExportNotification(null), 3000);
+      return;
+    }
+    const documents = exportable.map(doc => buildUblInvoice(doc, activeWorkspace.peppol));
+    if (documents.some(doc => doc.issues.length > 0)) setUblReview({ documents, asArchive });
+    else downloadUbl(documents, asArchive);
+  };
+
   const handleDownloadMain = () => {
      if (exportFormat === 'json') { handleDownloadJSON(); return; }
+     if (exportFormat === 'ubl') { if (invoiceData) handleExportUbl([invoiceData], false); return; }
      if (exportFormat === 'excel') { handleDownloadExcel(); return; }
      handleDownloadCSV();
   };
 
   const handleDownloadExcel = useCallback(() => {
     if (!invoiceData) return;
-    const headers = [t.csvDocumentType, t.csvVendor, t.csvDate, t.csvTotalAmount, t.csvCurrency, t.csvSku, t.csvDescription, t.csvGlCategory, t.csvQuantity, t.csvUnitPrice, t.csvLineTotal];
+    const { headers, rows } = exportTable([invoiceData]);
     let tableHtml = '<html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:x="urn:schemas-microsoft-com:office:excel" xmlns="http://www.w3.org/TR/REC-html40"><head><meta http-equiv="content-type" content="text/plain; charset=UTF-8"/></head><body><table><thead><tr>';
     headers.forEach(h => tableHtml += `<th>${h}</th>`);
     tableHtml += '</tr></thead><tbody>';
-    invoiceData.lineItems.forEach(item => {
+    rows.forEach(row => {
         tableHtml += '<tr>';
-        tableHtml += `<td>${invoiceData.documentType || ''}</td>`;
-        tableHtml += `<td>${invoiceData.vendorName}</td>`;
-        tableHtml += `<td>${invoiceData.invoiceDate}</td>`;
-        tableHtml += `<td>${invoiceData.totalAmount}</td>`;
-        tableHtml += `<td>${invoiceData.currencySymbol}</td>`;
-        tableHtml += `<td>${item.sku || ''}</td>`;
-        tableHtml += `<td>${item.description}</td>`;
-        tableHtml += `<td>${item.glCategory}</td>`;
-        tableHtml += `<td>${item.quantity}</td>`;
-        tableHtml += `<td>${item.unitPrice}</td>`;
-        tableHtml += `<td>${item.totalAmount}</td>`;
+        row.forEach(value => tableHtml += `<td>${value ?? ''}</td>`);
         tableHtml += '</tr>';
     });
     tableHtml += '</tbody></table></body></html>';
@@ -500,6 +831,7 @@ const App: React.FC = () => {
 
   const handleExportAll = () => {
     if (sessionHistory.length === 0) return;
+    if (exportFormat === 'ubl') { handleExportUbl(sessionHistory, true); return; }
     const csvContent = generateCSV(sessionHistory, exportFormat);
     const blob = new Blob(["\uFEFF" + csvContent], { type: 'text/csv;charset=utf-8;' });
     const url = URL.createObjectURL(blob);
@@ -538,6 +870,9 @@ const App: React.FC = () => {
                     onNewInvoice={handleNewInvoice} onExportAll={handleExportAll} onClearAll={handleClearAllRequest}
                     t={t} isDemoMode={isDemoMode} onToggleDemoMode={() => setIsDemoMode(!isDemoMode)}
                     onToggleHistory={() => {}} exportFormat={exportFormat} onExportFormatChange={setExportFormat}
+                    workspaceName={activeWorkspace.name} providerLabel={`${PROVIDER_LABELS[activeWorkspace.provider.kind]} · ${activeWorkspace.provider.model}`} onOpenSettings={() => setShowWorkspaceSettings(true)}
+                    vendorMasterCount={vendorMaster.length} onImportVendorMaster={handleImportVendorMaster} onClearVendorMaster={handleClearVendorMaster}
+                    sessionUsage={sessionUsage} costSettings={costSettings} matchGroups={matchGroups} onOpenMatching={() => setShowMatching(true)}
                 />
             </aside>
 
@@ -550,6 +885,9 @@ const App: React.FC = () => {
                             onNewInvoice={handleNewInvoice} onExportAll={handleExportAll} onClearAll={handleClearAllRequest}
                             t={t} isDemoMode={isDemoMode} onToggleDemoMode={() => setIsDemoMode(!isDemoMode)}
                             onToggleHistory={() => setShowMobileHistory(false)} exportFormat={exportFormat} onExportFormatChange={setExportFormat}
+                            workspaceName={activeWorkspace.name} providerLabel={`${PROVIDER_LABELS[activeWorkspace.provider.kind]} · ${activeWorkspace.provider.model}`} onOpenSettings={() => setShowWorkspaceSettings(true)}
+                            vendorMasterCount={vendorMaster.length} onImportVendorMaster={handleImportVendorMaster} onClearVendorMaster={handleClearVendorMaster}
+                            sessionUsage={sessionUsage} costSettings={costSettings} matchGroups={matchGroups} onOpenMatching={() => { setShowMobileHistory(false); setShowMatching(true); }}
                         />
                     </aside>
                 </div>
@@ -574,15 +912,23 @@ const App: React.FC = () => {
 
                     <div className={`transition-all duration-700 ease-in-out ${currentView === 'editor' ? 'grid grid-cols-1 lg:grid-cols-5 gap-8' : 'max-w-3xl mx-auto'}`}>
                         <div className={`space-y-6 ${currentView === 'editor' ? 'lg:col-span-1' : 'w-full'}`}>
-                            <FileUpload onFileSelect={handleFileSelect} selectedFiles={files} onClearFile={handleClearFile} disabled={processingState.status === 'processing' || processingState.status === 'quota_cooldown'} onError={handleError} t={t} />
+                            <FileUpload onFileSelect={handleFileSelect} selectedFiles={files} onClearFile={handleClearFile} disabled={processingState.status === 'processing' || processingState.status === 'quota_cooldown'} onError={handleError} t={t} preprocessing={activeWorkspace.preprocessing} />
                             {processingState.status === 'error' && (<div className="p-4 bg-red-50 dark:bg-red-500/10 border border-red-200 dark:border-red-500/20 rounded-xl space-y-3 animate-in fade-in slide-in-from-top-2"><div className="flex items-start space-x-3 text-red-600 dark:text-red-400"><AlertCircle className="w-5 h-5 shrink-0 mt-0.5" /><p className="text-sm font-medium">{processingState.message}</p></div><button onClick={handleTransform} className="w-full py-2 text-xs font-bold uppercase tracking-wide bg-red-100 dark:bg-red-500/20 text-red-700 dark:text-red-300 rounded-lg hover:bg-red-200 dark:hover:bg-red-500/30 transition-colors flex items-center justify-center space-x-2"><RefreshCw className="w-3.5 h-3.5" /><span>{t.tryAgain}</span></button></div>)}
-                            {processingState.status === 'quota_cooldown' && (<div className="p-4 bg-amber-50 dark:bg-amber-500/10 border border-amber-200 dark:border-amber-500/20 rounded-xl space-y-2 animate-in fade-in slide-in-from-top-2"><div className="flex items-start space-x-3 text-amber-600 dark:text-amber-400"><Clock className="w-5 h-5 shrink-0 mt-0.5" /><div className="flex-1"><p className="text-sm font-bold">{processingState.message}</p><p className="text-xs mt-1 opacity-80">{t.quotaCooldown} <span className="font-mono font-bold">{retryCountdown}s</span>...</p></div></div><div className="w-full bg-amber-200 dark:bg-amber-500/20 rounded-full h-1.5 overflow-hidden"><div className="bg-amber-500 h-full transition-all duration-1000 ease-linear" style={{ width: `${(retryCountdown / 60) * 100}%` }}></div></div></div>)}
+                            {processingState.status === 'quota_cooldown' && (<div className="p-4 bg-amber-50 dark:bg-amber-500/10 border border-amber-200 dark:border-amber-500/20 rounded-xl space-y-2 animate-in fade-in slide-in-from-top-2"><div className="flex items-start space-x-3 text-amber-600 dark:text-amber-400"><Clock className="w-5 h-5 shrink-0 mt-0.5" /><div className="flex-1"><p className="text-sm font-bold">{processingState.message}</p><p className="text-xs mt-1 opacity-80">{t.quotaCooldown} <span className="font-mono font-bold">{retryCountdown}s</span>...</p>{!!processingState.queued && <p className="text-[10px] mt-1 font-mono opacity-70">{t.queueStatus.replace('{count}', processingState.queued.toString()).replace('{eta}', (processingState.etaSeconds || 0).toString())}</p>}</div></div><div className="w-full bg-amber-200 dark:bg-amber-500/20 rounded-full h-1.5 overflow-hidden"><div className="bg-amber-500 h-full transition-all duration-1000 ease-linear" style={{ width: `${(retryCountdown / (processingState.retryIn || 60)) * 100}%` }}></div></div></div>)}
                             {files.length > 0 && (!invoiceData || processingState.status === 'idle') && processingState.status !== 'processing' && processingState.status !== 'quota_cooldown' && (<button onClick={handleTransform} className="w-full py-4 bg-gradient-to-r from-indigo-600 to-blue-600 hover:from-indigo-500 hover:to-blue-500 text-white rounded-xl font-bold tracking-wide shadow-lg shadow-indigo-500/25 flex items-center justify-center space-x-2 transition-all transform hover:scale-[1.02] active:scale-[0.98] ring-1 ring-white/10">{files.length > 1 ? <Layers className="w-5 h-5" /> : <Wand2 className="w-5 h-5" />}<span>{files.length > 1 ? t.sanitizeBatch.replace('{count}', files.length.toString()) : t.sanitizeAction}</span></button>)}
-                            {processingState.status === 'processing' && (<div className="text-center py-10 space-y-4 bg-white/50 dark:bg-slate-800/20 rounded-xl border border-slate-200 dark:border-white/5 backdrop-blur-sm"><div className="relative"><div className="absolute inset-0 bg-indigo-500 blur-xl opacity-20 animate-pulse rounded-full"></div><Loader2 className="w-10 h-10 text-indigo-600 dark:text-indigo-400 animate-spin mx-auto relative z-10" /></div><p className="text-sm font-medium text-indigo-600 dark:text-indigo-300 animate-pulse tracking-wide transition-all duration-300">{processingState.message}</p></div>)}
+                            {files.length > 0 && (!invoiceData || processingState.status === 'idle') && processingState.status !== 'processing' && processingState.status !== 'quota_cooldown' && (<label className="flex items-center justify-center space-x-2 text-[10px] font-bold text-slate-500 uppercase tracking-wider cursor-pointer"><input type="checkbox" checked={forceReextract} onChange={(e) => setForceReextract(e.target.checked)} className="accent-indigo-600" /><span>{t.forceReextract}</span></label>)}
+                            {queueSnapshot && queueSnapshot.items.length > 0 && (<QueuePanel snapshot={queueSnapshot} processingState={processingState} positions={schedulerStatus?.pending} onPause={queue.pause} onResume={queue.resume} onCancel={queue.cancel} onRetry={queue.retry} onClearFinished={queue.clearFinished} onConcurrencyChange={queue.setConcurrency} onReviewDuplicate={handleReviewDuplicate} notice={budgetExceeded && queueSnapshot.paused ? t.budgetExceeded.replace('{budget}', formatCost(sessionBudget!)).replace('{spent}', formatCost(sessionCost)) : undefined} onOpen={(item) => { const inv = sessionHistory.find(doc => doc.id === item.invoice?.id); if (inv) handleHistorySelect(inv); }} t={t} />)}
                             {currentView === 'editor' && invoiceData && (<div className="bg-white/60 dark:bg-slate-800/40 backdrop-blur-sm p-4 rounded-xl border border-slate-200 dark:border-white/5 text-sm text-slate-500 dark:text-slate-400 shadow-xl dark:shadow-lg transition-colors duration-500"><p className="font-bold text-slate-800 dark:text-slate-300 mb-3 uppercase tracking-wider text-[10px]">{t.activeDoc}</p><div className="flex items-center space-x-3 mb-4"><div className="p-2 bg-slate-100 dark:bg-slate-700/50 rounded-lg shrink-0"><ShieldCheck className="w-5 h-5 text-indigo-600 dark:text-indigo-400" /></div><div className="overflow-hidden min-w-0"><p className="truncate font-medium text-slate-800 dark:text-slate-200 text-xs">{invoiceData.vendorName}</p><p className="text-[10px] mt-0.5 text-slate-500">{invoiceData.documentType}</p></div></div></div>)}
                         </div>
 
-                        {currentView === 'editor' && invoiceData && (
+                        {provisionalInvoice && (
+                            <div className="lg:col-span-4 space-y-6 min-w-0 animate-in fade-in duration-300">
+                                <h2 className="text-xl font-bold text-slate-900 dark:text-white tracking-wide flex items-center"><span className="w-2 h-6 bg-indigo-500 rounded-full mr-3 animate-pulse"></span>{t.extractedData}</h2>
+                                <InvoiceEditor data={provisionalInvoice} onChange={() => {}} t={t} targetCurrency={targetCurrency} />
+                            </div>
+                        )}
+
+                        {currentView === 'editor' && invoiceData && !provisionalInvoice && (
                         <>
                             {/* CHANGED FROM 5 TO 4 TO FIX LAYOUT */}
                             <div className="lg:col-span-4 mb-6">
@@ -600,12 +946,15 @@ const App: React.FC = () => {
                                         <button onClick={handleCopyToClipboard} className="flex items-center gap-2 px-3 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300 text-xs font-bold rounded-lg shadow-sm transition-all" title={t.copyToClipboard}><Copy className="w-4 h-4" /><span>Copy Data</span></button>
                                         <button onClick={handleDownloadExcel} className="flex items-center gap-2 px-3 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300 text-xs font-bold rounded-lg shadow-sm transition-all" title="Save as Excel"><Table className="w-4 h-4" /><span>Save Excel</span></button>
                                         <button onClick={() => window.print()} className="flex items-center gap-2 px-3 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300 text-xs font-bold rounded-lg shadow-sm transition-all" title={t.printPdf}><Printer className="w-4 h-4" /><span>Print / PDF</span></button>
-                                        <button onClick={handleDownloadMain} className="flex items-center gap-2 px-3 py-2 bg-indigo-50 dark:bg-indigo-500/10 border border-indigo-200 dark:border-indigo-500/30 hover:bg-indigo-100 dark:hover:bg-indigo-500/20 text-indigo-700 dark:text-indigo-300 text-xs font-bold rounded-lg shadow-sm transition-all ml-1" title={t.exportCsv}><Download className="w-3.5 h-3.5" /><span>Export {exportFormat === 'csv' ? 'CSV' : exportFormat.toUpperCase()}</span></button>
+                                        <button onClick={handleDownloadMain} className="flex items-center gap-2 px-3 py-2 bg-indigo-50 dark:bg-indigo-500/10 border border-indigo-200 dark:border-indigo-500/30 hover:bg-indigo-100 dark:hover:bg-indigo-500/20 text-indigo-700 dark:text-indigo-300 text-xs font-bold rounded-lg shadow-sm transition-all ml-1" title={t.exportCsv}><Download className="w-3.5 h-3.5" /><span>Export {exportFormat === 'csv' ? 'CSV' : exportFormat === 'ubl' ? 'UBL' : exportFormat.toUpperCase()}</span></button>
                                     </div>
                                 </div>
                                 {exportNotification && (<div className="p-3 bg-emerald-50 dark:bg-emerald-500/10 border border-emerald-200 dark:border-emerald-500/20 rounded-lg text-emerald-700 dark:text-emerald-400 text-xs font-bold text-center animate-in fade-in slide-in-from-top-2 duration-300">{exportNotification}</div>)}
                                 {invoiceData.hasSensitiveData && (<div className="p-4 bg-amber-50 dark:bg-amber-500/10 border border-amber-200 dark:border-amber-500/30 rounded-xl flex items-start space-x-3 animate-in fade-in slide-in-from-top-2"><AlertTriangle className="w-5 h-5 text-amber-600 dark:text-amber-500 shrink-0 mt-0.5" /><div><h3 className="text-sm font-bold text-amber-800 dark:text-amber-400">{t.sensitiveDetected}: <span className="font-normal text-amber-700 dark:text-amber-300">{invoiceData.sensitiveDataTypes?.join(', ')}</span></h3><p className="text-xs text-amber-600 dark:text-amber-500/80 mt-1">{t.complianceWarning}</p></div></div>)}
-                                <InvoiceEditor data={invoiceData} onChange={handleInvoiceChange} t={t} targetCurrency={targetCurrency} />
+                                <div className={sourceFiles[invoiceData.id] ? 'grid grid-cols-1 2xl:grid-cols-3 gap-6 items-start' : ''}>
+                                    <div className="2xl:col-span-2 min-w-0"><InvoiceEditor data={invoiceData} onChange={handleInvoiceChange} t={t} targetCurrency={targetCurrency} onFieldFocus={setFocusedField} matchGroup={findMatchGroup(matchGroups, invoiceData.id)} onOpenMatch={() => setShowMatching(true)} creditOriginal={creditOriginal} credits={linkedCredits} onSelectDocument={handleHistorySelect} /></div>
+                                    {sourceFiles[invoiceData.id] && <DocumentViewer file={sourceFiles[invoiceData.id]} highlight={focusedRegion} hasFocus={!!focusedField} t={t} />}
+                                </div>
                             </div>
                         </>
                         )}
@@ -616,8 +965,11 @@ const App: React.FC = () => {
 
         {showHomeConfirm && (<div className="fixed inset-0 z-[100] flex items-center justify-center p-4"><div className="absolute inset-0 bg-black/40 dark:bg-black/60 backdrop-blur-sm transition-opacity" onClick={cancelNavigateHome} /><div className="relative bg-white dark:bg-slate-900 rounded-2xl shadow-2xl max-w-md w-full p-6 border border-slate-200 dark:border-slate-700 animate-in zoom-in-95 duration-200"><div className="flex items-start space-x-4"><div className="p-3 bg-amber-100 dark:bg-amber-500/10 rounded-full shrink-0"><AlertTriangle className="w-6 h-6 text-amber-600 dark:text-amber-500" /></div><div className="flex-1"><h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2">Unsaved Changes</h3><p className="text-sm text-slate-600 dark:text-slate-400 leading-relaxed">You have unsaved changes. Starting a new invoice will lose your current work. Are you sure you want to continue?</p></div></div><div className="mt-8 flex items-center justify-end space-x-3"><button onClick={cancelNavigateHome} className="px-4 py-2 text-sm font-semibold text-slate-700 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-lg transition-colors">Cancel</button><button onClick={confirmNavigateHome} className="px-4 py-2 text-sm font-semibold text-white bg-red-600 hover:bg-red-500 rounded-lg shadow-lg shadow-red-500/20 transition-all transform hover:-translate-y-0.5">Start New Invoice</button></div></div></div>)}
         {showClearConfirm && (<div className="fixed inset-0 z-[100] flex items-center justify-center p-4"><div className="absolute inset-0 bg-black/40 dark:bg-black/60 backdrop-blur-sm transition-opacity" onClick={cancelClearAll} /><div className="relative bg-white dark:bg-slate-900 rounded-2xl shadow-2xl max-w-md w-full p-6 border border-slate-200 dark:border-slate-700 animate-in zoom-in-95 duration-200"><div className="flex items-start space-x-4"><div className="p-3 bg-red-100 dark:bg-red-500/10 rounded-full shrink-0"><AlertTriangle className="w-6 h-6 text-red-600 dark:text-red-500" /></div><div className="flex-1"><h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2">{t.clearDataConfirmTitle}</h3><p className="text-sm text-slate-600 dark:text-slate-400 leading-relaxed">{t.clearDataConfirmMessage.replace('{count}', sessionHistory.length.toString())}</p></div></div><div className="mt-8 flex items-center justify-end space-x-3"><button onClick={cancelClearAll} className="px-4 py-2 text-sm font-semibold text-slate-700 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-lg transition-colors">Cancel</button><button onClick={confirmClearAll} className="px-4 py-2 text-sm font-semibold text-white bg-red-600 hover:bg-red-500 rounded-lg shadow-lg shadow-red-500/20 transition-all transform hover:-translate-y-0.5">Clear All Data</button></div></div></div>)}
+        {showWorkspaceSettings && (<WorkspaceSettingsModal workspaces={workspaces} activeId={activeWorkspace.id} onSave={handleSaveWorkspaces} onClose={() => setShowWorkspaceSettings(false)} t={t} />)}
         {clearNotification && (<div className="fixed bottom-6 right-6 z-[150] p-4 bg-emerald-50 dark:bg-emerald-500/10 border border-emerald-200 dark:border-emerald-500/20 rounded-xl shadow-2xl flex items-center space-x-3 animate-in slide-in-from-bottom-5 duration-300"><div className="p-1 bg-emerald-100 dark:bg-emerald-500/20 rounded-full"><ShieldCheck className="w-5 h-5 text-emerald-600 dark:text-emerald-400" /></div><p className="text-sm font-bold text-emerald-800 dark:text-emerald-400">{clearNotification}</p></div>)}
-        {duplicateWarning.show && duplicateWarning.invoice && (<div className="fixed inset-0 z-[200] flex items-center justify-center p-4"><div className="absolute inset-0 bg-black/50 dark:bg-black/70 backdrop-blur-sm transition-opacity" onClick={cancelDuplicate} /><div className="relative bg-white dark:bg-slate-900 rounded-2xl shadow-2xl max-w-md w-full p-6 border border-slate-200 dark:border-slate-700 animate-in zoom-in-95 duration-200"><div className="flex items-start space-x-4"><div className="p-3 bg-indigo-100 dark:bg-indigo-500/10 rounded-full shrink-0"><Copy className="w-6 h-6 text-indigo-600 dark:text-indigo-400" /></div><div className="flex-1"><h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2">Possible Duplicate Detected</h3><p className="text-sm text-slate-600 dark:text-slate-400 leading-relaxed">An invoice from <span className="font-bold text-slate-900 dark:text-white">{duplicateWarning.invoice.vendorName}</span> {' '}on <span className="font-mono">{duplicateWarning.invoice.invoiceDate}</span> {' '}for <span className="font-bold text-slate-900 dark:text-white">{duplicateWarning.invoice.currencySymbol}{duplicateWarning.invoice.totalAmount.toFixed(2)}</span> {' '}already exists in this session.</p><p className="text-xs text-slate-500 mt-2 italic">This might be a duplicate upload.</p></div></div><div className="mt-8 flex items-center justify-end space-x-3"><button onClick={cancelDuplicate} className="px-4 py-2 text-sm font-semibold text-slate-700 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-lg transition-colors">Cancel Upload</button><button onClick={confirmDuplicate} className="px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-500 rounded-lg shadow-lg shadow-indigo-500/20 transition-all transform hover:-translate-y-0.5">Add Anyway</button></div></div></div>)}
+        {showMatching && (<ThreeWayMatchView groups={matchGroups} currentId={invoiceData?.id} onSelect={(doc) => { handleHistorySelect(doc); setShowMatching(false); }} onClose={() => setShowMatching(false)} t={t} />)}
+        {duplicateWarning.show && duplicateWarning.invoice && duplicateWarning.match && (<DuplicateReviewModal invoice={duplicateWarning.invoice} match={duplicateWarning.match} onDiscard={cancelDuplicate} onAddAnyway={confirmDuplicate} onNotDuplicate={dismissDuplicate} t={t} />)}
+        {ublReview && (<UblExportReviewModal documents={ublReview.documents} onCancel={() => setUblReview(null)} onDownload={() => downloadUbl(ublReview.documents, ublReview.asArchive)} t={t} />)}
       </div>
     </div>
   );
@@ -0,0 +1,120 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Crosshair, FileSearch, Loader2 } from 'lucide-react';
+import * as pdfjs from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { SourceRegion } from '../types';
+import { TranslationDictionary } from '../utils/translations';
+import { isPdfFile } from '../utils/pdfPages';
+import { documentText, isTextDocument } from '../utils/fileEncoding';
+
+pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+interface DocumentViewerProps {
+  file: File;
+  highlight?: SourceRegion | null;
+  hasFocus?: boolean; // A field is focused, even if it has no recorded region
+  t: TranslationDictionary;
+}
+
+// Render scale for PDF pages; the canvas is then shrunk to the panel width via CSS.
+const PDF_RENDER_SCALE = 1.5;
+
+export const DocumentViewer: React.FC<DocumentViewerProps> = ({ file, highlight, hasFocus, t }) => {
+  const isPdf = isPdfFile(file);
+  const isText = isTextDocument(file); // Email bodies and XML e-invoices
+  const [pdfDoc, setPdfDoc] = useState<pdfjs.PDFDocumentProxy | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [bodyText, setBodyText] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [isRendering, setIsRendering] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+  const pageCount = isPdf ? (pdfDoc?.numPages || 1) : 1;
+
+  // Load the source document whenever a different file is shown
+  useEffect(() => {
+    setPage(1);
+    // Shown as text: rendering the HTML would load its remote images and tell the sender it was opened
+    if (isText) {
+      let cancelled = false;
+      setImageUrl(null);
+      setPdfDoc(null);
+      documentText(file).then(text => { if (!cancelled) setBodyText(text); });
+      return () => { cancelled = true; };
+    }
+    if (!isPdf) {
+      const url = URL.createObjectURL(file);
+      setImageUrl(url);
+      setPdfDoc(null);
+      return () => URL.revokeObjectURL(url);
+    }
+
+    let cancelled = false;
+    let loaded: pdfjs.PDFDocumentProxy | null = null;
+    setImageUrl(null);
+    file.arrayBuffer()
+      .then(buffer => pdfjs.getDocument({ data: buffer }).promise)
+      .then(doc => { loaded = doc; if (!cancelled) setPdfDoc(doc); })
+      .catch(err => console.error("Failed to open PDF for preview:", err));
+    return () => { cancelled = true; loaded?.destroy(); };
+  }, [file, isPdf, isText]);
+
+  // Jump to the page holding the focused field
+  useEffect(() => {
+    if (highlight && highlight.page !== page && highlight.page <= pageCount) setPage(highlight.page);
+  }, [highlight, pageCount]);
+
+  useEffect(() => {
+    if (!pdfDoc || !canvasRef.current) return;
+    let task: ReturnType<pdfjs.PDFPageProxy['render']> | null = null;
+    let cancelled = false;
+    setIsRendering(true);
+    pdfDoc.getPage(page).then(pdfPage => {
+      if (cancelled || !canvasRef.current) return;
+      const viewport = pdfPage.getViewport({ scale: PDF_RENDER_SCALE });
+      const canvas = canvasRef.current;
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      task = pdfPage.render({ canvasContext: canvas.getContext('2d')!, viewport });
+      return task.promise;
+    })
+    .catch(err => { if (err?.name !== 'RenderingCancelledException') console.error("PDF render failed:", err); })
+    .finally(() => { if (!cancelled) setIsRendering(false); });
+    return () => { cancelled = true; task?.cancel(); };
+  }, [pdfDoc, page]);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [highlight, page]);
+
+  const showHighlight = highlight && highlight.page === page;
+
+  return (
+    <div className="bg-white/60 dark:bg-slate-800/40 backdrop-blur-sm rounded-xl border border-slate-200 dark:border-slate-700/50 shadow-sm overflow-hidden 2xl:sticky 2xl:top-4">
+      <div className="px-3 py-2 border-b border-slate-200 dark:border-slate-700/50 flex items-center justify-between bg-white/40 dark:bg-white/5">
+        <div className="flex items-center space-x-2 min-w-0"><FileSearch className="w-3.5 h-3.5 text-indigo-500 shrink-0" /><span className="text-[10px] font-bold uppercase tracking-widest text-slate-600 dark:text-slate-300 truncate" title={file.name}>{t.sourceDocument}</span></div>
+        {pageCount > 1 && (
+          <div className="flex items-center space-x-1 shrink-0">
+            <button onClick={() => setPage(p => Math.max(1, p - 1))} disabled={page <= 1} className="p-1 rounded text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-30"><ChevronLeft className="w-3.5 h-3.5" /></button>
+            <span className="text-[10px] font-mono text-slate-500">{page} / {pageCount}</span>
+            <button onClick={() => setPage(p => Math.min(pageCount, p + 1))} disabled={page >= pageCount} className="p-1 rounded text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-30"><ChevronRight className="w-3.5 h-3.5" /></button>
+          </div>
+        )}
+      </div>
+      <div className="max-h-[75vh] overflow-auto bg-slate-100 dark:bg-slate-900/60 p-2">
+        <div className="relative">
+          {isPdf ? <canvas ref={canvasRef} className="block w-full h-auto bg-white shadow" /> : isText ? <pre className="p-4 bg-white dark:bg-slate-800 text-xs text-slate-800 dark:text-slate-200 whitespace-pre-wrap break-words font-mono shadow">{bodyText}</pre> : imageUrl && <img src={imageUrl} alt={file.name} className="block w-full h-auto shadow" />}
+          {isRendering && <div className="absolute inset-0 flex items-center justify-center bg-white/40 dark:bg-slate-900/40"><Loader2 className="w-5 h-5 text-indigo-500 animate-spin" /></div>}
+          {showHighlight && (
+            <div
+              ref={highlightRef}
+              className="absolute border-2 border-indigo-500 bg-indigo-500/15 rounded-sm shadow-[0_0_0_4px_rgba(99,102,241,0.2)] pointer-events-none transition-all duration-300"
+              style={{ left: `${highlight.x * 100}%`, top: `${highlight.y * 100}%`, width: `${highlight.width * 100}%`, height: `${highlight.height * 100}%` }}
+            />
+          )}
+        </div>
+      </div>
+      {hasFocus && !highlight && (<div className="px-3 py-2 border-t border-slate-200 dark:border-slate-700/50 flex items-center space-x-2 text-[10px] text-slate-500"><Crosshair className="w-3 h-3 opacity-60" /><span>{t.noSourceRegion}</span></div>)}
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Copy, Check, Minus } from 'lucide-react';
+import { InvoiceData } from '../types';
+import { TranslationDictionary } from '../utils/translations';
+import { DuplicateMatch } from '../services/duplicateDetection';
+
+interface DuplicateReviewModalProps {
+  invoice: InvoiceData; // The new upload
+  match: DuplicateMatch;
+  onDiscard: () => void;
+  onAddAnyway: () => void;
+  onNotDuplicate: () => void;
+  t: TranslationDictionary;
+}
+
+const signalTone = (score: number) => score >= 0.8 ? 'text-amber-600 dark:text-amber-400' : score > 0 ? 'text-slate-600 dark:text-slate-300' : 'text-slate-400';
+
+export const DuplicateReviewModal: React.FC<DuplicateReviewModalProps> = ({ invoice, match, onDiscard, onAddAnyway, onNotDuplicate, t }) => {
+  const existing = match.invoice;
+  const rows: { label: string, incoming: string, known: string }[] = [
+    { label: t.vendorName, incoming: invoice.vendorName, known: existing.vendorName },
+    { label: t.invoiceNumber, incoming: invoice.invoiceNumber || '—', known: existing.invoiceNumber || '—' },
+    { label: t.invoiceDate, incoming: invoice.invoiceDate, known: existing.invoiceDate },
+    { label: t.totalAmount, incoming: `${invoice.currencySymbol}${invoice.totalAmount.toFixed(2)}`, known: `${existing.currencySymbol}${existing.totalAmount.toFixed(2)}` },
+    { label: t.lineItems, incoming: invoice.lineItems.length.toString(), known: existing.lineItems.length.toString() }
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/50 dark:bg-black/70 backdrop-blur-sm transition-opacity" onClick={onDiscard} />
+      <div className="relative bg-white dark:bg-slate-900 rounded-2xl shadow-2xl max-w-2xl w-full p-6 border border-slate-200 dark:border-slate-700 animate-in zoom-in-95 duration-200 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start space-x-4">
+          <div className="p-3 bg-amber-100 dark:bg-amber-500/10 rounded-full shrink-0"><Copy className="w-6 h-6 text-amber-600 dark:text-amber-400" /></div>
+          <div className="flex-1 min-w-0"><h3 className="text-lg font-bold text-slate-900 dark:text-white">{t.duplicateTitle}</h3><p className="text-sm font-mono font-bold text-amber-600 dark:text-amber-400">{t.duplicateMatchScore.replace('{score}', Math.round(match.score * 100).toString())}</p></div>
+        </div>
+
+        <table className="w-full mt-6 text-sm table-fixed">
+          <thead><tr className="text-[10px] font-bold text-slate-500 uppercase tracking-wider"><th className="w-1/4 text-left pb-2"></th><th className="text-left pb-2">{t.duplicateIncoming}</th><th className="text-left pb-2">{t.duplicateExisting}</th></tr></thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+            {rows.map(row => (
+              <tr key={row.label} className={row.incoming === row.known ? 'bg-amber-50/60 dark:bg-amber-500/5' : ''}>
+                <td className="py-2 pr-2 text-[10px] font-bold text-slate-500 uppercase tracking-wider">{row.label}</td>
+                <td className="py-2 pr-2 font-mono text-slate-900 dark:text-white truncate" title={row.incoming}>{row.incoming}</td>
+                <td className="py-2 font-mono text-slate-900 dark:text-white truncate" title={row.known}>{row.known}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="mt-6">
+          <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2">{t.duplicateSignals}</p>
+          <ul className="space-y-1">
+            {match.signals.map(signal => (
+              <li key={signal.key} className={`flex items-start gap-2 text-xs ${signalTone(signal.score)}`}>
+                {signal.score >= 0.8 ? <Check className="w-3.5 h-3.5 shrink-0 mt-0.5" /> : <Minus className="w-3.5 h-3.5 shrink-0 mt-0.5" />}
+                <span className="flex-1">{signal.detail}</span>
+                <span className="font-mono text-[10px] text-slate-400">{Math.round(signal.score * 100)}%</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="mt-8 flex flex-wrap items-center justify-end gap-3">
+          <button onClick={onDiscard} className="px-4 py-2 text-sm font-semibold text-slate-700 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-lg transition-colors">{t.discardUpload}</button>
+          <button onClick={onAddAnyway} className="px-4 py-2 text-sm font-semibold text-slate-700 dark:text-slate-300 border border-slate-200 dark:border-slate-700 hover:border-indigo-500/40 rounded-lg transition-colors">{t.addAnyway}</button>
+          <button onClick={onNotDuplicate} title={t.notDuplicateHint} className="px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-500 rounded-lg shadow-lg shadow-indigo-500/20 transition-all transform hover:-translate-y-0.5">{t.notDuplicate}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,11 @@
-import React, { useRef, useState, useCallback } from 'react';
-import { Upload, FileText, X, Files, Aperture } from 'lucide-react';
+import React, { useRef, useState, useCallback, useEffect } from 'react';
+import { Upload, FileText, X, Files, Aperture, Loader2 } from 'lucide-react';
 import { TranslationDictionary } from '../utils/translations';
+import { ImagePreprocessingSettings } from '../types';
+import { CropBox, DEFAULT_PREPROCESSING, PreprocessedImage, isPreprocessableImage, preprocessImage } from '../utils/imagePreprocessing';
+import { PreprocessPreview } from './PreprocessPreview';
+import { carryEmailProvenance, extractEmailDocuments, isEmailFile, isOutlookMessage } from '../utils/emailMessage';
+import { isXmlFile } from '../utils/xmlDocument';
 
 interface FileUploadProps {
   onFileSelect: (files: File[]) => void;
@@ -11,35 +16,94 @@ interface FileUploadProps {
   t: TranslationDictionary;
   isDemoMode?: boolean;
   onToggleDemoMode?: () => void;
+  preprocessing?: ImagePreprocessingSettings;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, selectedFiles, onClearFile, disabled, onError, t }) => {
+export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, selectedFiles, onClearFile, disabled, onError, t, preprocessing = DEFAULT_PREPROCESSING }) => {
   const [isDragging, setIsDragging] = useState(false);
+  // Keyed by the processed file that was handed to the parent, so a preview follows its file.
+  const [previews, setPreviews] = useState<Map<File, PreprocessedImage>>(new Map());
+  const [isPreparing, setIsPreparing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
-  const MAX_FILES = 5;
+  const MAX_FILES = 100; // The ingestion queue works through them with bounded parallelism
 
-  const handleFiles = useCallback((files: FileList | null) => {
+  useEffect(() => {
+    setPreviews(prev => {
+      if (prev.size === 0) return prev;
+      const kept = new Map<File, PreprocessedImage>();
+      prev.forEach((preview, file) => { if (selectedFiles.includes(file)) kept.set(file, preview); });
+      return kept;
+    });
+  }, [selectedFiles]);
+
+  // A photo that cannot be decoded (e.g. HEIC in some browsers) is still sent as-is.
+  const prepare = async (file: File, cropOverride?: CropBox): Promise<PreprocessedImage | null> => {
+    if (!preprocessing.enabled || !isPreprocessableImage(file)) return null;
+    try {
+      return await preprocessImage(file, preprocessing, cropOverride);
+    } catch (e) {
+      console.warn(`Image preprocessing failed for ${file.name}, sending original`, e);
+      return null;
+    }
+  };
+
+  const handleFiles = useCallback(async (files: FileList | null) => {
     if (!files || files.length === 0) return;
     const validFiles: File[] = [];
     let hasInvalid = false;
 
-    Array.from(files).forEach((file: File) => {
+    setIsPreparing(true);
+    for (const file of Array.from(files)) {
         // PARANOID CHECK: Allow PDF via MIME or Extension (Fixes Windows bug)
         if (file.type.startsWith('image/') || file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
             validFiles.push(file);
+        } else if (isXmlFile(file)) {
+            // E-invoice XML; browsers do not agree on its MIME type, and the model needs one if it has to read it
+            validFiles.push(file.type === 'application/xml' || file.type === 'text/xml' ? file : new File([file], file.name, { type: 'application/xml' }));
+        } else if (isEmailFile(file)) {
+            // Parsed here, so each attachment shows up and is queued as a file of its own
+            const documents = await extractEmailDocuments(file).catch(e => { console.error(`Could not read email ${file.name}`, e); return [] as File[]; });
+            if (documents.length === 0) onError(t.emailNoDocuments.replace('{name}', file.name), 'INVALID_FILE');
+            validFiles.push(...documents);
+        } else if (isOutlookMessage(file)) {
+            onError(t.outlookMsgUnsupported, 'INVALID_FILE');
         } else {
             hasInvalid = true;
         }
-    });
+    }
+    setIsPreparing(false);
     
-    if (hasInvalid) onError("Invalid file. Please upload an Image or PDF.", 'INVALID_FILE');
+    if (hasInvalid) onError("Invalid file. Please upload an Image, PDF, e-invoice XML or .eml email.", 'INVALID_FILE');
     if (validFiles.length === 0) return;
 
     const remainingSlots = MAX_FILES - selectedFiles.length;
     if (remainingSlots <= 0) return;
-    onFileSelect([...selectedFiles, ...validFiles.slice(0, remainingSlots)]);
-  }, [selectedFiles, onFileSelect, onError]);
+
+    setIsPreparing(true);
+    const prepared: File[] = [];
+    const newPreviews = new Map(previews);
+    for (const file of validFiles.slice(0, remainingSlots)) {
+      const result = await prepare(file);
+      if (result) newPreviews.set(result.file, result);
+      prepared.push(result ? carryEmailProvenance(file, result.file) : file);
+    }
+    setIsPreparing(false);
+    setPreviews(newPreviews);
+    onFileSelect([...selectedFiles, ...prepared]);
+  }, [selectedFiles, onFileSelect, onError, previews, preprocessing, t]);
+
+  const handleRecrop = async (current: File, crop: CropBox | undefined) => {
+    const preview = previews.get(current);
+    if (!preview) return;
+    setIsPreparing(true);
+    const result = await prepare(preview.original, crop);
+    setIsPreparing(false);
+    if (!result) return;
+    carryEmailProvenance(preview.original, result.file);
+    setPreviews(prev => { const next = new Map(prev); next.delete(current); next.set(result.file, result); return next; });
+    onFileSelect(selectedFiles.map(f => f === current ? result.file : f));
+  };
 
   const handleDrop = useCallback((e: React.DragEvent) => { e.preventDefault(); setIsDragging(false); if (disabled) return; handleFiles(e.dataTransfer.files); }, [handleFiles, disabled]);
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => { handleFiles(e.target.files); e.target.value = ''; };
@@ -47,18 +111,22 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, selectedFi
   return (
     <div className="w-full space-y-4">
       {/* Selected Files */}
-      {selectedFiles.length > 0 && (
+      {(selectedFiles.length > 0 || isPreparing) && (
         <div className="w-full p-4 bg-white/70 dark:bg-slate-800/40 backdrop-blur-sm border border-slate-200 dark:border-slate-700/50 rounded-xl shadow-lg flex items-center justify-between">
-          <div className="flex items-center space-x-4"><div className="p-2.5 bg-indigo-500/10 rounded-xl"><Files className="w-6 h-6 text-indigo-600 dark:text-indigo-400" /></div><p className="text-sm font-semibold text-slate-800 dark:text-slate-200">{selectedFiles.length} files selected</p></div>
+          <div className="flex items-center space-x-4"><div className="p-2.5 bg-indigo-500/10 rounded-xl"><Files className="w-6 h-6 text-indigo-600 dark:text-indigo-400" /></div><p className="text-sm font-semibold text-slate-800 dark:text-slate-200">{selectedFiles.length} files selected</p>{isPreparing && <span className="flex items-center space-x-1.5 text-[10px] font-mono text-indigo-500"><Loader2 className="w-3 h-3 animate-spin" /><span>{t.optimizingImages}</span></span>}</div>
           {!disabled && <button onClick={onClearFile} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 hover:text-red-500"><X className="w-5 h-5" /></button>}
         </div>
       )}
+      {/* Before/after previews for images that were preprocessed */}
+      {selectedFiles.filter(file => previews.has(file)).map(file => (
+        <PreprocessPreview key={previews.get(file)!.original.name + file.size} preview={previews.get(file)!} onRecrop={(crop) => handleRecrop(file, crop)} disabled={disabled || isPreparing} t={t} />
+      ))}
       {/* Drop Zone - REMOVED ACCEPT ATTRIBUTE TO FORCE WINDOWS TO SHOW ALL FILES */}
       {(MAX_FILES - selectedFiles.length > 0) && (
         <div onDragOver={(e)=>{e.preventDefault();if(!disabled)setIsDragging(true)}} onDragLeave={(e)=>{e.preventDefault();if(!disabled)setIsDragging(false)}} onDrop={handleDrop} onClick={() => !disabled && fileInputRef.current?.click()} className={`hidden md:flex w-full p-8 border-2 border-dashed rounded-2xl cursor-pointer flex-col items-center justify-center space-y-3 ${isDragging ? 'border-indigo-400 bg-indigo-50 dark:bg-indigo-500/10' : 'border-slate-300 dark:border-slate-700/50 hover:border-indigo-500/30'}`}>
             <input type="file" ref={fileInputRef} onChange={handleChange} multiple className="hidden" disabled={disabled} />
             <Upload className="w-6 h-6 text-slate-400" />
-            <div className="text-center"><p className="text-sm font-semibold text-slate-700 dark:text-slate-200">{t.dropZoneMain}</p><p className="text-[10px] text-slate-500 mt-1">Support for PDF, PNG, JPG</p></div>
+            <div className="text-center"><p className="text-sm font-semibold text-slate-700 dark:text-slate-200">{t.dropZoneMain}</p><p className="text-[10px] text-slate-500 mt-1">Support for PDF, PNG, JPG, XML, EML</p></div>
         </div>
       )}
       {/* Mobile Input */}
@@ -1,14 +1,30 @@
 import React, { useRef, useEffect } from 'react';
-import { InvoiceData, LineItem } from '../types';
-import { Plus, Trash2, Calendar, Building, Tag, AlertTriangle, FileCheck, FileBox, FileText, History, ShieldAlert, CheckCircle, AlertCircle, Calculator, Languages, TrendingUp } from 'lucide-react';
+import { FieldFocus, InvoiceData, LineItem, RemittanceDetails } from '../types';
+import { Plus, Trash2, Calendar, CalendarClock, Building, Tag, Hash, ClipboardList, Timer, AlertTriangle, FileCheck, FileBox, FileText, History, ShieldAlert, CheckCircle, AlertCircle, Calculator, Languages, TrendingUp, BadgeCheck, MapPin, Truck, Users, Landmark, ShieldX, Loader2, Undo2, Mail, FileCode } from 'lucide-react';
 import { TranslationDictionary } from '../utils/translations';
 import { getExchangeRate, CODE_TO_SYMBOL } from '../utils/currency';
+import { TotalsBreakdown } from './TotalsBreakdown';
+import { ShipmentDetailsPanel } from './ShipmentDetailsPanel';
+import { validateTaxId, TAX_ID_SCHEME_LABELS } from '../utils/taxIdValidation';
+import { validateIban, describeRemittance } from '../utils/bankDetails';
+import { formatBaseUnitPrice, normalizeLineUnits } from '../utils/unitConversion';
+import { MatchGroup } from '../services/threeWayMatch';
+import { describeVariance, matchRoleLabel, matchStatusStyle } from './ThreeWayMatchView';
+import { isCreditNote, isShippingDocument } from '../utils/documentTypes';
+import { netAfterCredits } from '../services/creditNotes';
+import { describeEInvoice } from '../services/eInvoiceImport';
 
 interface InvoiceEditorProps {
   data: InvoiceData;
   onChange: (newData: InvoiceData) => void;
   t: TranslationDictionary;
   targetCurrency?: string;
+  onFieldFocus?: (focus: FieldFocus | null) => void;
+  matchGroup?: MatchGroup; // Three-way match this document belongs to, if any
+  onOpenMatch?: () => void;
+  creditOriginal?: InvoiceData; // Credit notes: the session invoice this one credits
+  credits?: InvoiceData[]; // Session credit notes against this invoice, or against the one this credit note credits
+  onSelectDocument?: (doc: InvoiceData) => void;
 }
 
 const AutoResizeTextarea = ({ value, onChange, className, placeholder, isRisk, tabIndex, title }: { value: string, onChange: (e: React.ChangeEvent<HTMLTextAreaElement>) => void, className?: string, placeholder?: string, isRisk?: boolean, tabIndex?: number, title?: string }) => {
@@ -22,27 +38,31 @@ const AutoResizeTextarea = ({ value, onChange, className, placeholder, isRisk, t
   return <textarea ref={textareaRef} value={value} onChange={onChange} rows={1} placeholder={placeholder} className={`${className} ${isRisk ? 'pr-20' : ''}`} title={title || value} tabIndex={tabIndex} />;
 };
 
-export const InvoiceEditor: React.FC<InvoiceEditorProps> = ({ data, onChange, t, targetCurrency = 'Original' }) => {
+export const InvoiceEditor: React.FC<InvoiceEditorProps> = ({ data, onChange, t, targetCurrency = 'Original', onFieldFocus, matchGroup, onOpenMatch, creditOriginal, credits = [], onSelectDocument }) => {
+  const focusField = (field: string, lineIndex?: number) => () => onFieldFocus?.({ field, lineIndex });
   const handleHeaderChange = (field: keyof InvoiceData, value: string | number) => onChange({ ...data, [field]: value });
-  const handleLineItemChange = (index: number, field: keyof LineItem, value: string | number) => {
+  const handleRemittanceChange = (field: keyof RemittanceDetails, value: string) => onChange({ ...data, remittance: { ...data.remittance, [field]: value || undefined } });
+  // Base-unit values follow every edit of quantity, unit, pack size or amounts
+  const handleLineItemChange = (index: number, field: keyof LineItem, value: string | number | undefined) => {
     const newItems = [...data.lineItems];
-    newItems[index] = { ...newItems[index], [field]: value };
+    newItems[index] = normalizeLineUnits({ ...newItems[index], [field]: value });
     onChange({ ...data, lineItems: newItems });
   };
   const removeLineItem = (index: number) => onChange({ ...data, lineItems: data.lineItems.filter((_, i) => i !== index) });
   const addLineItem = () => onChange({ ...data, lineItems: [...data.lineItems, { sku: '', description: '', glCategory: '', quantity: 1, unitPrice: 0, totalAmount: 0 }] });
   const recalculateRow = (index: number) => {
     const newItems = [...data.lineItems];
-    newItems[index] = { ...newItems[index], totalAmount: parseFloat((newItems[index].quantity * newItems[index].unitPrice).toFixed(2)) };
+    newItems[index] = normalizeLineUnits({ ...newItems[index], totalAmount: parseFloat((newItems[index].quantity * newItems[index].unitPrice).toFixed(2)) });
     onChange({ ...data, lineItems: newItems });
   };
   const recalculateTotals = () => {
-     const newItems = data.lineItems.map(item => ({ ...item, totalAmount: parseFloat((item.quantity * item.unitPrice).toFixed(2)) }));
+     const newItems = data.lineItems.map(item => normalizeLineUnits({ ...item, totalAmount: parseFloat((item.quantity * item.unitPrice).toFixed(2)) }));
      onChange({ ...data, lineItems: newItems });
   };
 
   const getBadgeStyle = (type: string = '') => {
     const tStr = type.toUpperCase();
+    if (isCreditNote({ documentType: type })) return { className: 'bg-rose-500/10 text-rose-600 dark:text-rose-400 border-rose-500/20 shadow-[0_0_15px_-3px_rgba(244,63,94,0.2)]', icon: Undo2 };
     if (tStr.includes('INVOICE')) return { className: 'bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 border-emerald-500/20 shadow-[0_0_15px_-3px_rgba(16,185,129,0.2)]', icon: FileText };
     if (tStr.includes('PACKING')) return { className: 'bg-orange-500/10 text-orange-600 dark:text-orange-400 border-orange-500/20 shadow-[0_0_15px_-3px_rgba(249,115,22,0.2)]', icon: FileBox };
     if (tStr.includes('BOL')) return { className: 'bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/20 shadow-[0_0_15px_-3px_rgba(59,130,246,0.2)]', icon: FileCheck };
@@ -56,12 +76,22 @@ export const InvoiceEditor: React.FC<InvoiceEditorProps> = ({ data, onChange, t,
     twoYearsAgo.setFullYear(twoYearsAgo.getFullYear() - 2);
     return !isNaN(date.getTime()) && date < twoYearsAgo;
   };
+  const isOverdue = (dateStr?: string) => {
+    if (!dateStr) return false;
+    const date = new Date(dateStr);
+    return !isNaN(date.getTime()) && date.toISOString().split('T')[0] < new Date().toISOString().split('T')[0];
+  };
   const isHighRiskItem = (category: string, price: number) => {
     const cat = (category || '').toLowerCase();
     return (cat.includes('meal') || cat.includes('office')) && price > 100;
   };
 
   const currencySymbol = data.currencySymbol || '$';
+  // Packing slips and BOLs are laid out around quantities and weights; they have no prices to edit
+  const isShipping = isShippingDocument(data);
+  const isCredit = isCreditNote(data);
+  const matchStatus = matchGroup && matchStatusStyle(matchGroup.status, t);
+  const matchVarianceLines = matchGroup ? matchGroup.lines.filter(line => line.variances.length > 0) : [];
   const showConversion = targetCurrency !== 'Original';
   const { rate, sourceCode } = getExchangeRate(currencySymbol, targetCurrency);
   const isActuallyDifferent = showConversion && (rate !== 1 || sourceCode !== targetCurrency);
@@ -77,14 +107,20 @@ export const InvoiceEditor: React.FC<InvoiceEditorProps> = ({ data, onChange, t,
   const badgeStyle = getBadgeStyle(data.documentType);
   const BadgeIcon = badgeStyle.icon;
   const isHighConfidence = data.confidenceScore === 'High';
-  const hasMathMismatch = data.lineItems.some(i => Math.abs((i.quantity * i.unitPrice) - (i.totalAmount || 0)) > 0.01);
+  const showSourcePage = (data.pageCount || 1) > 1;
+  const taxIdCheck = validateTaxId(data.vendorTaxId, data.vendorTaxIdType);
+  const ibanCheck = validateIban(data.remittance?.iban);
+  const hasMathMismatch = !isShipping && data.lineItems.some(i => Math.abs((i.quantity * i.unitPrice) - (i.totalAmount || 0)) > 0.01);
 
   // ROI Calculation Logic
   const timeSaved = Math.ceil(data.lineItems.length * 0.5 + 1);
   const moneySaved = (timeSaved * 0.8).toFixed(2);
 
+  const streamingRow = (<div className="w-full py-3 flex items-center justify-center text-xs font-bold uppercase tracking-widest text-indigo-500 dark:text-indigo-300 rounded-xl border border-dashed border-indigo-300 dark:border-indigo-500/30 animate-pulse"><Loader2 className="w-4 h-4 mr-2 animate-spin" /> {t.streamingItems.replace('{count}', data.lineItems.length.toString())}</div>);
+
   return (
-    <div className="space-y-6 animate-in fade-in duration-700 slide-in-from-bottom-8">
+    // Provisional snapshots are read-only until the final, quality-checked result replaces them
+    <fieldset disabled={data.isProvisional} className="space-y-6 min-w-0 animate-in fade-in duration-700 slide-in-from-bottom-8">
       <div className="bg-white/60 dark:bg-slate-800/40 backdrop-blur-sm p-4 rounded-xl border border-slate-200 dark:border-slate-700/50 shadow-sm transition-colors duration-500">
         {/* HEADER BADGES */}
         <div className="flex flex-col gap-4 mb-4 border-b border-slate-200 dark:border-white/5 pb-4">
@@ -93,10 +129,17 @@ export const InvoiceEditor: React.FC<InvoiceEditorProps> = ({ data, onChange, t,
                     <BadgeIcon className="w-4 h-4" />
                     <span className="text-xs font-bold tracking-widest uppercase">{t.documentType}: {data.documentType || 'UNKNOWN'}</span>
                 </div>
-                <div className={`px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wide border flex items-center space-x-1.5 ${isHighConfidence ? 'bg-emerald-100 dark:bg-emerald-500/20 text-emerald-700 dark:text-emerald-400 border-emerald-200 dark:border-emerald-500/30' : 'bg-amber-100 dark:bg-amber-500/20 text-amber-700 dark:text-amber-400 border-amber-200 dark:border-amber-500/30'}`} title={isHighConfidence ? "High confidence" : "Review recommended"}>
+                {data.isProvisional ? (
+                <div className="px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wide border flex items-center space-x-1.5 bg-indigo-100 dark:bg-indigo-500/20 text-indigo-700 dark:text-indigo-300 border-indigo-200 dark:border-indigo-500/30" title={t.provisionalHint}>
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  <span>{t.provisional}</span>
+                </div>
+                ) : (
+                <div className={`px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wide border flex items-center space-x-1.5 ${isHighConfidence ? 'bg-emerald-100 dark:bg-emerald-500/20 text-emerald-700 dark:text-emerald-400 border-emerald-200 dark:border-emerald-500/30' : 'bg-amber-100 dark:bg-amber-500/20 text-amber-700 dark:text-amber-400 border-amber-200 dark:border-amber-500/30'}`} title={`${isHighConfidence ? "High confidence" : "Review recommended"}${data.promptVersion ? ` · ${data.promptVersion}` : ''}`}>
                   {isHighConfidence ? <CheckCircle className="w-3 h-3" /> : <AlertTriangle className="w-3 h-3" />}
                   <span>{isHighConfidence ? t.confidenceHigh : t.confidenceReview}</span>
                 </div>
+                )}
                 {/* ROI BADGE (MANUAL FIX) */}
                 <div className="px-3 py-1.5 rounded-lg border flex items-center space-x-2 bg-gradient-to-r from-purple-500/10 to-indigo-500/10 border-indigo-500/20 text-indigo-600 dark:text-indigo-300 shadow-sm" title="Estimated savings vs. manual data entry ($48/hr)">
                   <TrendingUp className="w-4 h-4" />
@@ -106,12 +149,48 @@ export const InvoiceEditor: React.FC<InvoiceEditorProps> = ({ data, onChange, t,
                 </div>
             </div>
             <div className="flex flex-wrap gap-2">
+                {data.remittanceAlert && (
+                  <div className="px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wide border border-red-700 bg-red-600 text-white flex items-center space-x-1.5 shadow-lg shadow-red-500/30 animate-pulse" title={t.bankChangeWarning}>
+                    <ShieldX className="w-3 h-3" />
+                    <span>CRITICAL: BANK DETAILS CHANGED</span>
+                  </div>
+                )}
                 {data.validationFlags?.unsupportedCurrency && (
                   <div className="px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wide border border-red-200 dark:border-red-500/30 bg-red-50 dark:bg-red-500/10 text-red-600 dark:text-red-400 flex items-center space-x-1.5" title="Exchange rates not available for this currency">
                     <AlertCircle className="w-3 h-3" />
                     <span>UNKNOWN CURRENCY</span>
                   </div>
                 )}
+                {data.validationFlags?.totalMismatch && (
+                  <div className="px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wide border border-red-200 dark:border-red-500/30 bg-red-50 dark:bg-red-500/10 text-red-600 dark:text-red-400 flex items-center space-x-1.5" title="Subtotal + tax + shipping - discounts does not equal the stated total">
+                    <Calculator className="w-3 h-3" />
+                    <span>TOTALS MISMATCH</span>
+                  </div>
+                )}
+                {data.validationFlags?.missingCreditReference && (
+                  <div className="px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wide border border-amber-200 dark:border-amber-500/30 bg-amber-50 dark:bg-amber-500/10 text-amber-600 dark:text-amber-400 flex items-center space-x-1.5" title="The credit note does not say which invoice it credits">
+                    <Undo2 className="w-3 h-3" />
+                    <span>NO ORIGINAL INVOICE</span>
+                  </div>
+                )}
+                {data.validationFlags?.negativeInvoiceTotal && (
+                  <div className="px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wide border border-amber-200 dark:border-amber-500/30 bg-amber-50 dark:bg-amber-500/10 text-amber-600 dark:text-amber-400 flex items-center space-x-1.5" title="Invoice with a negative total; check whether it is a credit note">
+                    <Undo2 className="w-3 h-3" />
+                    <span>NEGATIVE INVOICE</span>
+                  </div>
+                )}
+                {data.validationFlags?.invalidTaxId && (
+                  <div className="px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wide border border-amber-200 dark:border-amber-500/30 bg-amber-50 dark:bg-amber-500/10 text-amber-600 dark:text-amber-400 flex items-center space-x-1.5" title="Vendor tax ID failed its format or checksum test">
+                    <BadgeCheck className="w-3 h-3" />
+                    <span>INVALID TAX ID</span>
+                  </div>
+                )}
+                {data.validationFlags?.invalidIban && (
+                  <div className="px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wide border border-amber-200 dark:border-amber-500/30 bg-amber-50 dark:bg-amber-500/10 text-amber-600 dark:text-amber-400 flex items-center space-x-1.5" title={ibanCheck?.reason || "IBAN failed the mod-97 checksum"}>
+                    <Landmark className="w-3 h-3" />
+                    <span>INVALID IBAN</span>
+                  </div>
+                )}
                 {data.validationFlags?.unsupportedLanguage && (
                   <div className="px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wide border border-amber-200 dark:border-amber-500/30 bg-amber-50 dark:bg-amber-500/10 text-amber-600 dark:text-amber-400 flex items-center space-x-1.5" title="UI translation not supported">
                     <Languages className="w-3 h-3" />
@@ -125,24 +204,121 @@ export const InvoiceEditor: React.FC<InvoiceEditorProps> = ({ data, onChange, t,
         <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4">
           <div className="space-y-1">
             <div className="flex justify-between items-center"><label className="flex items-center text-[9px] font-bold text-slate-500 uppercase tracking-widest"><Building className="w-3 h-3 mr-1.5 opacity-70" />{t.vendorName}</label></div>
-            <input type="text" value={data.vendorName} onChange={(e) => handleHeaderChange('vendorName', e.target.value)} title={data.vendorName} className="w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-bold focus:outline-none focus:border-indigo-500 transition-all placeholder-slate-400" />
+            <input onFocus={focusField('vendorName')} type="text" value={data.vendorName} onChange={(e) => handleHeaderChange('vendorName', e.target.value)} title={data.vendorName} className="w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-bold focus:outline-none focus:border-indigo-500 transition-all placeholder-slate-400" />
           </div>
           <div className="space-y-1">
             <div className="flex justify-between items-center">
-              <label className="flex items-center text-[9px] font-bold text-slate-500 uppercase tracking-widest"><Calendar className="w-3 h-3 mr-1.5 opacity-70" />{t.invoiceDate}</label>
+              <label className="flex items-center text-[9px] font-bold text-slate-500 uppercase tracking-widest"><Calendar className="w-3 h-3 mr-1.5 opacity-70" />{isShipping ? t.shipDate : t.invoiceDate}</label>
               {isStaleDate(data.invoiceDate) && <div className="flex items-center space-x-1 bg-amber-500/10 px-1.5 py-0.5 rounded text-[8px] font-bold text-amber-600 dark:text-amber-500" title={t.staleDataWarning}><History className="w-2.5 h-2.5" /><span>{t.staleTag}</span></div>}
             </div>
-            <input type="date" value={data.invoiceDate} onChange={(e) => handleHeaderChange('invoiceDate', e.target.value)} title={data.invoiceDate} className="w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-medium focus:outline-none focus:border-indigo-500 transition-all" />
+            <input onFocus={focusField('invoiceDate')} type="date" value={data.invoiceDate} onChange={(e) => handleHeaderChange('invoiceDate', e.target.value)} title={data.invoiceDate} className="w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-medium focus:outline-none focus:border-indigo-500 transition-all" />
           </div>
+          {!isShipping && (<>
           <div className="space-y-1">
             <div className="flex justify-between items-center"><label className="flex items-center text-[9px] font-bold text-slate-500 uppercase tracking-widest"><Tag className="w-3 h-3 mr-1.5 opacity-70" />{t.currency}</label></div>
-            <input type="text" value={displayCurrencySymbol} onChange={(e) => !isReadOnlyHeader && handleHeaderChange('currencySymbol', e.target.value)} title={displayCurrencySymbol} className={`w-full bg-slate-50 dark:bg-slate-900/50 border rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-medium focus:outline-none transition-all ${isReadOnlyHeader ? 'border-transparent cursor-default' : 'border-slate-200 dark:border-slate-700 focus:border-indigo-500'}`} maxLength={3} readOnly={isReadOnlyHeader} />
+            <input onFocus={focusField('currencySymbol')} type="text" value={displayCurrencySymbol} onChange={(e) => !isReadOnlyHeader && handleHeaderChange('currencySymbol', e.target.value)} title={displayCurrencySymbol} className={`w-full bg-slate-50 dark:bg-slate-900/50 border rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-medium focus:outline-none transition-all ${isReadOnlyHeader ? 'border-transparent cursor-default' : 'border-slate-200 dark:border-slate-700 focus:border-indigo-500'}`} maxLength={3} readOnly={isReadOnlyHeader} />
           </div>
           <div className="space-y-1">
             <div className="flex justify-between items-center"><label className="flex items-center text-[9px] font-bold text-slate-500 uppercase tracking-widest"><span className="mr-1.5 opacity-70 font-bold">{displayCurrencySymbol}</span>{t.totalAmount}</label></div>
-            <input type="number" step="0.01" value={displayTotalAmount} onChange={(e) => !isReadOnlyHeader && handleHeaderChange('totalAmount', parseFloat(e.target.value) || 0)} title={displayTotalAmount.toString()} className={`w-full bg-slate-50 dark:bg-slate-900/50 border rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-bold focus:outline-none transition-all ${isReadOnlyHeader ? 'border-transparent cursor-default' : 'border-slate-200 dark:border-slate-700 focus:border-indigo-500'}`} readOnly={isReadOnlyHeader} />
+            <input onFocus={focusField('totalAmount')} type="number" step="0.01" value={displayTotalAmount} onChange={(e) => !isReadOnlyHeader && handleHeaderChange('totalAmount', parseFloat(e.target.value) || 0)} title={displayTotalAmount.toString()} className={`w-full bg-slate-50 dark:bg-slate-900/50 border rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-bold focus:outline-none transition-all ${isReadOnlyHeader ? 'border-transparent cursor-default' : 'border-slate-200 dark:border-slate-700 focus:border-indigo-500'}`} readOnly={isReadOnlyHeader} />
+          </div>
+          </>)}
+          <div className="space-y-1">
+            <div className="flex justify-between items-center"><label className="flex items-center text-[9px] font-bold text-slate-500 uppercase tracking-widest"><Hash className="w-3 h-3 mr-1.5 opacity-70" />{isShipping ? t.documentNumber : t.invoiceNumber}</label></div>
+            <input onFocus={focusField('invoiceNumber')} type="text" value={data.invoiceNumber || ''} onChange={(e) => handleHeaderChange('invoiceNumber', e.target.value)} title={data.invoiceNumber} className="w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-mono font-bold focus:outline-none focus:border-indigo-500 transition-all placeholder-slate-400" />
+          </div>
+          <div className="space-y-1">
+            <div className="flex justify-between items-center"><label className="flex items-center text-[9px] font-bold text-slate-500 uppercase tracking-widest"><ClipboardList className="w-3 h-3 mr-1.5 opacity-70" />{t.purchaseOrderNumber}</label></div>
+            <input onFocus={focusField('purchaseOrderNumber')} type="text" value={data.purchaseOrderNumber || ''} onChange={(e) => handleHeaderChange('purchaseOrderNumber', e.target.value)} title={data.purchaseOrderNumber} className="w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-mono focus:outline-none focus:border-indigo-500 transition-all placeholder-slate-400" />
+          </div>
+          {isCredit && (
+          <div className="space-y-1">
+            <div className="flex justify-between items-center"><label className="flex items-center text-[9px] font-bold text-slate-500 uppercase tracking-widest"><Undo2 className="w-3 h-3 mr-1.5 opacity-70" />{t.originalInvoiceNumber}</label></div>
+            <input onFocus={focusField('originalInvoiceNumber')} type="text" value={data.originalInvoiceNumber || ''} onChange={(e) => handleHeaderChange('originalInvoiceNumber', e.target.value)} title={data.originalInvoiceNumber} className="w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-mono focus:outline-none focus:border-indigo-500 transition-all placeholder-slate-400" />
+          </div>
+          )}
+          {!isShipping && (<>
+          <div className="space-y-1">
+            <div className="flex justify-between items-center"><label className="flex items-center text-[9px] font-bold text-slate-500 uppercase tracking-widest"><Timer className="w-3 h-3 mr-1.5 opacity-70" />{t.paymentTerms}</label></div>
+            <input onFocus={focusField('paymentTerms')} type="text" value={data.paymentTerms || ''} onChange={(e) => handleHeaderChange('paymentTerms', e.target.value)} title={data.paymentTerms} className="w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-medium focus:outline-none focus:border-indigo-500 transition-all placeholder-slate-400" />
+          </div>
+          <div className="space-y-1">
+            <div className="flex justify-between items-center">
+              <label className="flex items-center text-[9px] font-bold text-slate-500 uppercase tracking-widest"><CalendarClock className="w-3 h-3 mr-1.5 opacity-70" />{t.dueDate}</label>
+              {isOverdue(data.dueDate) && <div className="flex items-center space-x-1 bg-red-500/10 px-1.5 py-0.5 rounded text-[8px] font-bold text-red-600 dark:text-red-400"><History className="w-2.5 h-2.5" /><span>{t.overdueTag}</span></div>}
+            </div>
+            <input onFocus={focusField('dueDate')} type="date" value={data.dueDate || ''} onChange={(e) => handleHeaderChange('dueDate', e.target.value)} title={data.dueDate} className="w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-medium focus:outline-none focus:border-indigo-500 transition-all" />
           </div>
+          </>)}
         </div>
+
+        {/* Party Identity */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4 pt-4 border-t border-slate-200 dark:border-white/5">
+          <div className="space-y-1">
+            <div className="flex justify-between items-center">
+              <label className="flex items-center text-[9px] font-bold text-slate-500 uppercase tracking-widest"><BadgeCheck className="w-3 h-3 mr-1.5 opacity-70" />{t.vendorTaxId}</label>
+              {taxIdCheck && taxIdCheck.scheme !== 'UNKNOWN' && <div className={`flex items-center space-x-1 px-1.5 py-0.5 rounded text-[8px] font-bold ${taxIdCheck.isValid ? 'bg-emerald-500/10 text-emerald-600 dark:text-emerald-400' : 'bg-red-500/10 text-red-600 dark:text-red-400'}`} title={taxIdCheck.reason || taxIdCheck.normalized}>{taxIdCheck.isValid ? <CheckCircle className="w-2.5 h-2.5" /> : <AlertCircle className="w-2.5 h-2.5" />}<span>{TAX_ID_SCHEME_LABELS[taxIdCheck.scheme]} {taxIdCheck.isValid ? t.taxIdValid : t.taxIdInvalid}</span></div>}
+            </div>
+            <input onFocus={focusField('vendorTaxId')} type="text" value={data.vendorTaxId || ''} onChange={(e) => handleHeaderChange('vendorTaxId', e.target.value)} title={data.vendorTaxIdType || data.vendorTaxId} className="w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-mono focus:outline-none focus:border-indigo-500 transition-all placeholder-slate-400" />
+            <div className="pt-2"><label className="flex items-center text-[9px] font-bold text-slate-500 uppercase tracking-widest mb-1"><MapPin className="w-3 h-3 mr-1.5 opacity-70" />{t.vendorAddress}</label></div>
+            <div onFocus={focusField('vendorAddress')}><AutoResizeTextarea value={data.vendorAddress || ''} onChange={(e) => handleHeaderChange('vendorAddress', e.target.value)} className="w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-medium focus:outline-none focus:border-indigo-500 transition-all placeholder-slate-400 resize-none" /></div>
+          </div>
+          <div className="space-y-1">
+            <div className="flex justify-between items-center"><label className="flex items-center text-[9px] font-bold text-slate-500 uppercase tracking-widest"><Users className="w-3 h-3 mr-1.5 opacity-70" />{t.billToName}</label></div>
+            <input onFocus={focusField('billToName')} type="text" value={data.billToName || ''} onChange={(e) => handleHeaderChange('billToName', e.target.value)} title={data.billToName} className="w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-bold focus:outline-none focus:border-indigo-500 transition-all placeholder-slate-400" />
+            <div className="pt-2"><label className="flex items-center text-[9px] font-bold text-slate-500 uppercase tracking-widest mb-1"><MapPin className="w-3 h-3 mr-1.5 opacity-70" />{t.billToAddress}</label></div>
+            <div onFocus={focusField('billToAddress')}><AutoResizeTextarea value={data.billToAddress || ''} onChange={(e) => handleHeaderChange('billToAddress', e.target.value)} className="w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-medium focus:outline-none focus:border-indigo-500 transition-all placeholder-slate-400 resize-none" /></div>
+          </div>
+          <div className="space-y-1">
+            <div className="flex justify-between items-center"><label className="flex items-center text-[9px] font-bold text-slate-500 uppercase tracking-widest"><Truck className="w-3 h-3 mr-1.5 opacity-70" />{t.shipToAddress}</label></div>
+            <div onFocus={focusField('shipToAddress')}><AutoResizeTextarea value={data.shipToAddress || ''} onChange={(e) => handleHeaderChange('shipToAddress', e.target.value)} className="w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-medium focus:outline-none focus:border-indigo-500 transition-all placeholder-slate-400 resize-none" /></div>
+          </div>
+        </div>
+
+        {/* Remittance */}
+        {!isShipping && (
+        <div className="mt-4 pt-4 border-t border-slate-200 dark:border-white/5 space-y-3">
+          <h4 className="flex items-center text-[9px] font-bold text-slate-500 uppercase tracking-widest"><Landmark className="w-3 h-3 mr-1.5 opacity-70" />{t.remittanceDetails}</h4>
+          {data.remittanceAlert && (
+            <div className="p-3 rounded-lg border border-red-300 dark:border-red-500/40 bg-red-50 dark:bg-red-500/10 flex items-start space-x-3">
+              <ShieldX className="w-4 h-4 text-red-600 dark:text-red-400 shrink-0 mt-0.5" />
+              <div className="space-y-1 min-w-0">
+                <p className="text-xs font-bold text-red-700 dark:text-red-300">{t.bankChangeWarning}</p>
+                <p className="text-[10px] font-mono text-red-600/80 dark:text-red-300/80 break-all">{t.bankChangeKnown.replace('{source}', data.remittanceAlert.referenceLabel || data.remittanceAlert.source)}: {describeRemittance(data.remittanceAlert.knownDetails)}</p>
+              </div>
+            </div>
+          )}
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+            <div className="space-y-1 sm:col-span-2">
+              <div className="flex justify-between items-center">
+                <label className="flex items-center text-[9px] font-bold text-slate-500 uppercase tracking-widest">{t.iban}</label>
+                {ibanCheck && <div className={`flex items-center space-x-1 px-1.5 py-0.5 rounded text-[8px] font-bold ${ibanCheck.isValid ? 'bg-emerald-500/10 text-emerald-600 dark:text-emerald-400' : 'bg-red-500/10 text-red-600 dark:text-red-400'}`} title={ibanCheck.reason}>{ibanCheck.isValid ? <CheckCircle className="w-2.5 h-2.5" /> : <AlertCircle className="w-2.5 h-2.5" />}<span>{ibanCheck.isValid ? t.ibanValid : t.ibanInvalid}</span></div>}
+              </div>
+              <input onFocus={focusField('iban')} type="text" value={data.remittance?.iban || ''} onChange={(e) => handleRemittanceChange('iban', e.target.value)} className={`w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-mono focus:outline-none focus:border-indigo-500 transition-all placeholder-slate-400 ${data.remittanceAlert ? 'border-red-400 dark:border-red-500/60' : ''}`} />
+            </div>
+            <div className="space-y-1">
+              <label className="flex items-center text-[9px] font-bold text-slate-500 uppercase tracking-widest">{t.swiftBic}</label>
+              <input type="text" value={data.remittance?.swiftBic || ''} onChange={(e) => handleRemittanceChange('swiftBic', e.target.value)} className="w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-mono focus:outline-none focus:border-indigo-500 transition-all placeholder-slate-400" />
+            </div>
+            <div className="space-y-1">
+              <label className="flex items-center text-[9px] font-bold text-slate-500 uppercase tracking-widest">{t.accountNumber}</label>
+              <input onFocus={focusField('accountNumber')} type="text" value={data.remittance?.accountNumber || ''} onChange={(e) => handleRemittanceChange('accountNumber', e.target.value)} className={`w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-mono focus:outline-none focus:border-indigo-500 transition-all placeholder-slate-400 ${data.remittanceAlert ? 'border-red-400 dark:border-red-500/60' : ''}`} />
+            </div>
+            <div className="space-y-1">
+              <label className="flex items-center text-[9px] font-bold text-slate-500 uppercase tracking-widest">{t.routingNumber}</label>
+              <input type="text" value={data.remittance?.routingNumber || ''} onChange={(e) => handleRemittanceChange('routingNumber', e.target.value)} className="w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-mono focus:outline-none focus:border-indigo-500 transition-all placeholder-slate-400" />
+            </div>
+            <div className="space-y-1">
+              <label className="flex items-center text-[9px] font-bold text-slate-500 uppercase tracking-widest">{t.bankName}</label>
+              <input type="text" value={data.remittance?.bankName || ''} onChange={(e) => handleRemittanceChange('bankName', e.target.value)} className="w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-medium focus:outline-none focus:border-indigo-500 transition-all placeholder-slate-400" />
+            </div>
+            <div className="space-y-1">
+              <label className="flex items-center text-[9px] font-bold text-slate-500 uppercase tracking-widest">{t.accountHolder}</label>
+              <input type="text" value={data.remittance?.accountHolder || ''} onChange={(e) => handleRemittanceChange('accountHolder', e.target.value)} className="w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-medium focus:outline-none focus:border-indigo-500 transition-all placeholder-slate-400" />
+            </div>
+          </div>
+        </div>
+        )}
          {data.language && data.language !== 'Original' && (
             <div className="mt-2 text-[9px] text-slate-400 font-mono flex items-center">
                 <Languages className="w-3 h-3 mr-1.5 opacity-50" />
@@ -151,41 +327,104 @@ export const InvoiceEditor: React.FC<InvoiceEditorProps> = ({ data, onChange, t,
         )}
       </div>
 
+      {data.eInvoice && (
+        <div className="p-3 rounded-xl border bg-emerald-500/10 text-emerald-700 dark:text-emerald-300 border-emerald-500/20 flex flex-wrap items-center gap-2">
+          <FileCode className="w-4 h-4" />
+          <span className="text-xs font-bold uppercase tracking-wider">{t.eInvoiceImported}</span>
+          <span className="text-[10px] font-mono" title={data.eInvoice.profile}>{describeEInvoice(data.eInvoice)}</span>
+          {data.eInvoice.embeddedInPdf && <span className="text-[10px] text-slate-500">{t.eInvoiceEmbedded}{data.eInvoice.fileName ? ` (${data.eInvoice.fileName})` : ''}</span>}
+        </div>
+      )}
+
+      {data.sourceEmail && (
+        <div className="p-3 rounded-xl border bg-sky-500/10 text-sky-700 dark:text-sky-300 border-sky-500/20 flex flex-wrap items-center gap-2">
+          <Mail className="w-4 h-4" />
+          <span className="text-xs font-bold uppercase tracking-wider">{data.sourceEmail.part === 'body' ? t.emailMessageBody : t.receivedByEmail}</span>
+          {data.sourceEmail.from && <span className="text-[10px] font-mono truncate max-w-xs" title={data.sourceEmail.from}>{data.sourceEmail.from}</span>}
+          {data.sourceEmail.subject && <span className="text-[10px] text-slate-500 truncate max-w-sm" title={data.sourceEmail.subject}>"{data.sourceEmail.subject}"</span>}
+          <div className="flex-1" />
+          <span className="text-[10px] font-mono text-slate-500" title={data.sourceEmail.emailFileName}>{data.sourceEmail.receivedAt ? new Date(data.sourceEmail.receivedAt).toLocaleString() : data.sourceEmail.emailFileName}</span>
+        </div>
+      )}
+
+      {isShipping && <ShipmentDetailsPanel data={data} onChange={onChange} t={t} onFieldFocus={onFieldFocus} />}
+
+      {isCredit && data.originalInvoiceNumber && (
+        <div className="p-3 rounded-xl border bg-rose-500/10 text-rose-700 dark:text-rose-300 border-rose-500/20 flex flex-wrap items-center gap-2">
+          <Undo2 className="w-4 h-4" />
+          <span className="text-xs font-bold uppercase tracking-wider">{creditOriginal ? t.creditsInvoice.replace('{number}', data.originalInvoiceNumber) : t.originalNotInSession.replace('{number}', data.originalInvoiceNumber)}</span>
+          {creditOriginal && <span className="text-[10px] font-mono text-slate-500">{creditOriginal.currencySymbol}{creditOriginal.totalAmount.toFixed(2)} · {t.netBalance} {creditOriginal.currencySymbol}{netAfterCredits(creditOriginal, credits).toFixed(2)}</span>}
+          <div className="flex-1" />
+          {creditOriginal && onSelectDocument && <button onClick={() => onSelectDocument(creditOriginal)} className="text-[10px] font-bold uppercase tracking-wider underline underline-offset-2 hover:opacity-80">{t.openDocument}</button>}
+        </div>
+      )}
+
+      {!isCredit && credits.length > 0 && (
+        <div className="p-3 rounded-xl border bg-rose-500/10 text-rose-700 dark:text-rose-300 border-rose-500/20 flex flex-wrap items-center gap-2">
+          <Undo2 className="w-4 h-4" />
+          <span className="text-xs font-bold uppercase tracking-wider">{t.creditedBy}</span>
+          {credits.map(credit => <button key={credit.id} onClick={() => onSelectDocument?.(credit)} className="px-2 py-0.5 rounded border border-rose-500/30 text-[10px] font-bold font-mono hover:border-rose-500" title={credit.vendorName}>{credit.invoiceNumber || t.creditNote} -{credit.currencySymbol}{Math.abs(credit.totalAmount).toFixed(2)}</button>)}
+          <div className="flex-1" />
+          <span className="text-xs font-mono font-bold">{t.netBalance}: {currencySymbol}{netAfterCredits(data, credits).toFixed(2)}</span>
+        </div>
+      )}
+
+      {matchGroup && matchStatus && (
+        <div className={`p-3 rounded-xl border ${matchStatus.className}`}>
+          <div className="flex flex-wrap items-center gap-2">
+            <matchStatus.icon className="w-4 h-4" />
+            <span className="text-xs font-bold uppercase tracking-wider">{t.threeWayMatch}: {matchStatus.label}</span>
+            <span className="text-xs font-mono">{matchGroup.poNumber}</span>
+            <span className="text-[10px] text-slate-500">{[`${matchGroup.orders.length} ${matchRoleLabel('order', t)}`, `${matchGroup.receipts.length} ${matchRoleLabel('receipt', t)}`, `${matchGroup.invoices.length} ${matchRoleLabel('invoice', t)}`].join(' · ')}</span>
+            <div className="flex-1" />
+            {onOpenMatch && <button onClick={onOpenMatch} className="text-[10px] font-bold uppercase tracking-wider underline underline-offset-2 hover:opacity-80">{t.openMatchView}</button>}
+          </div>
+          {matchVarianceLines.length > 0 && (
+            <ul className="mt-2 space-y-0.5 text-[11px]">
+              {matchVarianceLines.map(line => <li key={line.key}><span className="font-mono font-bold">{line.sku || line.description}</span>: {line.variances.map(variance => describeVariance(variance, line, t)).join('; ')}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* MOBILE CARD VIEW */}
       <div className="md:hidden space-y-4">
         {data.lineItems.map((item, index) => {
             const calculatedTotal = item.quantity * item.unitPrice;
             const extractedTotal = item.totalAmount || 0;
-            const hasVariance = Math.abs(calculatedTotal - extractedTotal) > 0.01;
+            const hasVariance = !isShipping && Math.abs(calculatedTotal - extractedTotal) > 0.01;
             const isRisk = isHighRiskItem(item.glCategory, item.unitPrice);
             return (
-            <div key={index} className="bg-white/60 dark:bg-slate-800/40 backdrop-blur-md p-4 rounded-xl border border-slate-200 dark:border-slate-700/50 shadow-sm space-y-3">
+            <div key={index} onFocus={focusField('lineItem', index)} className="bg-white/60 dark:bg-slate-800/40 backdrop-blur-md p-4 rounded-xl border border-slate-200 dark:border-slate-700/50 shadow-sm space-y-3">
                 {/* Description */}
                 <div>
-                  <label className="text-[9px] font-bold text-slate-500 uppercase tracking-widest block mb-1">{t.description}</label>
+                  <div className="flex justify-between items-center mb-1"><label className="text-[9px] font-bold text-slate-500 uppercase tracking-widest block">{t.description}</label>{showSourcePage && item.sourcePage && <span className="text-[9px] font-mono font-bold text-slate-400 bg-slate-100 dark:bg-slate-700/50 px-1.5 py-0.5 rounded" title={`${t.sourcePage} ${item.sourcePage} / ${data.pageCount}`}>{t.sourcePage} {item.sourcePage}</span>}</div>
                   <AutoResizeTextarea value={item.description} onChange={(e) => handleLineItemChange(index, 'description', e.target.value)} className="w-full bg-transparent border-b border-dashed border-slate-300 dark:border-slate-700 text-sm font-medium text-slate-800 dark:text-slate-200 focus:outline-none focus:border-indigo-500 pb-1" isRisk={isRisk} title={item.description} />
                 </div>
                 {/* Grid */}
                 <div className="grid grid-cols-2 gap-3">
                   <div><label className="text-[9px] font-bold text-slate-500 uppercase tracking-widest">{t.sku}</label><input value={item.sku} onChange={(e) => handleLineItemChange(index, 'sku', e.target.value)} title={item.sku} className="w-full bg-transparent text-xs font-mono text-slate-600 dark:text-slate-400 border-b border-transparent focus:border-indigo-500 focus:outline-none" /></div>
-                  <div><label className="text-[9px] font-bold text-slate-500 uppercase tracking-widest">{t.glCategory}</label><input value={item.glCategory} onChange={(e) => handleLineItemChange(index, 'glCategory', e.target.value)} title={item.glCategory} className="w-full bg-transparent text-xs font-bold text-blue-600 dark:text-blue-400 border-b border-transparent focus:border-indigo-500 focus:outline-none" /></div>
+                  {!isShipping && <div><label className="text-[9px] font-bold text-slate-500 uppercase tracking-widest">{t.glCategory}</label><input value={item.glCategory} onChange={(e) => handleLineItemChange(index, 'glCategory', e.target.value)} title={item.glCategory} className="w-full bg-transparent text-xs font-bold text-blue-600 dark:text-blue-400 border-b border-transparent focus:border-indigo-500 focus:outline-none" /></div>}
                   <div><label className="text-[9px] font-bold text-slate-500 uppercase tracking-widest">{t.qty}</label><input type="number" value={item.quantity} onChange={(e) => handleLineItemChange(index, 'quantity', parseFloat(e.target.value) || 0)} title={item.quantity.toString()} className="w-full bg-transparent text-xs font-bold text-slate-800 dark:text-slate-200 border-b border-transparent focus:border-indigo-500 focus:outline-none" /></div>
-                  <div><label className="text-[9px] font-bold text-slate-500 uppercase tracking-widest">{t.unitPrice}</label><input type="number" value={item.unitPrice} onChange={(e) => handleLineItemChange(index, 'unitPrice', parseFloat(e.target.value) || 0)} title={item.unitPrice.toString()} className="w-full bg-transparent text-xs font-bold text-slate-800 dark:text-slate-200 border-b border-transparent focus:border-indigo-500 focus:outline-none text-right" /></div>
+                  {isShipping ? <div><label className="text-[9px] font-bold text-slate-500 uppercase tracking-widest">{t.lineWeight}</label><input type="number" value={item.weight ?? ''} onChange={(e) => handleLineItemChange(index, 'weight', e.target.value === '' ? undefined : parseFloat(e.target.value) || 0)} placeholder="–" title={item.weight?.toString()} className="w-full bg-transparent text-xs font-bold text-slate-800 dark:text-slate-200 border-b border-transparent focus:border-indigo-500 focus:outline-none text-right" /></div> : <div><label className="text-[9px] font-bold text-slate-500 uppercase tracking-widest">{t.unitPrice}</label><input type="number" value={item.unitPrice} onChange={(e) => handleLineItemChange(index, 'unitPrice', parseFloat(e.target.value) || 0)} title={item.unitPrice.toString()} className="w-full bg-transparent text-xs font-bold text-slate-800 dark:text-slate-200 border-b border-transparent focus:border-indigo-500 focus:outline-none text-right" />{item.baseUnitPrice !== undefined && <span className="block text-right text-[9px] font-mono text-slate-400" title={t.baseUnitPrice}>{formatBaseUnitPrice(item, currencySymbol)}</span>}</div>}
+                  <div><label className="text-[9px] font-bold text-slate-500 uppercase tracking-widest">{t.unitOfMeasure}</label><input value={item.unitOfMeasure || ''} onChange={(e) => handleLineItemChange(index, 'unitOfMeasure', e.target.value || undefined)} placeholder="each" title={item.unitOfMeasure} className="w-full bg-transparent text-xs text-slate-600 dark:text-slate-400 border-b border-transparent focus:border-indigo-500 focus:outline-none" /></div>
+                  <div><label className="text-[9px] font-bold text-slate-500 uppercase tracking-widest">{t.packSize}</label><input type="number" value={item.packSize ?? ''} onChange={(e) => handleLineItemChange(index, 'packSize', parseFloat(e.target.value) || undefined)} placeholder="–" title={item.packSize?.toString()} className="w-full bg-transparent text-xs text-slate-600 dark:text-slate-400 border-b border-transparent focus:border-indigo-500 focus:outline-none text-right" /></div>
+                  {isShipping && <div><label className="text-[9px] font-bold text-slate-500 uppercase tracking-widest">{t.freightClass}</label><input value={item.freightClass || ''} onChange={(e) => handleLineItemChange(index, 'freightClass', e.target.value || undefined)} placeholder="–" title={item.freightClass} className="w-full bg-transparent text-xs font-mono text-slate-600 dark:text-slate-400 border-b border-transparent focus:border-indigo-500 focus:outline-none" /></div>}
                 </div>
                 {/* Footer */}
                 <div className="flex justify-between items-end border-t border-slate-200 dark:border-white/5 pt-3">
                   <button onClick={() => removeLineItem(index)} className="text-red-500 p-2 bg-red-50 dark:bg-red-500/10 rounded-lg"><Trash2 className="w-4 h-4" /></button>
-                  <div className="text-right">
+                  {!isShipping && <div className="text-right">
                     <label className="text-[9px] font-bold text-slate-500 uppercase tracking-widest block">{t.lineTotal}</label>
                     <span className={`text-lg font-bold ${hasVariance ? 'text-red-600' : 'text-slate-800 dark:text-white'}`}>{currencySymbol}{item.totalAmount?.toFixed(2)}</span>
-                  </div>
+                  </div>}
                 </div>
             </div>
             );
         })}
-         <button onClick={addLineItem} className="w-full py-3 flex items-center justify-center text-xs font-bold uppercase tracking-widest text-slate-500 dark:text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-300 hover:bg-indigo-50 dark:hover:bg-indigo-500/10 rounded-xl transition-all border border-dashed border-slate-300 dark:border-slate-700 hover:border-indigo-500/30">
+         {data.isProvisional ? streamingRow : <button onClick={addLineItem} className="w-full py-3 flex items-center justify-center text-xs font-bold uppercase tracking-widest text-slate-500 dark:text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-300 hover:bg-indigo-50 dark:hover:bg-indigo-500/10 rounded-xl transition-all border border-dashed border-slate-300 dark:border-slate-700 hover:border-indigo-500/30">
             <Plus className="w-4 h-4 mr-2" /> {t.addLineItem}
-          </button>
+          </button>}
       </div>
 
       {/* DESKTOP TABLE VIEW */}
@@ -199,12 +438,13 @@ export const InvoiceEditor: React.FC<InvoiceEditorProps> = ({ data, onChange, t,
             <thead>
               <tr className="bg-slate-100/50 dark:bg-slate-900/40 border-b border-slate-200 dark:border-slate-700/50 text-slate-500 dark:text-slate-400 text-[10px] uppercase tracking-widest">
                 <th className="p-2 font-bold w-[12%] whitespace-nowrap" title={t.sku}>{t.sku}</th>
-                <th className={`p-2 font-bold ${isActuallyDifferent ? 'w-[28%]' : 'w-[32%]'}`} title={t.description}>{t.description}</th>
-                <th className={`p-2 font-bold ${isActuallyDifferent ? 'w-[18%]' : 'w-[20%]'}`} title={t.glCategory}>{t.glCategory}</th>
-                <th className="p-2 font-bold w-[7%] text-center whitespace-nowrap" title={t.qty}>{t.qty}</th>
-                <th className="p-2 font-bold w-[12%] text-right whitespace-nowrap" title={t.unitPrice}>{t.unitPrice}</th>
-                <th className="p-2 font-bold w-[12%] text-right whitespace-nowrap" title={t.lineTotal}>{t.lineTotal}</th>
-                {isActuallyDifferent && <th className="p-2 font-bold w-[12%] text-right bg-emerald-50/50 dark:bg-emerald-900/10 text-emerald-700 dark:text-emerald-400 border-l border-emerald-100 dark:border-emerald-500/20 whitespace-nowrap" title={t.convertedTotal}>{t.convertedTotal}</th>}
+                <th className={`p-2 font-bold ${isShipping ? (showSourcePage ? 'w-[45%]' : 'w-[50%]') : isActuallyDifferent ? (showSourcePage ? 'w-[20%]' : 'w-[25%]') : (showSourcePage ? 'w-[24%]' : 'w-[29%]')}`} title={t.description}>{t.description}</th>
+                {!isShipping && <th className={`p-2 font-bold ${isActuallyDifferent ? 'w-[18%]' : 'w-[20%]'}`} title={t.glCategory}>{t.glCategory}</th>}
+                <th className="p-2 font-bold w-[10%] text-center whitespace-nowrap" title={`${t.qty} · ${t.unitOfMeasure} × ${t.packSize}`}>{t.qty}</th>
+                {isShipping ? <th className="p-2 font-bold w-[12%] text-right whitespace-nowrap" title={`${t.lineWeight}${data.shipment?.weightUnit ? ` (${data.shipment.weightUnit})` : ''}`}>{t.lineWeight}</th> : <th className="p-2 font-bold w-[12%] text-right whitespace-nowrap" title={t.unitPrice}>{t.unitPrice}</th>}
+                {isShipping ? <th className="p-2 font-bold w-[12%] text-center whitespace-nowrap" title={t.freightClass}>{t.freightClass}</th> : <th className="p-2 font-bold w-[12%] text-right whitespace-nowrap" title={t.lineTotal}>{t.lineTotal}</th>}
+                {showSourcePage && <th className="p-2 font-bold w-[5%] text-center whitespace-nowrap" title={t.sourcePage}>{t.sourcePage}</th>}
+                {isActuallyDifferent && !isShipping && <th className="p-2 font-bold w-[12%] text-right bg-emerald-50/50 dark:bg-emerald-900/10 text-emerald-700 dark:text-emerald-400 border-l border-emerald-100 dark:border-emerald-500/20 whitespace-nowrap" title={t.convertedTotal}>{t.convertedTotal}</th>}
                 <th className="p-2 w-[4%] text-center"></th>
               </tr>
             </thead>
@@ -212,33 +452,36 @@ export const InvoiceEditor: React.FC<InvoiceEditorProps> = ({ data, onChange, t,
               {data.lineItems.map((item, index) => {
                 const calculatedTotal = item.quantity * item.unitPrice;
                 const extractedTotal = item.totalAmount || 0;
-                const hasVariance = Math.abs(calculatedTotal - extractedTotal) > 0.01;
+                const hasVariance = !isShipping && Math.abs(calculatedTotal - extractedTotal) > 0.01;
                 const isRisk = isHighRiskItem(item.glCategory, item.unitPrice);
                 const convertedValue = isActuallyDifferent ? extractedTotal * rate : 0;
                 return (
-                  <tr key={index} className={`transition-all duration-200 group ${hasVariance ? 'bg-red-50 dark:bg-red-500/5' : isRisk ? 'bg-orange-50 dark:bg-orange-500/5' : 'hover:bg-white/40 dark:hover:bg-white/5'}`}>
+                  <tr key={index} onFocus={focusField('lineItem', index)} className={`transition-all duration-200 group ${hasVariance ? 'bg-red-50 dark:bg-red-500/5' : isRisk ? 'bg-orange-50 dark:bg-orange-500/5' : 'hover:bg-white/40 dark:hover:bg-white/5'}`}>
                     <td className="p-2 align-top"><AutoResizeTextarea value={item.sku || ''} onChange={(e) => handleLineItemChange(index, 'sku', e.target.value)} className="w-full bg-transparent border border-transparent hover:border-slate-300 dark:hover:border-slate-700 focus:border-indigo-500/50 rounded px-1.5 py-1 text-slate-700 dark:text-slate-300 text-xs focus:outline-none focus:bg-white/50 dark:focus:bg-slate-900/50 font-mono resize-none overflow-hidden min-h-[28px]" placeholder={t.sku} title={item.sku} /></td>
                     <td className="p-2 align-top relative"><AutoResizeTextarea value={item.description} onChange={(e) => handleLineItemChange(index, 'description', e.target.value)} className="w-full bg-transparent border border-transparent hover:border-slate-300 dark:hover:border-slate-700 focus:border-indigo-500/50 rounded px-1.5 py-1 text-slate-800 dark:text-slate-200 text-xs focus:outline-none focus:bg-white/50 dark:focus:bg-slate-900/50 resize-none overflow-hidden min-h-[28px] whitespace-normal break-words leading-relaxed" isRisk={isRisk} title={item.description} />{isRisk && <div className="absolute top-1 right-1 pointer-events-none z-10"><span className="flex items-center space-x-1 text-[8px] font-bold text-red-500 dark:text-red-400 bg-red-100 dark:bg-red-500/10 border border-red-200 dark:border-red-500/20 px-1 py-0.5 rounded uppercase tracking-wider shadow-sm"><ShieldAlert className="w-3 h-3" /></span></div>}</td>
-                    <td className="p-2 align-top"><div className="relative"><AutoResizeTextarea value={item.glCategory || ''} onChange={(e) => handleLineItemChange(index, 'glCategory', e.target.value)} className={`w-full border border-transparent hover:border-opacity-50 focus:border-opacity-80 rounded-xl px-2 py-1.5 text-[10px] font-bold text-left focus:outline-none focus:bg-opacity-100 transition-all shadow-sm resize-none overflow-hidden min-h-[26px] whitespace-normal break-words leading-tight ${isRisk ? 'bg-red-100 dark:bg-red-500/10 text-red-600 dark:text-red-400 border-red-200 dark:border-red-500/30' : 'bg-blue-100 dark:bg-blue-500/10 text-blue-600 dark:text-blue-300 hover:border-blue-400 dark:hover:border-blue-500/30'}`} placeholder="Uncategorized" title={item.glCategory} /></div></td>
-                    <td className="p-2 align-top"><input type="number" value={item.quantity} onChange={(e) => handleLineItemChange(index, 'quantity', parseFloat(e.target.value) || 0)} title={item.quantity.toString()} className="w-full bg-transparent border border-transparent hover:border-slate-300 dark:hover:border-slate-700 focus:border-indigo-500/50 rounded px-1 py-1 text-slate-800 dark:text-slate-200 text-xs text-center focus:outline-none focus:bg-white/50 dark:focus:bg-slate-900/50 font-medium" /></td>
-                    <td className="p-2 text-right align-top"><input type="number" step="0.01" value={item.unitPrice} onChange={(e) => handleLineItemChange(index, 'unitPrice', parseFloat(e.target.value) || 0)} title={item.unitPrice.toString()} className={`w-full bg-transparent border border-transparent hover:border-slate-300 dark:hover:border-slate-700 focus:border-indigo-500/50 rounded px-1 py-1 text-xs text-right focus:outline-none focus:bg-white/50 dark:focus:bg-slate-900/50 font-medium ${isRisk ? 'text-red-500 dark:text-red-300 font-bold' : 'text-slate-800 dark:text-slate-200'}`} /></td>
-                    <td className="p-2 text-right pr-2 relative align-top"><div className="flex items-center justify-end space-x-1">{hasVariance && <div className="group/tooltip relative"><AlertTriangle className="w-3.5 h-3.5 text-amber-500 cursor-help" /><div className="absolute bottom-full right-0 mb-2 w-48 bg-slate-800 dark:bg-slate-900/95 backdrop-blur-md text-xs text-white dark:text-slate-200 p-3 rounded-lg border border-slate-700 shadow-xl opacity-0 group-hover/tooltip:opacity-100 transition-opacity pointer-events-auto z-10 transform translate-y-2 group-hover/tooltip:translate-y-0 duration-200"><span className="block font-bold text-amber-500 mb-1 uppercase tracking-wide text-[10px]">{t.mathMismatch}</span><div className="flex justify-between items-center mt-2"><span className="font-mono text-indigo-300">{currencySymbol}{calculatedTotal.toFixed(2)}</span><button onClick={() => recalculateRow(index)} className="px-2 py-0.5 bg-indigo-500 text-white rounded text-[9px] hover:bg-indigo-600 font-bold">{t.recalculate}</button></div></div></div>}<div className="flex items-center w-full justify-end"><span className="text-slate-500 mr-0.5 text-[10px] font-medium">{currencySymbol}</span><input type="number" step="0.01" value={item.totalAmount} onChange={(e) => handleLineItemChange(index, 'totalAmount', parseFloat(e.target.value) || 0)} title={item.totalAmount?.toString()} className={`w-full min-w-0 bg-transparent border border-transparent hover:border-slate-300 dark:hover:border-slate-700 focus:border-indigo-500/50 rounded px-1 py-1 text-xs text-right focus:outline-none focus:bg-white/50 dark:focus:bg-slate-900/50 font-bold ${hasVariance ? 'text-red-600 dark:text-red-400' : 'text-slate-800 dark:text-slate-200'}`} /></div></div></td>
-                    {isActuallyDifferent && <td className="p-2 text-right pr-2 bg-emerald-50/50 dark:bg-emerald-900/10 border-l border-emerald-100 dark:border-emerald-500/20 align-top"><div className="font-mono text-xs font-bold text-emerald-700 dark:text-emerald-400 py-1" title="Converted Value">{convertedValue.toFixed(2)}</div></td>}
+                    {!isShipping && <td className="p-2 align-top"><div className="relative"><AutoResizeTextarea value={item.glCategory || ''} onChange={(e) => handleLineItemChange(index, 'glCategory', e.target.value)} className={`w-full border border-transparent hover:border-opacity-50 focus:border-opacity-80 rounded-xl px-2 py-1.5 text-[10px] font-bold text-left focus:outline-none focus:bg-opacity-100 transition-all shadow-sm resize-none overflow-hidden min-h-[26px] whitespace-normal break-words leading-tight ${isRisk ? 'bg-red-100 dark:bg-red-500/10 text-red-600 dark:text-red-400 border-red-200 dark:border-red-500/30' : 'bg-blue-100 dark:bg-blue-500/10 text-blue-600 dark:text-blue-300 hover:border-blue-400 dark:hover:border-blue-500/30'}`} placeholder="Uncategorized" title={item.glCategory} /></div></td>}
+                    <td className="p-2 align-top"><input type="number" value={item.quantity} onChange={(e) => handleLineItemChange(index, 'quantity', parseFloat(e.target.value) || 0)} title={item.quantity.toString()} className="w-full bg-transparent border border-transparent hover:border-slate-300 dark:hover:border-slate-700 focus:border-indigo-500/50 rounded px-1 py-1 text-slate-800 dark:text-slate-200 text-xs text-center focus:outline-none focus:bg-white/50 dark:focus:bg-slate-900/50 font-medium" /><div className="flex items-center gap-0.5"><input value={item.unitOfMeasure || ''} onChange={(e) => handleLineItemChange(index, 'unitOfMeasure', e.target.value || undefined)} placeholder="each" title={t.unitOfMeasure} className="w-1/2 min-w-0 bg-transparent border border-transparent hover:border-slate-300 dark:hover:border-slate-700 focus:border-indigo-500/50 rounded px-1 py-0.5 text-slate-500 dark:text-slate-400 text-[10px] text-center focus:outline-none" /><span className="text-[9px] text-slate-400">×</span><input type="number" value={item.packSize ?? ''} onChange={(e) => handleLineItemChange(index, 'packSize', parseFloat(e.target.value) || undefined)} placeholder="–" title={t.packSize} className="w-1/2 min-w-0 bg-transparent border border-transparent hover:border-slate-300 dark:hover:border-slate-700 focus:border-indigo-500/50 rounded px-1 py-0.5 text-slate-500 dark:text-slate-400 text-[10px] text-center focus:outline-none" /></div></td>
+                    {isShipping ? <td className="p-2 text-right align-top"><input type="number" value={item.weight ?? ''} onChange={(e) => handleLineItemChange(index, 'weight', e.target.value === '' ? undefined : parseFloat(e.target.value) || 0)} placeholder="–" title={item.weight?.toString()} className="w-full bg-transparent border border-transparent hover:border-slate-300 dark:hover:border-slate-700 focus:border-indigo-500/50 rounded px-1 py-1 text-xs text-right focus:outline-none focus:bg-white/50 dark:focus:bg-slate-900/50 font-medium text-slate-800 dark:text-slate-200" /></td> : <td className="p-2 text-right align-top"><input type="number" step="0.01" value={item.unitPrice} onChange={(e) => handleLineItemChange(index, 'unitPrice', parseFloat(e.target.value) || 0)} title={item.unitPrice.toString()} className={`w-full bg-transparent border border-transparent hover:border-slate-300 dark:hover:border-slate-700 focus:border-indigo-500/50 rounded px-1 py-1 text-xs text-right focus:outline-none focus:bg-white/50 dark:focus:bg-slate-900/50 font-medium ${isRisk ? 'text-red-500 dark:text-red-300 font-bold' : 'text-slate-800 dark:text-slate-200'}`} />{item.baseUnitPrice !== undefined && <div className="px-1 text-[9px] font-mono text-slate-400 truncate" title={`${t.baseUnitPrice}: ${item.baseQuantity} ${item.baseUnit}`}>{formatBaseUnitPrice(item, currencySymbol)}</div>}</td>}
+                    {isShipping ? <td className="p-2 text-center align-top"><input value={item.freightClass || ''} onChange={(e) => handleLineItemChange(index, 'freightClass', e.target.value || undefined)} placeholder="–" title={item.freightClass} className="w-full bg-transparent border border-transparent hover:border-slate-300 dark:hover:border-slate-700 focus:border-indigo-500/50 rounded px-1 py-1 text-xs text-center font-mono focus:outline-none focus:bg-white/50 dark:focus:bg-slate-900/50 text-slate-700 dark:text-slate-300" /></td> : <td className="p-2 text-right pr-2 relative align-top"><div className="flex items-center justify-end space-x-1">{hasVariance && <div className="group/tooltip relative"><AlertTriangle className="w-3.5 h-3.5 text-amber-500 cursor-help" /><div className="absolute bottom-full right-0 mb-2 w-48 bg-slate-800 dark:bg-slate-900/95 backdrop-blur-md text-xs text-white dark:text-slate-200 p-3 rounded-lg border border-slate-700 shadow-xl opacity-0 group-hover/tooltip:opacity-100 transition-opacity pointer-events-auto z-10 transform translate-y-2 group-hover/tooltip:translate-y-0 duration-200"><span className="block font-bold text-amber-500 mb-1 uppercase tracking-wide text-[10px]">{t.mathMismatch}</span><div className="flex justify-between items-center mt-2"><span className="font-mono text-indigo-300">{currencySymbol}{calculatedTotal.toFixed(2)}</span><button onClick={() => recalculateRow(index)} className="px-2 py-0.5 bg-indigo-500 text-white rounded text-[9px] hover:bg-indigo-600 font-bold">{t.recalculate}</button></div></div></div>}<div className="flex items-center w-full justify-end"><span className="text-slate-500 mr-0.5 text-[10px] font-medium">{currencySymbol}</span><input type="number" step="0.01" value={item.totalAmount} onChange={(e) => handleLineItemChange(index, 'totalAmount', parseFloat(e.target.value) || 0)} title={item.totalAmount?.toString()} className={`w-full min-w-0 bg-transparent border border-transparent hover:border-slate-300 dark:hover:border-slate-700 focus:border-indigo-500/50 rounded px-1 py-1 text-xs text-right focus:outline-none focus:bg-white/50 dark:focus:bg-slate-900/50 font-bold ${hasVariance ? 'text-red-600 dark:text-red-400' : 'text-slate-800 dark:text-slate-200'}`} /></div></div></td>}
+                    {showSourcePage && <td className="p-2 text-center align-top"><span className="inline-block mt-1 text-[10px] font-mono font-bold text-slate-500 bg-slate-100 dark:bg-slate-700/50 px-1.5 py-0.5 rounded" title={`${t.sourcePage} ${item.sourcePage || '?'} / ${data.pageCount}`}>{item.sourcePage || '–'}</span></td>}
+                    {isActuallyDifferent && !isShipping && <td className="p-2 text-right pr-2 bg-emerald-50/50 dark:bg-emerald-900/10 border-l border-emerald-100 dark:border-emerald-500/20 align-top"><div className="font-mono text-xs font-bold text-emerald-700 dark:text-emerald-400 py-1" title="Converted Value">{convertedValue.toFixed(2)}</div></td>}
                     <td className="p-2 text-center align-top"><button onClick={() => removeLineItem(index)} className="p-1.5 mt-0.5 text-slate-400 dark:text-slate-600 hover:text-red-500 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-400/10 rounded-lg transition-all opacity-0 group-hover:opacity-100 focus:opacity-100 transform scale-90 hover:scale-100" tabIndex={-1}><Trash2 className="w-3.5 h-3.5" /></button></td>
                   </tr>
                 );
               })}
-              {data.lineItems.length === 0 && <tr><td colSpan={isActuallyDifferent ? 8 : 7} className="p-8 text-center text-slate-500 italic text-xs">{t.noLineItems}</td></tr>}
+              {data.lineItems.length === 0 && <tr><td colSpan={(isShipping ? 6 : 7) + (isActuallyDifferent && !isShipping ? 1 : 0) + (showSourcePage ? 1 : 0)} className="p-8 text-center text-slate-500 italic text-xs">{t.noLineItems}</td></tr>}
             </tbody>
           </table>
         </div>
         {/* Add Item Button */}
          <div className="p-3 border-t border-slate-200 dark:border-slate-700/50 bg-slate-50/50 dark:bg-white/[0.02]">
-          <button onClick={addLineItem} className="w-full py-2.5 flex items-center justify-center text-xs font-bold uppercase tracking-widest text-slate-500 dark:text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-300 hover:bg-indigo-50 dark:hover:bg-indigo-500/10 rounded-lg transition-all border border-dashed border-slate-300 dark:border-slate-700 hover:border-indigo-500/30">
+          {data.isProvisional ? streamingRow : <button onClick={addLineItem} className="w-full py-2.5 flex items-center justify-center text-xs font-bold uppercase tracking-widest text-slate-500 dark:text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-300 hover:bg-indigo-50 dark:hover:bg-indigo-500/10 rounded-lg transition-all border border-dashed border-slate-300 dark:border-slate-700 hover:border-indigo-500/30">
             <Plus className="w-4 h-4 mr-2" /> {t.addLineItem}
-          </button>
+          </button>}
         </div>
       </div>
-    </div>
+
+      {!isShipping && <TotalsBreakdown data={data} onChange={onChange} t={t} />}
+    </fieldset>
   );
 };
\ No newline at end of file
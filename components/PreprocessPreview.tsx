@@ -0,0 +1,92 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Crop, Wand2, Maximize, Check, X } from 'lucide-react';
+import { TranslationDictionary } from '../utils/translations';
+import { CropBox, FULL_FRAME, PreprocessedImage, PreprocessStep } from '../utils/imagePreprocessing';
+
+interface PreprocessPreviewProps {
+  preview: PreprocessedImage;
+  onRecrop: (crop: CropBox | undefined) => void; // undefined restores the automatic crop
+  disabled?: boolean;
+  t: TranslationDictionary;
+}
+
+const useObjectUrl = (file: File) => {
+  const url = useMemo(() => URL.createObjectURL(file), [file]);
+  useEffect(() => () => URL.revokeObjectURL(url), [url]);
+  return url;
+};
+
+const formatKb = (bytes: number) => `${Math.round(bytes / 1024).toLocaleString()} KB`;
+
+export const PreprocessPreview: React.FC<PreprocessPreviewProps> = ({ preview, onRecrop, disabled, t }) => {
+  const beforeUrl = useObjectUrl(preview.original);
+  const afterUrl = useObjectUrl(preview.file);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftCrop, setDraftCrop] = useState<CropBox>(preview.crop || FULL_FRAME);
+  const dragStart = useRef<{ x: number, y: number } | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+
+  const stepLabels: Record<PreprocessStep, string> = { exif: t.stepExif, crop: t.stepCrop, deskew: t.stepDeskew, contrast: t.stepContrast, downscale: t.stepDownscale };
+
+  const pointerPosition = (e: React.PointerEvent) => {
+    const rect = frameRef.current!.getBoundingClientRect();
+    return { x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)), y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = pointerPosition(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragStart.current) return;
+    const start = dragStart.current;
+    const current = pointerPosition(e);
+    setDraftCrop({ x: Math.min(start.x, current.x), y: Math.min(start.y, current.y), width: Math.abs(current.x - start.x), height: Math.abs(current.y - start.y) });
+  };
+
+  const handlePointerUp = () => { dragStart.current = null; };
+
+  const openEditor = () => { setDraftCrop(preview.crop || FULL_FRAME); setIsEditing(true); };
+  const apply = (crop: CropBox | undefined) => { setIsEditing(false); onRecrop(crop); };
+
+  return (
+    <div className="p-3 bg-white/70 dark:bg-slate-800/40 border border-slate-200 dark:border-slate-700/50 rounded-xl space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs font-semibold text-slate-700 dark:text-slate-200 truncate">{preview.original.name}</p>
+        <p className="text-[10px] font-mono text-slate-500 shrink-0">{preview.originalSize.width}×{preview.originalSize.height} · {formatKb(preview.original.size)} → {preview.outputSize.width}×{preview.outputSize.height} · {formatKb(preview.file.size)}</p>
+      </div>
+      {!isEditing ? (
+        <div className="grid grid-cols-2 gap-2">
+          <div><p className="text-[9px] font-bold text-slate-500 uppercase tracking-widest mb-1">{t.before}</p><div className="relative bg-slate-100 dark:bg-slate-900/60 rounded-lg overflow-hidden h-32 flex items-center justify-center"><div className="relative inline-block"><img src={beforeUrl} alt={t.before} className="block max-h-32 w-auto" />{preview.crop && <div className="absolute border-2 border-cyan-400 shadow-[0_0_0_999px_rgba(15,23,42,0.35)] pointer-events-none" style={{ left: `${preview.crop.x * 100}%`, top: `${preview.crop.y * 100}%`, width: `${preview.crop.width * 100}%`, height: `${preview.crop.height * 100}%` }} />}</div></div></div>
+          <div><p className="text-[9px] font-bold text-slate-500 uppercase tracking-widest mb-1">{t.after}</p><div className="bg-slate-100 dark:bg-slate-900/60 rounded-lg overflow-hidden h-32 flex items-center justify-center"><img src={afterUrl} alt={t.after} className="max-h-32 w-auto" /></div></div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-[10px] text-slate-500">{t.cropHint}</p>
+          <div className="bg-slate-100 dark:bg-slate-900/60 rounded-lg flex items-center justify-center p-2">
+            <div ref={frameRef} onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp} className="relative inline-block cursor-crosshair select-none touch-none overflow-hidden">
+              <img src={beforeUrl} alt={t.before} draggable={false} className="block max-h-80 w-auto" />
+              <div className="absolute border-2 border-cyan-400 shadow-[0_0_0_999px_rgba(15,23,42,0.45)] pointer-events-none" style={{ left: `${draftCrop.x * 100}%`, top: `${draftCrop.y * 100}%`, width: `${draftCrop.width * 100}%`, height: `${draftCrop.height * 100}%` }} />
+            </div>
+          </div>
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-1.5">
+        {preview.steps.length === 0 && <span className="px-1.5 py-0.5 rounded text-[9px] font-bold bg-slate-100 dark:bg-slate-700/50 text-slate-500 uppercase tracking-wider">{t.noPreprocessingNeeded}</span>}
+        {preview.steps.map(step => <span key={step} className="px-1.5 py-0.5 rounded text-[9px] font-bold bg-cyan-500/10 text-cyan-700 dark:text-cyan-300 border border-cyan-500/20 uppercase tracking-wider">{stepLabels[step]}{step === 'deskew' ? ` ${preview.skewDegrees > 0 ? '+' : ''}${preview.skewDegrees}°` : ''}{step === 'crop' && preview.cropOverridden ? ` (${t.manual})` : ''}</span>)}
+        <div className="flex-1" />
+        {!isEditing ? (
+          <button onClick={openEditor} disabled={disabled} className="flex items-center space-x-1 px-2 py-1 text-[10px] font-bold text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-700 rounded-md hover:border-indigo-500/40 hover:text-indigo-600 transition-colors disabled:opacity-40 disabled:pointer-events-none"><Crop className="w-3 h-3" /><span>{t.adjustCrop}</span></button>
+        ) : (
+          <>
+            <button onClick={() => apply(undefined)} className="flex items-center space-x-1 px-2 py-1 text-[10px] font-bold text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-700 rounded-md hover:text-indigo-600 transition-colors"><Wand2 className="w-3 h-3" /><span>{t.autoCrop}</span></button>
+            <button onClick={() => apply(FULL_FRAME)} className="flex items-center space-x-1 px-2 py-1 text-[10px] font-bold text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-700 rounded-md hover:text-indigo-600 transition-colors"><Maximize className="w-3 h-3" /><span>{t.fullImage}</span></button>
+            <button onClick={() => setIsEditing(false)} className="p-1 text-slate-400 hover:text-red-500 rounded-md transition-colors" title={t.cancel}><X className="w-3.5 h-3.5" /></button>
+            <button onClick={() => apply(draftCrop)} disabled={draftCrop.width < 0.05 || draftCrop.height < 0.05} className="flex items-center space-x-1 px-2 py-1 text-[10px] font-bold text-white bg-indigo-600 hover:bg-indigo-500 rounded-md transition-colors disabled:opacity-40 disabled:pointer-events-none"><Check className="w-3 h-3" /><span>{t.applyCrop}</span></button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
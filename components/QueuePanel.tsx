@@ -0,0 +1,87 @@
+import React from 'react';
+import { Clock, Loader2, CheckCircle, XCircle, Copy, SkipForward, Pause, Play, Square, RotateCcw, Eraser, Eye, ListOrdered, RefreshCw } from 'lucide-react';
+import { TranslationDictionary } from '../utils/translations';
+import { ProcessingState } from '../types';
+import { QueueItem, QueueItemStatus, QueueSnapshot } from '../services/ingestionQueue';
+import { RequestPosition } from '../services/requestScheduler';
+
+interface QueuePanelProps {
+  snapshot: QueueSnapshot;
+  processingState: ProcessingState;
+  positions?: Record<string, RequestPosition>; // Running items whose model call is waiting on the scheduler
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onRetry: (id: string, forceRefresh?: boolean) => void;
+  onClearFinished: () => void;
+  onConcurrencyChange: (concurrency: number) => void;
+  onReviewDuplicate: (item: QueueItem) => void;
+  onOpen: (item: QueueItem) => void;
+  notice?: string; // Why the queue is holding, e.g. the session budget ran out
+  t: TranslationDictionary;
+}
+
+const STATUS_STYLES: Record<QueueItemStatus, { icon: React.ElementType, className: string }> = {
+  queued: { icon: Clock, className: 'text-slate-400' },
+  running: { icon: Loader2, className: 'text-indigo-500 animate-spin' },
+  done: { icon: CheckCircle, className: 'text-emerald-500' },
+  failed: { icon: XCircle, className: 'text-red-500' },
+  duplicate: { icon: Copy, className: 'text-amber-500' },
+  skipped: { icon: SkipForward, className: 'text-slate-400' }
+};
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6, 8];
+
+const iconButton = "p-1.5 rounded-md border border-slate-200 dark:border-slate-700 text-slate-500 hover:text-indigo-600 hover:border-indigo-500/40 transition-colors disabled:opacity-30 disabled:pointer-events-none";
+
+export const QueuePanel: React.FC<QueuePanelProps> = ({ snapshot, processingState, positions, onPause, onResume, onCancel, onRetry, onClearFinished, onConcurrencyChange, onReviewDuplicate, onOpen, notice, t }) => {
+  const { items, paused, isActive, concurrency } = snapshot;
+  const statusLabels: Record<QueueItemStatus, string> = { queued: t.statusQueued, running: t.statusRunning, done: t.statusDone, failed: t.statusFailed, duplicate: t.statusDuplicate, skipped: t.statusSkipped };
+  const finished = items.filter(item => item.status !== 'queued' && item.status !== 'running').length;
+  const counts = items.reduce((acc, item) => ({ ...acc, [item.status]: (acc[item.status] || 0) + 1 }), {} as Partial<Record<QueueItemStatus, number>>);
+
+  return (
+    <div className="p-4 bg-white/60 dark:bg-slate-800/40 backdrop-blur-sm border border-slate-200 dark:border-white/5 rounded-xl shadow-sm space-y-3 animate-in fade-in slide-in-from-top-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center space-x-2 min-w-0"><ListOrdered className="w-4 h-4 text-indigo-500 shrink-0" /><p className="text-[10px] font-bold text-slate-800 dark:text-slate-300 uppercase tracking-wider truncate">{t.queueTitle}</p><span className="text-[10px] font-mono text-slate-500">{finished}/{items.length}</span></div>
+        <div className="flex items-center gap-1 shrink-0">
+          <select value={concurrency} onChange={(e) => onConcurrencyChange(parseInt(e.target.value, 10))} className="bg-transparent border border-slate-200 dark:border-slate-700 rounded-md text-[10px] font-mono text-slate-600 dark:text-slate-300 px-1 py-1 focus:outline-none" title={t.queueParallel}>{CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}×</option>)}</select>
+          {paused ? <button onClick={onResume} disabled={!isActive} className={iconButton} title={t.queueResume}><Play className="w-3.5 h-3.5" /></button> : <button onClick={onPause} disabled={!isActive} className={iconButton} title={t.queuePause}><Pause className="w-3.5 h-3.5" /></button>}
+          <button onClick={onCancel} disabled={!isActive} className={`${iconButton} hover:text-red-500 hover:border-red-500/40`} title={t.queueCancel}><Square className="w-3.5 h-3.5" /></button>
+          <button onClick={onClearFinished} disabled={finished === 0} className={iconButton} title={t.queueClearFinished}><Eraser className="w-3.5 h-3.5" /></button>
+        </div>
+      </div>
+
+      <div className="w-full bg-slate-200 dark:bg-slate-700/50 rounded-full h-1.5 overflow-hidden"><div className={`h-full transition-all duration-500 ${paused ? 'bg-amber-500' : 'bg-indigo-500'}`} style={{ width: `${items.length ? (finished / items.length) * 100 : 0}%` }}></div></div>
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px] font-mono text-slate-500">
+        {(Object.keys(STATUS_STYLES) as QueueItemStatus[]).filter(status => counts[status]).map(status => <span key={status}>{statusLabels[status]} {counts[status]}</span>)}
+      </div>
+      {paused && isActive && <p className="text-[10px] font-bold text-amber-600 dark:text-amber-400 uppercase tracking-wider">{t.queuePaused}</p>}
+      {notice && <p className="text-xs font-medium text-amber-700 dark:text-amber-300">{notice}</p>}
+      {processingState.status === 'processing' && processingState.message && <p className="text-xs font-medium text-indigo-600 dark:text-indigo-300 animate-pulse">{processingState.message}</p>}
+      {processingState.status === 'processing' && (processingState.queued || 0) > 1 && <p className="text-[10px] font-mono text-slate-500">{t.queueStatus.replace('{count}', processingState.queued!.toString()).replace('{eta}', (processingState.etaSeconds || 0).toString())}</p>}
+
+      <ul className="max-h-80 overflow-y-auto space-y-1 -mx-1 px-1">
+        {items.map(item => {
+          const { icon: Icon, className } = STATUS_STYLES[item.status];
+          const waiting = item.status === 'running' ? positions?.[item.id] : undefined;
+          return (
+            <li key={item.id} className="flex items-center gap-2 py-1.5 px-2 rounded-lg hover:bg-slate-50 dark:hover:bg-white/[0.03]" title={item.error || statusLabels[item.status]}>
+              <Icon className={`w-3.5 h-3.5 shrink-0 ${className}`} />
+              <div className="min-w-0 flex-1">
+                <p className="text-xs text-slate-700 dark:text-slate-300 truncate">{item.file.name}{item.invoice?.fromCache && item.status === 'done' && <span className="ml-1.5 px-1 py-0.5 rounded text-[8px] font-bold uppercase tracking-wider bg-slate-100 dark:bg-slate-700/50 text-slate-500">{t.fromCache}</span>}</p>
+                {waiting && <p className="text-[10px] font-mono text-amber-600 dark:text-amber-400 truncate">{t.queuePosition.replace('{position}', waiting.position.toString()).replace('{eta}', Math.ceil(waiting.etaMs / 1000).toString())}</p>}
+                {item.status === 'failed' && <p className="text-[10px] text-red-500 truncate">{item.error}</p>}
+                {item.invoice && (item.status === 'done' || item.status === 'duplicate') && <p className="text-[10px] text-slate-500 truncate">{item.invoice.vendorName} · {item.invoice.currencySymbol}{item.invoice.totalAmount.toFixed(2)}</p>}
+              </div>
+              {(item.status === 'failed' || item.status === 'skipped') && <button onClick={() => onRetry(item.id)} className={iconButton} title={t.queueRetry}><RotateCcw className="w-3 h-3" /></button>}
+              {item.status === 'duplicate' && <button onClick={() => onReviewDuplicate(item)} className={`${iconButton} text-amber-500`} title={t.reviewDuplicate}><Copy className="w-3 h-3" /></button>}
+              {item.status === 'done' && <button onClick={() => onRetry(item.id, true)} disabled={isActive} className={iconButton} title={t.reextract}><RefreshCw className="w-3 h-3" /></button>}
+              {item.status === 'done' && <button onClick={() => onOpen(item)} className={iconButton} title={t.openInvoice}><Eye className="w-3 h-3" /></button>}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -1,8 +1,12 @@
 import React, { useState, useMemo } from 'react';
-import { InvoiceData } from '../types';
-import { FileText, FileBox, FileCheck, History, BarChart2, TestTube, Download, TrendingUp, Globe2, Coins, AlertTriangle, PieChart } from 'lucide-react';
+import { CostSettings, InvoiceData, TokenUsage } from '../types';
+import { FileText, FileBox, FileCheck, History, BarChart2, TestTube, Download, TrendingUp, Globe2, Coins, AlertTriangle, PieChart, Settings, Landmark, Upload, X, Receipt, GitMerge, ChevronRight } from 'lucide-react';
 import { TranslationDictionary } from '../utils/translations';
 import { getExchangeRate, getCurrencyCode, CODE_TO_SYMBOL } from '../utils/currency';
+import { DEFAULT_COST_SETTINGS, formatCost, hasUnpricedUsage, totalTokens, usageCost } from '../utils/modelPricing';
+import { MatchGroup } from '../services/threeWayMatch';
+import { isCreditNote, isShippingDocument } from '../utils/documentTypes';
+import { signedTotal } from '../services/creditNotes';
 
 interface SessionSidebarProps {
   history: InvoiceData[];
@@ -17,6 +21,16 @@ interface SessionSidebarProps {
   exportFormat?: string;
   onExportFormatChange?: (format: string) => void;
   onClearAll: () => void;
+  workspaceName?: string;
+  providerLabel?: string;
+  onOpenSettings?: () => void;
+  vendorMasterCount?: number;
+  onImportVendorMaster?: (file: File) => void;
+  onClearVendorMaster?: () => void;
+  sessionUsage?: TokenUsage[]; // Every model call this session, audits included
+  costSettings?: CostSettings;
+  matchGroups?: MatchGroup[];
+  onOpenMatching?: () => void;
 }
 
 type Tab = 'list' | 'stats';
@@ -72,15 +86,17 @@ const AnalyticsBar = ({ title, icon: Icon, segments, warning }: { title: string,
 };
 
 export const SessionSidebar: React.FC<SessionSidebarProps> = ({
-  history, currentId, onSelect, onNewInvoice, onExportAll, t, isDemoMode, onToggleDemoMode, exportFormat = 'csv', onExportFormatChange, onClearAll
+  history, currentId, onSelect, onNewInvoice, onExportAll, t, isDemoMode, onToggleDemoMode, exportFormat = 'csv', onExportFormatChange, onClearAll, workspaceName, providerLabel, onOpenSettings, vendorMasterCount = 0, onImportVendorMaster, onClearVendorMaster, sessionUsage = [], costSettings = DEFAULT_COST_SETTINGS, matchGroups = [], onOpenMatching
 }) => {
   const [activeTab, setActiveTab] = useState<Tab>('list');
 
   const getBadgeStyle = (type: string = '') => { 
     const tStr = type.toUpperCase(); 
+    if (isCreditNote({ documentType: type })) return { className: 'text-rose-600 dark:text-rose-400 bg-rose-500/10 border-rose-500/20', icon: FileText, label: 'CR' }; 
     if (tStr.includes('INVOICE')) return { className: 'text-emerald-600 dark:text-emerald-400 bg-emerald-500/10 border-emerald-500/20', icon: FileText, label: 'INV' }; 
     if (tStr.includes('PACKING')) return { className: 'text-orange-600 dark:text-orange-400 bg-orange-500/10 border-orange-500/20', icon: FileBox, label: 'PAK' }; 
     if (tStr.includes('BOL') || tStr.includes('LADING')) return { className: 'text-blue-600 dark:text-blue-400 bg-blue-500/10 border-blue-500/20', icon: FileCheck, label: 'BOL' }; 
+    if (tStr.includes('PURCHASE ORDER')) return { className: 'text-violet-600 dark:text-violet-400 bg-violet-500/10 border-violet-500/20', icon: FileText, label: 'PO' }; 
     return { className: 'text-slate-600 dark:text-slate-400 bg-slate-500/10 border-slate-500/20', icon: FileText, label: 'DOC' }; 
   };
   
@@ -95,16 +111,18 @@ export const SessionSidebar: React.FC<SessionSidebarProps> = ({
     if (history.length === 0) return null;
     
     let totalValueUSD = 0; 
+    let creditsUSD = 0; // Already netted into totalValueUSD
     let totalTime = 0; 
     
     const catCounts: Record<string, number> = {};
     const currencyCounts: Record<string, number> = {};
     const langCounts: Record<string, number> = {};
-    const typeCounts: Record<string, number> = { 'Invoice': 0, 'Receipt': 0, 'PO': 0, 'Other': 0 };
+    const typeCounts: Record<string, number> = { 'Invoice': 0, 'Credit': 0, 'Receipt': 0, 'PO': 0, 'Other': 0 };
 
     history.forEach(doc => {
       const { rate } = getExchangeRate(doc.currencySymbol, 'USD');
-      totalValueUSD += (doc.totalAmount || 0) * rate;
+      totalValueUSD += signedTotal(doc) * rate;
+      if (isCreditNote(doc)) creditsUSD += signedTotal(doc) * rate;
       if (doc.processingTimeMs) totalTime += doc.processingTimeMs;
       
       doc.lineItems.forEach(item => { 
@@ -128,7 +146,8 @@ export const SessionSidebar: React.FC<SessionSidebarProps> = ({
 
       // Type Counting
       const dType = (doc.documentType || '').toUpperCase();
-      if (dType.includes('INVOICE')) typeCounts['Invoice']++;
+      if (isCreditNote(doc)) typeCounts['Credit']++;
+      else if (dType.includes('INVOICE')) typeCounts['Invoice']++;
       else if (dType.includes('RECEIPT')) typeCounts['Receipt']++;
       else if (dType.includes('PURCHASE') || dType.includes('PO')) typeCounts['PO']++;
       else typeCounts['Other']++;
@@ -167,6 +186,7 @@ export const SessionSidebar: React.FC<SessionSidebarProps> = ({
     const showRedFlag = typeCounts['Invoice'] === totalDocs && totalDocs > 1;
     const docCompSegments: BarSegment[] = [
         { label: 'Invoice', value: typeCounts['Invoice'], color: '#4f46e5' }, // Indigo
+        { label: 'Credit', value: typeCounts['Credit'], color: '#f43f5e' }, // Rose
         { label: 'Receipt', value: typeCounts['Receipt'], color: '#10b981' }, // Emerald
         { label: 'PO', value: typeCounts['PO'], color: '#f59e0b' },      // Amber
         { label: 'Other', value: typeCounts['Other'], color: '#94a3b8' }      // Slate
@@ -185,8 +205,15 @@ export const SessionSidebar: React.FC<SessionSidebarProps> = ({
         };
     });
 
-    return { totalDocs, totalValueUSD, avgTime: totalTime / totalDocs / 1000, expenseSegments, currencySegments, languageSegments, docCompSegments, showRedFlag };
-  }, [history]);
+    // Cached and demo documents cost nothing, so the average only covers documents that called a model
+    const billedDocs = history.filter(doc => doc.usage && doc.usage.length > 0);
+    const avgDocCost = billedDocs.length > 0 ? billedDocs.reduce((sum, doc) => sum + usageCost(doc.usage, costSettings.prices), 0) / billedDocs.length : 0;
+
+    return { totalDocs, totalValueUSD, creditsUSD, avgTime: totalTime / totalDocs / 1000, expenseSegments, currencySegments, languageSegments, docCompSegments, showRedFlag, avgDocCost };
+  }, [history, costSettings]);
+
+  const sessionCost = usageCost(sessionUsage, costSettings.prices);
+  const budget = costSettings.sessionBudgetUsd;
 
   return (
     <div className="h-full flex flex-col bg-white/50 dark:bg-slate-900/50 backdrop-blur-xl border-r border-slate-200 dark:border-white/5 w-full">
@@ -199,8 +226,32 @@ export const SessionSidebar: React.FC<SessionSidebarProps> = ({
           <div className="flex items-center space-x-2"><div className={`p-1 rounded transition-colors ${isDemoMode ? 'bg-amber-100 text-amber-600' : 'bg-slate-100 dark:bg-slate-700 text-slate-500'}`}><TestTube className="w-3 h-3" /></div><span className={`text-[10px] font-bold uppercase tracking-wider ${isDemoMode ? 'text-amber-700' : 'text-slate-600'}`}>{isDemoMode ? 'Demo Mode' : 'Real API'}</span></div>
           <div className={`w-8 h-4 rounded-full relative transition-colors ${isDemoMode ? 'bg-amber-500' : 'bg-slate-300'}`}><div className={`absolute top-0.5 left-0.5 w-3 h-3 bg-white rounded-full transition-transform ${isDemoMode ? 'translate-x-4' : 'translate-x-0'}`} /></div>
         </div>
+        {onOpenSettings && (
+          <button onClick={onOpenSettings} className="w-full mt-2 p-2.5 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 hover:border-indigo-300 flex items-center justify-between transition-all shadow-sm text-left" title={t.workspaceSettings}>
+            <div className="min-w-0"><p className="text-[10px] font-bold uppercase tracking-wider text-slate-600 dark:text-slate-300 truncate">{workspaceName}</p><p className="text-[9px] text-slate-400 truncate">{isDemoMode ? 'Demo Mode' : providerLabel}</p></div>
+            <Settings className="w-3.5 h-3.5 text-slate-400 shrink-0 ml-2" />
+          </button>
+        )}
+        {onImportVendorMaster && (
+          <div className="w-full mt-2 p-2.5 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 flex items-center justify-between shadow-sm" title={t.vendorMasterHint}>
+            <div className="flex items-center space-x-2 min-w-0"><Landmark className="w-3.5 h-3.5 text-slate-400 shrink-0" /><div className="min-w-0"><p className="text-[10px] font-bold uppercase tracking-wider text-slate-600 dark:text-slate-300 truncate">{t.vendorMaster}</p><p className="text-[9px] text-slate-400 truncate">{vendorMasterCount > 0 ? t.vendorMasterCount.replace('{count}', vendorMasterCount.toString()) : t.vendorMasterEmpty}</p></div></div>
+            <div className="flex items-center space-x-1 shrink-0 ml-2">
+              <label className="p-1 rounded text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-300 cursor-pointer" title={t.importVendorMaster}><Upload className="w-3.5 h-3.5" /><input type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; if (file) onImportVendorMaster(file); e.target.value = ''; }} /></label>
+              {vendorMasterCount > 0 && onClearVendorMaster && <button onClick={onClearVendorMaster} className="p-1 rounded text-slate-400 hover:text-red-500" title={t.clearVendorMaster}><X className="w-3.5 h-3.5" /></button>}
+            </div>
+          </div>
+        )}
       </div>
 
+      {onOpenMatching && matchGroups.length > 0 && (
+        <div className="px-4 pb-4 border-b border-slate-200 dark:border-white/5">
+          <button onClick={onOpenMatching} className="w-full mt-4 p-2.5 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 hover:border-indigo-300 flex items-center justify-between transition-all shadow-sm text-left" title={t.threeWayMatchHint}>
+            <div className="flex items-center space-x-2 min-w-0"><GitMerge className={`w-3.5 h-3.5 shrink-0 ${matchGroups.some(g => g.status === 'variance') ? 'text-red-500' : 'text-slate-400'}`} /><div className="min-w-0"><p className="text-[10px] font-bold uppercase tracking-wider text-slate-600 dark:text-slate-300 truncate">{t.threeWayMatch}</p><p className="text-[9px] text-slate-400 truncate">{t.matchGroupsCount.replace('{count}', matchGroups.length.toString()).replace('{variances}', matchGroups.filter(g => g.status === 'variance').length.toString())}</p></div></div>
+            <ChevronRight className="w-3.5 h-3.5 text-slate-400 shrink-0 ml-2" />
+          </button>
+        </div>
+      )}
+
       <div className="flex-1 overflow-y-auto custom-scrollbar">
         {activeTab === 'list' && (
           <div className="p-4 space-y-3">
@@ -209,10 +260,13 @@ export const SessionSidebar: React.FC<SessionSidebarProps> = ({
               <div key={item.id} onClick={() => onSelect(item)} className={`group relative p-3 rounded-xl border transition-all cursor-pointer ${item.id === currentId ? 'bg-white dark:bg-slate-800 border-indigo-500/50 shadow-lg' : 'bg-white/40 dark:bg-slate-800/40 hover:bg-white/80'}`}>
                 <div className="flex justify-between items-start mb-2">
                   <div className={`flex items-center space-x-1 px-1.5 py-0.5 rounded text-[10px] font-bold uppercase border ${getBadgeStyle(item.documentType).className}`}><FileText className="w-3 h-3" /><span>{getBadgeStyle(item.documentType).label}</span></div>
-                  {calculateRisk(item) && <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse"></span>}
+                  <div className="flex items-center space-x-1.5">
+                    {item.remittanceAlert && <span className="flex items-center space-x-1 px-1.5 py-0.5 rounded text-[9px] font-bold uppercase tracking-wide bg-red-600 text-white shadow-sm animate-pulse" title={t.bankChangeWarning}><Landmark className="w-2.5 h-2.5" /><span>{t.bankChangeTag}</span></span>}
+                    {calculateRisk(item) && <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse"></span>}
+                  </div>
                 </div>
                 <h4 className="text-sm font-semibold text-slate-800 dark:text-slate-200 truncate pr-4" title={item.vendorName}>{item.vendorName || 'Unknown'}</h4>
-                <p className="text-xs font-mono text-slate-500">{item.currencySymbol}{item.totalAmount?.toFixed(2)}</p>
+                <div className="flex items-baseline justify-between"><p className="text-xs font-mono text-slate-500">{isShippingDocument(item) ? `${item.lineItems.length} ${t.itemsDetected}` : isCreditNote(item) ? <span className="text-rose-600 dark:text-rose-400">-{item.currencySymbol}{Math.abs(item.totalAmount || 0).toFixed(2)}</span> : `${item.currencySymbol}${item.totalAmount?.toFixed(2)}`}</p>{item.usage && item.usage.length > 0 && <span className="text-[9px] font-mono text-slate-400" title={`${totalTokens(item.usage).toLocaleString()} ${t.tokens}`}>{formatCost(usageCost(item.usage, costSettings.prices))}</span>}</div>
               </div>
             ))}
           </div>
@@ -233,8 +287,20 @@ export const SessionSidebar: React.FC<SessionSidebarProps> = ({
             <div className="bg-gradient-to-br from-indigo-500/10 to-blue-500/10 p-3 rounded-xl border border-indigo-500/20" title={t.totalValue}>
               <p className="text-[9px] uppercase font-bold text-indigo-500/80 truncate">{t.totalValue}</p>
               <p className="text-xl font-bold text-indigo-600 dark:text-indigo-400 mt-0.5 truncate" title={`$${stats.totalValueUSD.toLocaleString()}`}>${stats.totalValueUSD.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
+              {stats.creditsUSD < 0 && <p className="text-[9px] font-mono text-rose-600 dark:text-rose-400 truncate">{t.netOfCredits.replace('{amount}', `-$${Math.abs(stats.creditsUSD).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`)}</p>}
             </div>
             
+            {sessionUsage.length > 0 && (
+              <div className="bg-white/40 dark:bg-slate-800/40 p-3 rounded-xl border border-slate-200 dark:border-white/5 space-y-1.5" title={hasUnpricedUsage(sessionUsage, costSettings.prices) ? t.unpricedModels : t.modelCost}>
+                <div className="flex items-center justify-between"><div className="flex items-center space-x-1.5"><Receipt className={`w-3 h-3 ${hasUnpricedUsage(sessionUsage, costSettings.prices) ? 'text-amber-500' : 'text-slate-400'}`} /><p className="text-[9px] uppercase font-bold text-slate-400">{t.modelCost}</p></div><p className="text-[9px] font-mono text-slate-400">{totalTokens(sessionUsage).toLocaleString()} {t.tokens}</p></div>
+                <div className="flex items-baseline justify-between"><p className="text-lg font-bold text-slate-800 dark:text-white leading-tight">{formatCost(sessionCost)}</p><p className="text-[10px] font-mono text-slate-500">{formatCost(stats.avgDocCost)} {t.perDocument}</p></div>
+                {!!budget && (<>
+                  <div className="w-full bg-slate-200 dark:bg-slate-700/50 rounded-full h-1.5 overflow-hidden"><div className={`h-full transition-all duration-500 ${sessionCost >= budget ? 'bg-red-500' : sessionCost >= budget * 0.8 ? 'bg-amber-500' : 'bg-emerald-500'}`} style={{ width: `${Math.min(100, (sessionCost / budget) * 100)}%` }}></div></div>
+                  <p className="text-[9px] font-mono text-slate-400">{t.budgetUsed.replace('{spent}', formatCost(sessionCost)).replace('{budget}', formatCost(budget))}</p>
+                </>)}
+              </div>
+            )}
+
             <AnalyticsBar title={t.spendingBreakdown} icon={TrendingUp} segments={stats.expenseSegments} />
             <AnalyticsBar title={t.currencyDist} icon={Coins} segments={stats.currencySegments} />
             {/* UPDATED: Doc Composition as AnalyticsBar */}
@@ -251,6 +317,7 @@ export const SessionSidebar: React.FC<SessionSidebarProps> = ({
           <option value="quickbooks">QuickBooks (IIF)</option>
           <option value="excel">Excel (.xls)</option>
           <option value="json">JSON</option>
+          <option value="ubl">Peppol UBL (XML)</option>
         </select>
         <button onClick={onExportAll} className="w-full mt-3 flex items-center justify-center space-x-2 py-2 border border-slate-300 dark:border-slate-600 rounded-lg text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-all"><Download className="w-3 h-3" /><span>Export Combined</span></button>
         <button onClick={onClearAll} className="w-full mt-2 flex items-center justify-center space-x-2 py-2 border border-red-200 dark:border-red-900/30 rounded-lg text-xs font-bold text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/10 transition-all"><AlertTriangle className="w-3 h-3" /><span>{t.clearData}</span></button>
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Truck, Package, Scale, MapPin } from 'lucide-react';
+import { FieldFocus, InvoiceData, ShipmentDetails } from '../types';
+import { TranslationDictionary } from '../utils/translations';
+
+interface ShipmentDetailsPanelProps {
+  data: InvoiceData;
+  onChange: (newData: InvoiceData) => void;
+  t: TranslationDictionary;
+  onFieldFocus?: (focus: FieldFocus | null) => void;
+}
+
+const inputClass = "w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-800 dark:text-slate-100 font-medium focus:outline-none focus:border-indigo-500 transition-all placeholder-slate-400";
+const labelClass = "flex items-center text-[9px] font-bold text-slate-500 uppercase tracking-widest";
+
+// Consignment block of packing slips and bills of lading, in place of the totals an invoice would have
+export const ShipmentDetailsPanel: React.FC<ShipmentDetailsPanelProps> = ({ data, onChange, t, onFieldFocus }) => {
+  const shipment = data.shipment || {};
+  const update = (field: keyof ShipmentDetails, value: string | number | undefined) => onChange({ ...data, shipment: { ...shipment, [field]: value === '' ? undefined : value } });
+
+  const textField = (field: keyof ShipmentDetails, label: string, mono = false) => (
+    <div className="space-y-1">
+      <label className={labelClass}>{label}</label>
+      <input type="text" value={shipment[field] ?? ''} onFocus={() => onFieldFocus?.({ field })} onChange={(e) => update(field, e.target.value)} title={String(shipment[field] ?? '')} className={`${inputClass} ${mono ? 'font-mono' : ''}`} />
+    </div>
+  );
+  const numberField = (field: 'palletCount' | 'pieceCount' | 'grossWeight', label: string) => (
+    <div className="space-y-1">
+      <label className={labelClass}>{label}</label>
+      <input type="number" value={shipment[field] ?? ''} onFocus={() => onFieldFocus?.({ field })} onChange={(e) => update(field, e.target.value === '' ? undefined : parseFloat(e.target.value) || 0)} className={`${inputClass} text-right font-mono`} />
+    </div>
+  );
+
+  return (
+    <div className="bg-white/60 dark:bg-slate-800/40 backdrop-blur-sm p-4 rounded-xl border border-slate-200 dark:border-slate-700/50 shadow-sm space-y-4">
+      <h3 className="flex items-center font-semibold text-slate-800 dark:text-slate-200 tracking-wide text-xs uppercase"><Truck className="w-3.5 h-3.5 mr-2 opacity-70" />{t.shipmentDetails}</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4">
+        {textField('carrierName', t.carrierName)}
+        {textField('proNumber', t.proNumber, true)}
+        {textField('trackingNumber', t.trackingNumber, true)}
+        {textField('freightClass', t.freightClass, true)}
+        {numberField('palletCount', t.palletCount)}
+        {numberField('pieceCount', t.pieceCount)}
+        {numberField('grossWeight', t.grossWeight)}
+        {textField('weightUnit', t.weightUnit)}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-4 border-t border-slate-200 dark:border-white/5">
+        <div className="space-y-2">
+          <h4 className={labelClass}><Package className="w-3 h-3 mr-1.5 opacity-70" />{t.shipper}</h4>
+          {textField('shipperName', t.shipperName)}
+          {textField('shipperAddress', t.shipperAddress)}
+        </div>
+        <div className="space-y-2">
+          <h4 className={labelClass}><MapPin className="w-3 h-3 mr-1.5 opacity-70" />{t.consignee}</h4>
+          {textField('consigneeName', t.consigneeName)}
+          {textField('consigneeAddress', t.consigneeAddress)}
+        </div>
+      </div>
+      {shipment.grossWeight !== undefined && data.lineItems.some(item => item.weight !== undefined) && (
+        <p className="flex items-center text-[10px] font-mono text-slate-400"><Scale className="w-3 h-3 mr-1.5 opacity-70" />{t.lineWeightTotal}: {parseFloat(data.lineItems.reduce((sum, item) => sum + (item.weight || 0), 0).toFixed(2))} {shipment.weightUnit || ''}</p>
+      )}
+    </div>
+  );
+};
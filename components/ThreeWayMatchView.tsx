@@ -0,0 +1,89 @@
+import React from 'react';
+import { GitMerge, X, CheckCircle, AlertTriangle, CircleDashed } from 'lucide-react';
+import { InvoiceData } from '../types';
+import { TranslationDictionary } from '../utils/translations';
+import { MatchGroup, MatchLine, MatchRole, MatchStatus, MatchVariance } from '../services/threeWayMatch';
+
+interface ThreeWayMatchViewProps {
+  groups: MatchGroup[];
+  currentId?: string;
+  onSelect: (doc: InvoiceData) => void;
+  onClose: () => void;
+  t: TranslationDictionary;
+}
+
+export const matchStatusStyle = (status: MatchStatus, t: TranslationDictionary) => {
+  if (status === 'matched') return { label: t.matchStatusMatched, icon: CheckCircle, className: 'bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 border-emerald-500/20' };
+  if (status === 'variance') return { label: t.matchStatusVariance, icon: AlertTriangle, className: 'bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20' };
+  return { label: t.matchStatusIncomplete, icon: CircleDashed, className: 'bg-slate-500/10 text-slate-600 dark:text-slate-400 border-slate-500/20' };
+};
+
+export const matchRoleLabel = (role: MatchRole, t: TranslationDictionary) => role === 'order' ? t.rolePurchaseOrder : role === 'receipt' ? t.roleReceipt : t.roleInvoice;
+
+const figure = (value?: number) => value === undefined ? '—' : parseFloat(value.toFixed(4)).toString();
+
+export const describeVariance = (variance: MatchVariance, line: MatchLine, t: TranslationDictionary): string => {
+  const labels: Record<MatchVariance['kind'], string> = {
+    billedOverReceived: t.varianceBilledOverReceived,
+    billedOverOrdered: t.varianceBilledOverOrdered,
+    receivedOverOrdered: t.varianceReceivedOverOrdered,
+    priceVariance: t.variancePrice,
+    notOrdered: t.varianceNotOrdered
+  };
+  const amounts = variance.expected !== undefined ? ` (${figure(variance.expected)} → ${figure(variance.actual)}${variance.kind !== 'priceVariance' && line.unit ? ` ${line.unit}` : ''})` : '';
+  return `${labels[variance.kind]}${amounts}`;
+};
+
+const numberCell = "p-2 text-right font-mono whitespace-nowrap";
+
+export const ThreeWayMatchView: React.FC<ThreeWayMatchViewProps> = ({ groups, currentId, onSelect, onClose, t }) => (
+  <div className="fixed inset-0 z-[200] flex items-center justify-center p-4">
+    <div className="absolute inset-0 bg-black/50 dark:bg-black/70 backdrop-blur-sm transition-opacity" onClick={onClose} />
+    <div className="relative bg-white dark:bg-slate-900 rounded-2xl shadow-2xl max-w-5xl w-full p-6 border border-slate-200 dark:border-slate-700 animate-in zoom-in-95 duration-200 max-h-[90vh] overflow-y-auto space-y-5">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3"><div className="p-2 bg-indigo-100 dark:bg-indigo-500/10 rounded-lg"><GitMerge className="w-5 h-5 text-indigo-600 dark:text-indigo-400" /></div><div><h3 className="text-lg font-bold text-slate-900 dark:text-white">{t.threeWayMatch}</h3><p className="text-xs text-slate-500">{t.threeWayMatchHint}</p></div></div>
+        <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded-lg"><X className="w-5 h-5" /></button>
+      </div>
+
+      {groups.length === 0 && <p className="text-sm text-slate-500 text-center py-10">{t.noMatchGroups}</p>}
+
+      {groups.map(group => {
+        const status = matchStatusStyle(group.status, t);
+        const documents: [MatchRole, InvoiceData[]][] = [['order', group.orders], ['receipt', group.receipts], ['invoice', group.invoices]];
+        return (
+          <div key={group.key} className="rounded-xl border border-slate-200 dark:border-slate-700 overflow-hidden">
+            <div className="p-3 bg-slate-50 dark:bg-slate-800/50 flex flex-wrap items-center gap-2 border-b border-slate-200 dark:border-slate-700">
+              <span className={`flex items-center space-x-1 px-2 py-0.5 rounded border text-[10px] font-bold uppercase tracking-wider ${status.className}`}><status.icon className="w-3 h-3" /><span>{status.label}</span></span>
+              <span className="text-sm font-bold text-slate-800 dark:text-slate-100 font-mono">{group.poNumber}</span>
+              <span className="text-sm text-slate-600 dark:text-slate-300 truncate">{group.vendorName}</span>
+              <div className="flex-1" />
+              {documents.map(([role, docs]) => docs.map(doc => (
+                <button key={doc.id} onClick={() => onSelect(doc)} className={`px-2 py-0.5 rounded border text-[10px] font-bold transition-colors ${doc.id === currentId ? 'border-indigo-500 text-indigo-600 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-500/10' : 'border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:border-indigo-400'}`} title={doc.vendorName}>{matchRoleLabel(role, t)} {doc.invoiceNumber || ''}</button>
+              )))}
+              {group.missing.length > 0 && <span className="text-[10px] text-slate-400 italic">{t.matchMissing.replace('{list}', group.missing.map(role => matchRoleLabel(role, t)).join(', '))}</span>}
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs min-w-[720px]">
+                <thead><tr className="text-[10px] font-bold text-slate-500 uppercase tracking-wider border-b border-slate-100 dark:border-slate-800"><th className="p-2 text-left">{t.sku}</th><th className="p-2 text-left">{t.description}</th><th className="p-2 text-right">{t.matchOrdered}</th><th className="p-2 text-right">{t.matchReceived}</th><th className="p-2 text-right">{t.matchBilled}</th><th className="p-2 text-right">{t.matchOrderedPrice}</th><th className="p-2 text-right">{t.matchBilledPrice}</th><th className="p-2 text-left">{t.matchVariances}</th></tr></thead>
+                <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                  {group.lines.map(line => (
+                    <tr key={line.key} className={line.variances.length > 0 ? 'bg-red-50/60 dark:bg-red-500/5' : ''}>
+                      <td className="p-2 font-mono text-slate-600 dark:text-slate-400">{line.sku || '—'}</td>
+                      <td className="p-2 text-slate-800 dark:text-slate-200">{line.description}{line.unit && <span className="ml-1 text-[10px] text-slate-400">({line.unit})</span>}</td>
+                      <td className={numberCell}>{figure(line.ordered)}</td>
+                      <td className={numberCell}>{figure(line.received)}</td>
+                      <td className={numberCell}>{figure(line.billed)}</td>
+                      <td className={numberCell}>{figure(line.orderedPrice)}</td>
+                      <td className={numberCell}>{figure(line.billedPrice)}</td>
+                      <td className="p-2 text-[11px] text-red-600 dark:text-red-400">{line.variances.map(variance => <div key={variance.kind}>{describeVariance(variance, line, t)}</div>)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
@@ -0,0 +1,89 @@
+import React from 'react';
+import { Plus, Trash2, Receipt, Scale, CheckCircle, AlertTriangle } from 'lucide-react';
+import { ChargeLine, InvoiceData, TaxLine } from '../types';
+import { TranslationDictionary } from '../utils/translations';
+import { reconcileTotals } from '../services/extractionQuality';
+
+interface TotalsBreakdownProps {
+  data: InvoiceData;
+  onChange: (newData: InvoiceData) => void;
+  t: TranslationDictionary;
+}
+
+const numberInputClass = "w-full bg-transparent border border-transparent hover:border-slate-300 dark:hover:border-slate-700 focus:border-indigo-500/50 rounded px-1.5 py-1 text-xs text-right font-medium text-slate-800 dark:text-slate-200 focus:outline-none focus:bg-white/50 dark:focus:bg-slate-900/50";
+const textInputClass = "w-full bg-transparent border border-transparent hover:border-slate-300 dark:hover:border-slate-700 focus:border-indigo-500/50 rounded px-1.5 py-1 text-xs text-slate-700 dark:text-slate-300 focus:outline-none focus:bg-white/50 dark:focus:bg-slate-900/50";
+const sectionLabelClass = "text-[9px] font-bold text-slate-500 uppercase tracking-widest";
+
+const parseOptional = (value: string): number | undefined => value === '' ? undefined : (parseFloat(value) || 0);
+
+export const TotalsBreakdown: React.FC<TotalsBreakdownProps> = ({ data, onChange, t }) => {
+  const currencySymbol = data.currencySymbol || '$';
+  const taxLines = data.taxLines || [];
+  const discounts = data.discounts || [];
+  const shippingCharges = data.shippingCharges || [];
+  const recon = reconcileTotals(data);
+
+  const updateTax = (index: number, patch: Partial<TaxLine>) => onChange({ ...data, taxLines: taxLines.map((l, i) => i === index ? { ...l, ...patch } : l) });
+  const updateCharge = (key: 'discounts' | 'shippingCharges', index: number, patch: Partial<ChargeLine>) => {
+    const lines = key === 'discounts' ? discounts : shippingCharges;
+    onChange({ ...data, [key]: lines.map((l, i) => i === index ? { ...l, ...patch } : l) });
+  };
+  const removeFrom = (key: 'taxLines' | 'discounts' | 'shippingCharges', index: number) => onChange({ ...data, [key]: (data[key] || []).filter((_, i) => i !== index) });
+
+  const renderCharges = (key: 'discounts' | 'shippingCharges', title: string, addLabel: string) => {
+    const lines = key === 'discounts' ? discounts : shippingCharges;
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center justify-between"><span className={sectionLabelClass}>{title}</span><button onClick={() => onChange({ ...data, [key]: [...lines, { description: '', amount: 0 }] })} className="flex items-center text-[9px] font-bold uppercase tracking-wide text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-300"><Plus className="w-3 h-3 mr-0.5" />{addLabel}</button></div>
+        {lines.map((line, i) => (
+          <div key={i} className="flex items-center gap-2 group">
+            <input value={line.description} onChange={(e) => updateCharge(key, i, { description: e.target.value })} className={textInputClass} placeholder={t.description} />
+            <span className="text-[10px] text-slate-400">{key === 'discounts' ? '−' : '+'}{currencySymbol}</span>
+            <input type="number" step="0.01" value={line.amount} onChange={(e) => updateCharge(key, i, { amount: parseFloat(e.target.value) || 0 })} className={`${numberInputClass} max-w-[110px]`} />
+            <button onClick={() => removeFrom(key, i)} className="p-1 text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity" tabIndex={-1}><Trash2 className="w-3 h-3" /></button>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white/60 dark:bg-slate-800/40 backdrop-blur-sm p-4 rounded-xl border border-slate-200 dark:border-slate-700/50 shadow-sm space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center font-semibold text-slate-800 dark:text-slate-200 tracking-wide text-xs uppercase"><Receipt className="w-3.5 h-3.5 mr-2 opacity-70" />{t.totalsBreakdown}</h3>
+        <div className={`px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wide border flex items-center space-x-1.5 ${recon.isBalanced ? 'bg-emerald-100 dark:bg-emerald-500/20 text-emerald-700 dark:text-emerald-400 border-emerald-200 dark:border-emerald-500/30' : 'bg-red-50 dark:bg-red-500/10 text-red-600 dark:text-red-400 border-red-200 dark:border-red-500/30'}`} title={`${t.expectedTotal}: ${currencySymbol}${recon.expectedTotal.toFixed(2)}`}>
+          {recon.isBalanced ? <CheckCircle className="w-3 h-3" /> : <AlertTriangle className="w-3 h-3" />}
+          <span>{recon.isBalanced ? t.totalsBalanced : `${t.totalsMismatch} (${recon.difference > 0 ? '+' : ''}${recon.difference.toFixed(2)})`}</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-2"><span className={sectionLabelClass}>{t.subtotal}</span><input type="number" step="0.01" value={data.subtotal ?? ''} placeholder={recon.subtotal.toFixed(2)} onChange={(e) => onChange({ ...data, subtotal: parseOptional(e.target.value) })} className={`${numberInputClass} max-w-[140px]`} /></div>
+          {renderCharges('discounts', t.discounts, t.addDiscount)}
+          {renderCharges('shippingCharges', t.shippingCharges, t.addShipping)}
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center justify-between"><span className={sectionLabelClass}>{t.taxLines}</span><button onClick={() => onChange({ ...data, taxLines: [...taxLines, { amount: 0 }] })} className="flex items-center text-[9px] font-bold uppercase tracking-wide text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-300"><Plus className="w-3 h-3 mr-0.5" />{t.addTaxLine}</button></div>
+          {taxLines.length > 0 && (<div className="grid grid-cols-[1fr_60px_90px_90px_20px] gap-1 text-[8px] font-bold uppercase tracking-widest text-slate-400 px-1.5"><span>{t.taxJurisdiction}</span><span className="text-right">{t.taxRate}</span><span className="text-right">{t.taxBase}</span><span className="text-right">{t.taxAmount}</span><span /></div>)}
+          {taxLines.map((tax, i) => (
+            <div key={i} className="grid grid-cols-[1fr_60px_90px_90px_20px] gap-1 items-center group">
+              <input value={tax.jurisdiction || ''} onChange={(e) => updateTax(i, { jurisdiction: e.target.value })} className={textInputClass} placeholder="VAT" />
+              <input type="number" step="0.01" value={tax.rate ?? ''} onChange={(e) => updateTax(i, { rate: parseOptional(e.target.value) })} className={numberInputClass} placeholder="%" />
+              <input type="number" step="0.01" value={tax.base ?? ''} onChange={(e) => updateTax(i, { base: parseOptional(e.target.value) })} className={numberInputClass} />
+              <input type="number" step="0.01" value={tax.amount} onChange={(e) => updateTax(i, { amount: parseFloat(e.target.value) || 0 })} className={`${numberInputClass} font-bold`} />
+              <button onClick={() => removeFrom('taxLines', i)} className="p-1 text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity" tabIndex={-1}><Trash2 className="w-3 h-3" /></button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="border-t border-slate-200 dark:border-white/5 pt-3 grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+        <div><p className={sectionLabelClass}>{t.expectedTotal}</p><p className="font-mono font-bold text-slate-700 dark:text-slate-300">{currencySymbol}{recon.expectedTotal.toFixed(2)}</p></div>
+        <div><p className={sectionLabelClass}>{t.totalAmount}</p><p className={`font-mono font-bold ${recon.isBalanced ? 'text-slate-700 dark:text-slate-300' : 'text-red-600 dark:text-red-400'}`}>{currencySymbol}{(data.totalAmount || 0).toFixed(2)}</p></div>
+        <div className="col-span-2 flex items-center justify-end gap-2"><Scale className="w-3.5 h-3.5 text-slate-400" /><span className={sectionLabelClass}>{t.amountDue}</span><input type="number" step="0.01" value={data.amountDue ?? ''} placeholder={(data.totalAmount || 0).toFixed(2)} onChange={(e) => onChange({ ...data, amountDue: parseOptional(e.target.value) })} className={`${numberInputClass} max-w-[140px] font-bold`} /></div>
+      </div>
+    </div>
+  );
+};
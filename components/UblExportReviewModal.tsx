@@ -0,0 +1,49 @@
+import React from 'react';
+import { FileCode, AlertCircle } from 'lucide-react';
+import { TranslationDictionary } from '../utils/translations';
+import { UblDocument } from '../services/ublExport';
+
+interface UblExportReviewModalProps {
+  documents: UblDocument[]; // Everything about to be exported; only those with issues are listed
+  onCancel: () => void;
+  onDownload: () => void;
+  t: TranslationDictionary;
+}
+
+export const UblExportReviewModal: React.FC<UblExportReviewModalProps> = ({ documents, onCancel, onDownload, t }) => {
+  const incomplete = documents.filter(doc => doc.issues.length > 0);
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/50 dark:bg-black/70 backdrop-blur-sm transition-opacity" onClick={onCancel} />
+      <div className="relative bg-white dark:bg-slate-900 rounded-2xl shadow-2xl max-w-2xl w-full p-6 border border-slate-200 dark:border-slate-700 animate-in zoom-in-95 duration-200 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start space-x-4">
+          <div className="p-3 bg-amber-100 dark:bg-amber-500/10 rounded-full shrink-0"><FileCode className="w-6 h-6 text-amber-600 dark:text-amber-400" /></div>
+          <div className="flex-1 min-w-0"><h3 className="text-lg font-bold text-slate-900 dark:text-white">{t.ublExportIssues}</h3><p className="text-sm text-slate-600 dark:text-slate-400 leading-relaxed">{t.ublExportIssuesHint.replace('{count}', incomplete.length.toString()).replace('{total}', documents.length.toString())}</p></div>
+        </div>
+
+        <div className="mt-6 space-y-4">
+          {incomplete.map(doc => (
+            <div key={doc.invoice.id}>
+              <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2 truncate" title={doc.fileName}>{doc.invoice.vendorName || '—'} · {doc.invoice.invoiceNumber || '—'}</p>
+              <ul className="space-y-1">
+                {doc.issues.map(issue => (
+                  <li key={`${issue.term}-${issue.message}`} className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-400">
+                    <AlertCircle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+                    <span className="font-mono text-[10px] font-bold w-16 shrink-0 mt-px">{issue.term}</span>
+                    <span className="flex-1">{issue.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-8 flex flex-wrap items-center justify-end gap-3">
+          <button onClick={onCancel} className="px-4 py-2 text-sm font-semibold text-slate-700 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-lg transition-colors">{t.cancel}</button>
+          <button onClick={onDownload} className="px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-500 rounded-lg shadow-lg shadow-indigo-500/20 transition-all transform hover:-translate-y-0.5">{t.ublDownloadAnyway}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
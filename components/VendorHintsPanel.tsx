@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import { GraduationCap, Trash2, X } from 'lucide-react';
+import { ReviewerCorrection } from '../types';
+import { TranslationDictionary } from '../utils/translations';
+import { forgetVendorCorrections, loadVendorCorrections } from '../utils/vendorCorrections';
+import { groupCorrectionsByVendor } from '../services/correctionLearning';
+
+// Learned reviewer corrections, grouped by vendor. Changes apply immediately: they are shared by all workspaces.
+export const VendorHintsPanel: React.FC<{ t: TranslationDictionary }> = ({ t }) => {
+  const [corrections, setCorrections] = useState<ReviewerCorrection[]>(loadVendorCorrections);
+  const groups = groupCorrectionsByVendor(corrections);
+
+  // Prunes storage as it is now, so corrections learned while the panel is open are kept
+  const prune = (remove: (correction: ReviewerCorrection) => boolean) => setCorrections(forgetVendorCorrections(remove));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-1.5"><GraduationCap className="w-3.5 h-3.5 text-slate-400" /><label className="text-[9px] font-bold text-slate-500 uppercase tracking-widest">{t.learnedVendorHints}</label></div>
+        {corrections.length > 0 && <button onClick={() => prune(() => true)} className="text-[9px] font-bold text-slate-400 hover:text-red-500 uppercase tracking-wider transition-colors">{t.clearAllHints}</button>}
+      </div>
+      {groups.length === 0 && <p className="text-[10px] text-slate-400">{t.noVendorHints}</p>}
+      <div className="max-h-48 overflow-y-auto space-y-2">
+        {groups.map(group => (
+          <div key={group.vendorName} className="p-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50">
+            <div className="flex items-center justify-between mb-1">
+              <p className="text-xs font-bold text-slate-700 dark:text-slate-200 truncate">{group.vendorName} <span className="font-mono font-normal text-[10px] text-slate-400">({group.corrections.length})</span></p>
+              <button onClick={() => prune(c => group.corrections.some(g => g.id === c.id))} className="p-1 text-slate-400 hover:text-red-500" title={t.forgetVendorHints}><Trash2 className="w-3 h-3" /></button>
+            </div>
+            <ul className="space-y-0.5">
+              {group.corrections.map(correction => (
+                <li key={correction.id} className="flex items-start gap-2 text-[10px] text-slate-600 dark:text-slate-400">
+                  <span className="flex-1 min-w-0 truncate" title={correction.line}><span className="font-mono text-slate-400">{correction.field}</span>{correction.line && <span className="italic"> · {correction.line}</span>}: <span className="line-through opacity-60">{correction.from || '—'}</span> → <span className="font-semibold text-slate-800 dark:text-slate-200">{correction.to}</span></span>
+                  <button onClick={() => prune(c => c.id === correction.id)} className="text-slate-400 hover:text-red-500 shrink-0" title={t.forgetHint}><X className="w-3 h-3" /></button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { Settings, Plus, Trash2, Server, X, DatabaseZap, RotateCcw } from 'lucide-react';
+import { PromptDocType, PromptTask, ProviderKind, WorkspaceSettings } from '../types';
+import { TranslationDictionary } from '../utils/translations';
+import { DEFAULT_REQUESTS_PER_MINUTE, PROVIDER_LABELS } from '../services/extractionProvider';
+import { DEFAULT_SCHEDULER_OPTIONS } from '../services/requestScheduler';
+import { DEFAULT_PREPROCESSING } from '../utils/imagePreprocessing';
+import { clearExtractionCache, getExtractionCacheSize } from '../utils/extractionCache';
+import { DEFAULT_COST_SETTINGS, formatPriceTable, parsePriceTable } from '../utils/modelPricing';
+import { builtInPrompt, promptStamp, PROMPT_DOC_TYPE_LABELS, PROMPT_DOC_TYPES, PROMPT_TASK_LABELS, PROMPT_TASKS, resolvePrompt, unknownPromptVariables } from '../services/promptRegistry';
+import { DEFAULT_GEMINI_MODEL } from '../services/geminiService';
+import { DEFAULT_MATCH_TOLERANCES } from '../services/threeWayMatch';
+import { VendorHintsPanel } from './VendorHintsPanel';
+import { DEFAULT_OPENAI_BASE_URL } from '../services/openAICompatibleService';
+
+interface WorkspaceSettingsModalProps {
+  workspaces: WorkspaceSettings[];
+  activeId: string;
+  onSave: (workspaces: WorkspaceSettings[], activeId: string) => void;
+  onClose: () => void;
+  t: TranslationDictionary;
+}
+
+const DEFAULT_MODELS: Record<ProviderKind, string> = {
+  'gemini': DEFAULT_GEMINI_MODEL,
+  'openai-compatible': 'gpt-4o-mini',
+  'mock': 'mock-generator'
+};
+
+const inputClass = "w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-xs text-slate-800 dark:text-slate-100 font-medium focus:outline-none focus:border-indigo-500 transition-all";
+const labelClass = "text-[9px] font-bold text-slate-500 uppercase tracking-widest mb-1 block";
+
+export const WorkspaceSettingsModal: React.FC<WorkspaceSettingsModalProps> = ({ workspaces, activeId, onSave, onClose, t }) => {
+  // Edit a draft so Cancel leaves the live configuration untouched.
+  const [draft, setDraft] = useState<WorkspaceSettings[]>(workspaces);
+  const [selectedId, setSelectedId] = useState(activeId);
+  const selected = draft.find(ws => ws.id === selectedId) || draft[0];
+  const preprocessing = selected.preprocessing || DEFAULT_PREPROCESSING;
+  const [cacheSize, setCacheSize] = useState(getExtractionCacheSize);
+  const cost = selected.cost || DEFAULT_COST_SETTINGS;
+  const matching = selected.matching || DEFAULT_MATCH_TOLERANCES;
+  const peppol = selected.peppol || {};
+  // Edited as text; unparseable lines are dropped when the table is read back
+  const [priceText, setPriceText] = useState(() => formatPriceTable(cost.prices));
+  useEffect(() => setPriceText(formatPriceTable(cost.prices)), [selected.id]);
+
+  // Prompt overrides: the textarea shows the workspace's text, or the built-in one until it is edited
+  const [promptTask, setPromptTask] = useState<PromptTask>('extraction');
+  const [promptDocType, setPromptDocType] = useState<PromptDocType>('invoice');
+  const overrides = selected.prompts || [];
+  const override = overrides.find(o => o.task === promptTask && o.docType === promptDocType);
+  const builtIn = builtInPrompt(promptTask, promptDocType);
+  const promptText = override ? override.template : builtIn.template;
+  const unknownVariables = unknownPromptVariables(promptText, promptTask, promptDocType);
+
+  const setPromptText = (text: string) => {
+    const others = overrides.filter(o => o !== override);
+    updateSelected({ prompts: text.trim() && text !== builtIn.template ? [...others, { task: promptTask, docType: promptDocType, template: text }] : others });
+  };
+
+  // The cache is shared by all workspaces (its keys include provider and model), so clearing is immediate.
+  const handleClearCache = () => {
+    clearExtractionCache();
+    setCacheSize(0);
+  };
+
+  // OpenAI-compatible servers have no default model; saving one without it would send model: undefined
+  const missingModel = draft.find(ws => ws.provider.kind === 'openai-compatible' && !(ws.provider.model || '').trim());
+
+  const updateSelected = (patch: Partial<WorkspaceSettings>) => setDraft(prev => prev.map(ws => ws.id === selected.id ? { ...ws, ...patch } : ws));
+  const updateProvider = (patch: Partial<WorkspaceSettings['provider']>) => updateSelected({ provider: { ...selected.provider, ...patch } });
+
+  const handleKindChange = (kind: ProviderKind) => updateProvider({ kind, model: DEFAULT_MODELS[kind], baseUrl: kind === 'openai-compatible' ? (selected.provider.baseUrl || DEFAULT_OPENAI_BASE_URL) : undefined });
+
+  const addWorkspace = () => {
+    const ws: WorkspaceSettings = { id: crypto.randomUUID(), name: `${t.workspace} ${draft.length + 1}`, provider: { kind: 'gemini', model: DEFAULT_GEMINI_MODEL } };
+    setDraft(prev => [...prev, ws]);
+    setSelectedId(ws.id);
+  };
+
+  const removeWorkspace = () => {
+    if (draft.length <= 1) return;
+    const remaining = draft.filter(ws => ws.id !== selected.id);
+    setDraft(remaining);
+    setSelectedId(remaining[0].id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/40 dark:bg-black/60 backdrop-blur-sm transition-opacity" onClick={onClose} />
+      <div className="relative bg-white dark:bg-slate-900 rounded-2xl shadow-2xl max-w-lg w-full p-6 border border-slate-200 dark:border-slate-700 animate-in zoom-in-95 duration-200 space-y-5 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between">
+          <div className="flex items-center space-x-3"><div className="p-2.5 bg-indigo-100 dark:bg-indigo-500/10 rounded-full"><Settings className="w-5 h-5 text-indigo-600 dark:text-indigo-400" /></div><h3 className="text-lg font-bold text-slate-900 dark:text-white">{t.workspaceSettings}</h3></div>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded-full"><X className="w-4 h-4" /></button>
+        </div>
+
+        <div>
+          <label className={labelClass}>{t.workspace}</label>
+          <div className="flex gap-2">
+            <select value={selected.id} onChange={(e) => setSelectedId(e.target.value)} className={inputClass}>{draft.map(ws => <option key={ws.id} value={ws.id}>{ws.name}</option>)}</select>
+            <button onClick={addWorkspace} className="px-2.5 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-500 hover:text-indigo-600 hover:border-indigo-500/40 transition-colors" title={t.newWorkspace}><Plus className="w-4 h-4" /></button>
+            <button onClick={removeWorkspace} disabled={draft.length <= 1} className="px-2.5 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-500 hover:text-red-500 hover:border-red-500/40 transition-colors disabled:opacity-30 disabled:pointer-events-none" title={t.deleteWorkspace}><Trash2 className="w-4 h-4" /></button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div><label className={labelClass}>{t.workspaceName}</label><input type="text" value={selected.name} onChange={(e) => updateSelected({ name: e.target.value })} className={inputClass} /></div>
+          <div><label className={labelClass}>{t.extractionProvider}</label><select value={selected.provider.kind} onChange={(e) => handleKindChange(e.target.value as ProviderKind)} className={inputClass}>{(Object.keys(PROVIDER_LABELS) as ProviderKind[]).map(kind => <option key={kind} value={kind}>{PROVIDER_LABELS[kind]}</option>)}</select></div>
+          {selected.provider.kind !== 'mock' && (<div><label className={labelClass}>{t.modelName}</label><input type="text" value={selected.provider.model} onChange={(e) => updateProvider({ model: e.target.value })} className={`${inputClass} font-mono`} /></div>)}
+          {selected.provider.kind !== 'mock' && (<div><label className={labelClass}>{t.apiKeyOptional}</label><input type="password" value={selected.provider.apiKey || ''} onChange={(e) => updateProvider({ apiKey: e.target.value || undefined })} className={`${inputClass} font-mono`} autoComplete="off" /></div>)}
+          {selected.provider.kind === 'openai-compatible' && (<div className="sm:col-span-2"><label className={labelClass}>{t.endpointUrl}</label><input type="url" value={selected.provider.baseUrl || ''} onChange={(e) => updateProvider({ baseUrl: e.target.value })} placeholder={DEFAULT_OPENAI_BASE_URL} className={`${inputClass} font-mono`} /></div>)}
+          {selected.provider.kind !== 'mock' && (<div><label className={labelClass}>{t.requestsPerMinute}</label><input type="number" min={1} value={selected.provider.requestsPerMinute ?? ''} onChange={(e) => updateProvider({ requestsPerMinute: parseInt(e.target.value, 10) || undefined })} placeholder={DEFAULT_REQUESTS_PER_MINUTE[selected.provider.kind].toString()} className={`${inputClass} font-mono`} /></div>)}
+          {selected.provider.kind !== 'mock' && (<div><label className={labelClass}>{t.maxConcurrentRequests}</label><input type="number" min={1} max={16} value={selected.provider.maxConcurrent ?? ''} onChange={(e) => updateProvider({ maxConcurrent: parseInt(e.target.value, 10) || undefined })} placeholder={DEFAULT_SCHEDULER_OPTIONS.maxConcurrent.toString()} className={`${inputClass} font-mono`} /></div>)}
+          <div className="sm:col-span-2 flex items-end gap-4"><label className="flex-1 flex items-center space-x-2 py-2 cursor-pointer"><input type="checkbox" checked={preprocessing.enabled} onChange={(e) => updateSelected({ preprocessing: { ...preprocessing, enabled: e.target.checked } })} className="accent-indigo-600" /><span className="text-xs font-medium text-slate-700 dark:text-slate-300">{t.imagePreprocessing}</span></label><div className="w-36"><label className={labelClass}>{t.maxImageDimension}</label><input type="number" min={512} step={100} value={preprocessing.maxDimension} disabled={!preprocessing.enabled} onChange={(e) => updateSelected({ preprocessing: { ...preprocessing, maxDimension: parseInt(e.target.value, 10) || DEFAULT_PREPROCESSING.maxDimension } })} className={`${inputClass} font-mono disabled:opacity-40`} /></div></div>
+          <div><label className={labelClass}>{t.sessionBudget}</label><input type="number" min={0} step={0.5} value={cost.sessionBudgetUsd ?? ''} onChange={(e) => updateSelected({ cost: { ...cost, sessionBudgetUsd: parseFloat(e.target.value) || undefined } })} placeholder="—" className={`${inputClass} font-mono`} /></div>
+          <div className="sm:col-span-2"><label className={labelClass}>{t.modelPrices}</label><textarea rows={4} value={priceText} onChange={(e) => { setPriceText(e.target.value); updateSelected({ cost: { ...cost, prices: parsePriceTable(e.target.value) } }); }} spellCheck={false} className={`${inputClass} font-mono resize-y`} /></div>
+          <div className="sm:col-span-2"><label className={labelClass}>{t.matchTolerances}</label><div className="grid grid-cols-3 gap-2">
+            <div><label className="text-[9px] text-slate-400 block mb-0.5">{t.quantityTolerance}</label><input type="number" min={0} step={0.5} value={matching.quantityPercent} onChange={(e) => updateSelected({ matching: { ...matching, quantityPercent: Math.max(0, parseFloat(e.target.value) || 0) } })} className={`${inputClass} font-mono`} /></div>
+            <div><label className="text-[9px] text-slate-400 block mb-0.5">{t.priceTolerance}</label><input type="number" min={0} step={0.5} value={matching.pricePercent} onChange={(e) => updateSelected({ matching: { ...matching, pricePercent: Math.max(0, parseFloat(e.target.value) || 0) } })} className={`${inputClass} font-mono`} /></div>
+            <div><label className="text-[9px] text-slate-400 block mb-0.5">{t.priceToleranceAbsolute}</label><input type="number" min={0} step={0.01} value={matching.priceAbsolute} onChange={(e) => updateSelected({ matching: { ...matching, priceAbsolute: Math.max(0, parseFloat(e.target.value) || 0) } })} className={`${inputClass} font-mono`} /></div>
+          </div></div>
+          <div className="sm:col-span-2"><label className={labelClass}>{t.peppolBuyer}</label><div className="grid grid-cols-3 gap-2">
+            <div><label className="text-[9px] text-slate-400 block mb-0.5">{t.peppolEndpointId}</label><input type="text" value={peppol.buyerEndpointId || ''} onChange={(e) => updateSelected({ peppol: { ...peppol, buyerEndpointId: e.target.value.trim() || undefined } })} placeholder="0088:5790000435968" className={`${inputClass} font-mono`} /></div>
+            <div><label className="text-[9px] text-slate-400 block mb-0.5">{t.peppolCountry}</label><input type="text" maxLength={2} value={peppol.buyerCountry || ''} onChange={(e) => updateSelected({ peppol: { ...peppol, buyerCountry: e.target.value.toUpperCase() || undefined } })} placeholder="NL" className={`${inputClass} font-mono`} /></div>
+            <div><label className="text-[9px] text-slate-400 block mb-0.5">{t.peppolBuyerReference}</label><input type="text" value={peppol.buyerReference || ''} onChange={(e) => updateSelected({ peppol: { ...peppol, buyerReference: e.target.value || undefined } })} className={`${inputClass} font-mono`} /></div>
+          </div></div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between"><label className={labelClass}>{t.promptTemplates}</label><span className="text-[9px] font-mono text-slate-400">{promptStamp(resolvePrompt(promptTask, promptDocType, overrides))} · {override ? t.promptOverridden : t.promptBuiltIn}</span></div>
+          <div className="flex gap-2">
+            <select value={promptTask} onChange={(e) => setPromptTask(e.target.value as PromptTask)} className={inputClass} title={t.promptTask}>{PROMPT_TASKS.map(task => <option key={task} value={task}>{PROMPT_TASK_LABELS[task]}</option>)}</select>
+            <select value={promptDocType} onChange={(e) => setPromptDocType(e.target.value as PromptDocType)} className={inputClass} title={t.promptDocType}>{PROMPT_DOC_TYPES.map(docType => <option key={docType} value={docType}>{PROMPT_DOC_TYPE_LABELS[docType]}</option>)}</select>
+            <button onClick={() => setPromptText('')} disabled={!override} className="px-2.5 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-500 hover:text-indigo-600 hover:border-indigo-500/40 transition-colors disabled:opacity-30 disabled:pointer-events-none" title={t.resetPrompt}><RotateCcw className="w-4 h-4" /></button>
+          </div>
+          <textarea rows={6} value={promptText} onChange={(e) => setPromptText(e.target.value)} spellCheck={false} className={`${inputClass} font-mono resize-y`} />
+          {builtIn.variables.length > 0 && <p className="text-[10px] font-mono text-slate-400">{t.promptVariables.replace('{list}', builtIn.variables.map(name => `{{${name}}}`).join(' '))}</p>}
+          {unknownVariables.length > 0 && <p className="text-[10px] font-mono text-amber-600 dark:text-amber-400">{t.promptUnknownVariables.replace('{list}', unknownVariables.map(name => `{{${name}}}`).join(' '))}</p>}
+        </div>
+
+        <VendorHintsPanel t={t} />
+
+        <div className="p-3 bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 rounded-lg flex items-start space-x-2"><Server className="w-3.5 h-3.5 text-slate-400 shrink-0 mt-0.5" /><p className="text-[10px] text-slate-500 leading-relaxed">{t.providerPrivacyNote}</p></div>
+
+        <div className="flex items-center justify-end space-x-3">
+          <button onClick={handleClearCache} disabled={cacheSize === 0} className="mr-auto flex items-center space-x-1.5 text-[10px] font-bold text-slate-500 hover:text-red-500 uppercase tracking-wider transition-colors disabled:opacity-40 disabled:pointer-events-none"><DatabaseZap className="w-3.5 h-3.5" /><span>{t.clearExtractionCache.replace('{count}', cacheSize.toString())}</span></button>
+          <button onClick={onClose} className="px-4 py-2 text-sm font-semibold text-slate-700 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-lg transition-colors">Cancel</button>
+          {missingModel && <span className="text-[10px] font-bold text-red-500">{t.modelNameRequired.replace('{workspace}', missingModel.name)}</span>}
+          <button onClick={() => onSave(draft, selected.id)} disabled={!!missingModel} className="px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-500 rounded-lg shadow-lg shadow-indigo-500/20 transition-all transform hover:-translate-y-0.5 disabled:opacity-40 disabled:pointer-events-none">{t.saveSettings}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
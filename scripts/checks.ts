@@ -0,0 +1,215 @@
+import assert from 'node:assert/strict';
+import { InvoiceData, ReviewerCorrection } from '../types';
+import { DUPLICATE_THRESHOLD, scoreDuplicate } from '../services/duplicateDetection';
+import { buildVendorHints } from '../services/correctionLearning';
+import { forgetVendorCorrections, loadVendorCorrections, replaceInvoiceCorrections } from '../utils/vendorCorrections';
+import { hintsStillCurrent, vendorHintsStamp } from '../services/extractionProvider';
+import { buildUblInvoice } from '../services/ublExport';
+import { importEInvoice } from '../services/eInvoiceImport';
+import { evaluateDocument, summarizeEvaluation } from '../services/extractionEvaluation';
+
+// Offline regression checks for logic that has no model in the loop.
+//
+//   npm test
+//
+// Each check throws (node:assert) on failure; all of them run and the exit code is 1 if any failed.
+
+type Check = { name: string, run: () => void | Promise<void> };
+
+const checks: Check[] = [];
+const check = (name: string, run: Check['run']) => { checks.push({ name, run }); };
+
+const invoice = (fields: Partial<InvoiceData>): InvoiceData => ({
+  id: crypto.randomUUID(),
+  vendorName: 'Acme Office Space',
+  invoiceDate: '2026-01-01',
+  totalAmount: 2500,
+  currencySymbol: '$',
+  lineItems: [{ description: 'Monthly rent', sku: '', quantity: 1, unitPrice: 2500, totalAmount: 2500, glCategory: 'Rent' }],
+  confidenceScore: 'High',
+  ...fields
+} as InvoiceData);
+
+// --- Duplicate detection ---
+
+check('duplicates: monthly bill without invoice numbers is not flagged against last month', () => {
+  const march = invoice({ invoiceDate: '2026-03-01' });
+  const april = invoice({ invoiceDate: '2026-04-01' });
+  assert.ok(scoreDuplicate(april, march).score < DUPLICATE_THRESHOLD);
+});
+
+check('duplicates: monthly bill with its own invoice number is not flagged', () => {
+  const march = invoice({ invoiceDate: '2026-03-01', invoiceNumber: 'R-2026-03' });
+  const april = invoice({ invoiceDate: '2026-04-01', invoiceNumber: 'R-2026-04' });
+  assert.ok(scoreDuplicate(april, march).score < DUPLICATE_THRESHOLD);
+});
+
+check('duplicates: same-day bills with different invoice numbers are not flagged', () => {
+  const first = invoice({ invoiceNumber: 'A-5512' });
+  const second = invoice({ invoiceNumber: 'B-9034' });
+  assert.ok(scoreDuplicate(second, first).score < DUPLICATE_THRESHOLD);
+});
+
+check('duplicates: re-keyed copy of the same invoice is flagged', () => {
+  const original = invoice({ invoiceNumber: 'INV-000123', invoiceDate: '2026-03-01' });
+  const rekeyed = invoice({ invoiceNumber: '123', invoiceDate: '2026-03-02' });
+  assert.ok(scoreDuplicate(rekeyed, original).score >= DUPLICATE_THRESHOLD);
+});
+
+check('duplicates: same invoice number re-sent weeks later is flagged', () => {
+  const original = invoice({ invoiceNumber: 'INV-77', invoiceDate: '2026-03-01' });
+  const resent = invoice({ invoiceNumber: 'INV-77', invoiceDate: '2026-04-15' });
+  assert.ok(scoreDuplicate(resent, original).score >= DUPLICATE_THRESHOLD);
+});
+
+// --- Learning from corrections ---
+
+const correction = (vendorName: string, field: string, to: string, extractedVendorName?: string): ReviewerCorrection => ({
+  id: `${vendorName}:${field}`, invoiceId: crypto.randomUUID(), vendorName, extractedVendorName, field, from: '', to, recordedAt: Date.now()
+});
+
+check('hints: only the named vendor\'s corrections are included', () => {
+  const corrections = [correction('Acme Supply Co.', 'paymentTerms', 'Net 45'), correction('Globex GmbH', 'paymentTerms', 'Net 10')];
+  const hints = buildVendorHints(corrections, 'ACME Supply Company');
+  assert.match(hints, /Net 45/);
+  assert.doesNotMatch(hints, /Net 10|Globex/);
+  assert.equal(buildVendorHints(corrections, 'Initech'), '');
+});
+
+check('hints: corrections filed under a renamed vendor match the name as read', () => {
+  const hints = buildVendorHints([correction('Acme Supply', 'sku', 'A-1', 'ACME SUPLY')], 'Acme Suply');
+  assert.match(hints, /A-1/);
+});
+
+check('hints: a cached result is reused until its own vendor\'s hints change', () => {
+  const corrections = [correction('Acme Supply', 'paymentTerms', 'Net 45')];
+  const cached = invoice({ vendorName: 'Acme Supply', promptVersion: `classification@3+extraction@2${vendorHintsStamp(buildVendorHints(corrections, 'Acme Supply'))}` });
+  assert.ok(hintsStillCurrent(cached, name => buildVendorHints(corrections, name)));
+  assert.ok(hintsStillCurrent(cached, name => buildVendorHints([...corrections, correction('Globex GmbH', 'sku', 'G-1')], name)));
+  assert.ok(!hintsStillCurrent(cached, name => buildVendorHints([...corrections, correction('Acme Supply', 'sku', 'A-2')], name)));
+});
+
+// Node has no localStorage; an in-memory one is enough for the stores
+const memoryStorage = new Map<string, string>();
+globalThis.localStorage = {
+  getItem: key => memoryStorage.get(key) ?? null, setItem: (key, value) => { memoryStorage.set(key, value); }, removeItem: key => { memoryStorage.delete(key); },
+  clear: () => memoryStorage.clear(), key: index => [...memoryStorage.keys()][index] ?? null, get length() { return memoryStorage.size; }
+};
+
+check('hints: a forgotten correction is not written back by the next edit of its document', () => {
+  memoryStorage.clear();
+  const terms = { ...correction('Acme Supply', 'paymentTerms', 'Net 45'), invoiceId: 'inv-1', id: 'inv-1:paymentTerms' };
+  const sku = { ...correction('Acme Supply', 'sku', 'A-1'), invoiceId: 'inv-1', id: 'inv-1:0:sku' };
+  replaceInvoiceCorrections('inv-1', [terms, sku]);
+  forgetVendorCorrections(c => c.id === terms.id);
+  replaceInvoiceCorrections('inv-1', [terms, sku]);
+  assert.deepEqual(loadVendorCorrections().map(c => c.id), [sku.id]);
+});
+
+check('hints: forgetting keeps corrections stored after the list was read', () => {
+  memoryStorage.clear();
+  const first = { ...correction('Acme Supply', 'sku', 'A-1'), invoiceId: 'inv-1', id: 'inv-1:0:sku' };
+  replaceInvoiceCorrections('inv-1', [first]);
+  const shown = loadVendorCorrections();
+  replaceInvoiceCorrections('inv-2', [{ ...correction('Globex GmbH', 'sku', 'G-1'), invoiceId: 'inv-2', id: 'inv-2:0:sku' }]);
+  const kept = forgetVendorCorrections(c => c.id === shown[0].id);
+  assert.deepEqual(kept.map(c => c.id), ['inv-2:0:sku']);
+  assert.deepEqual(loadVendorCorrections().map(c => c.id), ['inv-2:0:sku']);
+});
+
+// --- Peppol UBL export ---
+
+const germanInvoice = (fields: Partial<InvoiceData> = {}) => invoice({
+  vendorName: 'Müller GmbH', vendorAddress: 'Hauptstr. 1, 10115 Berlin, DE', vendorTaxId: 'DE129273398', vendorTaxIdType: 'VAT',
+  billToName: 'Acme BV', billToAddress: 'Keizersgracht 1, Amsterdam, NL', invoiceNumber: 'R-1', invoiceDate: '2026-03-01', dueDate: '2026-03-31',
+  currencySymbol: '€', documentType: 'INVOICE', totalAmount: 124.95, taxLines: [{ rate: 19, amount: 19.95 }], shippingCharges: [{ description: 'Freight', amount: 5 }],
+  remittance: { iban: 'DE89 3704 0044 0532 0130 00' },
+  lineItems: [{ description: 'Widget <A&B>', sku: 'W1', quantity: 2, unitPrice: 50, totalAmount: 100, glCategory: 'Supplies', unitOfMeasure: 'each' }],
+  ...fields
+});
+
+const peppolBuyer = { buyerEndpointId: '0106:12345678', buyerReference: 'PO-REF' };
+
+const reimport = async (xml: string) => {
+  const imported = await importEInvoice(new File([xml], 'export.xml', { type: 'application/xml' }));
+  assert.ok(imported, 'the importer did not recognise the exported XML');
+  return imported;
+};
+
+check('ubl: a complete invoice exports without issues and imports back unchanged', async () => {
+  const exported = buildUblInvoice(germanInvoice(), peppolBuyer);
+  assert.deepEqual(exported.issues, []);
+  const imported = await reimport(exported.xml);
+  assert.equal(imported.invoiceNumber, 'R-1');
+  assert.equal(imported.vendorName, 'Müller GmbH');
+  assert.equal(imported.vendorTaxId, 'DE129273398');
+  assert.equal(imported.invoiceDate, '2026-03-01');
+  assert.equal(imported.dueDate, '2026-03-31');
+  assert.equal(imported.totalAmount, 124.95);
+  assert.deepEqual(imported.taxLines?.map(tax => [tax.rate, tax.base, tax.amount]), [[19, 105, 19.95]]);
+  assert.deepEqual(imported.shippingCharges, [{ description: 'Freight', amount: 5 }]);
+  assert.deepEqual(imported.lineItems.map(item => [item.description, item.sku, item.quantity, item.unitPrice, item.totalAmount]), [['Widget <A&B>', 'W1', 2, 50, 100]]);
+  assert.equal(imported.remittance?.iban, 'DE89370400440532013000');
+});
+
+check('ubl: a credit note exports positive and imports back as a signed credit note', async () => {
+  const credit = germanInvoice({ documentType: 'CREDIT NOTE', invoiceNumber: 'CN-1', originalInvoiceNumber: 'R-1', totalAmount: -124.95, taxLines: [{ rate: 19, amount: -19.95 }], lineItems: [{ description: 'Widget', sku: 'W1', quantity: -2, unitPrice: 50, totalAmount: -100, glCategory: '' }] });
+  const exported = buildUblInvoice(credit, peppolBuyer);
+  assert.match(exported.xml, /<CreditNote /);
+  assert.doesNotMatch(exported.xml, />-\d/);
+  const imported = await reimport(exported.xml);
+  assert.equal(imported.totalAmount, -124.95);
+  assert.equal(imported.originalInvoiceNumber, 'R-1');
+});
+
+check('ubl: a discount typed as negative is still exported as an allowance', async () => {
+  const discounted = germanInvoice({ discounts: [{ description: 'Loyalty', amount: -10 }], totalAmount: 113.05, taxLines: [{ rate: 19, amount: 18.05 }] });
+  const exported = buildUblInvoice(discounted, peppolBuyer);
+  assert.deepEqual(exported.issues, []);
+  assert.match(exported.xml, /<cbc:AllowanceTotalAmount currencyID="EUR">10\.00</);
+  assert.match(exported.xml, /<cbc:TaxExclusiveAmount currencyID="EUR">95\.00</);
+  const imported = await reimport(exported.xml);
+  assert.deepEqual(imported.discounts, [{ description: 'Loyalty', amount: 10 }]);
+  assert.equal(imported.totalAmount, 113.05);
+});
+
+check('ubl: SEPA credit transfer only for euro payments to SEPA IBANs', () => {
+  const code = (fields: Partial<InvoiceData>) => /<cbc:PaymentMeansCode>(\d+)</.exec(buildUblInvoice(germanInvoice(fields), peppolBuyer).xml)?.[1];
+  assert.equal(code({}), '58');
+  assert.equal(code({ remittance: { iban: 'TR33 0006 1005 1978 6457 8413 26' } }), '30');
+  assert.equal(code({ currencySymbol: 'USD' }), '30');
+  assert.equal(code({ remittance: { accountNumber: '12345678' } }), '30');
+});
+
+check('ubl: missing mandatory terms are reported', () => {
+  const terms = buildUblInvoice(invoice({ vendorName: '', invoiceDate: '', currencySymbol: '?', lineItems: [] })).issues.map(issue => issue.term);
+  ['BT-1', 'BT-2', 'BT-5', 'BT-10', 'BT-27', 'BT-34', 'BT-49', 'BG-23', 'BG-25'].forEach(term => assert.ok(terms.includes(term), `${term} not reported`));
+});
+
+// --- Accuracy evaluation ---
+
+check('eval: GL agreement has no rate when no lines matched', () => {
+  const expected = invoice({ invoiceNumber: 'R-1' });
+  const extracted = invoice({ invoiceNumber: 'R-1', lineItems: [{ description: 'Something else', sku: '', quantity: 3, unitPrice: 7, totalAmount: 21, glCategory: 'Rent' }] });
+  const summary = summarizeEvaluation([evaluateDocument('unmatched', expected, extracted)]);
+  assert.equal(summary.lineItemPrecision, 0);
+  assert.equal(summary.glAgreement, undefined);
+  assert.equal(summarizeEvaluation([]).overallFieldAccuracy, undefined);
+});
+
+const main = async () => {
+  let failed = 0;
+  for (const { name, run } of checks) {
+    try {
+      await run();
+      console.log(`✓ ${name}`);
+    } catch (error: any) {
+      failed++;
+      console.log(`✗ ${name}\n  ${error?.message || error}`);
+    }
+  }
+  console.log(`\n${checks.length - failed}/${checks.length} checks passed`);
+  if (failed > 0) process.exitCode = 1;
+};
+
+main();
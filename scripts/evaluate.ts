@@ -0,0 +1,192 @@
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, extname, join } from 'node:path';
+import { ExtractionDocType, InvoiceData, ProviderKind } from '../types';
+import { CallUsage, createExtractionProvider, ExtractionProvider, ModelBackend, ModelRequest } from '../services/extractionProvider';
+import { createGeminiBackend, DEFAULT_GEMINI_MODEL } from '../services/geminiService';
+import { createOpenAICompatibleBackend, DEFAULT_OPENAI_BASE_URL } from '../services/openAICompatibleService';
+import { mockProvider } from '../services/mockService';
+import { DocumentEvaluation, EVALUATED_FIELDS, evaluateDocument, failedEvaluation, summarizeEvaluation } from '../services/extractionEvaluation';
+
+// Offline extraction accuracy harness.
+//
+//   npm run eval -- <dataset dir> [--provider replay|mock|gemini|openai-compatible] [--model name]
+//                   [--base-url url] [--doc-type invoice|creditNote|receipt|packingSlip|billOfLading] [--record] [--out report.json] [--fail-under 0.9]
+//
+// A dataset is a folder of documents, each with <name>.expected.json next to it (InvoiceData, only the
+// fields worth scoring need to be filled in). 'replay' (the default) answers every model call from
+// <name>.responses.json and never touches the network; --record writes those files from a live run.
+// Without --doc-type every document is classified first, exactly as in the app.
+
+type EvalProvider = ProviderKind | 'replay';
+
+interface RecordedCall {
+  response: any;
+  usage?: CallUsage;
+}
+
+interface Recording {
+  model: string;
+  responses: RecordedCall[]; // In call order, repair re-prompts and PDF page windows included
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.heic': 'image/heic',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff'
+};
+
+const recordingPath = (dir: string, name: string) => join(dir, `${name}.responses.json`);
+
+const replayExhaustedError = (name: string, calls: number): Error => {
+  const e: any = new Error(`${name}: recording has ${calls} response(s) but the pipeline asked for more; re-record it with --record`);
+  e.code = 'REPLAY_EXHAUSTED';
+  return e;
+};
+
+// Answers calls from a recording, in order. The prompt is not checked: a prompt edit that changes the
+// number of calls fails loudly, one that only changes wording replays the old answers.
+const createReplayBackend = (name: string, recording: Recording): ModelBackend => {
+  let next = 0;
+  return {
+    id: 'gemini',
+    model: recording.model,
+    generateJson: async (request: ModelRequest) => {
+      const call = recording.responses[next++];
+      if (!call) throw replayExhaustedError(name, recording.responses.length);
+      if (call.usage) request.onUsage?.(call.usage);
+      return JSON.parse(JSON.stringify(call.response));
+    }
+  };
+};
+
+// Passes calls through to a live backend and keeps what came back
+const createRecordingBackend = (backend: ModelBackend): { backend: ModelBackend, recording: Recording } => {
+  const recording: Recording = { model: backend.model, responses: [] };
+  return {
+    recording,
+    backend: {
+      ...backend,
+      generateJson: async (request: ModelRequest) => {
+        let usage: CallUsage | undefined;
+        const response = await backend.generateJson({ ...request, onUsage: call => { usage = call; request.onUsage?.(call); } });
+        recording.responses.push({ response, ...(usage ? { usage } : {}) });
+        return response;
+      }
+    }
+  };
+};
+
+const parseArgs = (argv: string[]) => {
+  const flags: Record<string, string | true> = {};
+  const positional: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) positional.push(arg);
+    else if (arg === '--record') flags.record = true;
+    else flags[arg.slice(2)] = argv[++i] ?? '';
+  }
+  return { flags, positional };
+};
+
+const percent = (value: number | undefined) => value === undefined ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+
+const main = async () => {
+  const { flags, positional } = parseArgs(process.argv.slice(2));
+  const dir = positional[0];
+  if (!dir || !existsSync(dir)) throw new Error('Usage: npm run eval -- <dataset dir> [--provider replay|mock|gemini|openai-compatible] [--record] [--out report.json] [--fail-under 0.9]');
+
+  const providerKind = (flags.provider || 'replay') as EvalProvider;
+  const record = flags.record === true;
+  if (record && (providerKind === 'replay' || providerKind === 'mock')) throw new Error('--record needs a live provider (gemini or openai-compatible)');
+  const docType = typeof flags['doc-type'] === 'string' ? flags['doc-type'] as ExtractionDocType : undefined;
+  const model = typeof flags.model === 'string' ? flags.model : undefined;
+
+  const liveBackend = (): ModelBackend => providerKind === 'openai-compatible'
+    ? createOpenAICompatibleBackend({ kind: 'openai-compatible', model: model || '', baseUrl: typeof flags['base-url'] === 'string' ? flags['base-url'] : DEFAULT_OPENAI_BASE_URL, apiKey: process.env.OPENAI_API_KEY })
+    : createGeminiBackend({ kind: 'gemini', model: model || DEFAULT_GEMINI_MODEL, apiKey: process.env.GEMINI_API_KEY });
+
+  const documents = readdirSync(dir)
+    .filter(file => MIME_TYPES[extname(file).toLowerCase()])
+    .sort();
+
+  const results: DocumentEvaluation[] = [];
+  let promptVersion = '';
+  let modelName = providerKind === 'mock' ? mockProvider.model : model || '';
+
+  for (const file of documents) {
+    const name = basename(file, extname(file));
+    const expectedPath = join(dir, `${name}.expected.json`);
+    if (!existsSync(expectedPath)) {
+      console.warn(`Skipping ${file}: no ${name}.expected.json`);
+      continue;
+    }
+    const expected: InvoiceData = JSON.parse(readFileSync(expectedPath, 'utf8'));
+    const document = new File([readFileSync(join(dir, file))], file, { type: MIME_TYPES[extname(file).toLowerCase()] });
+
+    // One provider per document: replay needs the document's own recording, and recording needs a clean log
+    let provider: ExtractionProvider;
+    let recording: Recording | undefined;
+    if (providerKind === 'mock') provider = mockProvider;
+    else if (providerKind === 'replay') {
+      const path = recordingPath(dir, name);
+      if (!existsSync(path)) {
+        results.push(failedEvaluation(name, expected, `no recording at ${path}`));
+        continue;
+      }
+      const replay: Recording = JSON.parse(readFileSync(path, 'utf8'));
+      provider = createExtractionProvider(createReplayBackend(name, replay));
+      modelName = replay.model;
+    } else {
+      const wrapped = record ? createRecordingBackend(liveBackend()) : { backend: liveBackend(), recording: undefined };
+      recording = wrapped.recording;
+      provider = createExtractionProvider(wrapped.backend);
+      modelName = wrapped.backend.model;
+    }
+    promptVersion = provider.promptVersion({ docType });
+
+    try {
+      const actual = await provider.extractInvoiceData(document, undefined, { docType });
+      results.push(evaluateDocument(name, expected, actual));
+      if (recording) writeFileSync(recordingPath(dir, name), JSON.stringify(recording, null, 2) + '\n');
+    } catch (error: any) {
+      results.push(failedEvaluation(name, expected, error?.message || String(error)));
+    }
+  }
+
+  const summary = summarizeEvaluation(results);
+
+  results.forEach(result => {
+    const wrong = result.fields.filter(f => !f.correct).map(f => `${f.field} (expected "${f.expected}", got "${f.actual}")`);
+    const status = result.error ? `FAILED: ${result.error}` : `${result.matchedLines}/${result.expectedLines} lines, ${result.reconciled ? 'totals reconcile' : 'totals do not reconcile'}`;
+    console.log(`${result.name}: ${status}${wrong.length && !result.error ? `\n  wrong: ${wrong.join('; ')}` : ''}`);
+  });
+  const rows: [string, string][] = [
+    ['Documents', `${summary.documents} (${summary.failed} failed)`],
+    ['Field accuracy', percent(summary.overallFieldAccuracy)],
+    ...EVALUATED_FIELDS.filter(field => summary.fieldAccuracy[field] !== undefined).map(field => [`  ${field}`, percent(summary.fieldAccuracy[field])] as [string, string]),
+    ['Line item precision', percent(summary.lineItemPrecision)],
+    ['Line item recall', percent(summary.lineItemRecall)],
+    ['GL agreement', percent(summary.glAgreement)],
+    ['Totals reconcile', percent(summary.reconciliationPassRate)]
+  ];
+  console.log(`\nProvider ${providerKind} (${modelName}), prompts ${promptVersion}`);
+  rows.forEach(([label, value]) => console.log(`${label.padEnd(24)}${value}`));
+
+  if (typeof flags.out === 'string') {
+    writeFileSync(flags.out, JSON.stringify({ provider: providerKind, model: modelName, promptVersion, summary, documents: results }, null, 2) + '\n');
+  }
+
+  // CI gate on overall field accuracy, when any field could be compared
+  const failUnder = typeof flags['fail-under'] === 'string' ? parseFloat(flags['fail-under']) : undefined;
+  if (summary.documents === 0 || (failUnder !== undefined && summary.overallFieldAccuracy !== undefined && summary.overallFieldAccuracy < failUnder)) process.exitCode = 1;
+};
+
+main().catch(error => {
+  console.error(error?.message || error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,81 @@
+import { InvoiceData, LineItem, ReviewerCorrection } from "../types";
+import { normalizeVendorName } from '../utils/vendorNames';
+
+// Turns reviewer edits into per-vendor hints for the next extraction of the same vendor's documents.
+// Only fields that tend to repeat per vendor are learned; invoice numbers, dates and amounts change every time.
+
+const HEADER_FIELDS = ['vendorName', 'vendorTaxId', 'paymentTerms', 'currencySymbol', 'documentType'] as const;
+const LINE_FIELDS = ['glCategory', 'sku', 'description', 'unitOfMeasure', 'packSize'] as const;
+
+// Prompt budget: most recent corrections first
+const MAX_HINTS_PER_VENDOR = 6;
+
+const text = (value: unknown) => (value === undefined || value === null ? '' : String(value)).trim();
+
+const lineLabel = (line: LineItem) => line.sku ? `${line.description} (SKU ${line.sku})` : line.description;
+
+// Pair each edited line with the extracted line it came from. The editor edits rows in place, so
+// index works until rows are added or removed; then fall back to the unique row with the same amounts.
+const matchLines = (extracted: LineItem[], edited: LineItem[]): [LineItem, LineItem][] => {
+  if (extracted.length === edited.length) return extracted.map((line, i) => [line, edited[i]]);
+  return edited.flatMap(line => {
+    const candidates = extracted.filter(original => original.quantity === line.quantity && original.totalAmount === line.totalAmount);
+    return candidates.length === 1 ? [[candidates[0], line] as [LineItem, LineItem]] : [];
+  });
+};
+
+// Everything the reviewer changed on a document compared with what the model extracted.
+export const diffCorrections = (extracted: InvoiceData, edited: InvoiceData): ReviewerCorrection[] => {
+  const recordedAt = Date.now();
+  const vendorName = text(edited.vendorName);
+  const renamed = normalizeVendorName(extracted.vendorName) !== normalizeVendorName(edited.vendorName);
+  const base = { invoiceId: edited.id, vendorName, ...(renamed && text(extracted.vendorName) ? { extractedVendorName: text(extracted.vendorName) } : {}), recordedAt };
+
+  const header = HEADER_FIELDS
+    .filter(field => text(extracted[field]) !== text(edited[field]) && text(edited[field]))
+    .map(field => ({ ...base, id: `${edited.id}:${field}`, field, from: text(extracted[field]), to: text(edited[field]) }));
+
+  // Descriptions are only comparable while both sides are in the document's own language
+  const sameLanguage = (extracted.language || 'Original') === (edited.language || 'Original');
+  const extractedLines = extracted.originalLineItems || extracted.lineItems;
+  const lines = matchLines(extractedLines, edited.lineItems).flatMap(([original, line]) => LINE_FIELDS
+    .filter(field => (field !== 'description' || sameLanguage) && text(original[field]) !== text(line[field]) && text(line[field]))
+    .map(field => ({ ...base, id: `${edited.id}:${extractedLines.indexOf(original)}:${field}`, field, line: lineLabel(original), from: text(original[field]), to: text(line[field]) })));
+
+  return [...header, ...lines];
+};
+
+const describe = (correction: ReviewerCorrection) => {
+  const change = `${correction.field}: "${correction.from}" -> "${correction.to}"`;
+  return correction.line ? `- Line "${correction.line}": ${change}` : `- ${change}`;
+};
+
+// Few-shot block appended to the extraction prompt of a document from vendorName (as the classifier read it).
+// Corrections recorded under the corrected name or the name the model had read both count, so a
+// vendor whose name was fixed is still recognised. Empty when nothing was learned for the vendor.
+export const buildVendorHints = (corrections: ReviewerCorrection[], vendorName: string): string => {
+  const key = normalizeVendorName(vendorName);
+  if (!key) return '';
+  const vendorCorrections = [...corrections]
+    .filter(c => normalizeVendorName(c.vendorName) === key || normalizeVendorName(c.extractedVendorName) === key)
+    .sort((a, b) => b.recordedAt - a.recordedAt)
+    .slice(0, MAX_HINTS_PER_VENDOR);
+  if (vendorCorrections.length === 0) return '';
+
+  return `Reviewers corrected these values on earlier documents from ${vendorCorrections[0].vendorName}. Apply the same corrections to matching values:
+    ${vendorCorrections.map(describe).join('\n    ')}`;
+};
+
+// Group for the settings view: vendor display name -> corrections, newest first
+export const groupCorrectionsByVendor = (corrections: ReviewerCorrection[]): { vendorName: string, corrections: ReviewerCorrection[] }[] => {
+  const groups = new Map<string, { vendorName: string, corrections: ReviewerCorrection[] }>();
+  [...corrections].sort((a, b) => b.recordedAt - a.recordedAt).forEach(correction => {
+    const key = normalizeVendorName(correction.vendorName);
+    const group = groups.get(key) || { vendorName: correction.vendorName, corrections: [] };
+    group.corrections.push(correction);
+    groups.set(key, group);
+  });
+  const result: { vendorName: string, corrections: ReviewerCorrection[] }[] = [];
+  groups.forEach(group => result.push(group));
+  return result;
+};
@@ -0,0 +1,58 @@
+import { InvoiceData, LineItem } from "../types";
+import { vendorNameSimilarity } from '../utils/vendorNames';
+import { normalizeLineUnits } from '../utils/unitConversion';
+import { isCreditNote } from '../utils/documentTypes';
+import { normalizeInvoiceNumber } from './duplicateDetection';
+
+// Credit notes reduce what is owed on an earlier invoice. Their amounts are stored negative so session totals
+// and exports net them against invoices, and each one is linked to the invoice it cites by number and vendor.
+
+// Credit notes from suppliers this different never credit each other's invoices, even on the same number
+const SAME_VENDOR_MIN = 0.6;
+
+const negative = (value: number) => -Math.abs(value);
+const negativeOrUnset = (value?: number) => value === undefined ? undefined : negative(value);
+
+// Models copy amounts from the page, with or without the minus sign or 'CR' suffix. Totals, subtotal,
+// tax and line totals become negative; quantities too, so returned goods net out of the three-way match.
+// Unit prices stay positive, and discounts and shipping charges stay positive as ChargeLine requires.
+export const applyCreditSign = (doc: InvoiceData): InvoiceData => {
+  if (!isCreditNote(doc)) return doc;
+  const signLine = (item: LineItem): LineItem => normalizeLineUnits({ ...item, quantity: negative(item.quantity), unitPrice: Math.abs(item.unitPrice), totalAmount: negative(item.totalAmount) });
+  return {
+    ...doc,
+    totalAmount: negative(doc.totalAmount),
+    subtotal: negativeOrUnset(doc.subtotal),
+    amountDue: negativeOrUnset(doc.amountDue),
+    taxLines: doc.taxLines?.map(tax => ({ ...tax, base: negativeOrUnset(tax.base), amount: negative(tax.amount) })),
+    shippingCharges: doc.shippingCharges?.map(charge => ({ ...charge, amount: Math.abs(charge.amount) })),
+    lineItems: doc.lineItems.map(signLine),
+    originalLineItems: doc.originalLineItems?.map(signLine)
+  };
+};
+
+// Total as it counts towards the session: credit notes subtract, whatever sign a reviewer typed in
+export const signedTotal = (doc: InvoiceData): number => isCreditNote(doc) ? negative(doc.totalAmount || 0) : (doc.totalAmount || 0);
+
+export interface CreditLinks {
+  originals: Record<string, InvoiceData>; // Credit note id -> the invoice it credits
+  credits: Record<string, InvoiceData[]>; // Invoice id -> credit notes against it
+}
+
+// Links each credit note in the session to the invoice whose number it cites, from the same vendor.
+export const linkCreditNotes = (history: InvoiceData[]): CreditLinks => {
+  const links: CreditLinks = { originals: {}, credits: {} };
+  history.filter(isCreditNote).forEach(credit => {
+    const reference = normalizeInvoiceNumber(credit.originalInvoiceNumber);
+    if (!reference) return;
+    const original = history.find(doc => !isCreditNote(doc) && doc.id !== credit.id && normalizeInvoiceNumber(doc.invoiceNumber) === reference && vendorNameSimilarity(doc.vendorName, credit.vendorName) >= SAME_VENDOR_MIN);
+    if (!original) return;
+    links.originals[credit.id] = original;
+    links.credits[original.id] = [...(links.credits[original.id] || []), credit];
+  });
+  return links;
+};
+
+// What is still owed on an invoice after the session's credit notes against it
+export const netAfterCredits = (invoice: InvoiceData, credits: InvoiceData[] = []): number =>
+  parseFloat(credits.reduce((sum, credit) => sum + signedTotal(credit), invoice.totalAmount || 0).toFixed(2));
@@ -0,0 +1,166 @@
+import { InvoiceData, LineItem } from "../types";
+import { normalizeVendorName, vendorNameSimilarity } from '../utils/vendorNames';
+import { validateTaxId } from '../utils/taxIdValidation';
+import { isCreditNote } from '../utils/documentTypes';
+
+// Fuzzy duplicate detection: each signal scores 0..1 and the weighted mean of the signals that apply
+// to a pair decides whether it is flagged. Exact contents short-circuit to a certain match.
+
+export type DuplicateSignalKey = 'contentHash' | 'vendor' | 'invoiceNumber' | 'date' | 'amount' | 'lineItems';
+
+export interface DuplicateSignal {
+  key: DuplicateSignalKey;
+  score: number; // 0..1
+  weight: number;
+  detail: string; // Why this signal scored the way it did, shown to the reviewer
+}
+
+export interface DuplicateMatch {
+  invoice: InvoiceData; // The document already in the session
+  score: number; // 0..1
+  signals: DuplicateSignal[];
+}
+
+export const DUPLICATE_THRESHOLD = 0.7;
+
+const WEIGHTS: Record<Exclude<DuplicateSignalKey, 'contentHash'>, number> = {
+  vendor: 0.25,
+  invoiceNumber: 0.3,
+  date: 0.15,
+  amount: 0.2,
+  lineItems: 0.1
+};
+
+// Below this vendor similarity two documents are from different suppliers, whatever else matches
+const SAME_VENDOR_MIN = 0.6;
+const DIFFERENT_VENDOR_CAP = 0.4;
+// Different invoice numbers, or dates weeks apart without a matching number, are separate bills of the
+// same vendor (rent, subscriptions, utilities) however alike the rest is
+const CONFLICT_CAP = 0.6;
+
+const DAY_MS = 86400000;
+
+// "INV-000123", "Invoice No. 123" and "#123" all normalize to "123"
+export const normalizeInvoiceNumber = (value?: string) =>
+  (value || '').toUpperCase().replace(/[^A-Z0-9]/g, '').replace(/^(INVOICE|INV|NO|NR|NUM|BILL|FACTURA|RECHNUNG)+/, '').replace(/^0+(?=\d)/, '');
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const parseDay = (value?: string): number | null => {
+  const time = Date.parse(value || '');
+  return isNaN(time) ? null : Math.round(time / DAY_MS);
+};
+
+const lineKey = (line: LineItem) =>
+  `${(line.sku || line.description || '').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '')}:${Math.round((line.totalAmount || 0) * 100)}`;
+
+const vendorSignal = (a: InvoiceData, b: InvoiceData): DuplicateSignal => {
+  const taxA = validateTaxId(a.vendorTaxId)?.normalized;
+  const taxB = validateTaxId(b.vendorTaxId)?.normalized;
+  if (taxA && taxB) {
+    return taxA === taxB
+      ? { key: 'vendor', score: 1, weight: WEIGHTS.vendor, detail: `Same vendor tax ID ${taxA}` }
+      : { key: 'vendor', score: 0, weight: WEIGHTS.vendor, detail: `Different vendor tax IDs (${taxA} vs ${taxB})` };
+  }
+  const similarity = vendorNameSimilarity(a.vendorName, b.vendorName);
+  const detail = similarity === 1
+    ? (a.vendorName.trim() === b.vendorName.trim() ? 'Same vendor name' : `Vendor names match once normalized ("${a.vendorName}" / "${b.vendorName}")`)
+    : `Vendor names ${Math.round(similarity * 100)}% similar ("${a.vendorName}" / "${b.vendorName}")`;
+  return { key: 'vendor', score: similarity, weight: WEIGHTS.vendor, detail };
+};
+
+const invoiceNumberSignal = (a: InvoiceData, b: InvoiceData): DuplicateSignal | null => {
+  const numberA = normalizeInvoiceNumber(a.invoiceNumber);
+  const numberB = normalizeInvoiceNumber(b.invoiceNumber);
+  if (!numberA || !numberB) return null;
+  const weight = WEIGHTS.invoiceNumber;
+  if (numberA === numberB) {
+    return { key: 'invoiceNumber', score: 1, weight, detail: a.invoiceNumber === b.invoiceNumber ? `Same invoice number ${a.invoiceNumber}` : `Invoice numbers match once normalized (${a.invoiceNumber} / ${b.invoiceNumber})` };
+  }
+  if (Math.min(numberA.length, numberB.length) >= 4 && (numberA.includes(numberB) || numberB.includes(numberA))) {
+    return { key: 'invoiceNumber', score: 0.8, weight, detail: `One invoice number contains the other (${a.invoiceNumber} / ${b.invoiceNumber})` };
+  }
+  // A single misread or mistyped character, e.g. O vs 0 on a scan
+  if (Math.min(numberA.length, numberB.length) >= 4 && editDistance(numberA, numberB) === 1) {
+    return { key: 'invoiceNumber', score: 0.6, weight, detail: `Invoice numbers differ by one character (${a.invoiceNumber} / ${b.invoiceNumber})` };
+  }
+  return { key: 'invoiceNumber', score: 0, weight, detail: `Different invoice numbers (${a.invoiceNumber} / ${b.invoiceNumber})` };
+};
+
+const dateSignal = (a: InvoiceData, b: InvoiceData): DuplicateSignal | null => {
+  const dayA = parseDay(a.invoiceDate);
+  const dayB = parseDay(b.invoiceDate);
+  if (dayA === null || dayB === null) return null;
+  const weight = WEIGHTS.date;
+  const apart = Math.abs(dayA - dayB);
+  if (apart === 0) return { key: 'date', score: 1, weight, detail: `Same invoice date ${a.invoiceDate}` };
+  // Day and month swapped between US and European readings of the same date
+  const [, monthA, dayOfA] = a.invoiceDate.split('-');
+  const [, monthB, dayOfB] = b.invoiceDate.split('-');
+  if (apart < 366 && monthA === dayOfB && dayOfA === monthB) return { key: 'date', score: 0.8, weight, detail: `Dates ${a.invoiceDate} and ${b.invoiceDate} differ only by day/month order` };
+  if (apart <= 3) return { key: 'date', score: 0.8, weight, detail: `Invoice dates ${apart} day(s) apart` };
+  if (apart <= 14) return { key: 'date', score: 0.4, weight, detail: `Invoice dates ${apart} days apart` };
+  return { key: 'date', score: 0, weight, detail: `Invoice dates ${apart} days apart` };
+};
+
+const amountSignal = (a: InvoiceData, b: InvoiceData): DuplicateSignal | null => {
+  if (!a.totalAmount || !b.totalAmount) return null;
+  const weight = WEIGHTS.amount;
+  const difference = Math.abs(a.totalAmount - b.totalAmount);
+  const relative = difference / Math.max(Math.abs(a.totalAmount), Math.abs(b.totalAmount));
+  if (difference < 0.01) return { key: 'amount', score: 1, weight, detail: `Same total ${a.currencySymbol}${a.totalAmount.toFixed(2)}` };
+  if (relative <= 0.005) return { key: 'amount', score: 0.9, weight, detail: `Totals within 0.5% (${a.currencySymbol}${a.totalAmount.toFixed(2)} / ${b.currencySymbol}${b.totalAmount.toFixed(2)})` };
+  if (relative <= 0.02) return { key: 'amount', score: 0.6, weight, detail: `Totals within 2% (${a.currencySymbol}${a.totalAmount.toFixed(2)} / ${b.currencySymbol}${b.totalAmount.toFixed(2)})` };
+  return { key: 'amount', score: 0, weight, detail: `Different totals (${a.currencySymbol}${a.totalAmount.toFixed(2)} / ${b.currencySymbol}${b.totalAmount.toFixed(2)})` };
+};
+
+// Jaccard overlap of line items keyed by SKU (or description) and amount; catches partial resubmissions
+const lineItemSignal = (a: InvoiceData, b: InvoiceData): DuplicateSignal | null => {
+  if (a.lineItems.length === 0 || b.lineItems.length === 0) return null;
+  const keysA = new Set(a.lineItems.map(lineKey));
+  const keysB = new Set(b.lineItems.map(lineKey));
+  let shared = 0;
+  keysA.forEach(key => { if (keysB.has(key)) shared++; });
+  const overlap = shared / (keysA.size + keysB.size - shared);
+  return { key: 'lineItems', score: overlap, weight: WEIGHTS.lineItems, detail: `${shared} of ${Math.max(keysA.size, keysB.size)} line items match` };
+};
+
+export const scoreDuplicate = (doc: InvoiceData, other: InvoiceData): DuplicateMatch => {
+  if (doc.contentHash && doc.contentHash === other.contentHash) {
+    return { invoice: other, score: 1, signals: [{ key: 'contentHash', score: 1, weight: 1, detail: 'Identical file contents' }] };
+  }
+  const vendor = vendorSignal(doc, other);
+  const signals = [vendor, invoiceNumberSignal(doc, other), dateSignal(doc, other), amountSignal(doc, other), lineItemSignal(doc, other)]
+    .filter((signal): signal is DuplicateSignal => signal !== null);
+  const totalWeight = signals.reduce((sum, signal) => sum + signal.weight, 0);
+  const weighted = signals.reduce((sum, signal) => sum + signal.score * signal.weight, 0) / totalWeight;
+  const number = signals.find(signal => signal.key === 'invoiceNumber');
+  const date = signals.find(signal => signal.key === 'date');
+  const conflicting = number?.score === 0 || (date?.score === 0 && number?.score !== 1);
+  const score = vendor.score < SAME_VENDOR_MIN ? Math.min(weighted, DIFFERENT_VENDOR_CAP) : conflicting ? Math.min(weighted, CONFLICT_CAP) : weighted;
+  return { invoice: other, score, signals };
+};
+
+// Stable identity for a document across sessions, used to remember "not a duplicate" decisions
+export const documentFingerprint = (doc: InvoiceData) =>
+  doc.contentHash || `${normalizeVendorName(doc.vendorName)}|${normalizeInvoiceNumber(doc.invoiceNumber)}|${doc.invoiceDate}|${doc.totalAmount.toFixed(2)}`;
+
+export const duplicatePairKey = (a: InvoiceData, b: InvoiceData) => [documentFingerprint(a), documentFingerprint(b)].sort().join('::');
+
+// Session documents that look like the same invoice as doc, most likely first.
+// Pairs a reviewer marked as not duplicates are skipped, and a credit note never duplicates the invoice it credits.
+export const findDuplicateCandidates = (doc: InvoiceData, history: InvoiceData[], dismissedPairs: string[] = []): DuplicateMatch[] => history
+  .filter(other => other.id !== doc.id && isCreditNote(other) === isCreditNote(doc) && !dismissedPairs.includes(duplicatePairKey(doc, other)))
+  .map(other => scoreDuplicate(doc, other))
+  .filter(match => match.score >= DUPLICATE_THRESHOLD)
+  .sort((a, b) => b.score - a.score);
@@ -0,0 +1,364 @@
+import { ChargeLine, EInvoiceFormat, EInvoiceSource, InvoiceData, LineItem, RemittanceDetails, TaxLine } from "../types";
+import { decodeXml, findElement, findElements, isXmlFile, parseXml, textAt, XmlElement } from '../utils/xmlDocument';
+import { isPdfFile, readPdfAttachments } from '../utils/pdfPages';
+import { normalizeLineUnits, UNECE_UNIT_CODES } from '../utils/unitConversion';
+import { CODE_TO_SYMBOL, getCurrencyCode } from '../utils/currency';
+import { DOCUMENT_TYPE_LABELS } from '../utils/documentTypes';
+import { assessExtractionQuality } from './extractionQuality';
+import { applyCreditSign } from './creditNotes';
+
+// Structured e-invoices already carry every field as data: UBL 2.1 (Peppol BIS, XRechnung), UN/CEFACT CII
+// (also embedded in Factur-X / ZUGFeRD PDFs) and Mexican CFDI. They are read here and never sent to a model.
+
+const UBL_NAMESPACE = /^urn:oasis:names:specification:ubl:schema:xsd:(Invoice|CreditNote)-2$/;
+const CII_NAMESPACE = 'urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100';
+const CFDI_NAMESPACE = /^http:\/\/www\.sat\.gob\.mx\/cfd\/[34]$/;
+
+// UNTDID 1001 document codes of credit notes (credit note, factored, self-billed, consolidated)
+const CREDIT_TYPE_CODES = ['381', '396', '261', '262'];
+
+const CFDI_TAX_NAMES: Record<string, string> = { '001': 'ISR', '002': 'IVA', '003': 'IEPS' };
+
+type EInvoiceFields = Omit<InvoiceData, 'id' | 'language' | 'originalLineItems' | 'eInvoice'>;
+
+interface ParsedEInvoice {
+  format: EInvoiceFormat;
+  profile?: string;
+  fields: EInvoiceFields;
+}
+
+const amount = (text?: string): number | undefined => {
+  const value = text === undefined ? NaN : parseFloat(text);
+  return isNaN(value) ? undefined : value;
+};
+
+// CII writes YYYYMMDD (format 102); UBL and CFDI write ISO dates, CFDI with a time
+const isoDate = (text?: string): string | undefined => {
+  const compact = /^(\d{4})(\d{2})(\d{2})$/.exec(text || '');
+  if (compact) return `${compact[1]}-${compact[2]}-${compact[3]}`;
+  return text && /^\d{4}-\d{2}-\d{2}/.test(text) ? text.slice(0, 10) : undefined;
+};
+
+// A symbol only where it maps back to the same code; '$' would count MXN as USD
+const currencySymbolFor = (code: string): string => {
+  const symbol = CODE_TO_SYMBOL[code];
+  return symbol && getCurrencyCode(symbol) === code ? symbol : code;
+};
+
+const unitName = (code?: string): string | undefined => code ? UNECE_UNIT_CODES[code.toUpperCase()] || code : undefined;
+
+const joinAddress = (...parts: (string | undefined)[]): string | undefined => parts.filter(Boolean).join(', ') || undefined;
+
+// Price per one unit, from a price that may be quoted per basis quantity (e.g. per 100)
+const unitPriceOf = (price: number | undefined, basisQuantity: number | undefined, quantity: number, totalAmount: number): number => {
+  if (price !== undefined) return price / (basisQuantity || 1);
+  return quantity ? totalAmount / quantity : totalAmount;
+};
+
+const remittanceOf = (details: RemittanceDetails): RemittanceDetails | undefined => {
+  const account = details.iban?.replace(/\s+/g, '').toUpperCase();
+  // Some senders put a domestic account number where the IBAN goes
+  const remittance = account && !/^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/.test(account) ? { ...details, iban: undefined, accountNumber: details.accountNumber || details.iban } : details;
+  return Object.values(remittance).some(value => value !== undefined) ? remittance : undefined;
+};
+
+const chargeLinesOf = (charges: { isCharge: boolean, line: ChargeLine }[], isCharge: boolean): ChargeLine[] | undefined => {
+  const lines = charges.filter(charge => charge.isCharge === isCharge).map(charge => charge.line);
+  return lines.length > 0 ? lines : undefined;
+};
+
+// --- UBL 2.1: Peppol BIS Billing 3.0, XRechnung, EHF, ... ---
+
+const ublAddress = (address?: XmlElement): string | undefined => address && joinAddress(
+  textAt(address, 'StreetName'), textAt(address, 'AdditionalStreetName'), textAt(address, 'AddressLine', 'Line'),
+  [textAt(address, 'PostalZone'), textAt(address, 'CityName')].filter(Boolean).join(' '),
+  textAt(address, 'CountrySubentity'), textAt(address, 'Country', 'IdentificationCode'));
+
+const ublParty = (party?: XmlElement) => {
+  const taxSchemes = findElements(party, 'PartyTaxScheme');
+  const vat = taxSchemes.find(scheme => textAt(scheme, 'TaxScheme', 'ID') === 'VAT') || taxSchemes[0];
+  return {
+    name: textAt(party, 'PartyName', 'Name') || textAt(party, 'PartyLegalEntity', 'RegistrationName'),
+    address: ublAddress(findElement(party, 'PostalAddress')),
+    taxId: textAt(vat, 'CompanyID'),
+    taxScheme: textAt(vat, 'TaxScheme', 'ID'),
+    country: textAt(party, 'PostalAddress', 'Country', 'IdentificationCode')
+  };
+};
+
+const readUbl = (root: XmlElement): EInvoiceFields => {
+  const isCredit = root.name === 'CreditNote' || CREDIT_TYPE_CODES.includes(textAt(root, 'InvoiceTypeCode') || '');
+  const currency = textAt(root, 'DocumentCurrencyCode') || 'EUR';
+  const supplier = ublParty(findElement(root, 'AccountingSupplierParty', 'Party'));
+  const customer = ublParty(findElement(root, 'AccountingCustomerParty', 'Party'));
+  const totals = findElement(root, 'LegalMonetaryTotal');
+
+  const lineItems: LineItem[] = [...findElements(root, 'InvoiceLine'), ...findElements(root, 'CreditNoteLine')].map(line => {
+    const quantityElement = findElement(line, 'InvoicedQuantity') || findElement(line, 'CreditedQuantity');
+    const quantity = amount(quantityElement?.text) ?? 1;
+    const totalAmount = amount(textAt(line, 'LineExtensionAmount')) ?? 0;
+    return {
+      sku: textAt(line, 'Item', 'SellersItemIdentification', 'ID') || textAt(line, 'Item', 'StandardItemIdentification', 'ID') || '',
+      description: textAt(line, 'Item', 'Name') || textAt(line, 'Item', 'Description') || '',
+      quantity,
+      unitPrice: unitPriceOf(amount(textAt(line, 'Price', 'PriceAmount')), amount(textAt(line, 'Price', 'BaseQuantity')), quantity, totalAmount),
+      totalAmount,
+      glCategory: '',
+      unitOfMeasure: unitName(quantityElement?.attributes.unitCode)
+    };
+  });
+
+  // Only the TaxTotal in the document currency has subtotals
+  const taxLines: TaxLine[] = findElements(root, 'TaxTotal').flatMap(total => findElements(total, 'TaxSubtotal')).map(subtotal => ({
+    jurisdiction: [supplier.country, textAt(subtotal, 'TaxCategory', 'TaxScheme', 'ID') || 'VAT'].filter(Boolean).join(' '),
+    rate: amount(textAt(subtotal, 'TaxCategory', 'Percent')),
+    base: amount(textAt(subtotal, 'TaxableAmount')),
+    amount: amount(textAt(subtotal, 'TaxAmount')) ?? 0
+  }));
+  const charges = findElements(root, 'AllowanceCharge').map(charge => {
+    const isCharge = textAt(charge, 'ChargeIndicator') === 'true';
+    return { isCharge, line: { description: textAt(charge, 'AllowanceChargeReason') || (isCharge ? 'Charge' : 'Allowance'), amount: Math.abs(amount(textAt(charge, 'Amount')) ?? 0) } };
+  });
+  const paymentMeans = findElements(root, 'PaymentMeans');
+  const account = paymentMeans.map(means => findElement(means, 'PayeeFinancialAccount')).find(Boolean);
+
+  return {
+    documentType: isCredit ? DOCUMENT_TYPE_LABELS.creditNote : DOCUMENT_TYPE_LABELS.invoice,
+    vendorName: supplier.name || '',
+    vendorAddress: supplier.address,
+    vendorTaxId: supplier.taxId,
+    vendorTaxIdType: supplier.taxId ? supplier.taxScheme || 'VAT' : undefined,
+    billToName: customer.name,
+    billToAddress: customer.address,
+    shipToAddress: ublAddress(findElement(root, 'Delivery', 'DeliveryLocation', 'Address')),
+    invoiceDate: isoDate(textAt(root, 'IssueDate')) || new Date().toISOString().split('T')[0],
+    invoiceNumber: textAt(root, 'ID'),
+    originalInvoiceNumber: textAt(root, 'BillingReference', 'InvoiceDocumentReference', 'ID'),
+    purchaseOrderNumber: textAt(root, 'OrderReference', 'ID'),
+    paymentTerms: textAt(root, 'PaymentTerms', 'Note'),
+    dueDate: isoDate(textAt(root, 'DueDate') || paymentMeans.map(means => textAt(means, 'PaymentDueDate')).find(Boolean)),
+    totalAmount: amount(textAt(totals, 'TaxInclusiveAmount')) ?? amount(textAt(totals, 'PayableAmount')) ?? 0,
+    currencySymbol: currencySymbolFor(currency),
+    lineItems,
+    subtotal: amount(textAt(totals, 'LineExtensionAmount')),
+    taxLines: taxLines.length > 0 ? taxLines : undefined,
+    discounts: chargeLinesOf(charges, false),
+    shippingCharges: chargeLinesOf(charges, true),
+    amountDue: amount(textAt(totals, 'PayableAmount')),
+    remittance: account && remittanceOf({
+      iban: textAt(account, 'ID'),
+      accountHolder: textAt(account, 'Name'),
+      swiftBic: textAt(account, 'FinancialInstitutionBranch', 'ID'),
+      bankName: textAt(account, 'FinancialInstitutionBranch', 'FinancialInstitution', 'Name')
+    })
+  };
+};
+
+// --- UN/CEFACT CII D16B: Factur-X, ZUGFeRD 2.x, XRechnung CII ---
+
+const ciiAddress = (address?: XmlElement): string | undefined => address && joinAddress(
+  textAt(address, 'LineOne'), textAt(address, 'LineTwo'), textAt(address, 'LineThree'),
+  [textAt(address, 'PostcodeCode'), textAt(address, 'CityName')].filter(Boolean).join(' '),
+  textAt(address, 'CountrySubDivisionName'), textAt(address, 'CountryID'));
+
+const ciiParty = (party?: XmlElement) => {
+  const registrations = findElements(party, 'SpecifiedTaxRegistration');
+  // schemeID 'VA' is a VAT number, 'FC' a national tax number
+  const registration = registrations.find(entry => findElement(entry, 'ID')?.attributes.schemeID === 'VA') || registrations[0];
+  return {
+    name: textAt(party, 'Name'),
+    address: ciiAddress(findElement(party, 'PostalTradeAddress')),
+    taxId: textAt(registration, 'ID'),
+    taxScheme: findElement(registration, 'ID')?.attributes.schemeID === 'FC' ? 'Tax number' : 'VAT',
+    country: textAt(party, 'PostalTradeAddress', 'CountryID')
+  };
+};
+
+const readCii = (root: XmlElement): EInvoiceFields => {
+  const exchanged = findElement(root, 'ExchangedDocument');
+  const transaction = findElement(root, 'SupplyChainTradeTransaction');
+  const agreement = findElement(transaction, 'ApplicableHeaderTradeAgreement');
+  const settlement = findElement(transaction, 'ApplicableHeaderTradeSettlement');
+  const summation = findElement(settlement, 'SpecifiedTradeSettlementHeaderMonetarySummation');
+  const seller = ciiParty(findElement(agreement, 'SellerTradeParty'));
+  const buyer = ciiParty(findElement(agreement, 'BuyerTradeParty'));
+  const terms = findElement(settlement, 'SpecifiedTradePaymentTerms');
+
+  const lineItems: LineItem[] = findElements(transaction, 'IncludedSupplyChainTradeLineItem').map(line => {
+    const quantityElement = findElement(line, 'SpecifiedLineTradeDelivery', 'BilledQuantity');
+    const price = findElement(line, 'SpecifiedLineTradeAgreement', 'NetPriceProductTradePrice');
+    const quantity = amount(quantityElement?.text) ?? 1;
+    const totalAmount = amount(textAt(line, 'SpecifiedLineTradeSettlement', 'SpecifiedTradeSettlementLineMonetarySummation', 'LineTotalAmount')) ?? 0;
+    return {
+      sku: textAt(line, 'SpecifiedTradeProduct', 'SellerAssignedID') || textAt(line, 'SpecifiedTradeProduct', 'GlobalID') || '',
+      description: textAt(line, 'SpecifiedTradeProduct', 'Name') || textAt(line, 'SpecifiedTradeProduct', 'Description') || '',
+      quantity,
+      unitPrice: unitPriceOf(amount(textAt(price, 'ChargeAmount')), amount(textAt(price, 'BasisQuantity')), quantity, totalAmount),
+      totalAmount,
+      glCategory: '',
+      unitOfMeasure: unitName(quantityElement?.attributes.unitCode)
+    };
+  });
+
+  const taxLines: TaxLine[] = findElements(settlement, 'ApplicableTradeTax').map(tax => ({
+    jurisdiction: [seller.country, textAt(tax, 'TypeCode') || 'VAT'].filter(Boolean).join(' '),
+    rate: amount(textAt(tax, 'RateApplicablePercent')),
+    base: amount(textAt(tax, 'BasisAmount')),
+    amount: amount(textAt(tax, 'CalculatedAmount')) ?? 0
+  }));
+  const charges = findElements(settlement, 'SpecifiedTradeAllowanceCharge').map(charge => {
+    const isCharge = textAt(charge, 'ChargeIndicator', 'Indicator') === 'true';
+    return { isCharge, line: { description: textAt(charge, 'Reason') || (isCharge ? 'Charge' : 'Allowance'), amount: Math.abs(amount(textAt(charge, 'ActualAmount')) ?? 0) } };
+  });
+  const means = findElements(settlement, 'SpecifiedTradeSettlementPaymentMeans').find(entry => findElement(entry, 'PayeePartyCreditorFinancialAccount'));
+  const account = findElement(means, 'PayeePartyCreditorFinancialAccount');
+
+  return {
+    documentType: CREDIT_TYPE_CODES.includes(textAt(exchanged, 'TypeCode') || '') ? DOCUMENT_TYPE_LABELS.creditNote : DOCUMENT_TYPE_LABELS.invoice,
+    vendorName: seller.name || '',
+    vendorAddress: seller.address,
+    vendorTaxId: seller.taxId,
+    vendorTaxIdType: seller.taxId ? seller.taxScheme : undefined,
+    billToName: buyer.name,
+    billToAddress: buyer.address,
+    shipToAddress: ciiAddress(findElement(transaction, 'ApplicableHeaderTradeDelivery', 'ShipToTradeParty', 'PostalTradeAddress')),
+    invoiceDate: isoDate(textAt(exchanged, 'IssueDateTime', 'DateTimeString')) || new Date().toISOString().split('T')[0],
+    invoiceNumber: textAt(exchanged, 'ID'),
+    originalInvoiceNumber: textAt(settlement, 'InvoiceReferencedDocument', 'IssuerAssignedID'),
+    purchaseOrderNumber: textAt(agreement, 'BuyerOrderReferencedDocument', 'IssuerAssignedID'),
+    paymentTerms: textAt(terms, 'Description'),
+    dueDate: isoDate(textAt(terms, 'DueDateDateTime', 'DateTimeString')),
+    totalAmount: amount(textAt(summation, 'GrandTotalAmount')) ?? amount(textAt(summation, 'DuePayableAmount')) ?? 0,
+    currencySymbol: currencySymbolFor(textAt(settlement, 'InvoiceCurrencyCode') || 'EUR'),
+    lineItems,
+    subtotal: amount(textAt(summation, 'LineTotalAmount')),
+    taxLines: taxLines.length > 0 ? taxLines : undefined,
+    discounts: chargeLinesOf(charges, false),
+    shippingCharges: chargeLinesOf(charges, true),
+    amountDue: amount(textAt(summation, 'DuePayableAmount')),
+    remittance: account && remittanceOf({
+      iban: textAt(account, 'IBANID'),
+      accountNumber: textAt(account, 'ProprietaryID'),
+      accountHolder: textAt(account, 'AccountName'),
+      swiftBic: textAt(means, 'PayeeSpecifiedCreditorFinancialInstitution', 'BICID')
+    })
+  };
+};
+
+// --- CFDI 3.3 / 4.0 (Mexico) ---
+
+// Ingresos are invoices and egresos credit notes; payment, transfer and payroll receipts are not invoices
+const readCfdi = (root: XmlElement): EInvoiceFields | null => {
+  const kind = root.attributes.TipoDeComprobante;
+  if (kind !== 'I' && kind !== 'E') return null;
+  const issuer = findElement(root, 'Emisor')?.attributes || {};
+  const receiver = findElement(root, 'Receptor')?.attributes || {};
+  const fiscalId = findElement(root, 'Complemento', 'TimbreFiscalDigital')?.attributes.UUID;
+
+  const lineItems: LineItem[] = findElements(root, 'Conceptos', 'Concepto').map(({ attributes }) => {
+    const quantity = amount(attributes.Cantidad) ?? 1;
+    const totalAmount = amount(attributes.Importe) ?? 0;
+    return {
+      sku: attributes.NoIdentificacion || attributes.ClaveProdServ || '',
+      description: attributes.Descripcion || '',
+      quantity,
+      unitPrice: unitPriceOf(amount(attributes.ValorUnitario), 1, quantity, totalAmount),
+      totalAmount,
+      glCategory: '',
+      unitOfMeasure: UNECE_UNIT_CODES[(attributes.ClaveUnidad || '').toUpperCase()] || attributes.Unidad || attributes.ClaveUnidad
+    };
+  });
+
+  // Document-level taxes only; every concept repeats its own. Withholdings reduce the total.
+  const taxes = findElement(root, 'Impuestos');
+  const taxLines: TaxLine[] = [
+    ...findElements(taxes, 'Traslados', 'Traslado').map(({ attributes }) => ({
+      jurisdiction: `MX ${CFDI_TAX_NAMES[attributes.Impuesto] || attributes.Impuesto}`,
+      rate: attributes.TasaOCuota && attributes.TipoFactor !== 'Cuota' ? parseFloat((parseFloat(attributes.TasaOCuota) * 100).toFixed(4)) : undefined,
+      base: amount(attributes.Base),
+      amount: amount(attributes.Importe) ?? 0
+    })),
+    ...findElements(taxes, 'Retenciones', 'Retencion').map(({ attributes }) => ({
+      jurisdiction: `MX ${CFDI_TAX_NAMES[attributes.Impuesto] || attributes.Impuesto} withheld`,
+      amount: -(amount(attributes.Importe) ?? 0)
+    }))
+  ];
+  const discount = amount(root.attributes.Descuento);
+  const related = findElements(root, 'CfdiRelacionados').flatMap(group => findElements(group, 'CfdiRelacionado'));
+
+  return {
+    documentType: kind === 'E' ? DOCUMENT_TYPE_LABELS.creditNote : DOCUMENT_TYPE_LABELS.invoice,
+    vendorName: issuer.Nombre || '',
+    vendorTaxId: issuer.Rfc,
+    vendorTaxIdType: issuer.Rfc ? 'RFC' : undefined,
+    billToName: receiver.Nombre,
+    invoiceDate: isoDate(root.attributes.Fecha) || new Date().toISOString().split('T')[0],
+    // Serie and folio are the supplier's numbering; the fiscal UUID is the fallback
+    invoiceNumber: [root.attributes.Serie, root.attributes.Folio].filter(Boolean).join('-') || fiscalId,
+    originalInvoiceNumber: related[0]?.attributes.UUID,
+    paymentTerms: root.attributes.CondicionesDePago,
+    totalAmount: amount(root.attributes.Total) ?? 0,
+    currencySymbol: currencySymbolFor(root.attributes.Moneda || 'MXN'),
+    lineItems,
+    subtotal: amount(root.attributes.SubTotal),
+    taxLines: taxLines.length > 0 ? taxLines : undefined,
+    discounts: discount ? [{ description: 'Descuento', amount: discount }] : undefined
+  };
+};
+
+// The e-invoice in an XML document, or null when it is none of the supported syntaxes
+const readEInvoiceXml = (xml: string): ParsedEInvoice | null => {
+  let root = parseXml(xml);
+  // Peppol transport envelope around the UBL document
+  if (root.name === 'StandardBusinessDocument') root = root.children.find(child => UBL_NAMESPACE.test(child.namespace)) || root;
+  if (UBL_NAMESPACE.test(root.namespace)) return { format: 'ubl', profile: textAt(root, 'CustomizationID'), fields: readUbl(root) };
+  if (root.namespace === CII_NAMESPACE && root.name === 'CrossIndustryInvoice') {
+    return { format: 'cii', profile: textAt(root, 'ExchangedDocumentContext', 'GuidelineSpecifiedDocumentContextParameter', 'ID'), fields: readCii(root) };
+  }
+  if (CFDI_NAMESPACE.test(root.namespace) && root.name === 'Comprobante') {
+    const fields = readCfdi(root);
+    return fields && { format: 'cfdi', profile: root.attributes.Version || root.attributes.version, fields };
+  }
+  return null;
+};
+
+// The values are the supplier's own data rather than a reading of the page, hence High confidence.
+// The quality checks still run, so a document that does not add up is flagged all the same.
+const toInvoiceData = ({ format, profile, fields }: ParsedEInvoice, source: Partial<EInvoiceSource> = {}): InvoiceData => {
+  const lineItems = fields.lineItems.map(normalizeLineUnits);
+  const data = applyCreditSign({ ...fields, id: crypto.randomUUID(), lineItems, originalLineItems: lineItems, language: 'Original', eInvoice: { format, profile, ...source } });
+  return { ...assessExtractionQuality(data), confidenceScore: 'High' };
+};
+
+// Structured data of an uploaded e-invoice XML, or of the XML embedded in a Factur-X / ZUGFeRD PDF.
+// Null when there is none, or when it cannot be read; the model then extracts the document as usual.
+export const importEInvoice = async (file: File): Promise<InvoiceData | null> => {
+  try {
+    if (isXmlFile(file)) {
+      const parsed = readEInvoiceXml(decodeXml(new Uint8Array(await file.arrayBuffer())));
+      return parsed && toInvoiceData(parsed);
+    }
+    if (isPdfFile(file)) {
+      for (const attachment of await readPdfAttachments(file)) {
+        if (!/\.xml$/i.test(attachment.name)) continue;
+        const parsed = readEInvoiceXml(decodeXml(attachment.data));
+        if (parsed) return toInvoiceData(parsed, { embeddedInPdf: true, fileName: attachment.name });
+      }
+    }
+  } catch (error) {
+    console.warn(`E-invoice import of ${file.name} failed, extracting with the model instead:`, error);
+  }
+  return null;
+};
+
+// e.g. 'Peppol BIS 3.0 (UBL)', 'Factur-X / ZUGFeRD (CII)', 'CFDI 4.0'
+export const describeEInvoice = (source: EInvoiceSource): string => {
+  if (source.format === 'cfdi') return `CFDI ${source.profile || ''}`.trim();
+  const profile = (source.profile || '').toLowerCase();
+  const syntax = source.format === 'ubl' ? 'UBL' : 'CII';
+  const flavour = profile.includes('peppol') ? 'Peppol BIS 3.0'
+    : profile.includes('xrechnung') ? 'XRechnung'
+    : source.embeddedInPdf || profile.includes('factur-x') || profile.includes('zugferd') ? 'Factur-X / ZUGFeRD'
+    : profile.includes('en16931') ? 'EN 16931' : '';
+  return flavour ? `${flavour} (${syntax})` : syntax;
+};
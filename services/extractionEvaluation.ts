@@ -0,0 +1,170 @@
+import { InvoiceData, LineItem } from "../types";
+import { cleanNumber, reconcileTotals } from './extractionQuality';
+import { normalizeInvoiceNumber } from './duplicateDetection';
+import { normalizeVendorName } from '../utils/vendorNames';
+
+// Scores extracted documents against hand-checked expected data. Pure, so the same numbers come out
+// of the offline harness (scripts/evaluate.ts) whatever provider produced the extraction.
+
+export const EVALUATED_FIELDS = [
+  'vendorName', 'invoiceNumber', 'originalInvoiceNumber', 'invoiceDate', 'dueDate', 'purchaseOrderNumber', 'paymentTerms',
+  'vendorTaxId', 'currencySymbol', 'subtotal', 'totalAmount'
+] as const;
+
+export type EvaluatedField = typeof EVALUATED_FIELDS[number];
+
+export interface FieldResult {
+  field: EvaluatedField;
+  expected: string;
+  actual: string;
+  correct: boolean;
+}
+
+export interface DocumentEvaluation {
+  name: string;
+  fields: FieldResult[]; // Only fields the expected data fills in
+  expectedLines: number;
+  extractedLines: number;
+  matchedLines: number;
+  glCompared: number; // Matched lines whose expected GL category is set
+  glAgreed: number;
+  reconciled: boolean; // Extracted subtotal + tax + shipping - discounts equals the extracted total
+  error?: string; // Extraction failed; the document counts against every rate
+}
+
+export interface EvaluationSummary {
+  documents: number;
+  failed: number;
+  fieldAccuracy: Partial<Record<EvaluatedField, number>>;
+  // Each rate is undefined when there was nothing to measure, e.g. GL agreement when no lines matched
+  overallFieldAccuracy?: number;
+  lineItemPrecision?: number;
+  lineItemRecall?: number;
+  glAgreement?: number;
+  reconciliationPassRate?: number;
+}
+
+// Extracted line amounts must match the expected ones to the cent
+const AMOUNT_TOLERANCE = 0.01;
+// Word overlap needed to pair lines without a SKU; wording differs slightly between models
+const DESCRIPTION_MATCH_MIN = 0.5;
+
+const text = (value: unknown) => (value === undefined || value === null ? '' : String(value)).trim();
+const collapse = (value: unknown) => text(value).toLowerCase().replace(/\s+/g, ' ');
+const alphanumeric = (value: unknown) => text(value).toUpperCase().replace(/[^A-Z0-9]/g, '');
+const sameAmount = (a: unknown, b: unknown) => Math.abs(cleanNumber(a) - cleanNumber(b)) <= AMOUNT_TOLERANCE;
+
+// Dates printed in any format count when they name the same day
+const sameDate = (a: unknown, b: unknown) => {
+  const timeA = Date.parse(text(a));
+  const timeB = Date.parse(text(b));
+  return isNaN(timeA) || isNaN(timeB) ? collapse(a) === collapse(b) : new Date(timeA).toISOString().slice(0, 10) === new Date(timeB).toISOString().slice(0, 10);
+};
+
+const FIELD_COMPARATORS: Record<EvaluatedField, (expected: unknown, actual: unknown) => boolean> = {
+  vendorName: (a, b) => normalizeVendorName(text(a)) === normalizeVendorName(text(b)),
+  invoiceNumber: (a, b) => normalizeInvoiceNumber(text(a)) === normalizeInvoiceNumber(text(b)),
+  originalInvoiceNumber: (a, b) => normalizeInvoiceNumber(text(a)) === normalizeInvoiceNumber(text(b)),
+  invoiceDate: sameDate,
+  dueDate: sameDate,
+  purchaseOrderNumber: (a, b) => alphanumeric(a) === alphanumeric(b),
+  paymentTerms: (a, b) => collapse(a) === collapse(b),
+  vendorTaxId: (a, b) => alphanumeric(a) === alphanumeric(b),
+  currencySymbol: (a, b) => collapse(a) === collapse(b),
+  subtotal: sameAmount,
+  totalAmount: sameAmount
+};
+
+const words = (value: string) => new Set(collapse(value).split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+
+const descriptionSimilarity = (a: string, b: string): number => {
+  const wordsA = words(a);
+  const wordsB = words(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+  let shared = 0;
+  wordsA.forEach(word => { if (wordsB.has(word)) shared++; });
+  return (2 * shared) / (wordsA.size + wordsB.size);
+};
+
+// How well an extracted line stands in for an expected one: amounts must agree, then SKU or wording decides.
+const lineMatchScore = (expected: LineItem, actual: LineItem): number => {
+  if (!sameAmount(expected.totalAmount, actual.totalAmount)) return 0;
+  if (alphanumeric(expected.sku) && alphanumeric(expected.sku) === alphanumeric(actual.sku)) return 2;
+  const similarity = descriptionSimilarity(expected.description, actual.description);
+  return similarity >= DESCRIPTION_MATCH_MIN ? similarity : 0;
+};
+
+// Greedy one-to-one pairing, strongest matches first
+export const matchLineItems = (expected: LineItem[], actual: LineItem[]): [LineItem, LineItem][] => {
+  const candidates: { e: number, a: number, score: number }[] = [];
+  expected.forEach((line, e) => actual.forEach((other, a) => {
+    const score = lineMatchScore(line, other);
+    if (score > 0) candidates.push({ e, a, score });
+  }));
+  const usedExpected = new Set<number>();
+  const usedActual = new Set<number>();
+  const pairs: [LineItem, LineItem][] = [];
+  candidates.sort((x, y) => y.score - x.score).forEach(({ e, a }) => {
+    if (usedExpected.has(e) || usedActual.has(a)) return;
+    usedExpected.add(e);
+    usedActual.add(a);
+    pairs.push([expected[e], actual[a]]);
+  });
+  return pairs;
+};
+
+export const evaluateDocument = (name: string, expected: InvoiceData, actual: InvoiceData): DocumentEvaluation => {
+  const fields = EVALUATED_FIELDS
+    .filter(field => text(expected[field]))
+    .map(field => ({ field, expected: text(expected[field]), actual: text(actual[field]), correct: FIELD_COMPARATORS[field](expected[field], actual[field]) }));
+  const expectedLines = expected.lineItems || [];
+  const pairs = matchLineItems(expectedLines, actual.lineItems);
+  const glPairs = pairs.filter(([line]) => text(line.glCategory));
+  return {
+    name,
+    fields,
+    expectedLines: expectedLines.length,
+    extractedLines: actual.lineItems.length,
+    matchedLines: pairs.length,
+    glCompared: glPairs.length,
+    glAgreed: glPairs.filter(([line, other]) => collapse(line.glCategory) === collapse(other.glCategory)).length,
+    reconciled: reconcileTotals(actual).isBalanced
+  };
+};
+
+// A document the provider could not extract: nothing found, every expected value missed
+export const failedEvaluation = (name: string, expected: InvoiceData, error: string): DocumentEvaluation => ({
+  name,
+  fields: EVALUATED_FIELDS.filter(field => text(expected[field])).map(field => ({ field, expected: text(expected[field]), actual: '', correct: false })),
+  expectedLines: (expected.lineItems || []).length,
+  extractedLines: 0,
+  matchedLines: 0,
+  glCompared: (expected.lineItems || []).filter(line => text(line.glCategory)).length,
+  glAgreed: 0,
+  reconciled: false,
+  error
+});
+
+// Rates are 0..1; with nothing to measure there is no rate, rather than a perfect one
+const rate = (hits: number, total: number) => total === 0 ? undefined : hits / total;
+const sum = (results: DocumentEvaluation[], pick: (result: DocumentEvaluation) => number) => results.reduce((total, result) => total + pick(result), 0);
+
+export const summarizeEvaluation = (results: DocumentEvaluation[]): EvaluationSummary => {
+  const allFields = results.flatMap(result => result.fields);
+  const fieldAccuracy: Partial<Record<EvaluatedField, number>> = {};
+  EVALUATED_FIELDS.forEach(field => {
+    const scored = allFields.filter(f => f.field === field);
+    if (scored.length > 0) fieldAccuracy[field] = rate(scored.filter(f => f.correct).length, scored.length);
+  });
+  const matched = sum(results, r => r.matchedLines);
+  return {
+    documents: results.length,
+    failed: results.filter(r => r.error).length,
+    fieldAccuracy,
+    overallFieldAccuracy: rate(allFields.filter(f => f.correct).length, allFields.length),
+    lineItemPrecision: rate(matched, sum(results, r => r.extractedLines)),
+    lineItemRecall: rate(matched, sum(results, r => r.expectedLines)),
+    glAgreement: rate(sum(results, r => r.glAgreed), sum(results, r => r.glCompared)),
+    reconciliationPassRate: rate(results.filter(r => r.reconciled).length, results.length)
+  };
+};
@@ -0,0 +1,428 @@
+import { BatchAnalysisResult, ExtractionDocType, InvoiceData, LineItem, PromptDocType, PromptOverride, PromptTask, ProviderKind, ProviderSettings, RemittanceDetails, ShipmentDetails, TokenUsage } from "../types";
+import { isPdfFile, splitPdfIntoWindows, PdfPageWindow } from '../utils/pdfPages';
+import { assessExtractionQuality, cleanNumber } from './extractionQuality';
+import { batchAnalysisSchema, billOfLadingSchema, classificationSchema, invoiceSchema, packingSlipSchema, translationSchema } from './extractionSchemas';
+import { batchAnalysisValidator, ClassificationResponse, classificationResponseValidator, extractionResponseValidator, shippingResponseValidator, translationResponseValidator, validateResponse, ExtractionResponse, Validator } from './responseValidation';
+import { normalizeFieldRegions, normalizeRegion } from '../utils/regions';
+import { parsePartialJson } from '../utils/partialJson';
+import { createGeminiBackend } from './geminiService';
+import { createOpenAICompatibleBackend } from './openAICompatibleService';
+import { mockProvider } from './mockService';
+import { createRequestScheduler, RequestScheduler, SchedulerOptions } from './requestScheduler';
+import { addUsage } from '../utils/modelPricing';
+import { normalizeLineUnits } from '../utils/unitConversion';
+import { promptFingerprint, promptStamp, PromptTemplate, renderPrompt, resolvePrompt } from './promptRegistry';
+import { DOCUMENT_TYPE_LABELS, EXTRACTION_DOC_TYPES } from '../utils/documentTypes';
+import { applyCreditSign } from './creditNotes';
+
+// What the app needs from an extraction backend. Swap implementations per workspace.
+export interface ExtractionProvider {
+  id: ProviderKind;
+  model: string;
+  // onPartial receives provisional snapshots (isProvisional: true) while the response streams in
+  extractInvoiceData: (file: File, onPartial?: (partial: InvoiceData) => void, options?: ExtractionOptions) => Promise<InvoiceData>;
+  // onUsage receives the tokens the translation cost, for attributing them to the document
+  translateLineItems: (items: LineItem[], targetLanguage: string, onUsage?: (usage: TokenUsage[]) => void) => Promise<LineItem[]>;
+  analyzeBatch: (invoices: InvoiceData[]) => Promise<BatchAnalysisResult>;
+  scheduler: RequestScheduler; // Every model call goes through here
+  promptVersion: (options?: ExtractionOptions) => string; // Extraction prompts in use; part of the extraction cache key
+  subscribeUsage: (listener: UsageListener) => () => void; // Every call's tokens, for session totals
+}
+
+export interface ExtractionOptions {
+  docType?: ExtractionDocType; // Skips classification and extracts as this type
+  // Few-shot block of reviewer corrections for the vendor the classifier names, appended to the prompt.
+  // With docType set there is no classification, so no vendor and no hints.
+  vendorHints?: (vendorName: string) => string;
+  requestId?: string; // Caller's id for the scheduled calls, e.g. the queue item, to report its queue position
+}
+
+// task is 'classification', 'extraction', 'translation' or 'audit'
+export type UsageListener = (usage: TokenUsage, task: string) => void;
+
+// Token counts as reported by the vendor for one call
+export interface CallUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ModelRequest {
+  prompt: string;
+  file?: File;
+  schema?: object; // Gemini-dialect schema from extractionSchemas.ts
+  temperature?: number;
+  onPartialText?: (text: string) => void; // When set, backends stream and report the accumulated text
+  onUsage?: (usage: CallUsage) => void; // Called once per call when the vendor reports token counts
+}
+
+// Minimal transport a model vendor has to implement: one prompt (+ optional document) in, parsed JSON out.
+// Implementations throw quotaExceededError() (with the server's retry hint, if any) when rate limited.
+export interface ModelBackend {
+  id: ProviderKind;
+  model: string;
+  generateJson: (request: ModelRequest) => Promise<any>;
+}
+
+export const quotaExceededError = (retryAfterMs?: number): Error => {
+  const e: any = new Error('Quota Exceeded');
+  e.code = 'QUOTA_EXCEEDED';
+  e.retryAfterMs = retryAfterMs; // Server's retry hint, when it sent one
+  return e;
+};
+
+// The model kept returning data that does not fit the expected shape, even after being shown its mistakes.
+export const invalidResponseError = (task: string, validationErrors: string[]): Error => {
+  const e: any = new Error(`Invalid ${task} response: ${validationErrors.slice(0, 3).join('; ')}`);
+  e.code = 'INVALID_RESPONSE';
+  e.task = task;
+  e.validationErrors = validationErrors;
+  return e;
+};
+
+// Cap the error list echoed back to the model so a badly broken response does not blow up the prompt.
+const MAX_REPAIR_ERRORS = 20;
+
+const buildRepairPrompt = (prompt: string, errors: string[]) => `${prompt}
+
+    Your previous response did not match the required JSON structure:
+    ${errors.slice(0, MAX_REPAIR_ERRORS).map(err => `- ${err}`).join('\n    ')}
+    Return the complete corrected JSON. Use numbers (not strings) for numeric fields and include every required field.`;
+
+// Bump when the response schema changes, so cached results in the old shape are not reused.
+// Prompt wording is versioned per template in promptRegistry.ts.
+const EXTRACTION_SCHEMA_VERSION = '5';
+
+// Response schema and validator per document type
+const EXTRACTION_SCHEMAS: Record<ExtractionDocType, { schema: object, validator: Validator<ExtractionResponse> }> = {
+    invoice: { schema: invoiceSchema, validator: extractionResponseValidator },
+    creditNote: { schema: invoiceSchema, validator: extractionResponseValidator },
+    receipt: { schema: invoiceSchema, validator: extractionResponseValidator },
+    packingSlip: { schema: packingSlipSchema, validator: shippingResponseValidator },
+    billOfLading: { schema: billOfLadingSchema, validator: shippingResponseValidator }
+};
+
+interface PageExtraction {
+    window: PdfPageWindow;
+    rawData: ExtractionResponse;
+}
+
+const optionalNumber = (val: any): number | undefined => (val === undefined || val === null || val === '') ? undefined : cleanNumber(val);
+
+// Coerce the totals breakdown the model returned into clean numbers.
+const normalizeBreakdown = (raw: any) => ({
+    subtotal: optionalNumber(raw.subtotal),
+    amountDue: optionalNumber(raw.amountDue),
+    taxLines: (raw.taxLines || []).map((tax: any) => ({
+        jurisdiction: tax.jurisdiction || undefined,
+        rate: optionalNumber(tax.rate),
+        base: optionalNumber(tax.base),
+        amount: cleanNumber(tax.amount)
+    })),
+    discounts: (raw.discounts || []).map((d: any) => ({ description: d.description || '', amount: Math.abs(cleanNumber(d.amount)) })),
+    shippingCharges: (raw.shippingCharges || []).map((c: any) => ({ description: c.description || '', amount: cleanNumber(c.amount) }))
+});
+
+// Text header fields merged across page windows (first window that printed a value wins)
+const HEADER_TEXT_FIELDS = [
+    'documentType', 'vendorName', 'invoiceDate', 'invoiceNumber', 'originalInvoiceNumber', 'purchaseOrderNumber', 'paymentTerms', 'dueDate',
+    'vendorAddress', 'vendorTaxId', 'vendorTaxIdType', 'billToName', 'billToAddress', 'shipToAddress', 'language'
+];
+
+const hasText = (val: any): boolean => typeof val === 'string' && val.trim() !== '' && val.trim().toLowerCase() !== 'unknown';
+
+const SHIPMENT_FIELDS: (keyof ShipmentDetails)[] = [
+    'shipperName', 'shipperAddress', 'consigneeName', 'consigneeAddress', 'carrierName', 'proNumber', 'trackingNumber',
+    'palletCount', 'pieceCount', 'grossWeight', 'weightUnit', 'freightClass'
+];
+
+// Keep only printed consignment fields; no block at all on documents that print none.
+const normalizeShipment = (raw?: ShipmentDetails): ShipmentDetails | undefined => {
+    if (!raw) return undefined;
+    const details: Record<string, string | number> = {};
+    SHIPMENT_FIELDS.forEach(key => {
+        const value = raw[key];
+        if (typeof value === 'number' ? value > 0 : hasText(value)) details[key] = typeof value === 'string' ? value.trim() : value!;
+    });
+    return Object.keys(details).length > 0 ? details as ShipmentDetails : undefined;
+};
+
+// Keep only printed bank fields; drop the block entirely when no account was found.
+const normalizeRemittance = (raw: any): RemittanceDetails | undefined => {
+    if (!raw) return undefined;
+    const details: RemittanceDetails = {};
+    (['bankName', 'accountHolder', 'iban', 'swiftBic', 'accountNumber', 'routingNumber'] as const).forEach(key => {
+        if (hasText(raw[key])) details[key] = String(raw[key]).trim();
+    });
+    return details.iban || details.accountNumber ? details : undefined;
+};
+
+// Combine per-window extractions into one document.
+// Line items are concatenated in page order; header fields come from the first window that has them,
+// totals from the window the model marked as holding the grand total (falling back to the last non-zero total).
+const mergePageExtractions = (pages: PageExtraction[]): ExtractionResponse => {
+    const lineItems: LineItem[] = pages.flatMap(({ window, rawData }) =>
+        (rawData.lineItems || []).map((item: any) => {
+            const page = Math.round(cleanNumber(item.sourcePage));
+            const sourcePage = page >= window.startPage && page <= window.endPage ? page : window.startPage;
+            return { ...item, sourcePage, sourceRegion: normalizeRegion({ ...item.sourceRegion, page: sourcePage }, sourcePage) };
+        })
+    );
+
+    const pageWith = (field: string) => pages.find(p => hasText(p.rawData[field]));
+    const totalsPage = [...pages].reverse().find(p => p.rawData.containsGrandTotal && cleanNumber(p.rawData.totalAmount) !== 0)
+        || [...pages].reverse().find(p => cleanNumber(p.rawData.totalAmount) !== 0);
+    const itemsTotal = lineItems.reduce((sum, item) => sum + cleanNumber(item.totalAmount), 0);
+    const currencyPage = totalsPage && hasText(totalsPage.rawData.currencySymbol) ? totalsPage : pageWith('currencySymbol');
+    // Bank details are one block; take it whole from the first window that printed an account
+    const remittancePage = pages.find(p => hasText(p.rawData.remittance?.iban) || hasText(p.rawData.remittance?.accountNumber));
+    // Consignment fields are printed in different blocks, so each one comes from the first window that has it
+    const shipment = normalizeShipment(Object.assign({}, ...[...pages].reverse().map(p => normalizeShipment(p.rawData.shipment) || {})));
+
+    // Each header value (and its region) comes from the first window that printed it.
+    const regionFrom = (source: PageExtraction | undefined, field: string) => source
+        ? normalizeRegion(source.rawData.fieldRegions?.[field], source.window.startPage, [source.window.startPage, source.window.endPage])
+        : undefined;
+    const sources: [string, PageExtraction | undefined][] = [
+        ...HEADER_TEXT_FIELDS.map(field => [field, pageWith(field)] as [string, PageExtraction | undefined]),
+        ['totalAmount', totalsPage],
+        ['currencySymbol', currencyPage],
+        ['iban', remittancePage],
+        ['accountNumber', remittancePage]
+    ];
+    const headerFields = Object.fromEntries(HEADER_TEXT_FIELDS.map(field => [field, pageWith(field)?.rawData[field]]));
+    const fieldRegions = Object.fromEntries(sources
+        .map(([field, source]) => [field, regionFrom(source, field)])
+        .filter(([, region]) => region));
+
+    return {
+        ...headerFields,
+        vendorName: headerFields.vendorName || '',
+        totalAmount: totalsPage ? cleanNumber(totalsPage.rawData.totalAmount) : parseFloat(itemsTotal.toFixed(2)),
+        currencySymbol: currencyPage?.rawData.currencySymbol,
+        languageConfidence: pages[0]?.rawData.languageConfidence,
+        remittance: remittancePage?.rawData.remittance,
+        shipment,
+        // The totals block is printed once, next to the grand total
+        ...(totalsPage ? normalizeBreakdown(totalsPage.rawData) : {}),
+        fieldRegions,
+        lineItems
+    };
+};
+
+const auditDataset = (invoices: InvoiceData[]): string => {
+    // Minify data to save tokens (the model doesn't need UI flags to find fraud)
+    const cleanData = invoices.map(inv => ({
+        vendor: inv.vendorName,
+        date: inv.invoiceDate,
+        total: inv.totalAmount,
+        currency: inv.currencySymbol,
+        items: inv.lineItems.map(item => ({
+            desc: item.description,
+            qty: item.quantity,
+            price: item.unitPrice,
+            unit: item.unitOfMeasure,
+            basePrice: item.baseUnitPrice,
+            baseUnit: item.baseUnit,
+            total: item.totalAmount,
+            category: item.glCategory
+        }))
+    }));
+    return JSON.stringify(cleanData);
+};
+
+// Marks a result's promptVersion with the vendor hints it was extracted with
+export const vendorHintsStamp = (vendorHints?: string) => vendorHints ? `+hints@${promptFingerprint(vendorHints)}` : '';
+
+// Hints depend on the vendor, which is only known mid-extraction, so they are not part of the cache key.
+// A cached result stays usable while its vendor's hints are still the ones it was extracted with.
+export const hintsStillCurrent = (invoice: InvoiceData, vendorHints?: (vendorName: string) => string): boolean =>
+  (/\+hints@[^+]+/.exec(invoice.promptVersion || '')?.[0] || '') === vendorHintsStamp(vendorHints?.(invoice.vendorName));
+
+// Provider-independent extraction pipeline on top of a raw model backend.
+export const createExtractionProvider = (backend: ModelBackend, schedulerOptions: Partial<SchedulerOptions> = {}, promptOverrides: PromptOverride[] = []): ExtractionProvider => {
+    const scheduler = createRequestScheduler(schedulerOptions);
+    const templateFor = (task: PromptTask, docType: PromptDocType = 'any') => resolvePrompt(task, docType, promptOverrides);
+
+    // Single-part documents only use the extraction template; split PDFs add the page-window one.
+    // Without a fixed document type the classifier may pick any type's templates, so all of them count.
+    const extractionStamps = (docType: ExtractionDocType) => [promptStamp(templateFor('extraction', docType)), promptStamp(templateFor('pageWindow', docType))];
+    const promptVersion = ({ docType }: ExtractionOptions = {}) => {
+        const stamps = docType ? extractionStamps(docType) : [promptStamp(templateFor('classification')), ...EXTRACTION_DOC_TYPES.flatMap(extractionStamps)];
+        return `${Array.from(new Set(stamps)).join('+')}+schema@${EXTRACTION_SCHEMA_VERSION}`;
+    };
+    const usageListeners = new Set<UsageListener>();
+
+    const subscribeUsage = (listener: UsageListener) => {
+        usageListeners.add(listener);
+        return () => { usageListeners.delete(listener); };
+    };
+
+    // Ask, validate, and re-prompt once with the validation errors before giving up.
+    // Every attempt's tokens go to the session listeners and, through onUsage, to the caller.
+    const generateValidated = async <T>(task: string, request: ModelRequest, validator: Validator<T>, onUsage?: (usage: TokenUsage) => void, requestId?: string): Promise<T> => {
+        const reportUsage = (call: CallUsage) => {
+            const usage: TokenUsage = { model: backend.model, ...call, calls: 1 };
+            usageListeners.forEach(listener => listener(usage, task));
+            onUsage?.(usage);
+        };
+        const attempt = async (prompt: string) => {
+            try {
+                return validateResponse(validator, await scheduler.schedule(() => backend.generateJson({ ...request, prompt, onUsage: reportUsage }), task, requestId));
+            } catch (error) {
+                if (error instanceof SyntaxError) return { value: null as T, errors: [`Response was not valid JSON: ${error.message}`] };
+                throw error;
+            }
+        };
+
+        const first = await attempt(request.prompt);
+        if (first.errors.length === 0) return first.value;
+        console.warn(`Invalid ${task} response, re-prompting:`, first.errors);
+
+        const repaired = await attempt(buildRepairPrompt(request.prompt, first.errors));
+        if (repaired.errors.length === 0) return repaired.value;
+        throw invalidResponseError(task, repaired.errors);
+    };
+
+    // Partial responses are validated leniently: missing fields are expected mid-stream.
+    const requestExtraction = (file: File, prompt: string, docType: ExtractionDocType, onUsage: (usage: TokenUsage) => void, onPartial?: (partial: ExtractionResponse) => void, requestId?: string) => {
+        const { schema, validator } = EXTRACTION_SCHEMAS[docType];
+        const onPartialText = onPartial && ((text: string) => {
+            const parsed = parsePartialJson(text);
+            if (!parsed) return;
+            const partial = validateResponse(validator, parsed).value;
+            // A line that has just opened has no description yet; wait for it rather than flash an empty row
+            onPartial({ ...partial, lineItems: partial.lineItems.filter(item => item.description) });
+        });
+        return generateValidated('extraction', { file, prompt, schema, temperature: 0.1, onPartialText }, validator, onUsage, requestId);
+    };
+
+    // The first page window is enough to tell the document type, and much cheaper than a long PDF.
+    const classifyDocument = (file: File, onUsage: (usage: TokenUsage) => void, requestId?: string): Promise<ClassificationResponse> =>
+        generateValidated('classification', { file, prompt: renderPrompt(templateFor('classification')), schema: classificationSchema, temperature: 0 }, classificationResponseValidator, onUsage, requestId);
+
+    const splitPdf = async (file: File): Promise<PdfPageWindow[] | null> => {
+        if (!isPdfFile(file)) return null;
+        try {
+            return await splitPdfIntoWindows(file);
+        } catch (error) {
+            // Unreadable/corrupt structure: let the model try the original file as a whole.
+            console.warn("PDF split failed, sending document as a single part:", error);
+            return null;
+        }
+    };
+
+    const extractPdfPages = async (windows: PdfPageWindow[], basePrompt: string, docType: ExtractionDocType, windowTemplate: PromptTemplate, onUsage: (usage: TokenUsage) => void, onPartial?: (partial: ExtractionResponse, pageCount: number) => void, requestId?: string): Promise<{ rawData: ExtractionResponse, pageCount: number }> => {
+        // Sequential on purpose: parallel windows of one document burn through the per-minute quota.
+        const pages: PageExtraction[] = [];
+        for (const window of windows) {
+            // Earlier windows are final; show them merged with whatever the current one has produced so far.
+            const windowPrompt = `${basePrompt}
+    ${renderPrompt(windowTemplate, { startPage: window.startPage, endPage: window.endPage, pageCount: window.pageCount })}`;
+            const rawData = await requestExtraction(window.file, windowPrompt, docType, onUsage,
+                onPartial && (partial => onPartial(mergePageExtractions([...pages, { window, rawData: partial }]), window.pageCount)), requestId);
+            pages.push({ window, rawData });
+        }
+        return { rawData: mergePageExtractions(pages), pageCount: windows[0].pageCount };
+    };
+
+    const buildInvoice = (rawData: ExtractionResponse, id: string, pageCount: number, docType: ExtractionDocType): InvoiceData => {
+        const { containsGrandTotal, ...fields } = rawData;
+
+        // Single-part extractions are one logical page unless the model says otherwise.
+        const lineItems: LineItem[] = fields.lineItems.map(item => {
+            const sourcePage = item.sourcePage ? Math.round(item.sourcePage) || 1 : 1;
+            return normalizeLineUnits({ ...item, sourcePage, sourceRegion: normalizeRegion(item.sourceRegion, sourcePage) });
+        });
+
+        // Credit notes get signed amounts; a classified credit note stays one even if the model wrote 'INVOICE'
+        return applyCreditSign({
+            ...fields,
+            id,
+            documentType: docType === 'creditNote' || !fields.documentType ? DOCUMENT_TYPE_LABELS[docType] : fields.documentType,
+            vendorName: fields.vendorName || '',
+            totalAmount: fields.totalAmount ?? 0,
+            lineItems,
+            invoiceDate: fields.invoiceDate || new Date().toISOString().split('T')[0],
+            currencySymbol: fields.currencySymbol || '$',
+            language: fields.language || 'Original',
+            originalLineItems: lineItems,
+            ...normalizeBreakdown(fields),
+            pageCount,
+            remittance: normalizeRemittance(fields.remittance),
+            shipment: normalizeShipment(fields.shipment),
+            fieldRegions: normalizeFieldRegions(fields.fieldRegions)
+        });
+    };
+
+    const extractInvoiceData = async (file: File, onPartial?: (partial: InvoiceData) => void, options: ExtractionOptions = {}): Promise<InvoiceData> => {
+        const id = crypto.randomUUID();
+        let usage: TokenUsage[] = [];
+        const tally = (call: TokenUsage) => { usage = addUsage(usage, call); };
+        const windows = await splitPdf(file);
+        const multiPart = windows && windows.length > 1 ? windows : null;
+        const classification = options.docType ? null : await classifyDocument(multiPart ? multiPart[0].file : file, tally, options.requestId);
+        const docType = options.docType || classification!.documentType;
+        const vendorHints = classification?.vendorName ? options.vendorHints?.(classification.vendorName) : undefined;
+        const template = templateFor('extraction', docType);
+        const windowTemplate = templateFor('pageWindow', docType);
+        const basePrompt = vendorHints ? `${renderPrompt(template)}
+    ${vendorHints}` : renderPrompt(template);
+        // Quality checks only run on the final result, so snapshots stay marked provisional.
+        const emit = onPartial && ((partial: ExtractionResponse, pageCount: number) => onPartial({ ...buildInvoice(partial, id, pageCount, docType), isProvisional: true }));
+        const multiPage = multiPart ? await extractPdfPages(multiPart, basePrompt, docType, windowTemplate, tally, emit, options.requestId) : null;
+        const rawData = multiPage ? multiPage.rawData : await requestExtraction(file, basePrompt, docType, tally, emit && (partial => emit(partial, 1)), options.requestId);
+        const classified = options.docType ? '' : `${promptStamp(templateFor('classification'))}+`;
+        const stamp = `${classified}${promptStamp(template)}${multiPage ? `+${promptStamp(windowTemplate)}` : ''}${vendorHintsStamp(vendorHints)}`;
+        return { ...assessExtractionQuality(buildInvoice(rawData, id, multiPage?.pageCount || 1, docType)), promptVersion: stamp, ...(usage.length > 0 ? { usage } : {}) };
+    };
+
+    const translateLineItems = async (items: LineItem[], targetLanguage: string, onUsage?: (usage: TokenUsage[]) => void): Promise<LineItem[]> => {
+        const translationPrompt = renderPrompt(templateFor('translation'), {
+            targetLanguage,
+            items: items.map((item, i) => `${i}: ${item.description}`).join('\n')
+        });
+
+        let usage: TokenUsage[] = [];
+        const translations = await generateValidated('translation', { prompt: translationPrompt, schema: translationSchema }, translationResponseValidator, call => { usage = addUsage(usage, call); });
+        if (usage.length > 0) onUsage?.(usage);
+        const translationMap: Record<number, string> = {};
+        translations.forEach(t => {
+            translationMap[t.index] = t.translatedDescription;
+        });
+
+        return items.map((item, i) => ({
+            ...item,
+            description: translationMap[i] || item.description
+        }));
+    };
+
+    const analyzeBatch = (invoices: InvoiceData[]): Promise<BatchAnalysisResult> =>
+        generateValidated('audit', { prompt: renderPrompt(templateFor('audit'), { count: invoices.length, dataset: auditDataset(invoices) }), schema: batchAnalysisSchema }, batchAnalysisValidator);
+
+    return { id: backend.id, model: backend.model, extractInvoiceData, translateLineItems, analyzeBatch, scheduler, promptVersion, subscribeUsage };
+};
+
+export const PROVIDER_LABELS: Record<ProviderKind, string> = {
+    'gemini': 'Google Gemini',
+    'openai-compatible': 'OpenAI-Compatible Endpoint',
+    'mock': 'Mock Generator'
+};
+
+// Conservative defaults: Gemini's free tier allows ~10 RPM; self-hosted endpoints are usually only bound by the GPU.
+export const DEFAULT_REQUESTS_PER_MINUTE: Record<ProviderKind, number> = {
+    'gemini': 10,
+    'openai-compatible': 60,
+    'mock': 600
+};
+
+const schedulerOptionsFor = (settings: ProviderSettings): Partial<SchedulerOptions> => ({
+    requestsPerMinute: settings.requestsPerMinute || DEFAULT_REQUESTS_PER_MINUTE[settings.kind],
+    ...(settings.maxConcurrent ? { maxConcurrent: settings.maxConcurrent } : {})
+});
+
+// Demo mode always wins so the toggle never sends a document anywhere.
+export const resolveExtractionProvider = (settings: ProviderSettings, isDemoMode: boolean, promptOverrides: PromptOverride[] = []): ExtractionProvider => {
+    if (isDemoMode || settings.kind === 'mock') return mockProvider;
+    if (settings.kind === 'openai-compatible') return createExtractionProvider(createOpenAICompatibleBackend(settings), schedulerOptionsFor(settings), promptOverrides);
+    return createExtractionProvider(createGeminiBackend(settings), schedulerOptionsFor(settings), promptOverrides);
+};
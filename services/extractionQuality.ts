@@ -0,0 +1,162 @@
+import { InvoiceData } from "../types";
+import { CURRENCY_RATES, getCurrencyCode } from '../utils/currency';
+import { translations } from '../utils/translations';
+import { validateTaxId } from '../utils/taxIdValidation';
+import { validateIban } from '../utils/bankDetails';
+import { isCreditNote, isShippingDocument } from '../utils/documentTypes';
+
+// Helper to clean garbage from numbers
+export const cleanNumber = (val: any): number => {
+  if (typeof val === 'number') return val;
+  if (!val) return 0;
+  const cleaned = String(val).replace(/[^0-9.-]/g, '');
+  return parseFloat(cleaned) || 0;
+};
+
+const detectSensitiveData = (text: string, types: string[]): boolean => {
+    if (!text) return false;
+    // Basic regex patterns for sensitive data
+    const patterns = [
+        /\b\d{3}-\d{2}-\d{4}\b/, // SSN-like
+        /\b(?:\d[ -]*?){13,16}\b/, // Credit card-like
+        /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/ // Email
+    ];
+    return patterns.some(p => p.test(text));
+};
+
+const sumAmounts = (lines?: { amount: number }[]) => (lines || []).reduce((sum, l) => sum + cleanNumber(l.amount), 0);
+
+export interface TotalsReconciliation {
+  subtotal: number; // Stated subtotal, or the sum of line items when none was printed
+  taxTotal: number;
+  shippingTotal: number;
+  discountTotal: number;
+  expectedTotal: number;
+  difference: number; // stated total - expected total
+  isBalanced: boolean;
+}
+
+// subtotal + tax + shipping - discounts should equal the stated total (within rounding).
+// Credit notes carry a negative subtotal and tax but positive charge lines, so refunded shipping
+// makes the total more negative and a discount on the credit less so.
+export const reconcileTotals = (data: InvoiceData): TotalsReconciliation => {
+  const itemsTotal = data.lineItems.reduce((sum, i) => sum + cleanNumber(i.totalAmount), 0);
+  const subtotal = data.subtotal !== undefined && data.subtotal !== null ? cleanNumber(data.subtotal) : itemsTotal;
+  const taxTotal = sumAmounts(data.taxLines);
+  const shippingTotal = sumAmounts(data.shippingCharges);
+  const discountTotal = Math.abs(sumAmounts(data.discounts));
+  const chargeSign = isCreditNote(data) ? -1 : 1;
+  const expectedTotal = parseFloat((subtotal + taxTotal + chargeSign * (shippingTotal - discountTotal)).toFixed(2));
+  const difference = parseFloat((cleanNumber(data.totalAmount) - expectedTotal).toFixed(2));
+  // Allow per-line rounding: one cent per tax line, or 0.1% of the total, whichever is larger
+  const tolerance = Math.max(0.01 * ((data.taxLines || []).length + 1), Math.abs(expectedTotal) * 0.001);
+  return { subtotal, taxTotal, shippingTotal, discountTotal, expectedTotal, difference, isBalanced: Math.abs(difference) <= tolerance };
+};
+
+// Assess extraction quality and assign confidence score/flags
+export const assessExtractionQuality = (data: InvoiceData): InvoiceData => {
+  const flags = {
+    hasZeroPrices: false,
+    lowItemCount: false,
+    missingMetadata: false,
+    unsupportedCurrency: false,
+    unsupportedLanguage: false,
+    totalMismatch: false,
+    invalidTaxId: false,
+    invalidIban: false,
+    bankDetailsChanged: data.validationFlags?.bankDetailsChanged || false,
+    missingCreditReference: false,
+    negativeInvoiceTotal: false
+  };
+  // Packing slips and bills of lading carry no prices, so price and total checks do not apply
+  const shipping = isShippingDocument(data);
+
+  // Check 1: Zero Prices
+  const zeroPriceItems = data.lineItems.filter(i => i.unitPrice === 0 && i.totalAmount === 0);
+  if (!shipping && zeroPriceItems.length > 0 && data.lineItems.length > 0) {
+    flags.hasZeroPrices = true;
+  }
+
+  // Check 2: Low Item Count (Heuristic for complex docs)
+  if (data.lineItems.length < 2) {
+    flags.lowItemCount = true;
+  }
+
+  // Check 3: Metadata Health
+  if (!data.vendorName || data.vendorName.toLowerCase() === 'unknown' || (!shipping && data.totalAmount === 0)) {
+    flags.missingMetadata = true;
+  }
+
+  // Check 4: Unsupported Currency
+  const code = getCurrencyCode(data.currencySymbol);
+  if (!CURRENCY_RATES[code]) {
+      console.warn(`Unsupported Currency Detected: ${data.currencySymbol} (${code})`);
+      flags.unsupportedCurrency = true;
+  }
+
+  // Check 5: Unsupported Language
+  if (data.language && data.language !== 'Original') {
+      const supportedLangs = Object.keys(translations);
+      const extendedWhitelist = [...supportedLangs, 'Italian', 'French', 'Dutch', 'Portuguese', 'Swedish', 'Danish'];
+      const isSupported = extendedWhitelist.some(lang => lang.toLowerCase() === data.language?.toLowerCase());
+      const confidence = data.languageConfidence || 0;
+      
+      if (!isSupported && confidence < 90) {
+           flags.unsupportedLanguage = true;
+      }
+  }
+
+  // Check 6: Totals Reconciliation
+  if (!shipping && data.lineItems.length > 0 && data.totalAmount !== 0 && !reconcileTotals(data).isBalanced) {
+      flags.totalMismatch = true;
+  }
+
+  // Check 7: Vendor Tax ID format/checksum (misread digits are common on scans)
+  const taxId = validateTaxId(data.vendorTaxId, data.vendorTaxIdType);
+  if (taxId && !taxId.isValid) {
+      flags.invalidTaxId = true;
+  }
+
+  // Check 8: IBAN checksum
+  const iban = validateIban(data.remittance?.iban);
+  if (iban && !iban.isValid) {
+      flags.invalidIban = true;
+  }
+
+  // Check 9: Credit note sign and reference. Credit notes are signed negative at extraction, so a negative
+  // invoice is most likely a credit memo the classifier missed.
+  if (isCreditNote(data)) {
+      flags.missingCreditReference = !data.originalInvoiceNumber?.trim();
+  } else if (!shipping && data.totalAmount < 0) {
+      flags.negativeInvoiceTotal = true;
+  }
+
+  // Determine Confidence Score
+  let score: 'High' | 'Medium' | 'Low' = 'High';
+  
+  if (flags.missingMetadata || flags.unsupportedCurrency) {
+    score = 'Low';
+  } else if (flags.hasZeroPrices || flags.lowItemCount || flags.totalMismatch || flags.invalidTaxId || flags.invalidIban || flags.missingCreditReference || flags.negativeInvoiceTotal) {
+    score = 'Medium';
+  }
+
+  // Check 10: PII / Sensitive Data Detection
+  const sensitiveTypes: string[] = [];
+  
+  if (detectSensitiveData(data.vendorName || '', [])) sensitiveTypes.push('Vendor PII');
+  data.lineItems.forEach(item => {
+      if (detectSensitiveData(item.description, [])) {
+          if (!sensitiveTypes.includes('Description PII')) sensitiveTypes.push('Description PII');
+      }
+  });
+
+  if (sensitiveTypes.length > 0) {
+      data.hasSensitiveData = true;
+      data.sensitiveDataTypes = sensitiveTypes;
+  }
+
+  data.confidenceScore = score;
+  data.validationFlags = flags;
+
+  return data;
+};
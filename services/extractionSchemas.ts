@@ -0,0 +1,238 @@
+import { Type } from "@google/genai";
+
+// Response schemas are written in the Gemini dialect (Type.*); other backends convert them.
+
+// Gemini's native box format: [ymin, xmin, ymax, xmax] scaled to 0-1000.
+const regionSchema = {
+  type: Type.OBJECT,
+  description: "Where on the document the value is printed.",
+  properties: {
+    page: { type: Type.NUMBER, description: "Page number on which the value appears." },
+    box_2d: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: "Bounding box as [ymin, xmin, ymax, xmax] normalized to 0-1000." }
+  },
+  required: ["page", "box_2d"]
+};
+
+const chargeSchema = {
+  type: Type.OBJECT,
+  properties: {
+    description: { type: Type.STRING, description: "Label as printed, e.g. 'Freight', 'Early payment discount'." },
+    amount: { type: Type.NUMBER, description: "Positive amount of the charge or discount." }
+  },
+  required: ["description", "amount"]
+};
+
+export const invoiceSchema = {
+  type: Type.OBJECT,
+  properties: {
+    documentType: { 
+      type: Type.STRING, 
+      description: "The type of document. Classify strictly as 'INVOICE', 'CREDIT NOTE', 'PACKING SLIP', 'BOL' or 'PURCHASE ORDER'. Credit memos and return credits are 'CREDIT NOTE'. Default to 'INVOICE'. For a purchase order, the vendor is the supplier it is addressed to and the invoice number is the PO number." 
+    },
+    vendorName: { type: Type.STRING, description: "The name of the vendor or supplier issuing the invoice." },
+    vendorAddress: { type: Type.STRING, description: "The vendor's full postal address, single line, comma separated." },
+    vendorTaxId: { type: Type.STRING, description: "The vendor's tax registration number exactly as printed, including any country prefix (e.g. DE123456789, 27AAPFU0939F1ZV, GODE561231GR8, 12-3456789)." },
+    vendorTaxIdType: { type: Type.STRING, description: "The scheme of vendorTaxId: 'VAT', 'GST', 'EIN', 'RFC' or 'OTHER'." },
+    billToName: { type: Type.STRING, description: "The legal name of the buyer / bill-to entity." },
+    billToAddress: { type: Type.STRING, description: "The bill-to postal address, single line, comma separated." },
+    shipToAddress: { type: Type.STRING, description: "The ship-to / delivery address, single line, comma separated. Empty if not printed." },
+    invoiceDate: { type: Type.STRING, description: "The date of the invoice in YYYY-MM-DD format." },
+    invoiceNumber: { type: Type.STRING, description: "The invoice number / document number assigned by the vendor, exactly as printed." },
+    originalInvoiceNumber: { type: Type.STRING, description: "Credit notes only: the number of the invoice being credited, exactly as printed." },
+    purchaseOrderNumber: { type: Type.STRING, description: "The buyer's purchase order (PO) reference, if printed." },
+    paymentTerms: { type: Type.STRING, description: "Payment terms as printed, e.g. 'Net 30', 'Due on receipt', '2/10 Net 30'." },
+    dueDate: { type: Type.STRING, description: "The payment due date in YYYY-MM-DD format. Derive it from the invoice date and terms only if no due date is printed." },
+    totalAmount: { type: Type.NUMBER, description: "The grand total of the invoice including tax, shipping and discounts." },
+    subtotal: { type: Type.NUMBER, description: "The subtotal of goods and services before tax, shipping and discounts." },
+    taxLines: {
+      type: Type.ARRAY,
+      description: "Each tax charged (VAT, GST, sales tax...). Never list taxes as line items.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          jurisdiction: { type: Type.STRING, description: "Tax name and jurisdiction, e.g. 'DE VAT', 'CA Sales Tax'." },
+          rate: { type: Type.NUMBER, description: "Tax rate in percent (19 for 19%)." },
+          base: { type: Type.NUMBER, description: "Taxable base amount the rate applies to." },
+          amount: { type: Type.NUMBER, description: "Tax amount." }
+        },
+        required: ["amount"]
+      }
+    },
+    discounts: { type: Type.ARRAY, description: "Document-level discounts and rebates. Never list these as line items.", items: chargeSchema },
+    shippingCharges: { type: Type.ARRAY, description: "Freight, shipping, handling and fuel surcharges. Never list these as line items.", items: chargeSchema },
+    amountDue: { type: Type.NUMBER, description: "Balance due after deposits or prepayments. Same as totalAmount if nothing was prepaid." },
+    remittance: {
+      type: Type.OBJECT,
+      description: "The vendor's bank details for payment (remittance / 'please pay to' block). Leave empty if not printed.",
+      properties: {
+        bankName: { type: Type.STRING, description: "Name of the bank." },
+        accountHolder: { type: Type.STRING, description: "Account holder / beneficiary name." },
+        iban: { type: Type.STRING, description: "IBAN exactly as printed." },
+        swiftBic: { type: Type.STRING, description: "SWIFT / BIC code." },
+        accountNumber: { type: Type.STRING, description: "Domestic bank account number, if no IBAN is printed." },
+        routingNumber: { type: Type.STRING, description: "ABA routing number, sort code or BSB that goes with accountNumber." }
+      }
+    },
+    currencySymbol: { type: Type.STRING, description: "The currency symbol used in the invoice (e.g., $, €, £, ¥). Default to $ if unsure." },
+    language: { type: Type.STRING, description: "The primary language of the document (e.g., English, Spanish, Thai, Vietnamese)." },
+    languageConfidence: { type: Type.NUMBER, description: "Confidence score (0-100) for the detected language." },
+    fieldRegions: {
+      type: Type.OBJECT,
+      description: "Bounding boxes of the header values on the document.",
+      properties: {
+        vendorName: regionSchema,
+        vendorTaxId: regionSchema,
+        vendorAddress: regionSchema,
+        billToName: regionSchema,
+        shipToAddress: regionSchema,
+        invoiceDate: regionSchema,
+        invoiceNumber: regionSchema,
+        originalInvoiceNumber: regionSchema,
+        purchaseOrderNumber: regionSchema,
+        dueDate: regionSchema,
+        totalAmount: regionSchema,
+        currencySymbol: regionSchema,
+        iban: regionSchema,
+        accountNumber: regionSchema
+      }
+    },
+    containsGrandTotal: { type: Type.BOOLEAN, description: "True only if the final invoice total (amount due for the whole document) is printed on the supplied pages." },
+    lineItems: {
+      type: Type.ARRAY,
+      description: "List of items purchased.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          sku: { type: Type.STRING, description: "Stock Keeping Unit or Product Code." },
+          description: { type: Type.STRING, description: "Description of the item." },
+          glCategory: { type: Type.STRING, description: "Inferred General Ledger category based on item description." },
+          quantity: { type: Type.NUMBER, description: "Quantity purchased." },
+          unitPrice: { type: Type.NUMBER, description: "Price per unit of measure, as printed." },
+          unitOfMeasure: { type: Type.STRING, description: "Unit the quantity is counted in, as printed (e.g. 'each', 'CS', 'dozen', 'kg', 'lb', 'L', 'gal'). Use 'each' for plain piece counts." },
+          packSize: { type: Type.NUMBER, description: "Number of pieces in one unit of measure when printed, e.g. 24 for 'case of 24' or '24/cs'." },
+          totalAmount: { type: Type.NUMBER, description: "The total cost for this line item (usually quantity * unit price)." },
+          glConfidence: { type: Type.NUMBER, description: "Confidence score (0-100) for the inferred GL category." },
+          glReasoning: { type: Type.STRING, description: "Short explanation for why this GL category was chosen." },
+          sourcePage: { type: Type.NUMBER, description: "The page number of the document on which this line item appears." },
+          sourceRegion: { ...regionSchema, description: "Bounding box of the entire line item row." }
+        },
+        required: ["description", "quantity", "unitPrice", "totalAmount", "glCategory"]
+      }
+    }
+  },
+  required: ["documentType", "vendorName", "totalAmount", "lineItems", "currencySymbol", "language"]
+};
+
+// Asked before extraction so each document is read with the schema made for it.
+export const classificationSchema = {
+  type: Type.OBJECT,
+  properties: {
+    documentType: { type: Type.STRING, enum: ['invoice', 'creditNote', 'receipt', 'packingSlip', 'billOfLading'], description: "The kind of document. Purchase orders and pro-forma invoices count as 'invoice'; credit memos as 'creditNote'." },
+    vendorName: { type: Type.STRING, description: "The vendor or supplier that issued the document (the shipper on shipping documents), as printed." }
+  },
+  required: ["documentType"]
+};
+
+const shipmentSchema = {
+  type: Type.OBJECT,
+  description: "Consignment details as printed. Leave a field empty when it is not printed.",
+  properties: {
+    shipperName: { type: Type.STRING, description: "The party the goods are shipped from." },
+    shipperAddress: { type: Type.STRING, description: "The ship-from address, single line, comma separated." },
+    consigneeName: { type: Type.STRING, description: "The party the goods are shipped to." },
+    consigneeAddress: { type: Type.STRING, description: "The consignee / delivery address, single line, comma separated." },
+    carrierName: { type: Type.STRING, description: "The carrier or freight forwarder moving the goods." },
+    proNumber: { type: Type.STRING, description: "The carrier's PRO (progressive) number, exactly as printed." },
+    trackingNumber: { type: Type.STRING, description: "Parcel tracking or waybill number, exactly as printed." },
+    palletCount: { type: Type.NUMBER, description: "Number of pallets or skids." },
+    pieceCount: { type: Type.NUMBER, description: "Total number of packages, cartons or handling units." },
+    grossWeight: { type: Type.NUMBER, description: "Total gross weight of the shipment." },
+    weightUnit: { type: Type.STRING, description: "Unit of every weight on the document, 'lb' or 'kg'." },
+    freightClass: { type: Type.STRING, description: "NMFC freight class of the shipment as printed, e.g. '70' or '92.5'. Empty if lines have different classes." }
+  }
+};
+
+// Packing slips and bills of lading share one shape: header, consignment details and priceless lines.
+const shippingSchema = (documentType: string, numberDescription: string, linesDescription: string) => ({
+  type: Type.OBJECT,
+  properties: {
+    documentType: { type: Type.STRING, description: `The type of document. Use '${documentType}'.` },
+    vendorName: { type: Type.STRING, description: "The supplier the goods come from (the shipper), not the carrier." },
+    vendorAddress: invoiceSchema.properties.vendorAddress,
+    billToName: invoiceSchema.properties.billToName,
+    billToAddress: invoiceSchema.properties.billToAddress,
+    shipToAddress: invoiceSchema.properties.shipToAddress,
+    invoiceDate: { type: Type.STRING, description: "The ship date in YYYY-MM-DD format." },
+    invoiceNumber: { type: Type.STRING, description: `${numberDescription}, exactly as printed.` },
+    purchaseOrderNumber: invoiceSchema.properties.purchaseOrderNumber,
+    shipment: shipmentSchema,
+    language: invoiceSchema.properties.language,
+    languageConfidence: invoiceSchema.properties.languageConfidence,
+    fieldRegions: {
+      type: Type.OBJECT,
+      description: "Bounding boxes of the header values on the document.",
+      properties: {
+        vendorName: regionSchema,
+        shipToAddress: regionSchema,
+        invoiceDate: regionSchema,
+        invoiceNumber: regionSchema,
+        purchaseOrderNumber: regionSchema
+      }
+    },
+    lineItems: {
+      type: Type.ARRAY,
+      description: linesDescription,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          sku: { type: Type.STRING, description: "Stock Keeping Unit or Product Code." },
+          description: { type: Type.STRING, description: "Description of the goods." },
+          quantity: { type: Type.NUMBER, description: "Quantity shipped." },
+          unitOfMeasure: invoiceSchema.properties.lineItems.items.properties.unitOfMeasure,
+          packSize: invoiceSchema.properties.lineItems.items.properties.packSize,
+          weight: { type: Type.NUMBER, description: "Weight of this line, in the shipment's weight unit." },
+          freightClass: { type: Type.STRING, description: "NMFC freight class of this line, if printed." },
+          sourcePage: { type: Type.NUMBER, description: "The page number of the document on which this line appears." },
+          sourceRegion: { ...regionSchema, description: "Bounding box of the entire line row." }
+        },
+        required: ["description", "quantity"]
+      }
+    }
+  },
+  required: ["documentType", "vendorName", "lineItems", "language"]
+});
+
+export const packingSlipSchema = shippingSchema('PACKING SLIP', 'The packing slip or delivery note number', "Every item shipped, with the quantity shipped (not ordered or back-ordered).");
+
+export const billOfLadingSchema = shippingSchema('BOL', 'The bill of lading number', "Each handling unit or commodity line, with its piece count as quantity.");
+
+export const translationSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      index: { type: Type.NUMBER },
+      translatedDescription: { type: Type.STRING }
+    }
+  }
+};
+
+export const batchAnalysisSchema = {
+  type: Type.OBJECT,
+  properties: {
+    insights: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING, enum: ['critical', 'warning', 'opportunity'], description: "Severity of the finding." },
+          title: { type: Type.STRING, description: "Short headline." },
+          message: { type: Type.STRING, description: "2-sentence explanation with numbers." },
+          potential_savings: { type: Type.STRING, description: "Estimated savings, e.g. '$120.00'. Omit if not applicable." }
+        },
+        required: ["type", "title", "message"]
+      }
+    }
+  },
+  required: ["insights"]
+};
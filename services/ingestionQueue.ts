@@ -0,0 +1,180 @@
+import { InvoiceData } from "../types";
+import { isRateLimitError } from './requestScheduler';
+import { DuplicateMatch } from './duplicateDetection';
+
+// Per-file ingestion queue: runs a worker over uploaded files with bounded parallelism,
+// keeps going past individual failures, and can be paused, resumed, cancelled and retried per file.
+
+export type QueueItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'duplicate' | 'skipped';
+
+export interface QueueItem {
+  id: string;
+  file: File;
+  status: QueueItemStatus;
+  attempts: number;
+  forceRefresh?: boolean; // Bypass the extraction cache and the exact-file duplicate check
+  invoice?: InvoiceData; // Result for done and duplicate items
+  duplicateOf?: DuplicateMatch; // The session document a duplicate item matched
+  error?: string;
+  errorCode?: string;
+}
+
+// What the worker decided for a file it processed successfully
+export interface QueueOutcome {
+  status: 'done' | 'duplicate' | 'skipped';
+  invoice?: InvoiceData;
+  duplicateOf?: DuplicateMatch;
+}
+
+export interface QueueSnapshot {
+  items: QueueItem[];
+  concurrency: number;
+  paused: boolean;
+  resumeAt: number | null; // Set while paused for a rate limit; resumes automatically
+  isActive: boolean; // Anything queued or running
+}
+
+export interface IngestionQueue {
+  add: (files: File[], forceRefresh?: boolean) => void;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void; // Skips everything still queued; running files finish
+  retry: (id: string, forceRefresh?: boolean) => void;
+  setStatus: (id: string, status: QueueItemStatus) => void; // Reviewer decisions, e.g. keeping a duplicate
+  remove: (id: string) => void;
+  clearFinished: () => void;
+  setConcurrency: (concurrency: number) => void;
+  getSnapshot: () => QueueSnapshot;
+  subscribe: (listener: (snapshot: QueueSnapshot) => void) => () => void;
+}
+
+export type QueueWorker = (item: QueueItem) => Promise<QueueOutcome>;
+
+export const DEFAULT_QUEUE_CONCURRENCY = 2;
+
+const FALLBACK_RESUME_MS = 60000;
+
+export const createIngestionQueue = (worker: QueueWorker, concurrency: number = DEFAULT_QUEUE_CONCURRENCY): IngestionQueue => {
+  let items: QueueItem[] = [];
+  let paused = false;
+  let resumeAt: number | null = null;
+  let resumeTimer: ReturnType<typeof setTimeout> | null = null;
+  const listeners = new Set<(snapshot: QueueSnapshot) => void>();
+
+  const getSnapshot = (): QueueSnapshot => ({
+    items,
+    concurrency,
+    paused,
+    resumeAt,
+    isActive: items.some(item => item.status === 'queued' || item.status === 'running')
+  });
+
+  const notify = () => {
+    const snapshot = getSnapshot();
+    listeners.forEach(listener => listener(snapshot));
+  };
+
+  // Items are replaced, never mutated, so React sees every change.
+  const update = (id: string, patch: Partial<QueueItem>) => {
+    items = items.map(item => item.id === id ? { ...item, ...patch } : item);
+  };
+
+  const pump = () => {
+    if (!paused) {
+      let running = items.filter(item => item.status === 'running').length;
+      for (const item of items) {
+        if (running >= concurrency) break;
+        if (item.status !== 'queued') continue;
+        running++;
+        run(item);
+      }
+    }
+    notify();
+  };
+
+  const run = (item: QueueItem) => {
+    update(item.id, { status: 'running', attempts: item.attempts + 1, error: undefined, errorCode: undefined });
+    worker(item).then(outcome => {
+      update(item.id, { status: outcome.status, invoice: outcome.invoice, duplicateOf: outcome.duplicateOf });
+    }).catch((error: any) => {
+      if (isRateLimitError(error)) {
+        // The scheduler already backed off and gave up: hold the whole queue, not just this file.
+        update(item.id, { status: 'queued', attempts: item.attempts });
+        pauseUntil(Date.now() + (error.retryAfterMs || FALLBACK_RESUME_MS));
+        return;
+      }
+      console.error(`Extraction failed for ${item.file.name}:`, error);
+      update(item.id, { status: 'failed', error: error?.message || String(error), errorCode: error?.code || 'GENERIC' });
+    }).finally(pump);
+  };
+
+  const clearResumeTimer = () => {
+    if (resumeTimer) clearTimeout(resumeTimer);
+    resumeTimer = null;
+    resumeAt = null;
+  };
+
+  const pauseUntil = (time: number) => {
+    clearResumeTimer();
+    paused = true;
+    resumeAt = time;
+    resumeTimer = setTimeout(resume, Math.max(0, time - Date.now()));
+  };
+
+  const add = (files: File[], forceRefresh: boolean = false) => {
+    items = [...items, ...files.map(file => ({ id: crypto.randomUUID(), file, status: 'queued' as QueueItemStatus, attempts: 0, forceRefresh }))];
+    pump();
+  };
+
+  const pause = () => {
+    clearResumeTimer();
+    paused = true;
+    notify();
+  };
+
+  const resume = () => {
+    clearResumeTimer();
+    paused = false;
+    pump();
+  };
+
+  const cancel = () => {
+    clearResumeTimer();
+    paused = false;
+    items = items.map(item => item.status === 'queued' ? { ...item, status: 'skipped' } : item);
+    notify();
+  };
+
+  const retry = (id: string, forceRefresh: boolean = false) => {
+    update(id, { status: 'queued', error: undefined, errorCode: undefined, ...(forceRefresh ? { forceRefresh } : {}) });
+    pump();
+  };
+
+  const setStatus = (id: string, status: QueueItemStatus) => {
+    update(id, { status });
+    notify();
+  };
+
+  const remove = (id: string) => {
+    items = items.filter(item => item.id !== id || item.status === 'running');
+    notify();
+  };
+
+  const clearFinished = () => {
+    items = items.filter(item => item.status === 'queued' || item.status === 'running');
+    notify();
+  };
+
+  const setConcurrency = (value: number) => {
+    concurrency = Math.max(1, Math.floor(value));
+    pump();
+  };
+
+  const subscribe = (listener: (snapshot: QueueSnapshot) => void) => {
+    listeners.add(listener);
+    listener(getSnapshot());
+    return () => { listeners.delete(listener); };
+  };
+
+  return { add, pause, resume, cancel, retry, setStatus, remove, clearFinished, setConcurrency, getSnapshot, subscribe };
+};
@@ -0,0 +1,190 @@
+import { BatchAnalysisResult, InvoiceData, LineItem, RemittanceDetails, StrategicInsight } from "../types";
+import { ExtractionProvider } from './extractionProvider';
+import { createRequestScheduler } from './requestScheduler';
+import { normalizeLineUnits } from '../utils/unitConversion';
+import { applyCreditSign } from './creditNotes';
+
+// One stable account per demo vendor so repeat invoices do not trip the change-of-bank alert
+const MOCK_REMITTANCE: Record<string, RemittanceDetails> = {
+  'Acme Supply Co.': { bankName: 'JPMorgan Chase', accountNumber: '000123456789', routingNumber: '021000021' },
+  'Global Logistics Ltd.': { bankName: 'NatWest', iban: 'GB29NWBK60161331926819', swiftBic: 'NWBKGB2L' },
+  'Apex Components': { bankName: 'Commerzbank', iban: 'DE89370400440532013000', swiftBic: 'COBADEFFXXX' },
+  'Northside Services': { bankName: 'ABN AMRO', iban: 'NL91ABNA0417164300', swiftBic: 'ABNANL2A' },
+  'Quantum Materials': { bankName: 'La Banque Postale', iban: 'FR1420041010050500013M02606', swiftBic: 'PSSTFRPPXXX' }
+};
+
+// Last demo invoice handed out, so a later demo credit note has something to credit
+let lastMockInvoice: InvoiceData | null = null;
+
+// Returns part of an earlier demo invoice; amounts are signed the way extraction signs them
+const generateMockCreditNote = (invoice: InvoiceData): InvoiceData => {
+  const lineItems = invoice.lineItems.slice(0, Math.min(2, invoice.lineItems.length)).map(item => ({ ...item, quantity: 1, totalAmount: item.unitPrice }));
+  const subtotal = parseFloat(lineItems.reduce((sum, item) => sum + item.totalAmount, 0).toFixed(2));
+  const taxAmount = parseFloat((subtotal * 0.08).toFixed(2));
+  const total = parseFloat((subtotal + taxAmount).toFixed(2));
+  return applyCreditSign({
+    ...invoice,
+    id: crypto.randomUUID(),
+    documentType: 'CREDIT NOTE',
+    invoiceNumber: `CN-${Math.floor(Math.random() * 90000) + 10000}`,
+    originalInvoiceNumber: invoice.invoiceNumber,
+    paymentTerms: undefined,
+    dueDate: undefined,
+    totalAmount: total,
+    lineItems: lineItems.map(normalizeLineUnits),
+    subtotal,
+    taxLines: [{ jurisdiction: 'Sales Tax', rate: 8, base: subtotal, amount: taxAmount }],
+    amountDue: total
+  });
+};
+
+// Generate realistic mock data
+const generateMockInvoice = (): InvoiceData => {
+  if (lastMockInvoice && Math.random() > 0.85) return generateMockCreditNote(lastMockInvoice);
+
+  const vendors = ['Acme Supply Co.', 'Global Logistics Ltd.', 'Apex Components', 'Northside Services', 'Quantum Materials'];
+  const categories = ['Raw Materials', 'Office Supplies', 'Freight', 'Maintenance', 'Professional Services'];
+  const currencies = ['$', '€', '£', '¥'];
+  
+  const vendor = vendors[Math.floor(Math.random() * vendors.length)];
+  const currency = currencies[Math.floor(Math.random() * currencies.length)];
+  const itemCount = Math.floor(Math.random() * 8) + 3;
+  // Packing slips list what was shipped, without prices
+  const isPackingSlip = Math.random() > 0.8;
+  
+  const lineItems: LineItem[] = [];
+  let total = 0;
+
+  for (let i = 0; i < itemCount; i++) {
+    const qty = Math.floor(Math.random() * 10) + 1;
+    const price = isPackingSlip ? 0 : parseFloat((Math.random() * 500 + 10).toFixed(2));
+    const lineTotal = parseFloat((qty * price).toFixed(2));
+    const cat = categories[Math.floor(Math.random() * categories.length)];
+    
+    lineItems.push(normalizeLineUnits({
+      sku: `SKU-${Math.floor(Math.random() * 10000)}`,
+      description: `Sample Item Description ${i + 1} - ${vendor} Part`,
+      glCategory: isPackingSlip ? '' : cat,
+      quantity: qty,
+      unitPrice: price,
+      totalAmount: lineTotal,
+      unitOfMeasure: 'each',
+      ...(isPackingSlip ? { weight: parseFloat((qty * (Math.random() * 4 + 0.5)).toFixed(1)) } : {
+        glConfidence: Math.floor(Math.random() * 20) + 80,
+        glReasoning: `Matched keywords in description with '${cat}'`
+      })
+    }));
+    total += lineTotal;
+  }
+
+  const invoiceDate = new Date();
+  const dueDate = new Date(invoiceDate.getTime() + 30 * 24 * 60 * 60 * 1000);
+  const subtotal = parseFloat(total.toFixed(2));
+  const taxAmount = parseFloat((subtotal * 0.08).toFixed(2));
+  const poNumber = Math.random() > 0.3 ? `PO-${Math.floor(Math.random() * 9000) + 1000}` : undefined;
+
+  if (isPackingSlip) {
+    return {
+      id: crypto.randomUUID(),
+      documentType: 'PACKING SLIP',
+      vendorName: vendor,
+      invoiceDate: invoiceDate.toISOString().split('T')[0],
+      invoiceNumber: `PS-${Math.floor(Math.random() * 90000) + 10000}`,
+      purchaseOrderNumber: poNumber,
+      totalAmount: 0,
+      currencySymbol: currency,
+      lineItems,
+      shipment: {
+        shipperName: vendor,
+        carrierName: 'UPS Freight',
+        trackingNumber: `1Z${Math.floor(Math.random() * 1e9)}`,
+        pieceCount: lineItems.reduce((sum, item) => sum + item.quantity, 0),
+        grossWeight: parseFloat(lineItems.reduce((sum, item) => sum + (item.weight || 0), 0).toFixed(1)),
+        weightUnit: 'lb'
+      },
+      isDemo: true,
+      language: 'Original',
+      detectedLanguage: 'English',
+      languageConfidence: 99,
+      confidenceScore: 'High',
+      validationFlags: { hasZeroPrices: false, lowItemCount: false, missingMetadata: false, unsupportedCurrency: false, unsupportedLanguage: false, totalMismatch: false, invalidTaxId: false, invalidIban: false }
+    };
+  }
+
+  lastMockInvoice = {
+    id: crypto.randomUUID(),
+    documentType: 'INVOICE',
+    vendorName: vendor,
+    remittance: MOCK_REMITTANCE[vendor],
+    invoiceDate: invoiceDate.toISOString().split('T')[0],
+    invoiceNumber: `INV-${Math.floor(Math.random() * 90000) + 10000}`,
+    purchaseOrderNumber: poNumber,
+    paymentTerms: 'Net 30',
+    dueDate: dueDate.toISOString().split('T')[0],
+    totalAmount: parseFloat((subtotal + taxAmount).toFixed(2)),
+    currencySymbol: currency,
+    lineItems: lineItems,
+    subtotal,
+    taxLines: [{ jurisdiction: 'Sales Tax', rate: 8, base: subtotal, amount: taxAmount }],
+    discounts: [],
+    shippingCharges: [],
+    amountDue: parseFloat((subtotal + taxAmount).toFixed(2)),
+    isDemo: true,
+    language: 'Original',
+    detectedLanguage: 'English',
+    languageConfidence: 99,
+    confidenceScore: 'High',
+    validationFlags: { 
+      hasZeroPrices: false, 
+      lowItemCount: false, 
+      missingMetadata: false,
+      unsupportedCurrency: false,
+      unsupportedLanguage: false,
+      totalMismatch: false,
+      invalidTaxId: false,
+      invalidIban: false
+    }
+  };
+  return lastMockInvoice;
+};
+
+// Deterministic local audit so demo sessions still surface the insights panel.
+const analyzeMockBatch = (invoices: InvoiceData[]): BatchAnalysisResult => {
+  const insights: StrategicInsight[] = [];
+  const byVendor: Record<string, number> = {};
+  invoices.forEach(inv => { byVendor[inv.vendorName] = (byVendor[inv.vendorName] || 0) + 1; });
+
+  Object.entries(byVendor).filter(([, count]) => count > 1).forEach(([vendor, count]) => {
+    insights.push({
+      type: 'opportunity',
+      title: 'Bulk Ordering Opportunity',
+      message: `${count} separate orders were placed with ${vendor} in this session. Consolidating them could reduce freight and handling fees.`
+    });
+  });
+
+  return { insights };
+};
+
+const mockScheduler = createRequestScheduler({ maxConcurrent: 4, requestsPerMinute: 600 });
+
+export const mockProvider: ExtractionProvider = {
+  id: 'mock',
+  model: 'mock-generator',
+  extractInvoiceData: (file, onPartial) => mockScheduler.schedule(async () => {
+    const invoice = generateMockInvoice();
+    // Reveal the header first, then one line at a time, the way a streamed response arrives
+    const steps = invoice.lineItems.length + 1;
+    for (let shown = 0; shown < steps; shown++) {
+      await new Promise(r => setTimeout(r, 1500 / steps));
+      onPartial?.({ ...invoice, lineItems: invoice.lineItems.slice(0, shown), isProvisional: true });
+    }
+    return invoice;
+  }, 'extraction'),
+  // Demo sessions never leave the browser, so descriptions stay as generated.
+  translateLineItems: async (items: LineItem[]) => items,
+  analyzeBatch: async (invoices: InvoiceData[]) => analyzeMockBatch(invoices),
+  scheduler: mockScheduler,
+  promptVersion: () => 'mock',
+  // Nothing is billed in demo mode
+  subscribeUsage: () => () => {}
+};
@@ -0,0 +1,146 @@
+import { ProviderSettings } from "../types";
+import { CallUsage, ModelBackend, ModelRequest, quotaExceededError } from './extractionProvider';
+import { parseRetryAfter } from './requestScheduler';
+import { documentText, fileToBase64, isTextDocument } from '../utils/fileEncoding';
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:8000/v1';
+
+// Generic servers have no default model worth guessing, so a workspace without one fails before any request
+export const modelRequiredError = (): Error => {
+  const e: any = new Error('No model name is set for the OpenAI-compatible provider; enter one in the workspace settings');
+  e.code = 'MODEL_REQUIRED';
+  return e;
+};
+
+const fileToDataUrl = async (file: File) => `data:${file.type || 'application/octet-stream'};base64,${await fileToBase64(file)}`;
+
+// Gemini schemas use upper-case Type names; JSON Schema wants lower-case and no extra keys.
+const toJsonSchema = (schema: any): any => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+  const out: any = {};
+  Object.entries(schema).forEach(([key, value]) => {
+    if (key === 'type' && typeof value === 'string') out.type = value.toLowerCase();
+    else if (key === 'properties') out.properties = Object.fromEntries(Object.entries(value as object).map(([k, v]) => [k, toJsonSchema(v)]));
+    else out[key] = toJsonSchema(value);
+  });
+  return out;
+};
+
+// Models behind generic endpoints often wrap JSON in markdown fences despite response_format.
+const parseJsonContent = (content: string): any => {
+  const trimmed = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  return JSON.parse(trimmed || 'null');
+};
+
+const toCallUsage = (usage: any): CallUsage | undefined => usage
+  ? { inputTokens: usage.prompt_tokens || 0, outputTokens: usage.completion_tokens || 0 }
+  : undefined;
+
+// Proxies interleave keep-alives and other non-JSON data lines; they carry no content, so they are skipped.
+// A broken final payload still fails, when the accumulated content is parsed.
+const parseStreamEvent = (data: string): any => {
+  try {
+    return JSON.parse(data);
+  } catch {
+    console.warn('Skipping unparseable stream event:', data.slice(0, 80));
+    return null;
+  }
+};
+
+// Reads a chat.completions server-sent event stream, reporting the accumulated content as it grows.
+// Servers that honour stream_options.include_usage send the token counts in a final chunk.
+const readStreamedContent = async (response: Response, onPartialText: (text: string) => void): Promise<{ content: string, usage?: CallUsage }> => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let content = '';
+  let usage: CallUsage | undefined;
+  const handleLine = (line: string) => {
+    const data = line.replace(/^data:\s*/, '').trim();
+    if (!line.startsWith('data:') || !data || data === '[DONE]') return;
+    const event = parseStreamEvent(data);
+    if (!event) return;
+    usage = toCallUsage(event.usage) || usage;
+    const delta = event.choices?.[0]?.delta?.content;
+    if (delta) {
+      content += delta;
+      onPartialText(content);
+    }
+  };
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer + decoder.decode()); // Last event when the stream does not end with a newline
+  return { content, usage };
+};
+
+// Targets any server exposing POST {baseUrl}/chat/completions (vLLM, Ollama, LM Studio, llama.cpp, Azure/OpenAI).
+export const createOpenAICompatibleBackend = (settings: ProviderSettings): ModelBackend => {
+    const baseUrl = (settings.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+    const model = (settings.model || '').trim();
+
+    const generateJson = async ({ prompt, file, schema, temperature, onPartialText, onUsage }: ModelRequest): Promise<any> => {
+        if (!model) throw modelRequiredError();
+        const content: any[] = [{ type: 'text', text: prompt }];
+        if (file && isTextDocument(file)) {
+            content.unshift({ type: 'text', text: `Document text (${file.name}):\n${await documentText(file)}` });
+        } else if (file) {
+            const dataUrl = await fileToDataUrl(file);
+            if (file.type.startsWith('image/')) {
+                content.unshift({ type: 'image_url', image_url: { url: dataUrl } });
+            } else {
+                content.unshift({ type: 'file', file: { filename: file.name, file_data: dataUrl } });
+            }
+        }
+
+        const body: any = {
+            model,
+            messages: [{ role: 'user', content }],
+            response_format: schema
+                ? { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(schema) } }
+                : { type: 'json_object' }
+        };
+        if (temperature !== undefined) body.temperature = temperature;
+        if (onPartialText) {
+            body.stream = true;
+            body.stream_options = { include_usage: true };
+        }
+
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(settings.apiKey ? { 'Authorization': `Bearer ${settings.apiKey}` } : {})
+            },
+            body: JSON.stringify(body)
+        });
+
+        if (response.status === 429) {
+            const retryAfterMs = Number(response.headers.get('retry-after-ms')) || parseRetryAfter(response.headers.get('retry-after'));
+            throw quotaExceededError(retryAfterMs);
+        }
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            console.error("OpenAI-Compatible API Error:", response.status, detail);
+            throw new Error(`Extraction endpoint returned ${response.status}`);
+        }
+
+        if (onPartialText && response.body) {
+            const streamed = await readStreamedContent(response, onPartialText);
+            if (streamed.usage) onUsage?.(streamed.usage);
+            return parseJsonContent(streamed.content);
+        }
+        const payload = await response.json();
+        const usage = toCallUsage(payload.usage);
+        if (usage) onUsage?.(usage);
+        return parseJsonContent(payload.choices?.[0]?.message?.content || '');
+    };
+
+    return { id: 'openai-compatible', model, generateJson };
+};
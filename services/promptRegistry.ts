@@ -0,0 +1,194 @@
+import { PromptDocType, PromptOverride, PromptTask } from "../types";
+
+// Every prompt sent to a model, keyed by task and document type and versioned so results can be
+// traced back to the wording that produced them. Bump a template's version whenever its text changes:
+// the version is stamped on extracted documents and is part of the extraction cache key.
+
+export interface PromptTemplate {
+  task: PromptTask;
+  docType: PromptDocType;
+  version: string;
+  variables: string[]; // Names available as {{name}} in the text
+  template: string;
+}
+
+export const PROMPT_TASKS: PromptTask[] = ['classification', 'extraction', 'pageWindow', 'translation', 'audit'];
+export const PROMPT_DOC_TYPES: PromptDocType[] = ['invoice', 'creditNote', 'receipt', 'packingSlip', 'billOfLading', 'any'];
+
+export const PROMPT_TASK_LABELS: Record<PromptTask, string> = {
+  classification: 'Document classification',
+  extraction: 'Extraction',
+  pageWindow: 'Multi-page PDF window',
+  translation: 'Line item translation',
+  audit: 'Batch audit'
+};
+
+export const PROMPT_DOC_TYPE_LABELS: Record<PromptDocType, string> = {
+  invoice: 'Invoice',
+  creditNote: 'Credit note',
+  receipt: 'Receipt',
+  packingSlip: 'Packing slip',
+  billOfLading: 'Bill of lading',
+  any: 'All document types'
+};
+
+const SHARED_EXTRACTION_RULES = `For every line item report the unit of measure as printed and, for cases, boxes or packs, the pack size (pieces per unit).
+    Report taxes, discounts and shipping/freight charges in their dedicated fields, never as line items.
+    Detect the document language.
+    Return JSON matching the specified schema.`;
+
+export const BUILT_IN_PROMPTS: PromptTemplate[] = [
+  {
+    task: 'classification', docType: 'any', version: '3', variables: [],
+    template: `Classify this document so it can be extracted with the right schema.
+    'invoice': a bill asking for payment for goods or services; purchase orders and pro-forma invoices count as invoices.
+    'creditNote': a credit note, credit memo or return credit that reduces what is owed, usually referring to an earlier invoice.
+    'receipt': proof of a payment already made, such as a till, card or online order receipt.
+    'packingSlip': a packing list, delivery note or goods receipt listing the goods in a shipment, usually without prices.
+    'billOfLading': a bill of lading or freight waybill naming the shipper, consignee and carrier.
+    Also name the vendor or supplier that issued the document, as printed.
+    Return JSON matching the specified schema.`
+  },
+  {
+    task: 'extraction', docType: 'invoice', version: '2', variables: [],
+    template: `Extract invoice data from this image.
+    Analyze the layout to identify Vendor, Date, Invoice Number, PO Number, Payment Terms, Due Date, Total Amount, Currency, and Line Items.
+    Capture the vendor's legal address and tax ID, the bill-to entity and the ship-to address.
+    Capture the vendor's bank remittance details (IBAN, SWIFT/BIC, account and routing numbers) exactly as printed.
+    Infer GL Categories for items.
+    ${SHARED_EXTRACTION_RULES}`
+  },
+  {
+    task: 'extraction', docType: 'creditNote', version: '1', variables: [],
+    template: `Extract credit note data from this image.
+    Set documentType to 'CREDIT NOTE'. Use the credit note or credit memo number as the invoice number and its issue date as the invoice date.
+    Capture the number of the invoice being credited in originalInvoiceNumber, exactly as printed.
+    Report amounts as printed; a minus sign or 'CR' suffix may be dropped, all amounts are treated as credits.
+    Capture the vendor's legal address and tax ID, the bill-to entity and every credited or returned item.
+    Infer GL Categories for items.
+    ${SHARED_EXTRACTION_RULES}`
+  },
+  {
+    task: 'extraction', docType: 'receipt', version: '2', variables: [],
+    template: `Extract receipt data from this image.
+    The vendor is the merchant; use the receipt or transaction number as the invoice number and the purchase date as the invoice date.
+    Identify Total Amount, Currency and every purchased item. Receipts are usually paid already, so leave payment terms and due date empty.
+    Ignore loyalty points, card numbers and change given.
+    Infer GL Categories for items.
+    ${SHARED_EXTRACTION_RULES}`
+  },
+  {
+    task: 'extraction', docType: 'packingSlip', version: '3', variables: [],
+    template: `Extract packing slip data from this image.
+    The vendor is the supplier shipping the goods. Use the packing slip or delivery note number as the invoice number and the ship date as the invoice date.
+    Capture the PO Number, the ship-to address and every shipped item with its SKU and shipped quantity.
+    Capture the carrier, tracking number, package count and weight in the shipment fields when printed.
+    Do not report prices; packing slips are matched on quantities.
+    For every line item report the unit of measure as printed and, for cases, boxes or packs, the pack size (pieces per unit).
+    Detect the document language.
+    Return JSON matching the specified schema.`
+  },
+  {
+    task: 'extraction', docType: 'billOfLading', version: '3', variables: [],
+    template: `Extract bill of lading data from this image.
+    The vendor is the shipper of the goods, not the carrier. Use the BOL number as the invoice number and the ship date as the invoice date.
+    Capture the shipper, consignee, carrier, PRO number, pallet count, piece count, gross weight and freight class in the shipment fields, and the PO Number when printed.
+    Report each handling unit or commodity line as a line item with its piece count as quantity, its weight and its freight class.
+    Detect the document language.
+    Return JSON matching the specified schema.`
+  },
+  {
+    task: 'pageWindow', docType: 'any', version: '1', variables: ['startPage', 'endPage', 'pageCount'],
+    template: `This PDF contains pages {{startPage}} to {{endPage}} of a {{pageCount}}-page document.
+    Only extract line items printed on these pages. Set sourcePage on every line item to its page number in the full document ({{startPage}}-{{endPage}}).
+    Do not invent header fields that are not printed on these pages; leave them empty instead.
+    Set containsGrandTotal to true only if the grand total of the whole document appears on these pages.
+    Report every bounding box page as the page number in the full document.`
+  },
+  {
+    task: 'translation', docType: 'any', version: '1', variables: ['targetLanguage', 'items'],
+    template: `Translate the description of these invoice items into {{targetLanguage}}.
+    Return a JSON array of objects with 'index' and 'translatedDescription'.
+
+    Items:
+    {{items}}
+    `
+  },
+  {
+    task: 'audit', docType: 'any', version: '2', variables: ['count', 'dataset'],
+    template: `
+    ACT AS A SENIOR SUPPLY CHAIN AUDITOR.
+    Analyze this batch of {{count}} invoices for strategic insights.
+
+    DATASET:
+    {{dataset}}
+
+    DETECT THESE PATTERNS:
+    1. PRICE VARIANCES: Same item bought at different prices? Compare basePrice (price per baseUnit) when present, so different pack sizes are comparable.
+    2. VENDOR CONSOLIDATION: Buying same category (e.g. Office Supplies) from multiple vendors?
+    3. BULK OPPORTUNITIES: Multiple small orders to same vendor?
+    4. DUPLICATE VENDORS: "Office Depot" vs "Office Depot Inc".
+
+    OUTPUT STRICT JSON ONLY:
+    {
+      "insights": [
+        {
+          "type": "critical" | "warning" | "opportunity",
+          "title": "Short Headline",
+          "message": "2-sentence explanation with numbers.",
+          "potential_savings": "$XX.XX" (optional)
+        }
+      ]
+    }
+    `
+  }
+];
+
+// Short, stable fingerprint of generated prompt text (FNV-1a), so editing it changes the version automatically
+export const promptFingerprint = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const fromOverride = (override: PromptOverride): PromptTemplate => ({
+  ...override,
+  version: `ws-${promptFingerprint(override.template)}`,
+  variables: builtInPrompt(override.task, override.docType).variables
+});
+
+// The most specific built-in: exact document type, then 'any', then the invoice wording.
+export const builtInPrompt = (task: PromptTask, docType: PromptDocType): PromptTemplate =>
+  BUILT_IN_PROMPTS.find(p => p.task === task && p.docType === docType)
+  || BUILT_IN_PROMPTS.find(p => p.task === task && p.docType === 'any')
+  || BUILT_IN_PROMPTS.find(p => p.task === task && p.docType === 'invoice')!;
+
+// Workspace overrides win over built-ins at the same or a broader level of specificity.
+export const resolvePrompt = (task: PromptTask, docType: PromptDocType, overrides: PromptOverride[] = []): PromptTemplate => {
+  const override = overrides.find(o => o.task === task && o.docType === docType && o.template.trim())
+    || overrides.find(o => o.task === task && o.docType === 'any' && o.template.trim());
+  return override ? fromOverride(override) : builtInPrompt(task, docType);
+};
+
+// Identifies a template revision, e.g. 'extraction.invoice@1'
+export const promptStamp = (template: PromptTemplate) => `${template.task}.${template.docType}@${template.version}`;
+
+// Fills {{name}} placeholders. Unknown names render empty, so a typo in an override is visible in the output.
+export const renderPrompt = (template: PromptTemplate, variables: Record<string, string | number> = {}): string =>
+  template.template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+    if (variables[name] === undefined) {
+      console.warn(`Prompt ${promptStamp(template)} uses unknown variable {{${name}}}`);
+      return '';
+    }
+    return String(variables[name]);
+  });
+
+// Placeholders in a draft override that the task does not provide
+export const unknownPromptVariables = (text: string, task: PromptTask, docType: PromptDocType): string[] => {
+  const known = builtInPrompt(task, docType).variables;
+  const used = Array.from(text.matchAll(/\{\{\s*(\w+)\s*\}\}/g), match => match[1]);
+  return used.filter((name, i) => !known.includes(name) && used.indexOf(name) === i);
+};
@@ -0,0 +1,58 @@
+import { InvoiceData, RemittanceAlert, RemittanceDetails, VendorMasterEntry } from "../types";
+import { compareRemittance, hasBankIdentifiers } from '../utils/bankDetails';
+import { validateTaxId } from '../utils/taxIdValidation';
+import { normalizeVendorName } from '../utils/vendorNames';
+
+// Tax IDs identify a vendor better than names; fall back to the normalized name when either side lacks one.
+const isSameVendor = (a: { vendorName?: string, vendorTaxId?: string }, b: { vendorName?: string, vendorTaxId?: string }): boolean => {
+  const taxA = validateTaxId(a.vendorTaxId)?.normalized;
+  const taxB = validateTaxId(b.vendorTaxId)?.normalized;
+  if (taxA && taxB) return taxA === taxB;
+  const nameA = normalizeVendorName(a.vendorName);
+  return !!nameA && nameA === normalizeVendorName(b.vendorName);
+};
+
+interface KnownAccount {
+  details: RemittanceDetails;
+  alert: Omit<RemittanceAlert, 'knownDetails'>;
+}
+
+// Compare a document's remittance details with everything we already know for the same vendor.
+// The vendor master is authoritative; session documents only count if they were not flagged themselves,
+// so a fraudulent invoice cannot vouch for the next one.
+export const findRemittanceAlert = (doc: InvoiceData, history: InvoiceData[], vendorMaster: VendorMasterEntry[]): RemittanceAlert | undefined => {
+  if (!hasBankIdentifiers(doc.remittance)) return undefined;
+  const remittance = doc.remittance;
+
+  const masterAccounts: KnownAccount[] = vendorMaster
+    .filter(entry => isSameVendor(entry, doc))
+    .map(entry => ({ details: entry.remittance, alert: { source: 'vendorMaster', referenceLabel: 'Vendor master' } }));
+  const sessionAccounts: KnownAccount[] = history
+    .filter(other => other.id !== doc.id && !other.remittanceAlert && hasBankIdentifiers(other.remittance) && isSameVendor(other, doc))
+    .map(other => ({ details: other.remittance!, alert: { source: 'session', referenceInvoiceId: other.id, referenceLabel: other.invoiceNumber || other.invoiceDate } }));
+
+  const known = masterAccounts.length > 0 ? masterAccounts : sessionAccounts;
+  const comparisons = known.map(account => ({ account, result: compareRemittance(remittance, account.details) }));
+  if (comparisons.some(c => c.result === 'same')) return undefined;
+
+  const mismatch = comparisons.find(c => c.result === 'different');
+  return mismatch ? { ...mismatch.account.alert, knownDetails: mismatch.account.details } : undefined;
+};
+
+export const applyRemittanceCheck = (doc: InvoiceData, history: InvoiceData[], vendorMaster: VendorMasterEntry[]): InvoiceData => {
+  const remittanceAlert = findRemittanceAlert(doc, history, vendorMaster);
+  return {
+    ...doc,
+    remittanceAlert,
+    validationFlags: { ...doc.validationFlags, bankDetailsChanged: !!remittanceAlert }
+  };
+};
+
+// Re-run the check over a whole session (newest first), each document against the ones processed before it.
+export const recheckRemittance = (history: InvoiceData[], vendorMaster: VendorMasterEntry[]): InvoiceData[] => {
+  const checked: InvoiceData[] = [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    checked.unshift(applyRemittanceCheck(history[i], checked, vendorMaster));
+  }
+  return checked;
+};
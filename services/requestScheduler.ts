@@ -0,0 +1,156 @@
+// Shared gate for every model call of a provider: caps concurrency and requests per minute,
+// backs off on rate-limit errors (honoring the server's retry hint) and reports queue state for the UI.
+
+export interface SchedulerOptions {
+  maxConcurrent: number;
+  requestsPerMinute: number;
+  maxRetries: number; // Rate-limit retries per request before the error is surfaced
+  baseDelayMs: number; // First backoff step; doubles per retry
+  maxDelayMs: number;
+}
+
+// Where a caller's earliest waiting request sits in the queue
+export interface RequestPosition {
+  position: number; // 1 = dispatched next
+  etaMs: number; // Estimated wait until it is dispatched
+}
+
+export interface SchedulerStatus {
+  queued: number;
+  running: number;
+  cooldownUntil: number | null; // Epoch ms; all dispatch is paused until then
+  etaMs: number; // Estimated time until the queue has drained
+  pending: Record<string, RequestPosition>; // By the requestId passed to schedule(); waiting requests only
+  lastError?: string;
+}
+
+export interface RequestScheduler {
+  // requestId groups calls of one caller (e.g. a queued file) so its position can be shown
+  schedule: <T>(task: () => Promise<T>, label?: string, requestId?: string) => Promise<T>;
+  getStatus: () => SchedulerStatus;
+  subscribe: (listener: (status: SchedulerStatus) => void) => () => void;
+}
+
+interface QueuedTask {
+  run: () => Promise<any>;
+  resolve: (value: any) => void;
+  reject: (error: any) => void;
+  label: string;
+  requestId?: string;
+  attempt: number;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  maxConcurrent: 2,
+  requestsPerMinute: 10,
+  maxRetries: 4,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000
+};
+
+const WINDOW_MS = 60000;
+const INITIAL_DURATION_ESTIMATE_MS = 8000;
+
+export const isRateLimitError = (error: any): boolean => error?.code === 'QUOTA_EXCEEDED';
+
+// Full jitter keeps parallel tabs/workspaces from retrying in lock-step.
+const backoffDelay = (attempt: number, options: SchedulerOptions): number => {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+};
+
+export const createRequestScheduler = (overrides: Partial<SchedulerOptions> = {}): RequestScheduler => {
+  const options: SchedulerOptions = { ...DEFAULT_SCHEDULER_OPTIONS, ...overrides };
+  const queue: QueuedTask[] = [];
+  const listeners = new Set<(status: SchedulerStatus) => void>();
+  let startTimes: number[] = []; // Dispatch times inside the sliding one-minute window
+  let running = 0;
+  let cooldownUntil = 0;
+  let avgDurationMs = INITIAL_DURATION_ESTIMATE_MS;
+  let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+  let lastError: string | undefined;
+
+  const minSpacingMs = WINDOW_MS / Math.max(1, options.requestsPerMinute);
+
+  const getStatus = (): SchedulerStatus => {
+    const now = Date.now();
+    const cooldownLeft = Math.max(0, cooldownUntil - now);
+    const perRequest = Math.max(minSpacingMs, avgDurationMs / options.maxConcurrent);
+    const etaMs = queue.length + running === 0 ? 0 : Math.round(cooldownLeft + queue.length * perRequest + avgDurationMs);
+    const pending: Record<string, RequestPosition> = {};
+    queue.forEach((task, i) => {
+      if (task.requestId && !pending[task.requestId]) pending[task.requestId] = { position: i + 1, etaMs: Math.round(cooldownLeft + i * perRequest) };
+    });
+    return { queued: queue.length, running, cooldownUntil: cooldownUntil > now ? cooldownUntil : null, etaMs, pending, lastError };
+  };
+
+  const notify = () => {
+    const status = getStatus();
+    listeners.forEach(listener => listener(status));
+  };
+
+  const wakeAt = (time: number) => {
+    if (wakeTimer) clearTimeout(wakeTimer);
+    wakeTimer = setTimeout(() => { wakeTimer = null; pump(); }, Math.max(0, time - Date.now()));
+  };
+
+  const pump = () => {
+    const now = Date.now();
+    startTimes = startTimes.filter(t => now - t < WINDOW_MS);
+
+    if (cooldownUntil > now) { wakeAt(cooldownUntil); notify(); return; }
+    while (queue.length > 0 && running < options.maxConcurrent) {
+      if (startTimes.length >= options.requestsPerMinute) { wakeAt(startTimes[0] + WINDOW_MS); break; }
+      dispatch(queue.shift()!);
+    }
+    notify();
+  };
+
+  const dispatch = (task: QueuedTask) => {
+    const startedAt = Date.now();
+    running++;
+    startTimes.push(startedAt);
+    task.run().then(value => {
+      avgDurationMs = avgDurationMs * 0.7 + (Date.now() - startedAt) * 0.3;
+      lastError = undefined;
+      task.resolve(value);
+    }).catch(error => {
+      if (isRateLimitError(error) && task.attempt < options.maxRetries) {
+        // Pause everyone, not just this request: the quota is shared.
+        const delay = Math.max(error.retryAfterMs || 0, backoffDelay(task.attempt, options));
+        cooldownUntil = Math.max(cooldownUntil, Date.now() + delay);
+        lastError = `Rate limited (${task.label}); retry ${task.attempt + 1}/${options.maxRetries}`;
+        console.warn(`${lastError} in ${Math.round(delay / 1000)}s`);
+        queue.unshift({ ...task, attempt: task.attempt + 1 });
+        return;
+      }
+      task.reject(error);
+    }).finally(() => {
+      running--;
+      pump();
+    });
+  };
+
+  const schedule = <T>(run: () => Promise<T>, label: string = 'request', requestId?: string): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      queue.push({ run, resolve, reject, label, requestId, attempt: 0 });
+      pump();
+    });
+
+  const subscribe = (listener: (status: SchedulerStatus) => void) => {
+    listeners.add(listener);
+    listener(getStatus());
+    return () => { listeners.delete(listener); };
+  };
+
+  return { schedule, getStatus, subscribe };
+};
+
+// Parses Retry-After (delta seconds or HTTP date) into milliseconds.
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
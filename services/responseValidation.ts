@@ -0,0 +1,267 @@
+import { BatchAnalysisResult, ExtractionDocType, RemittanceDetails, ShipmentDetails, StrategicInsight } from "../types";
+import { cleanNumber } from './extractionQuality';
+
+// Typed runtime validators for model responses.
+// A validator coerces what it safely can (string numbers, stray whitespace, extra keys are dropped)
+// and records an error for everything it cannot, so the caller can re-prompt with the list.
+
+export type Validator<T> = (value: unknown, path: string, errors: string[]) => T;
+
+export interface ValidationResult<T> {
+  value: T;
+  errors: string[];
+}
+
+export const validateResponse = <T>(validator: Validator<T>, raw: unknown): ValidationResult<T> => {
+  const errors: string[] = [];
+  const value = validator(raw, '$', errors);
+  return { value, errors };
+};
+
+const isMissing = (value: unknown) => value === undefined || value === null;
+
+const optionalString: Validator<string | undefined> = (value, path, errors) => {
+  if (isMissing(value)) return undefined;
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  errors.push(`${path}: expected a string, got ${Array.isArray(value) ? 'array' : typeof value}`);
+  return undefined;
+};
+
+const requiredString: Validator<string> = (value, path, errors) => {
+  const str = optionalString(value, path, errors);
+  if (str === undefined && isMissing(value)) errors.push(`${path}: is required`);
+  return str || '';
+};
+
+// Accepts numbers and numeric strings like "1,234.50" or "$12"; anything without a digit is an error.
+const optionalNumber: Validator<number | undefined> = (value, path, errors) => {
+  if (isMissing(value) || value === '') return undefined;
+  if (typeof value === 'number') {
+    if (Number.isFinite(value)) return value;
+  } else if (typeof value === 'string' && /\d/.test(value)) {
+    return cleanNumber(value);
+  }
+  errors.push(`${path}: expected a number, got ${JSON.stringify(value)}`);
+  return undefined;
+};
+
+const requiredNumber: Validator<number> = (value, path, errors) => {
+  if (isMissing(value) || value === '') {
+    errors.push(`${path}: is required`);
+    return 0;
+  }
+  return optionalNumber(value, path, errors) ?? 0;
+};
+
+const optionalBoolean: Validator<boolean | undefined> = (value) => {
+  if (isMissing(value)) return undefined;
+  return value === true || value === 'true';
+};
+
+// Regions are checked geometrically later by normalizeRegion; only the container type matters here.
+const optionalObject: Validator<Record<string, any> | undefined> = (value, path, errors) => {
+  if (isMissing(value)) return undefined;
+  if (typeof value === 'object' && !Array.isArray(value)) return value as Record<string, any>;
+  errors.push(`${path}: expected an object`);
+  return undefined;
+};
+
+const arrayOf = <T>(item: Validator<T>, required: boolean): Validator<T[]> => (value, path, errors) => {
+  if (isMissing(value)) {
+    if (required) errors.push(`${path}: is required`);
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: expected an array`);
+    return [];
+  }
+  return value.map((entry, i) => item(entry, `${path}[${i}]`, errors));
+};
+
+const objectOf = <T>(shape: { [K in keyof T]: Validator<T[K]> }): Validator<T> => (value, path, errors) => {
+  const source = (value && typeof value === 'object' && !Array.isArray(value)) ? value as Record<string, unknown> : {};
+  if (source !== value) errors.push(`${path}: expected an object`);
+  const out = {} as T;
+  (Object.keys(shape) as (keyof T)[]).forEach(key => {
+    const parsed = shape[key](source[key as string], `${path}.${String(key)}`, errors);
+    if (parsed !== undefined) out[key] = parsed;
+  });
+  return out;
+};
+
+const oneOf = <T extends string>(allowed: readonly T[]): Validator<T> => (value, path, errors) => {
+  const normalized = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  const match = allowed.find(option => option.toLowerCase() === normalized);
+  if (!match) errors.push(`${path}: must be one of ${allowed.join(', ')}, got ${JSON.stringify(value)}`);
+  return match || allowed[0];
+};
+
+// --- Classification ---
+
+export interface ClassificationResponse {
+  documentType: ExtractionDocType;
+  vendorName?: string; // Picks the reviewer hints for the extraction prompt
+}
+
+export const classificationResponseValidator: Validator<ClassificationResponse> = objectOf<ClassificationResponse>({
+  documentType: oneOf(['invoice', 'creditNote', 'receipt', 'packingSlip', 'billOfLading'] as const),
+  vendorName: optionalString
+});
+
+// --- Extraction ---
+
+export interface ExtractedLineItem {
+  sku: string;
+  description: string;
+  glCategory: string;
+  quantity: number;
+  unitPrice: number;
+  totalAmount: number;
+  unitOfMeasure?: string;
+  packSize?: number;
+  weight?: number;
+  freightClass?: string;
+  glConfidence?: number;
+  glReasoning?: string;
+  sourcePage?: number;
+  sourceRegion?: Record<string, any>;
+}
+
+export interface ExtractionResponse {
+  documentType?: string;
+  vendorName?: string;
+  vendorAddress?: string;
+  vendorTaxId?: string;
+  vendorTaxIdType?: string;
+  billToName?: string;
+  billToAddress?: string;
+  shipToAddress?: string;
+  invoiceDate?: string;
+  invoiceNumber?: string;
+  originalInvoiceNumber?: string;
+  purchaseOrderNumber?: string;
+  paymentTerms?: string;
+  dueDate?: string;
+  totalAmount?: number;
+  subtotal?: number;
+  amountDue?: number;
+  taxLines?: { jurisdiction?: string, rate?: number, base?: number, amount: number }[];
+  discounts?: { description: string, amount: number }[];
+  shippingCharges?: { description: string, amount: number }[];
+  remittance?: RemittanceDetails;
+  shipment?: ShipmentDetails;
+  currencySymbol?: string;
+  language?: string;
+  languageConfidence?: number;
+  fieldRegions?: Record<string, any>;
+  containsGrandTotal?: boolean;
+  lineItems: ExtractedLineItem[];
+}
+
+const chargeLine = objectOf<{ description: string, amount: number }>({ description: (v, p, e) => optionalString(v, p, e) || '', amount: requiredNumber });
+
+const lineItemShape: { [K in keyof ExtractedLineItem]: Validator<ExtractedLineItem[K]> } = {
+  sku: (v, p, e) => optionalString(v, p, e) || '',
+  description: requiredString,
+  glCategory: (v, p, e) => optionalString(v, p, e) || '',
+  quantity: requiredNumber,
+  unitPrice: requiredNumber,
+  totalAmount: requiredNumber,
+  unitOfMeasure: optionalString,
+  packSize: optionalNumber,
+  weight: optionalNumber,
+  freightClass: optionalString,
+  glConfidence: optionalNumber,
+  glReasoning: optionalString,
+  sourcePage: optionalNumber,
+  sourceRegion: optionalObject
+};
+
+const lineItem = objectOf<ExtractedLineItem>(lineItemShape);
+
+// Packing slips and bills of lading seldom print prices; a missing one is zero, not an error
+const zeroWhenMissing: Validator<number> = (value, path, errors) => optionalNumber(value, path, errors) ?? 0;
+const shippingLineItem = objectOf<ExtractedLineItem>({ ...lineItemShape, unitPrice: zeroWhenMissing, totalAmount: zeroWhenMissing });
+
+const remittance: Validator<RemittanceDetails | undefined> = (value, path, errors) => isMissing(value) ? undefined : objectOf<RemittanceDetails>({
+  bankName: optionalString,
+  accountHolder: optionalString,
+  iban: optionalString,
+  swiftBic: optionalString,
+  accountNumber: optionalString,
+  routingNumber: optionalString
+})(value, path, errors);
+
+const shipment: Validator<ShipmentDetails | undefined> = (value, path, errors) => isMissing(value) ? undefined : objectOf<ShipmentDetails>({
+  shipperName: optionalString,
+  shipperAddress: optionalString,
+  consigneeName: optionalString,
+  consigneeAddress: optionalString,
+  carrierName: optionalString,
+  proNumber: optionalString,
+  trackingNumber: optionalString,
+  palletCount: optionalNumber,
+  pieceCount: optionalNumber,
+  grossWeight: optionalNumber,
+  weightUnit: optionalString,
+  freightClass: optionalString
+})(value, path, errors);
+
+const extractionShape = (line: Validator<ExtractedLineItem>): { [K in keyof ExtractionResponse]: Validator<ExtractionResponse[K]> } => ({
+  documentType: optionalString,
+  vendorName: optionalString,
+  vendorAddress: optionalString,
+  vendorTaxId: optionalString,
+  vendorTaxIdType: optionalString,
+  billToName: optionalString,
+  billToAddress: optionalString,
+  shipToAddress: optionalString,
+  invoiceDate: optionalString,
+  invoiceNumber: optionalString,
+  originalInvoiceNumber: optionalString,
+  purchaseOrderNumber: optionalString,
+  paymentTerms: optionalString,
+  dueDate: optionalString,
+  totalAmount: optionalNumber,
+  subtotal: optionalNumber,
+  amountDue: optionalNumber,
+  taxLines: arrayOf(objectOf({ jurisdiction: optionalString, rate: optionalNumber, base: optionalNumber, amount: requiredNumber }), false),
+  discounts: arrayOf(chargeLine, false),
+  shippingCharges: arrayOf(chargeLine, false),
+  remittance,
+  shipment,
+  currencySymbol: optionalString,
+  language: optionalString,
+  languageConfidence: optionalNumber,
+  fieldRegions: optionalObject,
+  containsGrandTotal: optionalBoolean,
+  lineItems: arrayOf(line, true)
+});
+
+export const extractionResponseValidator: Validator<ExtractionResponse> = objectOf<ExtractionResponse>(extractionShape(lineItem));
+
+export const shippingResponseValidator: Validator<ExtractionResponse> = objectOf<ExtractionResponse>(extractionShape(shippingLineItem));
+
+// --- Translation ---
+
+export interface TranslationEntry {
+  index: number;
+  translatedDescription: string;
+}
+
+export const translationResponseValidator: Validator<TranslationEntry[]> = arrayOf(objectOf<TranslationEntry>({
+  index: requiredNumber,
+  translatedDescription: requiredString
+}), true);
+
+// --- Batch audit ---
+
+export const batchAnalysisValidator: Validator<BatchAnalysisResult> = objectOf<BatchAnalysisResult>({
+  insights: arrayOf(objectOf<StrategicInsight>({
+    type: oneOf(['critical', 'warning', 'opportunity'] as const),
+    title: requiredString,
+    message: requiredString,
+    potential_savings: optionalString
+  }), true)
+});
@@ -0,0 +1,191 @@
+import { BaseUnit, InvoiceData, LineItem, MatchTolerances } from "../types";
+import { vendorNameSimilarity } from '../utils/vendorNames';
+import { isShippingDocument } from '../utils/documentTypes';
+
+// Three-way match: purchase orders, receiving documents (packing slips, BOLs) and invoices that cite the
+// same PO number are grouped, their lines are joined by SKU (or description), and ordered, received and
+// billed quantities and prices are compared within the workspace's tolerances.
+
+export type MatchRole = 'order' | 'receipt' | 'invoice';
+
+export type VarianceKind = 'billedOverReceived' | 'billedOverOrdered' | 'receivedOverOrdered' | 'priceVariance' | 'notOrdered';
+
+export interface MatchVariance {
+  kind: VarianceKind;
+  expected?: number; // The PO or receipt figure the line was held against
+  actual?: number;
+}
+
+export interface MatchLine {
+  key: string;
+  sku: string;
+  description: string;
+  unit: string; // Unit the quantities below are counted in: a base unit when every side has one
+  ordered?: number; // Unset when no document of that role lists the line
+  received?: number;
+  billed?: number;
+  orderedPrice?: number; // Per unit above
+  billedPrice?: number;
+  variances: MatchVariance[];
+}
+
+export type MatchStatus = 'matched' | 'variance' | 'incomplete';
+
+export interface MatchGroup {
+  key: string;
+  poNumber: string;
+  vendorName: string;
+  orders: InvoiceData[];
+  receipts: InvoiceData[];
+  invoices: InvoiceData[];
+  lines: MatchLine[];
+  missing: MatchRole[]; // Roles with no document yet
+  status: MatchStatus;
+}
+
+export const DEFAULT_MATCH_TOLERANCES: MatchTolerances = { quantityPercent: 0, pricePercent: 1, priceAbsolute: 0.01 };
+
+// Receiving and billing documents from suppliers this different are never matched, even on the same PO number
+const SAME_VENDOR_MIN = 0.6;
+
+export const documentRole = (doc: InvoiceData): MatchRole => {
+  const type = (doc.documentType || '').toUpperCase();
+  if (type.includes('PURCHASE ORDER')) return 'order';
+  if (isShippingDocument(doc)) return 'receipt';
+  return 'invoice';
+};
+
+const alphanumeric = (value?: string) => (value || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// A purchase order's own number is its PO number
+const poKey = (doc: InvoiceData) => alphanumeric(doc.purchaseOrderNumber || (documentRole(doc) === 'order' ? doc.invoiceNumber : ''));
+
+interface RoleTotals {
+  quantity: number;
+  baseQuantity: number;
+  baseUnit: BaseUnit | null; // null once a line without a base unit, or with another one, is added
+  amount: number;
+  priced: boolean; // Packing slips usually print no prices
+}
+
+interface LineAccumulator {
+  sku: string;
+  description: string;
+  unitOfMeasure: string;
+  totals: Partial<Record<MatchRole, RoleTotals>>;
+}
+
+const addLine = (totals: RoleTotals | undefined, line: LineItem): RoleTotals => {
+  const amount = line.totalAmount || line.quantity * line.unitPrice;
+  const sameBase = !!line.baseUnit && line.baseQuantity !== undefined && (!totals || totals.baseUnit === line.baseUnit);
+  return {
+    quantity: (totals?.quantity || 0) + line.quantity,
+    baseQuantity: (totals?.baseQuantity || 0) + (line.baseQuantity || 0),
+    baseUnit: sameBase ? line.baseUnit! : null,
+    amount: (totals?.amount || 0) + amount,
+    priced: (totals?.priced || false) || amount !== 0
+  };
+};
+
+const round = (value: number) => parseFloat(value.toFixed(4));
+
+const exceeds = (actual: number, expected: number, percent: number) => actual > expected * (1 + percent / 100) + 1e-9;
+
+// Compare one joined line across the roles present in its group.
+const compareLine = (key: string, line: LineAccumulator, roles: Set<MatchRole>, tolerances: MatchTolerances): MatchLine => {
+  const present = (['order', 'receipt', 'invoice'] as MatchRole[]).map(role => line.totals[role]).filter((t): t is RoleTotals => !!t);
+  const baseUnit = present.length > 0 && present.every(t => t.baseUnit && t.baseUnit === present[0].baseUnit) ? present[0].baseUnit : null;
+  const quantity = (role: MatchRole) => {
+    const totals = line.totals[role];
+    if (!totals) return roles.has(role) ? 0 : undefined; // Missing from a document of that role counts as none
+    return round(baseUnit ? totals.baseQuantity : totals.quantity);
+  };
+  const price = (role: MatchRole) => {
+    const totals = line.totals[role];
+    const qty = quantity(role);
+    return totals?.priced && qty ? round(totals.amount / qty) : undefined;
+  };
+
+  const ordered = quantity('order');
+  const received = quantity('receipt');
+  const billed = quantity('invoice');
+  const orderedPrice = price('order');
+  const billedPrice = price('invoice');
+
+  const variances: MatchVariance[] = [];
+  if (roles.has('order') && !line.totals.order) variances.push({ kind: 'notOrdered' });
+  else {
+    if (ordered !== undefined && received !== undefined && exceeds(received, ordered, tolerances.quantityPercent)) variances.push({ kind: 'receivedOverOrdered', expected: ordered, actual: received });
+    if (ordered !== undefined && billed !== undefined && exceeds(billed, ordered, tolerances.quantityPercent)) variances.push({ kind: 'billedOverOrdered', expected: ordered, actual: billed });
+  }
+  if (received !== undefined && billed !== undefined && exceeds(billed, received, tolerances.quantityPercent)) variances.push({ kind: 'billedOverReceived', expected: received, actual: billed });
+  if (orderedPrice !== undefined && billedPrice !== undefined && Math.abs(billedPrice - orderedPrice) > Math.max(tolerances.priceAbsolute, orderedPrice * tolerances.pricePercent / 100)) {
+    variances.push({ kind: 'priceVariance', expected: orderedPrice, actual: billedPrice });
+  }
+
+  return { key, sku: line.sku, description: line.description, unit: baseUnit || line.unitOfMeasure, ordered, received, billed, orderedPrice, billedPrice, variances };
+};
+
+const joinLines = (docs: InvoiceData[], tolerances: MatchTolerances): MatchLine[] => {
+  const descriptionKey = (line: LineItem) => `desc:${line.description.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '')}`;
+  // A line printed without its SKU joins the SKU line with the same description
+  const skuByDescription = new Map<string, string>();
+  docs.forEach(doc => doc.lineItems.forEach(line => {
+    if (alphanumeric(line.sku)) skuByDescription.set(descriptionKey(line), alphanumeric(line.sku));
+  }));
+
+  const lines = new Map<string, LineAccumulator>();
+  const roles = new Set<MatchRole>();
+  docs.forEach(doc => {
+    const role = documentRole(doc);
+    roles.add(role);
+    doc.lineItems.forEach(line => {
+      const key = alphanumeric(line.sku) || skuByDescription.get(descriptionKey(line)) || descriptionKey(line);
+      const entry = lines.get(key) || { sku: line.sku, description: line.description, unitOfMeasure: line.unitOfMeasure || '', totals: {} };
+      entry.totals[role] = addLine(entry.totals[role], line);
+      // The PO's wording wins for display
+      if (role === 'order') entry.description = line.description;
+      lines.set(key, entry);
+    });
+  });
+
+  const result: MatchLine[] = [];
+  lines.forEach((line, key) => result.push(compareLine(key, line, roles, tolerances)));
+  return result;
+};
+
+// Links the session's documents by PO number and vendor. Only groups of two or more documents are returned.
+export const buildMatchGroups = (history: InvoiceData[], tolerances: MatchTolerances = DEFAULT_MATCH_TOLERANCES): MatchGroup[] => {
+  // The buyer often ends up as the "vendor" of its own purchase orders, so orders join on the PO number alone
+  const clusters: { po: string, vendorName: string, docs: InvoiceData[] }[] = [];
+  const orders = new Map<string, InvoiceData[]>();
+  history.forEach(doc => {
+    const po = poKey(doc);
+    if (!po) return;
+    if (documentRole(doc) === 'order') {
+      orders.set(po, [...(orders.get(po) || []), doc]);
+      return;
+    }
+    const cluster = clusters.find(c => c.po === po && vendorNameSimilarity(c.vendorName, doc.vendorName) >= SAME_VENDOR_MIN);
+    if (cluster) cluster.docs.push(doc);
+    else clusters.push({ po, vendorName: doc.vendorName, docs: [doc] });
+  });
+  orders.forEach((poDocs, po) => {
+    const matching = clusters.filter(c => c.po === po);
+    if (matching.length === 0) clusters.push({ po, vendorName: poDocs[0].vendorName, docs: [...poDocs] });
+    else matching.forEach(cluster => cluster.docs.unshift(...poDocs));
+  });
+
+  return clusters.filter(cluster => cluster.docs.length > 1).map(cluster => {
+    const byRole = (role: MatchRole) => cluster.docs.filter(doc => documentRole(doc) === role);
+    const group = { orders: byRole('order'), receipts: byRole('receipt'), invoices: byRole('invoice') };
+    const lines = joinLines(cluster.docs, tolerances);
+    const missing = (['order', 'receipt', 'invoice'] as MatchRole[]).filter(role => byRole(role).length === 0);
+    const poNumber = (cluster.docs.find(doc => doc.purchaseOrderNumber)?.purchaseOrderNumber || group.orders[0]?.invoiceNumber || cluster.po).trim();
+    const status: MatchStatus = lines.some(line => line.variances.length > 0) ? 'variance' : missing.length > 0 ? 'incomplete' : 'matched';
+    return { key: `${cluster.po}:${cluster.vendorName}`, poNumber, vendorName: (group.invoices[0] || group.receipts[0] || group.orders[0]).vendorName, ...group, lines, missing, status };
+  });
+};
+
+export const findMatchGroup = (groups: MatchGroup[], documentId: string): MatchGroup | undefined =>
+  groups.find(group => [...group.orders, ...group.receipts, ...group.invoices].some(doc => doc.id === documentId));
@@ -0,0 +1,256 @@
+import { InvoiceData, LineItem, PeppolSettings } from "../types";
+import { SYMBOL_MAP } from '../utils/currency';
+import { TaxIdScheme, validateTaxId } from '../utils/taxIdValidation';
+import { uneceUnitCode } from '../utils/unitConversion';
+import { isCreditNote } from '../utils/documentTypes';
+import { writeXml, xmlGroup, xmlLeaf, XmlOutputElement } from '../utils/xmlDocument';
+import { createZip } from '../utils/zipArchive';
+import { normalizeIban } from '../utils/bankDetails';
+
+// Peppol BIS Billing 3.0 export: each document becomes a UBL 2.1 Invoice or CreditNote. Credit notes are
+// written with positive amounts, as UBL expects. Business terms (BT-…) of EN 16931 that Peppol requires
+// and the document lacks are reported as issues; the XML is still written, without them.
+
+const CUSTOMIZATION_ID = 'urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0';
+const PROFILE_ID = 'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0';
+const CAC = 'urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2';
+const CBC = 'urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2';
+
+// Peppol electronic address schemes (EAS) for VAT numbers, by VAT prefix
+const VAT_ENDPOINT_SCHEMES: Record<string, string> = {
+  AT: '9914', BE: '9925', BG: '9926', CY: '9928', CZ: '9929', DE: '9930', EE: '9931', EL: '9933', ES: '9920',
+  FR: '9957', GB: '9932', HR: '9934', HU: '9910', IE: '9935', IT: '9906', LT: '9937', LU: '9938', LV: '9939',
+  MT: '9943', NL: '9944', PL: '9945', PT: '9946', RO: '9947', SI: '9949', SK: '9950'
+};
+
+// IBAN countries in the SEPA scheme; SEPA credit transfers (payment means 58) are euro only
+const SEPA_COUNTRIES = new Set([
+  'AD', 'AT', 'BE', 'BG', 'CH', 'CY', 'CZ', 'DE', 'DK', 'EE', 'ES', 'FI', 'FR', 'GB', 'GI', 'GR', 'HR', 'HU', 'IE', 'IS',
+  'IT', 'LI', 'LT', 'LU', 'LV', 'MC', 'MT', 'NL', 'NO', 'PL', 'PT', 'RO', 'SE', 'SI', 'SK', 'SM', 'VA'
+]);
+
+const TAX_ID_COUNTRIES: Partial<Record<TaxIdScheme, string>> = { GB_VAT: 'GB', RFC: 'MX', EIN: 'US', GSTIN: 'IN' };
+
+export interface UblIssue {
+  term: string; // EN 16931 business term or group, e.g. 'BT-34'
+  message: string;
+}
+
+export interface UblDocument {
+  invoice: InvoiceData;
+  fileName: string;
+  xml: string;
+  issues: UblIssue[]; // Mandatory terms the document lacks; empty when it is complete
+}
+
+interface VatBreakdown {
+  category: string; // UNCL 5305: 'S' standard rated, 'Z' zero rated
+  rate: number;
+  base: number;
+  amount: number;
+}
+
+const money = (value: number) => (Math.round(value * 100) / 100 + 0).toFixed(2);
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const quantityText = (value: number) => String(parseFloat(value.toFixed(4)) + 0);
+
+// 'Hauptstr. 1, 10115 Berlin, DE' -> 'DE'
+const trailingCountry = (address?: string): string | undefined => {
+  const last = (address || '').trim().split(/[\s,]+/).pop();
+  return last && /^[A-Z]{2}$/.test(last) ? last : undefined;
+};
+
+const currencyCodeOf = (symbol: string): string | undefined => /^[A-Z]{3}$/.test(symbol) ? symbol : SYMBOL_MAP[symbol];
+
+const sellerOf = (doc: InvoiceData) => {
+  const tax = validateTaxId(doc.vendorTaxId, doc.vendorTaxIdType);
+  const isVat = !!tax?.isValid && (tax.scheme === 'EU_VAT' || tax.scheme === 'GB_VAT');
+  const prefixCountry = tax?.country === 'EL' ? 'GR' : tax?.country;
+  const endpointScheme = isVat && tax ? VAT_ENDPOINT_SCHEMES[tax.normalized.slice(0, 2)] : undefined;
+  return {
+    name: doc.vendorName.trim() || undefined,
+    country: trailingCountry(doc.vendorAddress) || prefixCountry || (tax ? TAX_ID_COUNTRIES[tax.scheme] : undefined),
+    vatId: isVat && tax ? tax.normalized : undefined,
+    legalId: !isVat ? doc.vendorTaxId?.trim() || undefined : undefined, // Tax IDs Peppol has no VAT scheme for
+    endpoint: endpointScheme && tax ? { scheme: endpointScheme, id: tax.normalized } : undefined
+  };
+};
+
+const buyerOf = (doc: InvoiceData, settings: PeppolSettings) => {
+  const [scheme, ...identifier] = (settings.buyerEndpointId || '').split(':');
+  return {
+    name: doc.billToName?.trim() || undefined,
+    country: trailingCountry(doc.billToAddress) || settings.buyerCountry?.trim().toUpperCase() || undefined,
+    endpoint: identifier.length > 0 && scheme.trim() ? { scheme: scheme.trim(), id: identifier.join(':').trim() } : undefined
+  };
+};
+
+// One breakdown per tax line. Rates the model left out are derived from the taxable base; a single
+// tax line without a base applies to the whole taxable amount.
+const vatBreakdownOf = (doc: InvoiceData, sign: number, taxExclusive: number): (VatBreakdown | { rate: undefined })[] => {
+  const taxLines = doc.taxLines || [];
+  return taxLines.map(tax => {
+    const amount = tax.amount * sign;
+    const base = tax.base !== undefined ? tax.base * sign : taxLines.length === 1 ? taxExclusive : tax.rate ? amount * 100 / tax.rate : undefined;
+    const rate = tax.rate ?? (base ? round2(amount / base * 100) : undefined);
+    if (rate === undefined || base === undefined) return { rate: undefined };
+    return { category: rate > 0 ? 'S' : 'Z', rate, base, amount };
+  });
+};
+
+const taxCategory = (name: string, vat: VatBreakdown) => xmlGroup(name, [
+  xmlLeaf('cbc:ID', vat.category),
+  xmlLeaf('cbc:Percent', vat.rate),
+  xmlGroup('cac:TaxScheme', [xmlLeaf('cbc:ID', 'VAT')])
+]);
+
+// The price the line total works out to, unless the printed unit price already does
+const linePrice = (item: LineItem): number => {
+  if (!item.quantity || Math.abs(item.quantity * item.unitPrice - item.totalAmount) <= 0.01) return Math.abs(item.unitPrice);
+  return Math.abs(item.totalAmount / item.quantity);
+};
+
+const fileNamePart = (value: string) => value.replace(/[^\p{L}\p{N}._-]+/gu, '_').replace(/^_+|_+$/g, '').slice(0, 60);
+
+// UBL XML of one document and the mandatory Peppol terms it is missing
+export const buildUblInvoice = (doc: InvoiceData, settings: PeppolSettings = {}): UblDocument => {
+  const issues: UblIssue[] = [];
+  const require = (present: unknown, term: string, message: string) => { if (!present) issues.push({ term, message }); };
+
+  const credit = isCreditNote(doc);
+  const sign = credit ? -1 : 1; // Credit notes are stored negative and written positive
+  const root = credit ? 'CreditNote' : 'Invoice';
+  const currency = currencyCodeOf(doc.currencySymbol || '$');
+  const currencyAttribute = { currencyID: currency || 'XXX' };
+  const seller = sellerOf(doc);
+  const buyer = buyerOf(doc, settings);
+
+  const lineExtension = round2(doc.lineItems.reduce((sum, item) => sum + round2(item.totalAmount * sign), 0));
+  // Discounts and charges may be stored with either sign; like reconcileTotals, their direction comes from the kind
+  const allowanceTotal = round2((doc.discounts || []).reduce((sum, charge) => sum + Math.abs(charge.amount), 0));
+  const chargeTotal = round2((doc.shippingCharges || []).reduce((sum, charge) => sum + Math.abs(charge.amount), 0));
+  const taxExclusive = round2(lineExtension - allowanceTotal + chargeTotal);
+  const breakdown = vatBreakdownOf(doc, sign, taxExclusive);
+  const vat = breakdown.filter((entry): entry is VatBreakdown => entry.rate !== undefined);
+  // Lines and document charges need a VAT category; without a breakdown they are declared zero rated
+  const defaultVat: VatBreakdown = vat[0] || { category: 'Z', rate: 0, base: taxExclusive, amount: 0 };
+  const taxTotal = round2(vat.reduce((sum, entry) => sum + entry.amount, 0));
+  const taxInclusive = round2(taxExclusive + taxTotal);
+  const due = doc.amountDue !== undefined ? round2(doc.amountDue * sign) : taxInclusive;
+  const prepaid = due < taxInclusive ? round2(taxInclusive - due) : 0;
+  const payable = round2(taxInclusive - prepaid);
+
+  require(doc.invoiceNumber?.trim(), 'BT-1', 'Invoice number');
+  require(/^\d{4}-\d{2}-\d{2}$/.test(doc.invoiceDate || ''), 'BT-2', 'Issue date (YYYY-MM-DD)');
+  require(currency, 'BT-5', `Currency code; '${doc.currencySymbol}' is not a known currency`);
+  require(settings.buyerReference?.trim() || doc.purchaseOrderNumber?.trim(), 'BT-10', 'Buyer reference (workspace setting) or purchase order number (BT-13)');
+  require(payable <= 0 || doc.dueDate || doc.paymentTerms, 'BT-9', 'Payment due date or payment terms (BT-20)');
+  require(seller.name, 'BT-27', 'Seller name');
+  require(seller.endpoint, 'BT-34', 'Seller electronic address; needs a valid EU or UK VAT number');
+  require(seller.country, 'BT-40', 'Seller country code');
+  require(!vat.some(entry => entry.category === 'S') || seller.vatId, 'BT-31', 'Seller VAT identifier, required for standard-rated VAT');
+  require(buyer.name, 'BT-44', 'Buyer name (bill-to)');
+  require(buyer.endpoint, 'BT-49', 'Buyer electronic address (workspace setting)');
+  require(buyer.country, 'BT-55', 'Buyer country code');
+  require(vat.length > 0, 'BG-23', 'VAT breakdown; written as zero rated');
+  require(vat.length === breakdown.length, 'BT-119', 'VAT rate of a tax line');
+  require(vat.length <= 1, 'BT-151', 'Line VAT category; the document has several rates, so every line gets the first');
+  require(doc.lineItems.length > 0, 'BG-25', 'At least one invoice line');
+  doc.lineItems.forEach((item, i) => require(item.description.trim(), 'BT-153', `Item name of line ${i + 1}`));
+  require(Math.abs(taxInclusive - doc.totalAmount * sign) <= 0.01, 'BR-CO-15', `Lines, charges and tax add up to ${money(taxInclusive)}, not the total of ${money(doc.totalAmount * sign)}`);
+
+  const account = doc.remittance?.iban || doc.remittance?.accountNumber;
+  const sepa = !!doc.remittance?.iban && currency === 'EUR' && SEPA_COUNTRIES.has(normalizeIban(doc.remittance.iban).slice(0, 2));
+  const paymentMeans = account && xmlGroup('cac:PaymentMeans', [
+    xmlLeaf('cbc:PaymentMeansCode', sepa ? '58' : '30'), // SEPA credit transfer, credit transfer
+    credit && xmlLeaf('cbc:PaymentDueDate', doc.dueDate),
+    xmlGroup('cac:PayeeFinancialAccount', [
+      xmlLeaf('cbc:ID', account.replace(/\s+/g, '')),
+      xmlLeaf('cbc:Name', doc.remittance?.accountHolder),
+      xmlGroup('cac:FinancialInstitutionBranch', [xmlLeaf('cbc:ID', doc.remittance?.swiftBic)])
+    ])
+  ]);
+
+  const charges = [
+    ...(doc.discounts || []).map(charge => ({ charge, isCharge: false })),
+    ...(doc.shippingCharges || []).map(charge => ({ charge, isCharge: true }))
+  ].map(({ charge, isCharge }) => xmlGroup('cac:AllowanceCharge', [
+    xmlLeaf('cbc:ChargeIndicator', String(isCharge)),
+    xmlLeaf('cbc:AllowanceChargeReason', charge.description || (isCharge ? 'Charge' : 'Discount')),
+    xmlLeaf('cbc:Amount', money(Math.abs(charge.amount)), currencyAttribute),
+    taxCategory('cac:TaxCategory', defaultVat)
+  ]));
+
+  const lines = doc.lineItems.map((item, i) => xmlGroup(`cac:${root}Line`, [
+    xmlLeaf('cbc:ID', i + 1),
+    xmlLeaf(credit ? 'cbc:CreditedQuantity' : 'cbc:InvoicedQuantity', quantityText(item.quantity * sign), { unitCode: uneceUnitCode(item.unitOfMeasure) }),
+    xmlLeaf('cbc:LineExtensionAmount', money(item.totalAmount * sign), currencyAttribute),
+    xmlLeaf('cbc:AccountingCost', item.glCategory), // BT-133, the buyer's accounting reference
+    xmlGroup('cac:Item', [
+      xmlLeaf('cbc:Name', item.description.trim()),
+      xmlGroup('cac:SellersItemIdentification', [xmlLeaf('cbc:ID', item.sku.trim())]),
+      taxCategory('cac:ClassifiedTaxCategory', defaultVat)
+    ]),
+    xmlGroup('cac:Price', [xmlLeaf('cbc:PriceAmount', String(parseFloat(linePrice(item).toFixed(4))), currencyAttribute)])
+  ]));
+
+  const document = xmlGroup(root, [
+    xmlLeaf('cbc:CustomizationID', CUSTOMIZATION_ID),
+    xmlLeaf('cbc:ProfileID', PROFILE_ID),
+    xmlLeaf('cbc:ID', doc.invoiceNumber?.trim()),
+    xmlLeaf('cbc:IssueDate', doc.invoiceDate),
+    !credit && xmlLeaf('cbc:DueDate', doc.dueDate),
+    xmlLeaf(credit ? 'cbc:CreditNoteTypeCode' : 'cbc:InvoiceTypeCode', credit ? '381' : '380'),
+    xmlLeaf('cbc:DocumentCurrencyCode', currency),
+    xmlLeaf('cbc:BuyerReference', settings.buyerReference?.trim()),
+    xmlGroup('cac:OrderReference', [xmlLeaf('cbc:ID', doc.purchaseOrderNumber?.trim())]),
+    credit && xmlGroup('cac:BillingReference', [xmlGroup('cac:InvoiceDocumentReference', [xmlLeaf('cbc:ID', doc.originalInvoiceNumber?.trim())])]),
+    xmlGroup('cac:AccountingSupplierParty', [xmlGroup('cac:Party', [
+      seller.endpoint && xmlLeaf('cbc:EndpointID', seller.endpoint.id, { schemeID: seller.endpoint.scheme }),
+      xmlGroup('cac:PartyName', [xmlLeaf('cbc:Name', seller.name)]),
+      xmlGroup('cac:PostalAddress', [xmlLeaf('cbc:StreetName', doc.vendorAddress?.trim()), xmlGroup('cac:Country', [xmlLeaf('cbc:IdentificationCode', seller.country)])]),
+      seller.vatId && xmlGroup('cac:PartyTaxScheme', [xmlLeaf('cbc:CompanyID', seller.vatId), xmlGroup('cac:TaxScheme', [xmlLeaf('cbc:ID', 'VAT')])]),
+      xmlGroup('cac:PartyLegalEntity', [xmlLeaf('cbc:RegistrationName', seller.name), xmlLeaf('cbc:CompanyID', seller.legalId)])
+    ])]),
+    xmlGroup('cac:AccountingCustomerParty', [xmlGroup('cac:Party', [
+      buyer.endpoint && xmlLeaf('cbc:EndpointID', buyer.endpoint.id, { schemeID: buyer.endpoint.scheme }),
+      xmlGroup('cac:PostalAddress', [xmlLeaf('cbc:StreetName', doc.billToAddress?.trim()), xmlGroup('cac:Country', [xmlLeaf('cbc:IdentificationCode', buyer.country)])]),
+      xmlGroup('cac:PartyLegalEntity', [xmlLeaf('cbc:RegistrationName', buyer.name)])
+    ])]),
+    paymentMeans,
+    xmlGroup('cac:PaymentTerms', [xmlLeaf('cbc:Note', doc.paymentTerms?.trim())]),
+    ...charges,
+    xmlGroup('cac:TaxTotal', [
+      xmlLeaf('cbc:TaxAmount', money(taxTotal), currencyAttribute),
+      ...(vat.length > 0 ? vat : [defaultVat]).map(entry => xmlGroup('cac:TaxSubtotal', [
+        xmlLeaf('cbc:TaxableAmount', money(entry.base), currencyAttribute),
+        xmlLeaf('cbc:TaxAmount', money(entry.amount), currencyAttribute),
+        taxCategory('cac:TaxCategory', entry)
+      ]))
+    ]),
+    xmlGroup('cac:LegalMonetaryTotal', [
+      xmlLeaf('cbc:LineExtensionAmount', money(lineExtension), currencyAttribute),
+      xmlLeaf('cbc:TaxExclusiveAmount', money(taxExclusive), currencyAttribute),
+      xmlLeaf('cbc:TaxInclusiveAmount', money(taxInclusive), currencyAttribute),
+      allowanceTotal > 0 && xmlLeaf('cbc:AllowanceTotalAmount', money(allowanceTotal), currencyAttribute),
+      chargeTotal > 0 && xmlLeaf('cbc:ChargeTotalAmount', money(chargeTotal), currencyAttribute),
+      prepaid > 0 && xmlLeaf('cbc:PrepaidAmount', money(prepaid), currencyAttribute),
+      xmlLeaf('cbc:PayableAmount', money(payable), currencyAttribute)
+    ]),
+    ...lines
+  ], { xmlns: `urn:oasis:names:specification:ubl:schema:xsd:${root}-2`, 'xmlns:cac': CAC, 'xmlns:cbc': CBC }) as XmlOutputElement;
+
+  const fileName = `${[fileNamePart(doc.vendorName), fileNamePart(doc.invoiceNumber || '')].filter(Boolean).join('_') || 'invoice'}.xml`;
+  return { invoice: doc, fileName, xml: writeXml(document), issues };
+};
+
+// One archive for a session export; file names are made unique within it
+export const bundleUblDocuments = (documents: UblDocument[]): Uint8Array => {
+  const used = new Set<string>();
+  return createZip(documents.map(({ fileName, xml }) => {
+    let name = fileName;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = fileName.replace(/\.xml$/, `_${n}.xml`);
+    used.add(name.toLowerCase());
+    return { name, data: new TextEncoder().encode(xml) };
+  }));
+};
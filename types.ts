@@ -1,3 +1,21 @@
+// Where on the source document a value was read. Coordinates are fractions (0-1) of the page size.
+export interface SourceRegion {
+  page: number; // 1-based
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// The field a reviewer is currently editing, used to highlight its source region
+export interface FieldFocus {
+  field: string; // Header field name, or 'lineItem' with lineIndex set
+  lineIndex?: number;
+}
+
+// Base unit of each quantity dimension, see utils/unitConversion.ts
+export type BaseUnit = 'each' | 'kg' | 'L';
+
 export interface LineItem {
   sku: string;
   description: string;
@@ -5,23 +23,150 @@ export interface LineItem {
   unitPrice: number;
   totalAmount: number;
   glCategory: string;
+  unitOfMeasure?: string; // As printed: 'CS', 'kg', 'each'
+  packSize?: number; // Units inside one unitOfMeasure, e.g. 24 for a case of 24
+  // Derived from the three above by normalizeLineUnits; unset when the unit is not convertible
+  baseUnit?: BaseUnit;
+  baseQuantity?: number;
+  baseUnitPrice?: number;
+  weight?: number; // Shipping documents: weight of the line in the shipment's weightUnit
+  freightClass?: string; // NMFC class printed on a bill of lading line, e.g. '70'
   // AI Enhancements
   glConfidence?: number; // 0-100
   glReasoning?: string;
+  sourcePage?: number; // 1-based page of the source document this row was read from
+  sourceRegion?: SourceRegion; // Bounding box of the whole row
+}
+
+export interface TaxLine {
+  jurisdiction?: string; // e.g. 'DE VAT', 'CA State Sales Tax'
+  rate?: number; // Percent, e.g. 19 for 19%
+  base?: number; // Taxable amount the rate applies to
+  amount: number;
+}
+
+// Document-level adjustment such as a discount or a freight surcharge. Amounts are positive.
+export interface ChargeLine {
+  description: string;
+  amount: number;
+}
+
+export interface RemittanceDetails {
+  bankName?: string;
+  accountHolder?: string; // Beneficiary name on the account
+  iban?: string;
+  swiftBic?: string;
+  accountNumber?: string; // Domestic account number when no IBAN is printed
+  routingNumber?: string; // ABA routing number / sort code / BSB
+}
+
+// Carrier and consignment details printed on packing slips and bills of lading
+export interface ShipmentDetails {
+  shipperName?: string; // Ship-from party; usually the vendor
+  shipperAddress?: string;
+  consigneeName?: string; // Ship-to party
+  consigneeAddress?: string;
+  carrierName?: string;
+  proNumber?: string; // Carrier's progressive (PRO) number
+  trackingNumber?: string;
+  palletCount?: number;
+  pieceCount?: number; // Packages or handling units
+  grossWeight?: number;
+  weightUnit?: string; // 'lb' or 'kg', as printed
+  freightClass?: string; // NMFC class for the whole shipment
+}
+
+// Raised when a known vendor asks to be paid into an account we have not seen for them before
+export interface RemittanceAlert {
+  source: 'session' | 'vendorMaster';
+  knownDetails: RemittanceDetails; // The details on file we compared against
+  referenceInvoiceId?: string; // Session document the known details came from
+  referenceLabel?: string; // Human-readable reference (invoice number or 'Vendor master')
+}
+
+// The email a document arrived in, when it was taken from a dropped .eml file
+export interface EmailProvenance {
+  from?: string; // Sender as printed, e.g. 'Acme Billing <billing@acme.com>'
+  subject?: string;
+  receivedAt?: string; // ISO timestamp from the last Received hop, else the Date header
+  messageId?: string;
+  emailFileName: string; // The .eml file that was dropped
+  part: 'attachment' | 'body'; // An attached file, or the message body itself
+}
+
+// Machine-readable invoice syntaxes read without a model
+export type EInvoiceFormat = 'ubl' | 'cii' | 'cfdi';
+
+// Set when the document was parsed from structured e-invoice XML instead of extracted by a model
+export interface EInvoiceSource {
+  format: EInvoiceFormat;
+  profile?: string; // UBL CustomizationID, CII guideline ID or CFDI version, e.g. 'urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0'
+  embeddedInPdf?: boolean; // Factur-X / ZUGFeRD: the XML came out of a PDF/A-3 attachment
+  fileName?: string; // Name of the embedded XML file
+}
+
+export interface VendorMasterEntry {
+  vendorName: string;
+  vendorTaxId?: string;
+  remittance: RemittanceDetails;
+}
+
+// Tokens billed for model calls, one entry per model
+export interface TokenUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number; // Includes thinking tokens where the provider reports them
+  calls: number;
+}
+
+// A reviewer's fix to an extracted value, remembered per vendor and fed back into later prompts
+export interface ReviewerCorrection {
+  id: string; // Stable per document, field and line, so re-editing replaces instead of piling up
+  invoiceId: string;
+  vendorName: string; // As corrected
+  extractedVendorName?: string; // As the model read it, when the reviewer renamed the vendor
+  field: string; // Header field name, or the line item field for line corrections
+  line?: string; // Which line: its SKU or original description
+  from: string;
+  to: string;
+  recordedAt: number;
 }
 
 export interface InvoiceData {
   id: string; // Unique session ID
   documentType: string;
   vendorName: string;
+  vendorAddress?: string;
+  vendorTaxId?: string; // VAT / GSTIN / EIN / RFC as printed
+  vendorTaxIdType?: string; // Scheme reported by the model, e.g. 'VAT', 'GST', 'EIN', 'RFC'
+  billToName?: string;
+  billToAddress?: string;
+  shipToAddress?: string;
   invoiceDate: string;
-  totalAmount: number;
+  invoiceNumber?: string;
+  originalInvoiceNumber?: string; // Credit notes: number of the invoice being credited, as printed
+  purchaseOrderNumber?: string;
+  paymentTerms?: string; // As printed, e.g. 'Net 30', '2/10 Net 30'
+  dueDate?: string; // YYYY-MM-DD
+  totalAmount: number; // Negative on credit notes, as are their subtotal, tax and line totals
   currencySymbol: string;
   lineItems: LineItem[];
+  subtotal?: number; // Sum of goods/services before tax, shipping and discounts
+  taxLines?: TaxLine[];
+  discounts?: ChargeLine[];
+  shippingCharges?: ChargeLine[];
+  amountDue?: number; // Balance payable after deposits/prepayments; usually equals totalAmount
   language?: string; // Tracks the current language of the data (e.g., 'Original', 'English')
   detectedLanguage?: string; // The language detected by AI during extraction
   originalLineItems?: LineItem[]; // Backup of the original extraction for reverting/re-translating
   processingTimeMs?: number; // Time taken to process this document
+  pageCount?: number; // Number of pages in the source document
+  remittance?: RemittanceDetails; // Bank details the vendor wants to be paid into
+  remittanceAlert?: RemittanceAlert; // Set when remittance differs from what we know for this vendor
+  shipment?: ShipmentDetails; // Packing slips and bills of lading only
+  sourceEmail?: EmailProvenance; // Set when the document came out of an email
+  eInvoice?: EInvoiceSource; // Set when the data was read from e-invoice XML, not a model
+  fieldRegions?: Record<string, SourceRegion>; // Header field name (e.g. 'vendorName') -> where it was read
   isDemo?: boolean; // Flag for mock data
   languageConfidence?: number; // Confidence score for detected language
   
@@ -32,8 +177,19 @@ export interface InvoiceData {
     missingMetadata?: boolean;
     unsupportedCurrency?: boolean; // New flag
     unsupportedLanguage?: boolean; // New flag
+    totalMismatch?: boolean; // subtotal + tax + shipping - discounts != totalAmount
+    invalidTaxId?: boolean; // Vendor tax ID fails local format/checksum validation
+    invalidIban?: boolean; // IBAN fails the ISO 13616 mod-97 check
+    bankDetailsChanged?: boolean; // Critical: known vendor, different remittance account
+    missingCreditReference?: boolean; // Credit note that does not say which invoice it credits
+    negativeInvoiceTotal?: boolean; // Invoice with a negative total; probably an unrecognized credit note
   };
   confidenceScore?: 'High' | 'Medium' | 'Low';
+  isProvisional?: boolean; // Snapshot of a response still streaming in; not yet validated or quality-checked
+  contentHash?: string; // SHA-256 of the file as sent for extraction; identical uploads share it
+  fromCache?: boolean; // Restored from the local extraction cache instead of calling the model
+  usage?: TokenUsage[]; // Model calls spent on this document: extraction, repairs and translations
+  promptVersion?: string; // Templates used for extraction, e.g. 'classification.any@2+extraction.invoice@2+pageWindow.any@1'
   
   // Sensitive Data
   hasSensitiveData?: boolean;
@@ -43,8 +199,10 @@ export interface InvoiceData {
 export interface ProcessingState {
   status: 'idle' | 'uploading' | 'processing' | 'complete' | 'error' | 'quota_cooldown';
   message?: string;
-  errorCode?: 'QUOTA_EXCEEDED' | 'READ_ERROR' | 'INVALID_FILE' | 'GENERIC';
+  errorCode?: 'QUOTA_EXCEEDED' | 'READ_ERROR' | 'INVALID_FILE' | 'INVALID_RESPONSE' | 'GENERIC';
   retryIn?: number; // Seconds until retry
+  queued?: number; // Model requests waiting in the scheduler
+  etaSeconds?: number; // Estimated time until the scheduler queue drains
 }
 
 export interface StrategicInsight {
@@ -56,4 +214,70 @@ export interface StrategicInsight {
 
 export interface BatchAnalysisResult {
   insights: StrategicInsight[];
-}
\ No newline at end of file
+}
+
+export type ProviderKind = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface ProviderSettings {
+  kind: ProviderKind;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible endpoints only, e.g. http://localhost:8000/v1
+  apiKey?: string; // Optional override; Gemini falls back to VITE_GEMINI_API_KEY
+  maxConcurrent?: number; // Parallel requests allowed against this provider
+  requestsPerMinute?: number; // Client-side cap, set to the account's quota
+}
+
+export interface ImagePreprocessingSettings {
+  enabled: boolean;
+  maxDimension: number; // Longest side in pixels after downscaling
+}
+
+// USD per million tokens. `model` also matches versioned ids that start with it, e.g. 'gemini-2.5-flash-001'.
+export interface ModelPrice {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface CostSettings {
+  prices: ModelPrice[];
+  sessionBudgetUsd?: number; // The queue pauses once the session has spent this much
+}
+
+export type PromptTask = 'classification' | 'extraction' | 'pageWindow' | 'translation' | 'audit';
+// 'any' templates apply to every document type without a more specific one
+export type PromptDocType = 'invoice' | 'creditNote' | 'receipt' | 'packingSlip' | 'billOfLading' | 'any';
+// What classification can return; each has its own extraction schema
+export type ExtractionDocType = Exclude<PromptDocType, 'any'>;
+
+// A workspace's replacement for a built-in template; its version is derived from the text
+export interface PromptOverride {
+  task: PromptTask;
+  docType: PromptDocType;
+  template: string;
+}
+
+// How far received and billed figures may drift from the purchase order before a line is flagged
+export interface MatchTolerances {
+  quantityPercent: number; // Over-delivery or over-billing allowed, percent of the compared quantity
+  pricePercent: number; // Billed unit price vs ordered unit price, percent
+  priceAbsolute: number; // Price differences up to this amount are rounding, whatever the percentage
+}
+
+// Our side of a Peppol UBL export, which supplier documents do not carry
+export interface PeppolSettings {
+  buyerEndpointId?: string; // Our Peppol participant ID as 'scheme:identifier', e.g. '0088:5790000435968'
+  buyerCountry?: string; // ISO 3166-1 alpha-2, used when the bill-to address does not end in one
+  buyerReference?: string; // BT-10, for documents without a purchase order number
+}
+
+export interface WorkspaceSettings {
+  id: string;
+  name: string;
+  provider: ProviderSettings;
+  preprocessing?: ImagePreprocessingSettings; // Defaults apply when unset
+  cost?: CostSettings; // Default price table, no budget when unset
+  prompts?: PromptOverride[];
+  matching?: MatchTolerances; // Three-way match defaults when unset
+  peppol?: PeppolSettings;
+}
@@ -0,0 +1,97 @@
+import { RemittanceDetails } from "../types";
+
+// IBAN length per country (ISO 13616 registry)
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AL: 28, AT: 20, AZ: 28, BA: 20, BE: 16, BG: 22, BH: 22, BR: 29, BY: 28, CH: 21, CR: 22, CY: 28, CZ: 24,
+  DE: 22, DK: 18, DO: 28, EE: 20, EG: 29, ES: 24, FI: 18, FO: 18, FR: 27, GB: 22, GE: 22, GI: 23, GL: 18, GR: 27, GT: 28,
+  HR: 21, HU: 28, IE: 22, IL: 23, IQ: 23, IS: 26, IT: 27, JO: 30, KW: 30, KZ: 20, LB: 28, LC: 32, LI: 21, LT: 20, LU: 20,
+  LV: 21, MC: 27, MD: 24, ME: 22, MK: 19, MR: 27, MT: 31, MU: 30, NL: 18, NO: 15, PK: 24, PL: 28, PS: 29, PT: 25, QA: 29,
+  RO: 24, RS: 22, SA: 24, SC: 31, SE: 24, SI: 19, SK: 24, SM: 27, ST: 25, SV: 28, TL: 23, TN: 24, TR: 26, UA: 29, VA: 22,
+  VG: 24, XK: 20
+};
+
+// Where the domestic account number sits inside the IBAN: [start, end) offsets of the full IBAN string
+const IBAN_ACCOUNT_SEGMENTS: Record<string, [number, number]> = {
+  AT: [9, 20], CH: [9, 21], DE: [12, 22], DK: [8, 18], ES: [14, 24], FI: [7, 18], FR: [14, 25], GB: [14, 22],
+  IE: [14, 22], IT: [15, 27], LI: [9, 21], LU: [7, 20], NL: [8, 18], PL: [12, 28], PT: [12, 23], SE: [7, 24]
+};
+
+// Fewer significant characters than this could match the tail of almost any account
+const MIN_ACCOUNT_LENGTH = 6;
+
+export interface IbanValidation {
+  normalized: string;
+  isValid: boolean;
+  reason?: string;
+}
+
+export const normalizeIban = (raw: string): string => raw.toUpperCase().replace(/^IBAN[:\s]*/, '').replace(/[^A-Z0-9]/g, '');
+
+// Digits of a bank account number, so "0532 013-000" and "0532013000" compare equal
+const normalizeAccount = (raw?: string): string => (raw || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Move the first four characters to the end, map letters to 10..35 and take the number mod 97 in chunks.
+const ibanMod97 = (iban: string): number => {
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const ch of rearranged) {
+    const value = ch >= 'A' ? (ch.charCodeAt(0) - 55).toString() : ch;
+    for (const digit of value) remainder = (remainder * 10 + parseInt(digit, 10)) % 97;
+  }
+  return remainder;
+};
+
+export const validateIban = (raw?: string): IbanValidation | null => {
+  if (!raw || !raw.trim()) return null;
+  const iban = normalizeIban(raw);
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(iban)) return { normalized: iban, isValid: false, reason: 'Not an IBAN' };
+  const expectedLength = IBAN_LENGTHS[iban.slice(0, 2)];
+  if (!expectedLength) return { normalized: iban, isValid: false, reason: `Unknown IBAN country '${iban.slice(0, 2)}'` };
+  if (iban.length !== expectedLength) return { normalized: iban, isValid: false, reason: `${iban.slice(0, 2)} IBANs have ${expectedLength} characters, found ${iban.length}` };
+  if (ibanMod97(iban) !== 1) return { normalized: iban, isValid: false, reason: 'IBAN check digits are wrong' };
+  return { normalized: iban, isValid: true };
+};
+
+// Display form: groups of four
+export const formatIban = (raw: string): string => normalizeIban(raw).replace(/(.{4})(?=.)/g, '$1 ');
+
+export const hasBankIdentifiers = (details?: RemittanceDetails): details is RemittanceDetails =>
+  !!details && (!!normalizeAccount(details.iban) || !!normalizeAccount(details.accountNumber));
+
+// A domestic account number is either the whole BBAN (e.g. Belgium, Norway) or the country's account
+// segment of it. Leading zeros are padding on both sides.
+const compareAccountToIban = (account: string, iban: string): 'same' | 'different' | 'incomparable' => {
+  const significant = account.replace(/^0+/, '');
+  const segment = IBAN_ACCOUNT_SEGMENTS[iban.slice(0, 2)];
+  if (significant.length < MIN_ACCOUNT_LENGTH || validateIban(iban)?.isValid !== true) return 'incomparable';
+  if (significant === iban.slice(4).replace(/^0+/, '')) return 'same';
+  if (!segment) return 'incomparable';
+  return significant === iban.slice(...segment).replace(/^0+/, '') ? 'same' : 'different';
+};
+
+// 'incomparable' when the two records use different identifiers we cannot line up (e.g. IBAN vs a bare SWIFT code).
+export const compareRemittance = (a: RemittanceDetails, b: RemittanceDetails): 'same' | 'different' | 'incomparable' => {
+  const ibanA = a.iban ? normalizeIban(a.iban) : '';
+  const ibanB = b.iban ? normalizeIban(b.iban) : '';
+  if (ibanA && ibanB) return ibanA === ibanB ? 'same' : 'different';
+
+  const accountA = normalizeAccount(a.accountNumber);
+  const accountB = normalizeAccount(b.accountNumber);
+  if (accountA && accountB) {
+    const routingA = normalizeAccount(a.routingNumber);
+    const routingB = normalizeAccount(b.routingNumber);
+    return accountA === accountB && (!routingA || !routingB || routingA === routingB) ? 'same' : 'different';
+  }
+
+  const iban = ibanA || ibanB;
+  const account = accountA || accountB;
+  return iban && account ? compareAccountToIban(account, iban) : 'incomparable';
+};
+
+export const describeRemittance = (details: RemittanceDetails): string => [
+  details.iban ? `IBAN ${formatIban(details.iban)}` : '',
+  details.accountNumber ? `Acct ${details.accountNumber}` : '',
+  details.routingNumber ? `Routing ${details.routingNumber}` : '',
+  details.swiftBic ? `SWIFT ${details.swiftBic}` : '',
+  details.bankName || ''
+].filter(Boolean).join(' · ');
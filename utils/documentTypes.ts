@@ -0,0 +1,34 @@
+import { ExtractionDocType, InvoiceData } from "../types";
+
+// Document families the pipeline tells apart. Classification picks one, and it decides which
+// extraction schema is used and how the editor and exports lay the document out.
+
+export const EXTRACTION_DOC_TYPES: ExtractionDocType[] = ['invoice', 'creditNote', 'receipt', 'packingSlip', 'billOfLading'];
+
+// documentType written on results when the model leaves it empty
+export const DOCUMENT_TYPE_LABELS: Record<ExtractionDocType, string> = {
+  invoice: 'INVOICE',
+  creditNote: 'CREDIT NOTE',
+  receipt: 'RECEIPT',
+  packingSlip: 'PACKING SLIP',
+  billOfLading: 'BOL'
+};
+
+// Family of a stored documentType label; purchase orders share the invoice layout
+export const extractionDocTypeOf = (documentType?: string): ExtractionDocType => {
+  const type = (documentType || '').toUpperCase();
+  if (/CREDIT|GUTSCHRIFT|AVOIR/.test(type)) return 'creditNote';
+  if (/PACKING|DELIVERY|GOODS RECEIPT/.test(type)) return 'packingSlip';
+  if (/\bBOL\b|LADING|WAYBILL/.test(type)) return 'billOfLading';
+  if (type.includes('RECEIPT')) return 'receipt';
+  return 'invoice';
+};
+
+// Packing slips and bills of lading list goods, not prices
+export const isShippingDocument = (doc: Pick<InvoiceData, 'documentType'>): boolean => {
+  const docType = extractionDocTypeOf(doc.documentType);
+  return docType === 'packingSlip' || docType === 'billOfLading';
+};
+
+// Credit notes, credit memos and returns; their amounts are stored negative
+export const isCreditNote = (doc: Pick<InvoiceData, 'documentType'>): boolean => extractionDocTypeOf(doc.documentType) === 'creditNote';
@@ -0,0 +1,19 @@
+const STORAGE_KEY = 'ester.duplicateSuppressions';
+// Oldest decisions are forgotten beyond this
+const MAX_PAIRS = 500;
+
+// Pair keys (see duplicatePairKey) a reviewer marked as "not a duplicate", newest first
+export const loadDuplicateSuppressions = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch (e) {
+    console.warn("Ignoring unreadable duplicate suppressions", e);
+    return [];
+  }
+};
+
+export const saveDuplicateSuppressions = (pairs: string[]) => {
+  if (pairs.length === 0) localStorage.removeItem(STORAGE_KEY);
+  else localStorage.setItem(STORAGE_KEY, JSON.stringify(pairs.slice(0, MAX_PAIRS)));
+};
@@ -0,0 +1,241 @@
+import { EmailProvenance } from "../types";
+
+// Local MIME parsing of saved email messages (.eml, RFC 5322 with RFC 2045-2047 and 2231 encodings).
+// Nothing leaves the browser: image, PDF and XML e-invoice attachments are turned into files for the ingestion queue,
+// and a message without any becomes one document of its own body.
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  contentId?: string; // Referenced as cid:… from the HTML body when shown inline
+  data: Uint8Array;
+}
+
+export interface ParsedEmail {
+  from?: string;
+  subject?: string;
+  receivedAt?: string;
+  messageId?: string;
+  html?: string; // First HTML body part
+  text?: string; // First plain-text body part
+  attachments: EmailAttachment[];
+}
+
+// Forwarded messages nest; deeper than this is treated as an opaque attachment
+const MAX_DEPTH = 5;
+
+const DOCUMENT_TYPES_BY_EXTENSION: Record<string, string> = {
+  pdf: 'application/pdf', png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif',
+  webp: 'image/webp', tif: 'image/tiff', tiff: 'image/tiff', heic: 'image/heic', xml: 'application/xml'
+};
+
+// Bytes <-> "binary" strings with one char per byte, so structure can be parsed before charsets are known
+const toBinary = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return binary;
+};
+const toBytes = (binary: string): Uint8Array => Uint8Array.from(binary, char => char.charCodeAt(0) & 0xff);
+
+const decodeCharset = (bytes: Uint8Array, charset?: string): string => {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes); // Unknown label
+  }
+};
+
+const decodeQuotedPrintable = (text: string): string =>
+  text.replace(/=\r?\n/g, '').replace(/=([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+
+const decodeBase64 = (text: string): Uint8Array => {
+  try {
+    return toBytes(atob(text.replace(/[^A-Za-z0-9+/=]/g, '')));
+  } catch {
+    return new Uint8Array(0);
+  }
+};
+
+// RFC 2047 encoded words, e.g. =?UTF-8?B?UmVjaG51bmc=?=; whitespace between two of them is dropped
+const decodeEncodedWords = (value: string): string => value
+  .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+  .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) =>
+    decodeCharset(encoding.toUpperCase() === 'B' ? decodeBase64(text) : toBytes(decodeQuotedPrintable(text.replace(/_/g, ' '))), charset));
+
+// Raw 8-bit header values are UTF-8 by RFC 6532
+const decodeHeaderValue = (binary: string): string => decodeEncodedWords(/[\x80-\xff]/.test(binary) ? decodeCharset(toBytes(binary)) : binary);
+
+const splitHead = (raw: string): [string, string] => {
+  const gap = /\r?\n\r?\n/.exec(raw);
+  return gap ? [raw.slice(0, gap.index), raw.slice(gap.index + gap[0].length)] : [raw, ''];
+};
+
+// Header name (lowercase) -> values in message order; folded lines are unfolded
+const parseHeaders = (block: string): Map<string, string[]> => {
+  const headers = new Map<string, string[]>();
+  block.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/).forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon <= 0) return;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    headers.set(name, [...(headers.get(name) || []), line.slice(colon + 1).trim()]);
+  });
+  return headers;
+};
+
+const splitOutsideQuotes = (value: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (quoted && char === '\\') { current += char + (value[++i] || ''); continue; }
+    if (char === '"') quoted = !quoted;
+    if (char === ';' && !quoted) { parts.push(current); current = ''; } else current += char;
+  }
+  return [...parts, current];
+};
+
+// 'text/html; charset="utf-8"' -> { value: 'text/html', params: { charset: 'utf-8' } }, including
+// RFC 2231 continuations and charsets (filename*0*=utf-8''Rechnung%20; filename*1=Mai.pdf)
+const parseStructured = (header?: string): { value: string, params: Record<string, string> } => {
+  const [value, ...rest] = splitOutsideQuotes(header || '');
+  const pieces: Record<string, { index: number, text: string, encoded: boolean }[]> = {};
+  rest.forEach(part => {
+    const eq = part.indexOf('=');
+    if (eq < 0) return;
+    const key = /^([^*]+)(?:\*(\d+))?(\*)?$/.exec(part.slice(0, eq).trim().toLowerCase());
+    if (!key) return;
+    let text = part.slice(eq + 1).trim();
+    if (text.startsWith('"') && text.endsWith('"') && text.length > 1) text = text.slice(1, -1).replace(/\\(.)/g, '$1');
+    pieces[key[1]] = [...(pieces[key[1]] || []), { index: key[2] ? parseInt(key[2], 10) : 0, text, encoded: !!key[3] }];
+  });
+  const params: Record<string, string> = {};
+  Object.entries(pieces).forEach(([name, parts]) => {
+    let charset = '';
+    const binary = parts.sort((a, b) => a.index - b.index).map((piece, i) => {
+      if (!piece.encoded) return piece.text;
+      const declared = i === 0 ? /^([^']*)'[^']*'([\s\S]*)$/.exec(piece.text) : null;
+      if (declared) charset = declared[1];
+      return (declared ? declared[2] : piece.text).replace(/%([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+    }).join('');
+    params[name] = charset ? decodeCharset(toBytes(binary), charset) : decodeHeaderValue(binary);
+  });
+  return { value: value.trim().toLowerCase(), params };
+};
+
+const splitMultipart = (body: string, boundary: string): string[] => {
+  const parts: string[] = [];
+  let current: string[] | null = null;
+  for (const line of body.split(/\r?\n/)) {
+    const trimmed = line.trimEnd();
+    if (trimmed === `--${boundary}--`) {
+      if (current) parts.push(current.join('\r\n'));
+      return parts;
+    }
+    if (trimmed === `--${boundary}`) {
+      if (current) parts.push(current.join('\r\n'));
+      current = [];
+    } else if (current) {
+      current.push(line);
+    }
+  }
+  if (current) parts.push(current.join('\r\n')); // Unterminated last part
+  return parts;
+};
+
+const decodeBody = (body: string, transferEncoding?: string): Uint8Array => {
+  const encoding = (transferEncoding || '').trim().toLowerCase();
+  if (encoding === 'base64') return decodeBase64(body);
+  if (encoding === 'quoted-printable') return toBytes(decodeQuotedPrintable(body));
+  return toBytes(body);
+};
+
+const walkPart = (raw: string, email: ParsedEmail, depth: number) => {
+  const [head, body] = splitHead(raw);
+  const headers = parseHeaders(head);
+  const first = (name: string) => headers.get(name)?.[0];
+  const type = parseStructured(first('content-type') || 'text/plain');
+  const disposition = parseStructured(first('content-disposition'));
+
+  if (type.value.startsWith('multipart/') && type.params.boundary) {
+    splitMultipart(body, type.params.boundary).forEach(part => walkPart(part, email, depth + 1));
+    return;
+  }
+  const data = decodeBody(body, first('content-transfer-encoding'));
+  // A forwarded message's attachments are the ones that matter; its headers are not the provenance
+  if (type.value === 'message/rfc822' && depth < MAX_DEPTH) {
+    walkPart(toBinary(data), email, depth + 1);
+    return;
+  }
+  const filename = disposition.params.filename || type.params.name;
+  const isAttachment = disposition.value === 'attachment' || (!!filename && !type.value.startsWith('text/'));
+  if (!isAttachment && type.value === 'text/html' && email.html === undefined) {
+    email.html = decodeCharset(data, type.params.charset);
+  } else if (!isAttachment && type.value === 'text/plain' && email.text === undefined) {
+    email.text = decodeCharset(data, type.params.charset);
+  } else {
+    email.attachments.push({ filename: filename || `part-${email.attachments.length + 1}`, contentType: type.value, contentId: first('content-id')?.replace(/[<>]/g, ''), data });
+  }
+};
+
+// The last Received hop (listed first) is when our server got the message; the Date header is when it was sent
+const receivedTime = (headers: Map<string, string[]>): string | undefined => {
+  const hop = headers.get('received')?.[0];
+  const candidates = [hop ? hop.slice(hop.lastIndexOf(';') + 1) : '', headers.get('date')?.[0] || ''];
+  const time = candidates.map(value => Date.parse(value.trim())).find(parsed => !isNaN(parsed));
+  return time === undefined ? undefined : new Date(time).toISOString();
+};
+
+export const parseEmail = (bytes: Uint8Array): ParsedEmail => {
+  const raw = toBinary(bytes);
+  const headers = parseHeaders(splitHead(raw)[0]);
+  const first = (name: string) => { const value = headers.get(name)?.[0]; return value ? decodeHeaderValue(value) : undefined; };
+  const email: ParsedEmail = { from: first('from'), subject: first('subject'), receivedAt: receivedTime(headers), messageId: first('message-id')?.replace(/[<>]/g, ''), attachments: [] };
+  walkPart(raw, email, 0);
+  return email;
+};
+
+export const isEmailFile = (file: File): boolean => file.type === 'message/rfc822' || /\.eml$/i.test(file.name);
+
+// Outlook's .msg is an OLE compound file, not MIME; it has to be saved as .eml first
+export const isOutlookMessage = (file: File): boolean => file.type === 'application/vnd.ms-outlook' || /\.msg$/i.test(file.name);
+
+const documentTypeOf = (attachment: EmailAttachment): string | undefined => {
+  if (attachment.contentType.startsWith('image/') || attachment.contentType === 'application/pdf') return attachment.contentType;
+  return DOCUMENT_TYPES_BY_EXTENSION[(attachment.filename.split('.').pop() || '').toLowerCase()];
+};
+
+// Provenance travels with the File objects through the upload list and the queue
+const provenanceByFile = new WeakMap<File, EmailProvenance>();
+
+export const emailProvenanceOf = (file: File): EmailProvenance | undefined => provenanceByFile.get(file);
+
+// For files replaced on the way, e.g. by image preprocessing
+export const carryEmailProvenance = (from: File, to: File): File => {
+  const provenance = provenanceByFile.get(from);
+  if (provenance) provenanceByFile.set(to, provenance);
+  return to;
+};
+
+const safeName = (value: string) => value.replace(/[\\/:*?"<>|\r\n]+/g, ' ').trim().slice(0, 80) || 'email';
+
+// The documents inside a dropped email: every image, PDF and XML attachment except inline images the HTML body
+// shows (logos, signatures), or else the body itself when nothing is attached.
+export const extractEmailDocuments = async (file: File): Promise<File[]> => {
+  const email = parseEmail(new Uint8Array(await file.arrayBuffer()));
+  const base = { from: email.from, subject: email.subject, receivedAt: email.receivedAt, messageId: email.messageId, emailFileName: file.name };
+  const shownInline = (attachment: EmailAttachment) => !!attachment.contentId && !!email.html?.includes(`cid:${attachment.contentId}`);
+
+  const documents = email.attachments.filter(attachment => !shownInline(attachment) && documentTypeOf(attachment)).map(attachment => {
+    const document = new File([attachment.data], attachment.filename, { type: documentTypeOf(attachment) });
+    provenanceByFile.set(document, { ...base, part: 'attachment' });
+    return document;
+  });
+  if (documents.length > 0) return documents;
+
+  const body = email.html?.trim() ? { content: email.html, type: 'text/html', extension: 'html' } : email.text?.trim() ? { content: email.text, type: 'text/plain', extension: 'txt' } : null;
+  if (!body) return [];
+  const document = new File([body.content], `${safeName(email.subject || file.name.replace(/\.eml$/i, ''))}.${body.extension}`, { type: body.type });
+  provenanceByFile.set(document, { ...base, part: 'body' });
+  return [document];
+};
@@ -5,15 +5,22 @@ export const EXAMPLES: Record<string, InvoiceData> = {
     id: 'ex-1',
     documentType: 'INVOICE',
     vendorName: 'Tech Bistro & Cafe',
+    vendorAddress: '455 Market St, San Francisco, CA 94105',
+    vendorTaxId: '94-3127845',
+    vendorTaxIdType: 'EIN',
     invoiceDate: new Date().toISOString().split('T')[0], // Today
-    totalAmount: 42.50,
+    invoiceNumber: 'R-20931',
+    paymentTerms: 'Paid at counter',
+    totalAmount: 39.39,
     currencySymbol: '$',
     lineItems: [
         { sku: 'BEV-001', description: 'Latte Macchiato', glCategory: 'Meals & Entertainment', quantity: 2, unitPrice: 4.50, totalAmount: 9.00 },
         { sku: 'FOD-023', description: 'Avocado Toast', glCategory: 'Meals & Entertainment', quantity: 2, unitPrice: 12.00, totalAmount: 24.00 },
-        { sku: 'SVC-001', description: 'Service Charge (10%)', glCategory: 'Service Fees', quantity: 1, unitPrice: 3.30, totalAmount: 3.30 },
-        { sku: 'TAX-001', description: 'Sales Tax', glCategory: 'Tax', quantity: 1, unitPrice: 6.20, totalAmount: 6.20 }
+        { sku: 'SVC-001', description: 'Service Charge (10%)', glCategory: 'Service Fees', quantity: 1, unitPrice: 3.30, totalAmount: 3.30 }
     ],
+    subtotal: 36.30,
+    taxLines: [{ jurisdiction: 'CA Sales Tax', rate: 8.5, base: 36.30, amount: 3.09 }],
+    amountDue: 39.39,
     language: 'English',
     confidenceScore: 'High',
     validationFlags: { hasZeroPrices: false, lowItemCount: false, missingMetadata: false },
@@ -21,16 +28,22 @@ export const EXAMPLES: Record<string, InvoiceData> = {
   },
   'multilang': {
     id: 'ex-2',
-    documentType: 'PACKING SLIP',
+    documentType: 'INVOICE',
     vendorName: 'Kyoto Electronics / 京都エレクトロニクス',
     invoiceDate: '2023-11-15',
+    invoiceNumber: 'KE-2311-0457',
+    purchaseOrderNumber: 'PO-88213',
+    paymentTerms: 'Net 45',
+    dueDate: '2023-12-30',
     totalAmount: 154000,
     currencySymbol: '¥',
     lineItems: [
         { sku: 'KE-204', description: 'High-Speed Servo Motor / 高速サーボモータ', glCategory: 'Raw Materials', quantity: 5, unitPrice: 25000, totalAmount: 125000 },
-        { sku: 'KE-992', description: 'Control Unit / 制御ユニット', glCategory: 'Raw Materials', quantity: 1, unitPrice: 20000, totalAmount: 20000 },
-        { sku: 'SHP-01', description: 'Shipping & Handling / 送料と手数料', glCategory: 'Freight', quantity: 1, unitPrice: 9000, totalAmount: 9000 }
+        { sku: 'KE-992', description: 'Control Unit / 制御ユニット', glCategory: 'Raw Materials', quantity: 1, unitPrice: 20000, totalAmount: 20000 }
     ],
+    subtotal: 145000,
+    shippingCharges: [{ description: 'Shipping & Handling / 送料と手数料', amount: 9000 }],
+    amountDue: 154000,
     language: 'Japanese',
     confidenceScore: 'High',
     validationFlags: { hasZeroPrices: false, lowItemCount: false, missingMetadata: false },
@@ -40,7 +53,15 @@ export const EXAMPLES: Record<string, InvoiceData> = {
     id: 'ex-3',
     documentType: 'INVOICE',
     vendorName: 'Grand Hotel Berlin',
+    vendorAddress: 'Unter den Linden 77, 10117 Berlin, Germany',
+    vendorTaxId: 'DE136695976',
+    vendorTaxIdType: 'USt-IdNr.',
+    billToName: 'Correll Logistics GmbH',
+    remittance: { bankName: 'Commerzbank', iban: 'DE89 3704 0044 0532 0130 00', swiftBic: 'COBADEFFXXX' },
     invoiceDate: '2024-02-10',
+    invoiceNumber: 'GHB-2024-01187',
+    paymentTerms: 'Due on receipt',
+    dueDate: '2024-02-10',
     totalAmount: 450.00,
     currencySymbol: '€',
     lineItems: [
@@ -48,6 +69,8 @@ export const EXAMPLES: Record<string, InvoiceData> = {
         { sku: 'BRK-001', description: 'Continental Breakfast', glCategory: 'Meals & Entertainment', quantity: 2, unitPrice: 25.00, totalAmount: 50.00 },
         { sku: 'SPA-002', description: 'Wellness Access', glCategory: 'Employee Wellness', quantity: 2, unitPrice: 20.00, totalAmount: 40.00 }
     ],
+    subtotal: 450.00,
+    amountDue: 450.00,
     language: 'English', 
     confidenceScore: 'High',
     validationFlags: { hasZeroPrices: false, lowItemCount: false, missingMetadata: false },
@@ -0,0 +1,56 @@
+import { InvoiceData } from "../types";
+
+const STORAGE_KEY = 'ester.extractionCache';
+// Oldest entries are evicted beyond this, or earlier if local storage runs out of room
+const MAX_ENTRIES = 150;
+
+interface CacheEntry {
+  key: string;
+  storedAt: number;
+  invoice: InvoiceData;
+}
+
+// SHA-256 of the exact bytes that would be sent for extraction, as lowercase hex
+export const hashFile = async (file: File): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// A result is only reusable for the same bytes, the same model and the same prompt.
+export const extractionCacheKey = (contentHash: string, providerId: string, model: string, promptVersion: string) =>
+  `${contentHash}:${providerId}:${model}:${promptVersion}`;
+
+const loadEntries = (): CacheEntry[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch (e) {
+    console.warn("Ignoring unreadable extraction cache", e);
+    return [];
+  }
+};
+
+const saveEntries = (entries: CacheEntry[]) => {
+  let kept = entries.slice(0, MAX_ENTRIES);
+  while (kept.length > 0) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+      return;
+    } catch (e) {
+      // Quota exceeded: drop the oldest half and try again
+      kept = kept.slice(0, Math.floor(kept.length / 2));
+    }
+  }
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+export const getCachedExtraction = (key: string): InvoiceData | null => loadEntries().find(entry => entry.key === key)?.invoice || null;
+
+// Newest first; re-storing a key moves it to the front.
+export const putCachedExtraction = (key: string, invoice: InvoiceData) => {
+  saveEntries([{ key, storedAt: Date.now(), invoice }, ...loadEntries().filter(entry => entry.key !== key)]);
+};
+
+export const getExtractionCacheSize = (): number => loadEntries().length;
+
+export const clearExtractionCache = () => localStorage.removeItem(STORAGE_KEY);
@@ -0,0 +1,33 @@
+// Base64 without FileReader, so the model backends also run under Node (see scripts/evaluate.ts).
+export const fileToBase64 = async (file: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  // Chunked: String.fromCharCode overflows the call stack on multi-megabyte scans
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+// Email bodies and XML e-invoices are queued as text files; backends pass their text inline instead of uploading them
+export const isTextDocument = (file: Blob): boolean => ['text/html', 'text/plain', 'application/xml', 'text/xml'].includes(file.type);
+
+const HTML_ENTITIES: Record<string, string> = { nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", euro: '€', pound: '£', yen: '¥', copy: '©' };
+
+// Readable text of an HTML email, with table cells kept apart so invoice tables survive.
+// Regex based rather than DOMParser so it also runs under Node.
+export const htmlToText = (html: string): string => html
+  .replace(/<(head|style|script)\b[\s\S]*?<\/\1>/gi, '')
+  .replace(/\s+/g, ' ') // Source line breaks mean nothing in HTML; tags decide them below
+  .replace(/<br\s*\/?>/gi, '\n')
+  .replace(/<\/(p|div|tr|li|h[1-6]|table)>/gi, '\n')
+  .replace(/<\/t[dh]>/gi, ' | ')
+  .replace(/<[^>]+>/g, '')
+  .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+  .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+  .replace(/&([a-z]+);/gi, (entity, name) => HTML_ENTITIES[name.toLowerCase()] ?? entity)
+  .split('\n').map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim()).filter((line, i, lines) => line || (i > 0 && lines[i - 1]))
+  .join('\n').trim();
+
+export const documentText = async (file: Blob): Promise<string> => {
+  const text = await file.text();
+  return file.type === 'text/html' ? htmlToText(text) : text;
+};
@@ -0,0 +1,259 @@
+import { ImagePreprocessingSettings } from "../types";
+
+// Normalized (0-1) rectangle in the upright original image
+export interface CropBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type PreprocessStep = 'exif' | 'crop' | 'deskew' | 'contrast' | 'downscale';
+
+export interface PreprocessedImage {
+  file: File;          // What gets sent for extraction
+  original: File;      // As selected by the user, kept for the before/after preview
+  autoCrop: CropBox | null; // Detected document edges, null when none were found
+  crop: CropBox | null;     // Crop actually applied (auto or user override)
+  cropOverridden: boolean;
+  skewDegrees: number;
+  steps: PreprocessStep[];
+  originalSize: { width: number, height: number };
+  outputSize: { width: number, height: number };
+}
+
+export const DEFAULT_PREPROCESSING: ImagePreprocessingSettings = { enabled: true, maxDimension: 2000 };
+
+export const FULL_FRAME: CropBox = { x: 0, y: 0, width: 1, height: 1 };
+
+// Working resolution for edge and skew detection; the output is rendered from the full-size bitmap.
+const ANALYSIS_SIZE = 800;
+const MAX_SKEW_DEGREES = 6;
+const SKEW_STEP_DEGREES = 0.25;
+const MAX_SKEW_SAMPLES = 15000;
+const JPEG_QUALITY = 0.9;
+
+export const isPreprocessableImage = (file: File): boolean => /^image\/(jpeg|png|webp|bmp)$/.test(file.type);
+
+// Orientation tag (0x0112) from the first IFD of a JPEG's APP1 segment; 1 means upright.
+export const readExifOrientation = async (file: File): Promise<number> => {
+  if (file.type !== 'image/jpeg') return 1;
+  try {
+    const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+    if (view.getUint16(0) !== 0xFFD8) return 1;
+    let offset = 2;
+    while (offset + 10 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xFF00) !== 0xFF00) return 1;
+      if (marker === 0xFFE1 && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+        const tiff = offset + 10;
+        const little = view.getUint16(tiff) === 0x4949;
+        const ifd = tiff + view.getUint32(tiff + 4, little);
+        const entries = view.getUint16(ifd, little);
+        for (let i = 0; i < entries; i++) {
+          const entry = ifd + 2 + i * 12;
+          if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little);
+        }
+        return 1;
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  } catch (e) {
+    // Truncated or malformed EXIF: treat as upright
+  }
+  return 1;
+};
+
+const toGray = (data: Uint8ClampedArray): Uint8Array => {
+  const gray = new Uint8Array(data.length / 4);
+  for (let i = 0; i < gray.length; i++) gray[i] = (data[i * 4] * 77 + data[i * 4 + 1] * 150 + data[i * 4 + 2] * 29) >> 8;
+  return gray;
+};
+
+const otsuThreshold = (values: ArrayLike<number>): number => {
+  const hist = new Array(256).fill(0);
+  for (let i = 0; i < values.length; i++) hist[values[i]]++;
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * hist[i];
+  let sumBelow = 0, weightBelow = 0, best = 0, threshold = 128;
+  for (let t = 0; t < 256; t++) {
+    weightBelow += hist[t];
+    if (!weightBelow) continue;
+    const weightAbove = values.length - weightBelow;
+    if (!weightAbove) break;
+    sumBelow += t * hist[t];
+    const between = weightBelow * weightAbove * (sumBelow / weightBelow - (sum - sumBelow) / weightAbove) ** 2;
+    if (between > best) { best = between; threshold = t; }
+  }
+  return threshold;
+};
+
+// Paper is brighter than the desk it lies on: take the rows/columns that are mostly bright as the page,
+// and only trust the result if what it cuts away is clearly darker than what it keeps.
+export const detectDocumentBounds = (gray: Uint8Array, width: number, height: number): CropBox | null => {
+  const threshold = otsuThreshold(gray);
+  const rowBright = new Array(height).fill(0);
+  const colBright = new Array(width).fill(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] > threshold) { rowBright[y]++; colBright[x]++; }
+    }
+  }
+  const firstLast = (counts: number[], span: number): [number, number] => {
+    const first = counts.findIndex(c => c / span > 0.35);
+    const last = counts.length - 1 - [...counts].reverse().findIndex(c => c / span > 0.35);
+    return [first, last];
+  };
+  const [top, bottom] = firstLast(rowBright, width);
+  const [left, right] = firstLast(colBright, height);
+  if (top < 0 || left < 0 || bottom <= top || right <= left) return null;
+
+  const area = ((bottom - top + 1) * (right - left + 1)) / (width * height);
+  if (area > 0.92 || area < 0.2) return null;
+
+  let insideSum = 0, insideCount = 0, outsideSum = 0, outsideCount = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inside = y >= top && y <= bottom && x >= left && x <= right;
+      if (inside) { insideSum += gray[y * width + x]; insideCount++; } else { outsideSum += gray[y * width + x]; outsideCount++; }
+    }
+  }
+  if (!outsideCount || insideSum / insideCount - outsideSum / outsideCount < 25) return null;
+
+  const margin = 0.01;
+  const x = Math.max(0, left / width - margin);
+  const y = Math.max(0, top / height - margin);
+  return { x, y, width: Math.min(1, (right + 1) / width + margin) - x, height: Math.min(1, (bottom + 1) / height + margin) - y };
+};
+
+// Projection-profile deskew: text lines produce the sharpest row histogram when rotated level.
+export const detectSkewDegrees = (gray: Uint8Array, width: number, height: number): number => {
+  const threshold = otsuThreshold(gray);
+  const darkCount = gray.reduce((n, v) => v <= threshold ? n + 1 : n, 0);
+  if (darkCount < 200) return 0;
+  const stride = Math.max(1, Math.ceil(darkCount / MAX_SKEW_SAMPLES));
+  const xs: number[] = [];
+  const ys: number[] = [];
+  let seen = 0;
+  for (let i = 0; i < gray.length; i++) {
+    if (gray[i] <= threshold && seen++ % stride === 0) { xs.push(i % width); ys.push(Math.floor(i / width)); }
+  }
+
+  const score = (degrees: number): number => {
+    const rad = degrees * Math.PI / 180;
+    const sin = Math.sin(rad), cos = Math.cos(rad);
+    const offset = Math.ceil(width * Math.abs(sin));
+    const bins = new Array(height + 2 * offset + 1).fill(0);
+    for (let i = 0; i < xs.length; i++) bins[Math.round(ys[i] * cos - xs[i] * sin) + offset]++;
+    return bins.reduce((s, b) => s + b * b, 0);
+  };
+
+  const level = score(0);
+  let best = 0, bestScore = level;
+  for (let deg = -MAX_SKEW_DEGREES; deg <= MAX_SKEW_DEGREES; deg += SKEW_STEP_DEGREES) {
+    const s = score(deg);
+    if (s > bestScore) { best = deg; bestScore = s; }
+  }
+  // Ignore marginal wins; rotating costs sharpness for no gain.
+  return Math.abs(best) >= 0.5 && bestScore > level * 1.05 ? best : 0;
+};
+
+// Linear stretch between the 0.5th and 99.5th luminance percentiles.
+const normalizeContrast = (ctx: CanvasRenderingContext2D, width: number, height: number): boolean => {
+  const image = ctx.getImageData(0, 0, width, height);
+  const data = image.data;
+  const hist = new Array(256).fill(0);
+  for (let i = 0; i < data.length; i += 4) hist[(data[i] * 77 + data[i + 1] * 150 + data[i + 2] * 29) >> 8]++;
+  const pixels = data.length / 4;
+  let lo = 0, hi = 255, acc = 0;
+  while (lo < 255 && (acc += hist[lo]) < pixels * 0.005) lo++;
+  acc = 0;
+  while (hi > 0 && (acc += hist[hi]) < pixels * 0.005) hi--;
+  if (hi - lo < 32 || (lo <= 8 && hi >= 247)) return false;
+
+  const scale = 255 / (hi - lo);
+  const lut = new Uint8ClampedArray(256);
+  for (let v = 0; v < 256; v++) lut[v] = (v - lo) * scale;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = lut[data[i]];
+    data[i + 1] = lut[data[i + 1]];
+    data[i + 2] = lut[data[i + 2]];
+  }
+  ctx.putImageData(image, 0, 0);
+  return true;
+};
+
+const analyze = (bitmap: ImageBitmap, crop: CropBox | null): { gray: Uint8Array, width: number, height: number } => {
+  const region = crop || FULL_FRAME;
+  const sw = region.width * bitmap.width, sh = region.height * bitmap.height;
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(sw, sh));
+  const width = Math.max(1, Math.round(sw * scale)), height = Math.max(1, Math.round(sh * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(bitmap, region.x * bitmap.width, region.y * bitmap.height, sw, sh, 0, 0, width, height);
+  return { gray: toGray(ctx.getImageData(0, 0, width, height).data), width, height };
+};
+
+const toJpegFile = (canvas: HTMLCanvasElement, name: string): Promise<File> => new Promise((resolve, reject) => {
+  canvas.toBlob(blob => {
+    if (!blob) return reject(new Error('Canvas encoding failed'));
+    resolve(new File([blob], `${name.replace(/\.[^.]+$/, '')}.jpg`, { type: 'image/jpeg' }));
+  }, 'image/jpeg', JPEG_QUALITY);
+});
+
+// Rotate from EXIF, crop to the page, deskew, stretch contrast and downscale.
+// Pass cropOverride to replace the detected page edges (FULL_FRAME disables cropping).
+export const preprocessImage = async (file: File, settings: ImagePreprocessingSettings = DEFAULT_PREPROCESSING, cropOverride?: CropBox): Promise<PreprocessedImage> => {
+  // Decoding with 'from-image' applies the EXIF orientation, so everything below works on the upright image.
+  const [orientation, bitmap] = await Promise.all([readExifOrientation(file), createImageBitmap(file, { imageOrientation: 'from-image' })]);
+  try {
+    const steps: PreprocessStep[] = orientation > 1 ? ['exif'] : [];
+    const full = analyze(bitmap, null);
+    const autoCrop = detectDocumentBounds(full.gray, full.width, full.height);
+    const crop = cropOverride ? (cropOverride.width >= 0.999 && cropOverride.height >= 0.999 ? null : cropOverride) : autoCrop;
+    if (crop) steps.push('crop');
+
+    const page = crop ? analyze(bitmap, crop) : full;
+    const skewDegrees = detectSkewDegrees(page.gray, page.width, page.height);
+    if (skewDegrees) steps.push('deskew');
+
+    const region = crop || FULL_FRAME;
+    const sw = region.width * bitmap.width, sh = region.height * bitmap.height;
+    const rad = skewDegrees * Math.PI / 180;
+    const boundsW = sw * Math.abs(Math.cos(rad)) + sh * Math.abs(Math.sin(rad));
+    const boundsH = sw * Math.abs(Math.sin(rad)) + sh * Math.abs(Math.cos(rad));
+    const scale = Math.min(1, settings.maxDimension / Math.max(boundsW, boundsH));
+    if (scale < 1) steps.push('downscale');
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(boundsW * scale);
+    canvas.height = Math.round(boundsH * scale);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate(-rad);
+    ctx.drawImage(bitmap, region.x * bitmap.width, region.y * bitmap.height, sw, sh, -sw * scale / 2, -sh * scale / 2, sw * scale, sh * scale);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    if (normalizeContrast(ctx, canvas.width, canvas.height)) steps.push('contrast');
+
+    // Nothing to fix: send the file untouched rather than re-encoding it.
+    const output = steps.length > 0 ? await toJpegFile(canvas, file.name) : file;
+    return {
+      file: output,
+      original: file,
+      autoCrop,
+      crop,
+      cropOverridden: !!cropOverride,
+      skewDegrees,
+      steps,
+      originalSize: { width: bitmap.width, height: bitmap.height },
+      outputSize: steps.length > 0 ? { width: canvas.width, height: canvas.height } : { width: bitmap.width, height: bitmap.height }
+    };
+  } finally {
+    bitmap.close();
+  }
+};
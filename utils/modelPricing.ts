@@ -0,0 +1,48 @@
+import { CostSettings, ModelPrice, TokenUsage } from "../types";
+
+// List prices at the time of writing; workspaces can override them. Self-hosted models cost nothing per token.
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: 'gemini-2.5-pro', inputPerMillion: 1.25, outputPerMillion: 10 },
+  { model: 'gemini-2.5-flash', inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  { model: 'gemini-2.5-flash-lite', inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  { model: 'gemini-2.0-flash', inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  { model: 'gpt-4o', inputPerMillion: 2.5, outputPerMillion: 10 },
+  { model: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  { model: 'gpt-4.1', inputPerMillion: 2, outputPerMillion: 8 },
+  { model: 'gpt-4.1-mini', inputPerMillion: 0.4, outputPerMillion: 1.6 }
+];
+
+export const DEFAULT_COST_SETTINGS: CostSettings = { prices: DEFAULT_MODEL_PRICES };
+
+// Longest matching prefix wins, so 'gemini-2.5-flash-lite' is not billed as 'gemini-2.5-flash'.
+export const findModelPrice = (model: string, prices: ModelPrice[]): ModelPrice | undefined => prices
+  .filter(price => model === price.model || model.startsWith(`${price.model}-`) || model.endsWith(`/${price.model}`))
+  .sort((a, b) => b.model.length - a.model.length)[0];
+
+export const usageCost = (usage: TokenUsage[] = [], prices: ModelPrice[]): number => usage.reduce((sum, entry) => {
+  const price = findModelPrice(entry.model, prices);
+  return price ? sum + (entry.inputTokens * price.inputPerMillion + entry.outputTokens * price.outputPerMillion) / 1e6 : sum;
+}, 0);
+
+export const hasUnpricedUsage = (usage: TokenUsage[] = [], prices: ModelPrice[]): boolean => usage.some(entry => !findModelPrice(entry.model, prices));
+
+// Merge one call's tokens into a per-model tally, returning a new array
+export const addUsage = (usage: TokenUsage[] = [], call: Omit<TokenUsage, 'calls'> & { calls?: number }): TokenUsage[] => {
+  const calls = call.calls ?? 1;
+  const existing = usage.find(entry => entry.model === call.model);
+  if (!existing) return [...usage, { model: call.model, inputTokens: call.inputTokens, outputTokens: call.outputTokens, calls }];
+  return usage.map(entry => entry === existing ? { ...entry, inputTokens: entry.inputTokens + call.inputTokens, outputTokens: entry.outputTokens + call.outputTokens, calls: entry.calls + calls } : entry);
+};
+
+export const totalTokens = (usage: TokenUsage[] = []) => usage.reduce((sum, entry) => sum + entry.inputTokens + entry.outputTokens, 0);
+
+// Fractions of a cent matter per document; whole sessions read better in cents.
+export const formatCost = (usd: number) => `$${usd.toFixed(usd < 1 ? 4 : 2)}`;
+
+// Settings text format: one "model, input $/1M, output $/1M" per line
+export const formatPriceTable = (prices: ModelPrice[]) => prices.map(p => `${p.model}, ${p.inputPerMillion}, ${p.outputPerMillion}`).join('\n');
+
+export const parsePriceTable = (text: string): ModelPrice[] => text.split('\n')
+  .map(line => line.split(/[,;\t]/).map(cell => cell.trim()))
+  .filter(([model, input, output]) => model && !isNaN(parseFloat(input)) && !isNaN(parseFloat(output)))
+  .map(([model, input, output]) => ({ model, inputPerMillion: parseFloat(input), outputPerMillion: parseFloat(output) }));
@@ -0,0 +1,42 @@
+// Best-effort parse of a JSON document that is still streaming in.
+// Cuts the text back to the last point where every value so far was complete
+// (after an opening bracket, a closing bracket, or before a comma) and closes the open containers.
+// Values still being written are left out until the next delimiter arrives.
+export const parsePartialJson = (text: string): any | undefined => {
+  const start = text.search(/[{[]/); // Skips markdown fences and other preamble
+  if (start < 0) return undefined;
+
+  let stack = '';
+  let inString = false;
+  let escaped = false;
+  let cutAt = -1;
+  let cutStack = '';
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{' || ch === '[') {
+      stack += ch === '{' ? '}' : ']';
+      cutAt = i + 1; cutStack = stack;
+    } else if (ch === '}' || ch === ']') {
+      stack = stack.slice(0, -1);
+      cutAt = i + 1; cutStack = stack;
+      if (!stack) break; // Document complete; ignore trailing fences
+    } else if (ch === ',') {
+      cutAt = i; cutStack = stack;
+    }
+  }
+
+  if (cutAt < 0) return undefined;
+  try {
+    return JSON.parse(text.slice(start, cutAt) + cutStack.split('').reverse().join(''));
+  } catch (e) {
+    return undefined;
+  }
+};
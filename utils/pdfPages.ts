@@ -0,0 +1,90 @@
+import { decodePDFRawStream, PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFRawStream, PDFString } from 'pdf-lib';
+
+export interface PdfPageWindow {
+  startPage: number; // 1-based, inclusive
+  endPage: number;   // 1-based, inclusive
+  pageCount: number; // Total pages in the source document
+  file: File;        // Standalone PDF containing only this window
+}
+
+// Pages per extraction call. Small enough that long tables don't get truncated,
+// large enough that a header on page 1 and its first rows stay together.
+export const DEFAULT_PAGE_WINDOW = 2;
+
+export const isPdfFile = (file: File): boolean => {
+  return file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+};
+
+const loadPdf = async (file: File): Promise<PDFDocument> => {
+  const bytes = await file.arrayBuffer();
+  // Supplier PDFs are often "encrypted" with an empty owner password; we only copy pages.
+  return PDFDocument.load(bytes, { ignoreEncryption: true });
+};
+
+export const getPdfPageCount = async (file: File): Promise<number> => {
+  const doc = await loadPdf(file);
+  return doc.getPageCount();
+};
+
+// Split a PDF into consecutive page windows, each as its own PDF file.
+export const splitPdfIntoWindows = async (file: File, windowSize: number = DEFAULT_PAGE_WINDOW): Promise<PdfPageWindow[]> => {
+  const source = await loadPdf(file);
+  const pageCount = source.getPageCount();
+  const size = Math.max(1, Math.floor(windowSize));
+  const windows: PdfPageWindow[] = [];
+
+  for (let start = 0; start < pageCount; start += size) {
+    const end = Math.min(start + size, pageCount);
+    const indices = Array.from({ length: end - start }, (_, i) => start + i);
+
+    const windowDoc = await PDFDocument.create();
+    const pages = await windowDoc.copyPages(source, indices);
+    pages.forEach(page => windowDoc.addPage(page));
+    const bytes = await windowDoc.save();
+
+    const baseName = file.name.replace(/\.pdf$/i, '');
+    windows.push({
+      startPage: start + 1,
+      endPage: end,
+      pageCount,
+      file: new File([bytes], `${baseName}_p${start + 1}-${end}.pdf`, { type: 'application/pdf' })
+    });
+  }
+
+  return windows;
+};
+
+export interface PdfAttachment {
+  name: string;
+  data: Uint8Array;
+}
+
+// Files embedded in the PDF, e.g. the XML of a Factur-X / ZUGFeRD invoice (a PDF/A-3 associated file).
+// Read from the EmbeddedFiles name tree and the catalog's /AF list.
+export const readPdfAttachments = async (file: File): Promise<PdfAttachment[]> => {
+  const doc = await loadPdf(file);
+  const specs = new Set<PDFDict>();
+  const walkNameTree = (node: PDFDict | undefined, depth: number) => {
+    if (!node || depth > 10) return;
+    const pairs = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+    for (let i = 1; pairs && i < pairs.size(); i += 2) {
+      const spec = pairs.lookup(i);
+      if (spec instanceof PDFDict) specs.add(spec);
+    }
+    const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+    for (let i = 0; kids && i < kids.size(); i++) walkNameTree(kids.lookupMaybe(i, PDFDict), depth + 1);
+  };
+  walkNameTree(doc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict)?.lookupMaybe(PDFName.of('EmbeddedFiles'), PDFDict), 0);
+  const associated = doc.catalog.lookupMaybe(PDFName.of('AF'), PDFArray);
+  for (let i = 0; associated && i < associated.size(); i++) {
+    const spec = associated.lookup(i);
+    if (spec instanceof PDFDict) specs.add(spec);
+  }
+
+  return Array.from(specs).flatMap(spec => {
+    const name = spec.lookupMaybe(PDFName.of('UF'), PDFString, PDFHexString) || spec.lookupMaybe(PDFName.of('F'), PDFString, PDFHexString);
+    const stream = spec.lookupMaybe(PDFName.of('EF'), PDFDict)?.lookup(PDFName.of('F'));
+    if (!(stream instanceof PDFRawStream)) return [];
+    return [{ name: name?.decodeText() || 'attachment', data: decodePDFRawStream(stream).decode() }];
+  });
+};
@@ -0,0 +1,36 @@
+import { SourceRegion } from "../types";
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+// Accepts a model box ({ page, box_2d: [ymin, xmin, ymax, xmax] } on a 0-1000 or 0-1 scale)
+// or an already normalized SourceRegion. Returns undefined for anything unusable.
+export const normalizeRegion = (raw: any, fallbackPage: number = 1, pageRange?: [number, number]): SourceRegion | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+
+  let page = Math.round(Number(raw.page));
+  if (!page || (pageRange && (page < pageRange[0] || page > pageRange[1]))) page = fallbackPage;
+
+  if (['x', 'y', 'width', 'height'].every(k => typeof raw[k] === 'number')) {
+    const x = clamp01(raw.x), y = clamp01(raw.y);
+    const width = Math.min(1 - x, Math.max(0, raw.width)), height = Math.min(1 - y, Math.max(0, raw.height));
+    return width > 0 && height > 0 ? { page, x, y, width, height } : undefined;
+  }
+
+  const box = Array.isArray(raw.box_2d) ? raw.box_2d.map(Number) : [];
+  if (box.length !== 4 || box.some((n: number) => isNaN(n))) return undefined;
+  const scale = Math.max(...box) > 1 ? 1000 : 1;
+  const [ymin, xmin, ymax, xmax] = box.map((n: number) => clamp01(n / scale));
+  if (xmax <= xmin || ymax <= ymin) return undefined;
+
+  return { page, x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+};
+
+export const normalizeFieldRegions = (raw: any, fallbackPage: number = 1, pageRange?: [number, number]): Record<string, SourceRegion> | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const regions: Record<string, SourceRegion> = {};
+  Object.entries(raw).forEach(([field, value]) => {
+    const region = normalizeRegion(value, fallbackPage, pageRange);
+    if (region) regions[field] = region;
+  });
+  return Object.keys(regions).length > 0 ? regions : undefined;
+};
@@ -0,0 +1,176 @@
+// Offline format/checksum validation for vendor tax registration numbers.
+// Only schemes we can check locally are validated; anything else is reported as 'UNKNOWN' and never flagged.
+
+export type TaxIdScheme = 'EU_VAT' | 'GB_VAT' | 'GSTIN' | 'RFC' | 'EIN' | 'UNKNOWN';
+
+export interface TaxIdValidation {
+  scheme: TaxIdScheme;
+  normalized: string;
+  isValid: boolean;
+  country?: string; // ISO country (EL for Greece, as used in VAT numbers)
+  reason?: string; // Why an ID failed, for tooltips
+}
+
+// Country-specific body formats (after the two-letter prefix) from the EU VIES specification
+const EU_VAT_FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  EL: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/,
+  FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^(\d{7}[A-W][A-I]?|\d[A-Z+*]\d{5}[A-W])$/,
+  IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^\d{2,10}$/,
+  SE: /^\d{10}01$/,
+  SI: /^\d{8}$/,
+  SK: /^\d{10}$/,
+  XI: /^(\d{9}|\d{12}|GD\d{3}|HA\d{3})$/
+};
+
+const GB_VAT_FORMAT = /^(\d{9}|\d{12}|GD\d{3}|HA\d{3})$/;
+
+// German USt-IdNr: ISO 7064 MOD 11,10 over the first 8 digits
+const checkGermanVat = (body: string): boolean => {
+  let product = 10;
+  for (let i = 0; i < 8; i++) {
+    let sum = (parseInt(body[i], 10) + product) % 10;
+    if (sum === 0) sum = 10;
+    product = (2 * sum) % 11;
+  }
+  const check = (11 - product) % 10;
+  return check === parseInt(body[8], 10);
+};
+
+// Italian Partita IVA: Luhn checksum
+const checkItalianVat = (body: string): boolean => {
+  let sum = 0;
+  for (let i = 0; i < 11; i++) {
+    let n = parseInt(body[i], 10);
+    if (i % 2 === 1) { n *= 2; if (n > 9) n -= 9; }
+    sum += n;
+  }
+  return sum % 10 === 0;
+};
+
+const EU_VAT_CHECKSUMS: Record<string, (body: string) => boolean> = { DE: checkGermanVat, IT: checkItalianVat };
+
+const validateEuVat = (id: string): TaxIdValidation => {
+  const country = id.slice(0, 2) === 'GR' ? 'EL' : id.slice(0, 2);
+  const body = id.slice(2);
+  const format = EU_VAT_FORMATS[country];
+  if (!format) return { scheme: 'EU_VAT', normalized: id, isValid: false, country, reason: `Unknown VAT country prefix '${country}'` };
+  if (!format.test(body)) return { scheme: 'EU_VAT', normalized: id, isValid: false, country, reason: `Does not match the ${country} VAT number format` };
+  const checksum = EU_VAT_CHECKSUMS[country];
+  if (checksum && !checksum(body)) return { scheme: 'EU_VAT', normalized: id, isValid: false, country, reason: `${country} VAT check digit is wrong` };
+  return { scheme: 'EU_VAT', normalized: id, isValid: true, country };
+};
+
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const GSTIN_FORMAT = /^(\d{2})([A-Z]{5}\d{4}[A-Z])([1-9A-Z])Z([0-9A-Z])$/;
+
+// Indian GSTIN: state code + PAN + entity code + 'Z' + base-36 Luhn-style check character
+const validateGstin = (id: string): TaxIdValidation => {
+  const match = id.match(GSTIN_FORMAT);
+  if (!match) return { scheme: 'GSTIN', normalized: id, isValid: false, country: 'IN', reason: 'Does not match the GSTIN format' };
+  const state = parseInt(match[1], 10);
+  if (!((state >= 1 && state <= 38) || state === 97 || state === 99)) return { scheme: 'GSTIN', normalized: id, isValid: false, country: 'IN', reason: `Unknown GST state code ${match[1]}` };
+
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARSET.indexOf(id[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  const check = GSTIN_CHARSET[(36 - (sum % 36)) % 36];
+  if (check !== id[14]) return { scheme: 'GSTIN', normalized: id, isValid: false, country: 'IN', reason: 'GSTIN check character is wrong' };
+  return { scheme: 'GSTIN', normalized: id, isValid: true, country: 'IN' };
+};
+
+const RFC_CHARSET = '0123456789ABCDEFGHIJKLMN&OPQRSTUVWXYZ Ñ';
+const RFC_FORMAT = /^([A-ZÑ&]{3,4})(\d{2})(\d{2})(\d{2})([A-Z0-9]{2})([0-9A])$/;
+const RFC_GENERIC = ['XAXX010101000', 'XEXX010101000']; // SAT generic RFCs for the public / foreigners
+
+// Mexican RFC: 3 letters (company) or 4 (individual), YYMMDD, 2-char homoclave, mod-11 check digit
+const validateRfc = (id: string): TaxIdValidation => {
+  if (RFC_GENERIC.includes(id)) return { scheme: 'RFC', normalized: id, isValid: true, country: 'MX' };
+  const match = id.match(RFC_FORMAT);
+  if (!match) return { scheme: 'RFC', normalized: id, isValid: false, country: 'MX', reason: 'Does not match the RFC format' };
+  const month = parseInt(match[3], 10), day = parseInt(match[4], 10);
+  if (month < 1 || month > 12 || day < 1 || day > 31) return { scheme: 'RFC', normalized: id, isValid: false, country: 'MX', reason: 'RFC contains an invalid date' };
+
+  const padded = id.length === 12 ? ` ${id}` : id;
+  let sum = 0;
+  for (let i = 0; i < 12; i++) sum += RFC_CHARSET.indexOf(padded[i]) * (13 - i);
+  const digit = 11 - (sum % 11);
+  const check = digit === 11 ? '0' : digit === 10 ? 'A' : String(digit);
+  if (check !== padded[12]) return { scheme: 'RFC', normalized: id, isValid: false, country: 'MX', reason: 'RFC check digit is wrong' };
+  return { scheme: 'RFC', normalized: id, isValid: true, country: 'MX' };
+};
+
+// Prefixes the IRS has never assigned to an EIN
+const EIN_INVALID_PREFIXES = ['00', '07', '08', '09', '17', '18', '19', '28', '29', '49', '69', '70', '78', '79', '89', '96', '97'];
+
+const validateEin = (id: string): TaxIdValidation => {
+  const digits = id.replace(/-/g, '');
+  if (!/^\d{9}$/.test(digits)) return { scheme: 'EIN', normalized: id, isValid: false, country: 'US', reason: 'EIN must have 9 digits' };
+  const normalized = `${digits.slice(0, 2)}-${digits.slice(2)}`;
+  if (EIN_INVALID_PREFIXES.includes(digits.slice(0, 2))) return { scheme: 'EIN', normalized, isValid: false, country: 'US', reason: `EIN prefix ${digits.slice(0, 2)} is not issued by the IRS` };
+  return { scheme: 'EIN', normalized, isValid: true, country: 'US' };
+};
+
+const detectScheme = (id: string, hint: string): TaxIdScheme => {
+  const h = hint.toUpperCase();
+  if (h.includes('GST') && /^\d{2}[A-Z]/.test(id)) return 'GSTIN';
+  if (h.includes('RFC')) return 'RFC';
+  if (h.includes('EIN') || h.includes('FEIN') || h.includes('TIN')) return /^\d{2}-?\d{7}$/.test(id) ? 'EIN' : 'UNKNOWN';
+  if (/^GB/.test(id)) return 'GB_VAT';
+  if (/^[A-Z]{2}/.test(id) && (EU_VAT_FORMATS[id.slice(0, 2)] || id.startsWith('GR'))) return 'EU_VAT';
+  if (/^\d{2}[A-Z]{5}\d{4}[A-Z][0-9A-Z]Z[0-9A-Z]$/.test(id)) return 'GSTIN';
+  if (/^[A-ZÑ&]{3,4}\d{6}[A-Z0-9]{3}$/.test(id)) return 'RFC';
+  if (/^\d{2}-\d{7}$/.test(id)) return 'EIN';
+  return 'UNKNOWN';
+};
+
+export const TAX_ID_SCHEME_LABELS: Record<TaxIdScheme, string> = {
+  EU_VAT: 'EU VAT',
+  GB_VAT: 'UK VAT',
+  GSTIN: 'GSTIN',
+  RFC: 'RFC',
+  EIN: 'EIN',
+  UNKNOWN: 'Tax ID'
+};
+
+export const validateTaxId = (raw?: string, hint: string = ''): TaxIdValidation | null => {
+  if (!raw || !raw.trim()) return null;
+  const id = raw.toUpperCase().replace(/[\s.]/g, '').replace(/^(VAT|USTIDNR|TVA|IVA|GSTIN|RFC|EIN)[:#-]*/, '');
+  const scheme = detectScheme(id, hint);
+
+  switch (scheme) {
+    case 'EU_VAT': return validateEuVat(id);
+    case 'GB_VAT': {
+      const body = id.slice(2);
+      return GB_VAT_FORMAT.test(body)
+        ? { scheme, normalized: id, isValid: true, country: 'GB' }
+        : { scheme, normalized: id, isValid: false, country: 'GB', reason: 'Does not match the UK VAT number format' };
+    }
+    case 'GSTIN': return validateGstin(id);
+    case 'RFC': return validateRfc(id);
+    case 'EIN': return validateEin(id);
+    default: return { scheme: 'UNKNOWN', normalized: id, isValid: true };
+  }
+};
@@ -12,6 +12,24 @@ export interface TranslationDictionary {
   heroSubtitle: string;
   financialData: string;
   dropZoneMain: string;
+  optimizingImages: string;
+  before: string;
+  after: string;
+  adjustCrop: string;
+  applyCrop: string;
+  autoCrop: string;
+  fullImage: string;
+  cropHint: string;
+  cancel: string;
+  manual: string;
+  noPreprocessingNeeded: string;
+  stepExif: string;
+  stepCrop: string;
+  stepDeskew: string;
+  stepContrast: string;
+  stepDownscale: string;
+  imagePreprocessing: string;
+  maxImageDimension: string;
   dropZoneSub: string;
   uploadError: string;
   sanitizeAction: string;
@@ -48,6 +66,38 @@ export interface TranslationDictionary {
   documentType: string;
   vendorName: string;
   invoiceDate: string;
+  invoiceNumber: string;
+  purchaseOrderNumber: string;
+  paymentTerms: string;
+  dueDate: string;
+  overdueTag: string;
+  vendorTaxId: string;
+  vendorAddress: string;
+  billToName: string;
+  billToAddress: string;
+  shipToAddress: string;
+  taxIdValid: string;
+  taxIdInvalid: string;
+  remittanceDetails: string;
+  bankName: string;
+  accountHolder: string;
+  iban: string;
+  swiftBic: string;
+  accountNumber: string;
+  routingNumber: string;
+  ibanValid: string;
+  ibanInvalid: string;
+  bankChangeTag: string;
+  bankChangeWarning: string;
+  bankChangeKnown: string;
+  vendorMaster: string;
+  vendorMasterHint: string;
+  vendorMasterEmpty: string;
+  vendorMasterCount: string;
+  importVendorMaster: string;
+  clearVendorMaster: string;
+  vendorMasterImported: string;
+  vendorMasterImportError: string;
   currency: string;
   totalAmount: string;
   staleDataWarning: string;
@@ -59,7 +109,13 @@ export interface TranslationDictionary {
   glCategory: string;
   qty: string;
   unitPrice: string;
+  unitOfMeasure: string;
+  packSize: string;
+  baseUnitPrice: string;
   lineTotal: string;
+  sourcePage: string;
+  sourceDocument: string;
+  noSourceRegion: string;
   convertedTotal: string;
   exchangeRate: string;
   mathMismatch: string;
@@ -70,12 +126,37 @@ export interface TranslationDictionary {
   recalculate: string;
   fixAll: string;
   sensitiveDetected: string;
+  totalsBreakdown: string;
+  subtotal: string;
+  taxLines: string;
+  taxJurisdiction: string;
+  taxRate: string;
+  taxBase: string;
+  taxAmount: string;
+  discounts: string;
+  shippingCharges: string;
+  amountDue: string;
+  addTaxLine: string;
+  addDiscount: string;
+  addShipping: string;
+  expectedTotal: string;
+  totalsBalanced: string;
+  totalsMismatch: string;
   complianceWarning: string;
   
   // CSV Headers
   csvDocumentType: string;
   csvVendor: string;
+  csvVendorTaxId: string;
+  csvBillTo: string;
+  csvIban: string;
+  csvSwift: string;
+  csvBankAccount: string;
   csvDate: string;
+  csvInvoiceNumber: string;
+  csvPoNumber: string;
+  csvPaymentTerms: string;
+  csvDueDate: string;
   csvTotalAmount: string;
   csvCurrency: string;
   csvSku: string;
@@ -84,14 +165,162 @@ export interface TranslationDictionary {
   csvQuantity: string;
   csvUnitPrice: string;
   csvLineTotal: string;
+  csvUnitOfMeasure: string;
+  csvPackSize: string;
+  csvBaseQuantity: string;
+  csvBaseUnit: string;
+  csvBaseUnitPrice: string;
+  csvShipper: string;
+  csvConsignee: string;
+  csvCarrier: string;
+  csvProNumber: string;
+  csvTrackingNumber: string;
+  csvPalletCount: string;
+  csvPieceCount: string;
+  csvGrossWeight: string;
+  csvWeightUnit: string;
+  csvLineWeight: string;
+  csvFreightClass: string;
+  csvOriginalInvoice: string;
+  csvSubtotal: string;
+  csvTaxTotal: string;
+  csvTaxDetail: string;
+  csvDiscountTotal: string;
+  csvShippingTotal: string;
+  csvAmountDue: string;
 
   // Errors & Quality
   quotaError: string;
+  queueStatus: string;
+  queuePosition: string;
+  queueTitle: string;
+  forceReextract: string;
+  fromCache: string;
+  reextract: string;
+  clearExtractionCache: string;
+  queueParallel: string;
+  queuePause: string;
+  queueResume: string;
+  queueCancel: string;
+  queueClearFinished: string;
+  queueRetry: string;
+  queuePaused: string;
+  statusQueued: string;
+  statusRunning: string;
+  statusDone: string;
+  statusFailed: string;
+  statusDuplicate: string;
+  statusSkipped: string;
+  reviewDuplicate: string;
+  openInvoice: string;
+  duplicateTitle: string;
+  duplicateMatchScore: string;
+  duplicateIncoming: string;
+  duplicateExisting: string;
+  duplicateSignals: string;
+  notDuplicate: string;
+  notDuplicateHint: string;
+  addAnyway: string;
+  discardUpload: string;
+  modelCost: string;
+  perDocument: string;
+  tokens: string;
+  budgetUsed: string;
+  unpricedModels: string;
+  sessionBudget: string;
+  modelPrices: string;
+  budgetExceeded: string;
+  promptTemplates: string;
+  promptTask: string;
+  promptDocType: string;
+  promptVariables: string;
+  promptUnknownVariables: string;
+  promptBuiltIn: string;
+  promptOverridden: string;
+  resetPrompt: string;
+  learnedVendorHints: string;
+  noVendorHints: string;
+  clearAllHints: string;
+  forgetVendorHints: string;
+  forgetHint: string;
+  threeWayMatch: string;
+  threeWayMatchHint: string;
+  noMatchGroups: string;
+  matchGroupsCount: string;
+  matchStatusMatched: string;
+  matchStatusVariance: string;
+  matchStatusIncomplete: string;
+  rolePurchaseOrder: string;
+  roleReceipt: string;
+  roleInvoice: string;
+  matchMissing: string;
+  matchOrdered: string;
+  matchReceived: string;
+  matchBilled: string;
+  matchOrderedPrice: string;
+  matchBilledPrice: string;
+  matchVariances: string;
+  varianceBilledOverReceived: string;
+  varianceBilledOverOrdered: string;
+  varianceReceivedOverOrdered: string;
+  variancePrice: string;
+  varianceNotOrdered: string;
+  openMatchView: string;
+  matchTolerances: string;
+  quantityTolerance: string;
+  priceTolerance: string;
+  priceToleranceAbsolute: string;
+  shipDate: string;
+  documentNumber: string;
+  shipmentDetails: string;
+  carrierName: string;
+  proNumber: string;
+  trackingNumber: string;
+  freightClass: string;
+  palletCount: string;
+  pieceCount: string;
+  grossWeight: string;
+  weightUnit: string;
+  shipper: string;
+  shipperName: string;
+  shipperAddress: string;
+  consignee: string;
+  consigneeName: string;
+  consigneeAddress: string;
+  lineWeight: string;
+  lineWeightTotal: string;
+  originalInvoiceNumber: string;
+  creditNote: string;
+  creditsInvoice: string;
+  originalNotInSession: string;
+  creditedBy: string;
+  netBalance: string;
+  openDocument: string;
+  netOfCredits: string;
+  emailNoDocuments: string;
+  outlookMsgUnsupported: string;
+  receivedByEmail: string;
+  emailMessageBody: string;
+  eInvoiceImported: string;
+  eInvoiceEmbedded: string;
+  ublExportIssues: string;
+  ublExportIssuesHint: string;
+  ublDownloadAnyway: string;
+  ublNothingToExport: string;
+  ublExported: string;
+  peppolBuyer: string;
+  peppolEndpointId: string;
+  peppolCountry: string;
+  peppolBuyerReference: string;
   quotaCooldown: string;
   readError: string;
   fileTypeError: string;
+  invalidResponseError: string;
   analyzing: string;
   sanitizing: string;
+  streamingItems: string;
+  provisional: string;
+  provisionalHint: string;
   confidenceHigh: string;
   confidenceReview: string;
   verifyPrices: string;
@@ -132,6 +361,22 @@ export interface TranslationDictionary {
   // Mobile Scan
   initScan: string;
   scanInvoice: string;
+
+  // Workspace
+  workspace: string;
+  workspaceSettings: string;
+  workspaceName: string;
+  newWorkspace: string;
+  deleteWorkspace: string;
+  extractionProvider: string;
+  modelName: string;
+  modelNameRequired: string;
+  apiKeyOptional: string;
+  endpointUrl: string;
+  requestsPerMinute: string;
+  maxConcurrentRequests: string;
+  providerPrivacyNote: string;
+  saveSettings: string;
 }
 
 const baseEnglish: TranslationDictionary = {
@@ -146,6 +391,24 @@ const baseEnglish: TranslationDictionary = {
     financialData: "Financial Data",
     heroSubtitle: "Extraction System for Transactional Entity Reconciliation. Transforming unstructured chaos into transformed, ERP-ready data.",
     dropZoneMain: "Drop invoices here",
+    optimizingImages: "Optimizing images...",
+    before: "Before",
+    after: "After",
+    adjustCrop: "Adjust Crop",
+    applyCrop: "Apply",
+    autoCrop: "Auto",
+    fullImage: "Full Image",
+    cropHint: "Drag over the original to mark the document area.",
+    cancel: "Cancel",
+    manual: "manual",
+    noPreprocessingNeeded: "Sent as-is",
+    stepExif: "EXIF Rotated",
+    stepCrop: "Cropped",
+    stepDeskew: "Deskewed",
+    stepContrast: "Contrast",
+    stepDownscale: "Downscaled",
+    imagePreprocessing: "Optimize Photos Before Upload",
+    maxImageDimension: "Max Image Size (px)",
     dropZoneSub: "Batch processing supported (Max 5)",
     uploadError: "Failed to extract data. Please try a clearer image.",
     sanitizeAction: "TRANSFORM DOCUMENT",
@@ -178,6 +441,38 @@ const baseEnglish: TranslationDictionary = {
     documentType: "DOCUMENT TYPE",
     vendorName: "Vendor Name",
     invoiceDate: "Invoice Date",
+    invoiceNumber: "Invoice No.",
+    purchaseOrderNumber: "PO Number",
+    paymentTerms: "Payment Terms",
+    dueDate: "Due Date",
+    overdueTag: "OVERDUE",
+    vendorTaxId: "Vendor Tax ID",
+    vendorAddress: "Vendor Address",
+    billToName: "Bill To",
+    billToAddress: "Bill-To Address",
+    shipToAddress: "Ship-To Address",
+    taxIdValid: "OK",
+    taxIdInvalid: "INVALID",
+    remittanceDetails: "Remittance Details",
+    bankName: "Bank",
+    accountHolder: "Account Holder",
+    iban: "IBAN",
+    swiftBic: "SWIFT / BIC",
+    accountNumber: "Account No.",
+    routingNumber: "Routing / Sort Code",
+    ibanValid: "CHECKSUM OK",
+    ibanInvalid: "BAD CHECKSUM",
+    bankChangeTag: "BANK CHANGE",
+    bankChangeWarning: "This vendor is asking to be paid into a different bank account than the one on file. Verify by phone using a known contact before paying.",
+    bankChangeKnown: "On file ({source})",
+    vendorMaster: "Vendor Master",
+    vendorMasterHint: "Import a CSV or JSON export of vendor bank accounts (columns: vendor, tax ID, IBAN, SWIFT, account, routing) to detect changed remittance details.",
+    vendorMasterEmpty: "Not imported",
+    vendorMasterCount: "{count} vendor accounts",
+    importVendorMaster: "Import vendor master",
+    clearVendorMaster: "Remove vendor master",
+    vendorMasterImported: "Vendor master imported ({count} accounts)",
+    vendorMasterImportError: "Could not read vendor master file",
     currency: "Currency",
     totalAmount: "Total Amount",
     staleDataWarning: "Stale Data (> 2 Years)",
@@ -189,7 +484,13 @@ const baseEnglish: TranslationDictionary = {
     glCategory: "GL Category",
     qty: "Qty",
     unitPrice: "Unit Price",
+    unitOfMeasure: "Unit",
+    packSize: "Pack Size",
+    baseUnitPrice: "Price per base unit",
     lineTotal: "Total",
+    sourcePage: "Page",
+    sourceDocument: "Source Document",
+    noSourceRegion: "No location recorded for this field.",
     convertedTotal: "Converted Total",
     exchangeRate: "Rate",
     mathMismatch: "Math Mismatch",
@@ -200,10 +501,35 @@ const baseEnglish: TranslationDictionary = {
     recalculate: "Fix",
     fixAll: "Recalculate All",
     sensitiveDetected: "Sensitive Information Detected",
+    totalsBreakdown: "Totals Breakdown",
+    subtotal: "Subtotal",
+    taxLines: "Taxes",
+    taxJurisdiction: "Tax / Jurisdiction",
+    taxRate: "Rate %",
+    taxBase: "Base",
+    taxAmount: "Amount",
+    discounts: "Discounts",
+    shippingCharges: "Shipping & Freight",
+    amountDue: "Amount Due",
+    addTaxLine: "Add Tax",
+    addDiscount: "Add",
+    addShipping: "Add",
+    expectedTotal: "Expected Total",
+    totalsBalanced: "Totals Reconciled",
+    totalsMismatch: "Totals Mismatch",
     complianceWarning: "Handle with care and ensure compliance with data protection regulations.",
     csvDocumentType: "Document Type",
     csvVendor: "Vendor",
+    csvVendorTaxId: "Vendor Tax ID",
+    csvBillTo: "Bill To",
+    csvIban: "IBAN",
+    csvSwift: "SWIFT/BIC",
+    csvBankAccount: "Bank Account",
     csvDate: "Date",
+    csvInvoiceNumber: "Invoice Number",
+    csvPoNumber: "PO Number",
+    csvPaymentTerms: "Payment Terms",
+    csvDueDate: "Due Date",
     csvTotalAmount: "Total Amount",
     csvCurrency: "Currency",
     csvSku: "SKU",
@@ -212,12 +538,160 @@ const baseEnglish: TranslationDictionary = {
     csvQuantity: "Quantity",
     csvUnitPrice: "Unit Price",
     csvLineTotal: "Line Total",
+    csvUnitOfMeasure: "Unit of Measure",
+    csvPackSize: "Pack Size",
+    csvBaseQuantity: "Base Quantity",
+    csvBaseUnit: "Base Unit",
+    csvBaseUnitPrice: "Base Unit Price",
+    csvShipper: "Shipper",
+    csvConsignee: "Consignee",
+    csvCarrier: "Carrier",
+    csvProNumber: "PRO Number",
+    csvTrackingNumber: "Tracking Number",
+    csvPalletCount: "Pallets",
+    csvPieceCount: "Pieces",
+    csvGrossWeight: "Gross Weight",
+    csvWeightUnit: "Weight Unit",
+    csvLineWeight: "Line Weight",
+    csvFreightClass: "Freight Class",
+    csvOriginalInvoice: "Original Invoice #",
+    csvSubtotal: "Subtotal",
+    csvTaxTotal: "Tax Total",
+    csvTaxDetail: "Tax Detail",
+    csvDiscountTotal: "Discount Total",
+    csvShippingTotal: "Shipping Total",
+    csvAmountDue: "Amount Due",
     quotaError: "Processing limit reached.",
+    queueStatus: "{count} request(s) in queue · ETA ~{eta}s",
+    queuePosition: "Waiting for the model: #{position} in line, ~{eta}s",
+    queueTitle: "Ingestion Queue",
+    forceReextract: "Ignore cache, re-extract",
+    fromCache: "Cached",
+    reextract: "Re-extract",
+    clearExtractionCache: "Clear extraction cache ({count})",
+    queueParallel: "Files processed in parallel",
+    queuePause: "Pause",
+    queueResume: "Resume",
+    queueCancel: "Cancel remaining",
+    queueClearFinished: "Clear finished",
+    queueRetry: "Retry",
+    queuePaused: "Paused",
+    statusQueued: "Queued",
+    statusRunning: "Running",
+    statusDone: "Done",
+    statusFailed: "Failed",
+    statusDuplicate: "Duplicate",
+    statusSkipped: "Skipped",
+    reviewDuplicate: "Review duplicate",
+    openInvoice: "Open",
+    duplicateTitle: "Possible duplicate",
+    duplicateMatchScore: "{score}% match",
+    duplicateIncoming: "New upload",
+    duplicateExisting: "Already in session",
+    duplicateSignals: "Why it matched",
+    notDuplicate: "Not a duplicate",
+    notDuplicateHint: "Adds the upload and stops flagging this pair in future sessions",
+    addAnyway: "Add anyway",
+    discardUpload: "Discard upload",
+    modelCost: "Model Cost",
+    perDocument: "per doc",
+    tokens: "tokens",
+    budgetUsed: "{spent} of {budget} budget",
+    unpricedModels: "Some calls used models without a price and are not counted",
+    sessionBudget: "Session budget (USD)",
+    modelPrices: "Model prices (USD per 1M tokens: model, input, output)",
+    budgetExceeded: "Session budget of {budget} reached ({spent} spent). Remaining files are on hold; resume to continue anyway.",
+    promptTemplates: "Prompt templates",
+    promptTask: "Task",
+    promptDocType: "Document type",
+    promptVariables: "Variables: {list}",
+    promptUnknownVariables: "Not provided for this task: {list}",
+    promptBuiltIn: "Built-in",
+    promptOverridden: "Workspace override",
+    resetPrompt: "Reset to built-in",
+    learnedVendorHints: "Learned vendor hints",
+    noVendorHints: "Corrections you make in the editor (GL category, SKU, description, vendor details) are remembered per vendor and shown to the model on later documents.",
+    clearAllHints: "Forget all",
+    forgetVendorHints: "Forget this vendor's hints",
+    forgetHint: "Forget hint",
+    threeWayMatch: "Three-way match",
+    threeWayMatchHint: "Purchase orders, packing slips/BOLs and invoices linked by PO number and vendor",
+    noMatchGroups: "No documents share a PO number yet. Process the purchase order, packing slip and invoice of an order to match them.",
+    matchGroupsCount: "{count} linked POs · {variances} with variances",
+    matchStatusMatched: "Matched",
+    matchStatusVariance: "Variance",
+    matchStatusIncomplete: "Incomplete",
+    rolePurchaseOrder: "PO",
+    roleReceipt: "Receipt",
+    roleInvoice: "Invoice",
+    matchMissing: "Missing: {list}",
+    matchOrdered: "Ordered",
+    matchReceived: "Received",
+    matchBilled: "Billed",
+    matchOrderedPrice: "PO Price",
+    matchBilledPrice: "Billed Price",
+    matchVariances: "Variances",
+    varianceBilledOverReceived: "Billed more than received",
+    varianceBilledOverOrdered: "Billed more than ordered",
+    varianceReceivedOverOrdered: "Received more than ordered",
+    variancePrice: "Price differs from PO",
+    varianceNotOrdered: "Not on the purchase order",
+    openMatchView: "Open match",
+    matchTolerances: "Three-way match tolerances",
+    quantityTolerance: "Quantity (%)",
+    priceTolerance: "Price (%)",
+    priceToleranceAbsolute: "Price (absolute)",
+    shipDate: "Ship Date",
+    documentNumber: "Document No.",
+    shipmentDetails: "Shipment Details",
+    carrierName: "Carrier",
+    proNumber: "PRO Number",
+    trackingNumber: "Tracking Number",
+    freightClass: "Freight Class",
+    palletCount: "Pallets",
+    pieceCount: "Pieces",
+    grossWeight: "Gross Weight",
+    weightUnit: "Weight Unit",
+    shipper: "Shipper",
+    shipperName: "Shipper Name",
+    shipperAddress: "Shipper Address",
+    consignee: "Consignee",
+    consigneeName: "Consignee Name",
+    consigneeAddress: "Consignee Address",
+    lineWeight: "Weight",
+    lineWeightTotal: "Sum of line weights",
+    originalInvoiceNumber: "Original Invoice #",
+    creditNote: "Credit Note",
+    creditsInvoice: "Credits invoice {number}",
+    originalNotInSession: "Original invoice {number} is not in this session",
+    creditedBy: "Credited by",
+    netBalance: "Net balance",
+    openDocument: "Open",
+    netOfCredits: "Net of {amount} in credit notes",
+    emailNoDocuments: "{name} has no image or PDF attachment and no message body to extract.",
+    outlookMsgUnsupported: "Outlook .msg files are not supported. Save the message as .eml (File > Save As) and drop that instead.",
+    receivedByEmail: "Received by email",
+    emailMessageBody: "Invoice in email body",
+    eInvoiceImported: "Read from e-invoice data, no model used",
+    eInvoiceEmbedded: "embedded in PDF",
+    ublExportIssues: "Peppol terms missing",
+    ublExportIssuesHint: "{count} of {total} documents lack business terms Peppol requires. Access points may reject them.",
+    ublDownloadAnyway: "Download anyway",
+    ublNothingToExport: "No invoices or credit notes to export as UBL.",
+    ublExported: "Exported {count} UBL documents",
+    peppolBuyer: "Peppol buyer (UBL export)",
+    peppolEndpointId: "Endpoint ID (scheme:id)",
+    peppolCountry: "Country (ISO)",
+    peppolBuyerReference: "Buyer reference",
     quotaCooldown: "Retrying in",
     readError: "Unable to read document. Try a clearer image.",
     fileTypeError: "Invalid file. Please upload an Image or PDF.",
+    invalidResponseError: "The model returned data in an unexpected format, even after a retry. Try again or switch the extraction provider.",
     analyzing: "Analyzing document structure...",
     sanitizing: "Transforming input data...",
+    streamingItems: "Reading document... {count} line item(s) so far",
+    provisional: "Provisional",
+    provisionalHint: "Still streaming. Values may change until validation and quality checks have run.",
     confidenceHigh: "High Confidence",
     confidenceReview: "Review Recommended",
     verifyPrices: "Verify Prices",
@@ -247,7 +721,21 @@ const baseEnglish: TranslationDictionary = {
     copyToClipboard: "Copy to Clipboard",
     printPdf: "Print / Save as PDF",
     initScan: "INITIALIZE SCAN",
-    scanInvoice: "Scan Invoice"
+    scanInvoice: "Scan Invoice",
+    workspace: "Workspace",
+    workspaceSettings: "Workspace Settings",
+    workspaceName: "Workspace Name",
+    newWorkspace: "New Workspace",
+    deleteWorkspace: "Delete Workspace",
+    extractionProvider: "Extraction Provider",
+    modelName: "Model",
+    modelNameRequired: "Enter a model name for {workspace}",
+    apiKeyOptional: "API Key (optional)",
+    endpointUrl: "Endpoint Base URL",
+    requestsPerMinute: "Requests per Minute",
+    maxConcurrentRequests: "Parallel Requests",
+    providerPrivacyNote: "Documents are sent only to the provider selected for the active workspace. Demo Mode overrides this and never sends data anywhere. Settings are stored in this browser.",
+    saveSettings: "Save Settings"
 };
 
 // For now, we populate other languages with English defaults to prevent crashes
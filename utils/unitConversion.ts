@@ -0,0 +1,64 @@
+import { BaseUnit, LineItem } from "../types";
+
+// Quantities are normalized to one base unit per dimension (pieces, mass, volume) so prices can be compared
+// across pack sizes and vendors: "2 cases of 24 at 12.00" and "48 each at 0.50" both become 0.50/each.
+
+interface UnitDefinition {
+  unit: string; // Canonical name shown in the editor
+  baseUnit: BaseUnit;
+  factor: number; // Base units per one of this unit
+  packaged?: boolean; // A container: only convertible when the pack size is known
+  aliases: string[]; // Lower-case spellings as printed on documents
+}
+
+export const UNIT_CONVERSIONS: UnitDefinition[] = [
+  { unit: 'each', baseUnit: 'each', factor: 1, aliases: ['each', 'ea', 'pc', 'pcs', 'piece', 'pieces', 'unit', 'units', 'un', 'st', 'stk', 'stück'] },
+  { unit: 'dozen', baseUnit: 'each', factor: 12, aliases: ['dozen', 'doz', 'dz'] },
+  { unit: 'case', baseUnit: 'each', factor: 1, packaged: true, aliases: ['case', 'cases', 'cs', 'carton', 'ctn', 'box', 'bx', 'pack', 'pk', 'pkg'] },
+  { unit: 'kg', baseUnit: 'kg', factor: 1, aliases: ['kg', 'kgs', 'kilo', 'kilogram', 'kilograms'] },
+  { unit: 'g', baseUnit: 'kg', factor: 0.001, aliases: ['g', 'gr', 'gram', 'grams'] },
+  { unit: 'lb', baseUnit: 'kg', factor: 0.45359237, aliases: ['lb', 'lbs', 'pound', 'pounds'] },
+  { unit: 'L', baseUnit: 'L', factor: 1, aliases: ['l', 'lt', 'ltr', 'liter', 'liters', 'litre', 'litres'] },
+  { unit: 'mL', baseUnit: 'L', factor: 0.001, aliases: ['ml', 'milliliter', 'millilitre'] },
+  { unit: 'gal', baseUnit: 'L', factor: 3.785411784, aliases: ['gal', 'gallon', 'gallons'] } // US gallon
+];
+
+// UN/ECE Recommendation 20 codes used by e-invoices (UBL and CII unitCode, CFDI ClaveUnidad)
+export const UNECE_UNIT_CODES: Record<string, string> = {
+  C62: 'each', H87: 'each', EA: 'each', DZN: 'dozen', XCS: 'case', XCT: 'case', XBX: 'box', XPK: 'pack',
+  KGM: 'kg', GRM: 'g', LBR: 'lb', LTR: 'L', MLT: 'mL', GLL: 'gal',
+  HUR: 'hour', DAY: 'day', MON: 'month', E48: 'service', ACT: 'activity', MTR: 'm', MTK: 'm²', SET: 'set', PR: 'pair'
+};
+
+export const findUnit = (unitOfMeasure?: string): UnitDefinition | undefined => {
+  const key = (unitOfMeasure || '').trim().toLowerCase().replace(/\.$/, '');
+  return key ? UNIT_CONVERSIONS.find(u => u.aliases.includes(key)) : undefined;
+};
+
+// UN/ECE code for a printed unit, for e-invoice exports; 'C62' (one) when it has none
+export const uneceUnitCode = (unitOfMeasure?: string): string => {
+  const printed = (unitOfMeasure || '').trim();
+  if (UNECE_UNIT_CODES[printed.toUpperCase()]) return printed.toUpperCase();
+  const name = (findUnit(printed)?.unit || printed).toLowerCase();
+  return Object.keys(UNECE_UNIT_CODES).find(code => UNECE_UNIT_CODES[code].toLowerCase() === name) || 'C62';
+};
+
+const round = (value: number, decimals: number) => parseFloat(value.toFixed(decimals));
+
+// Recomputes the base-unit quantity and price from the printed unit, pack size and line total.
+// Lines with an unknown unit, or a container without a pack size, are left without base values.
+// Credit note lines keep their negative quantity; the base price stays positive.
+export const normalizeLineUnits = (item: LineItem): LineItem => {
+  const { baseUnit, baseQuantity, baseUnitPrice, ...rest } = item;
+  const unit = findUnit(item.unitOfMeasure);
+  const packSize = item.packSize && item.packSize > 0 ? item.packSize : undefined;
+  if (!unit || (unit.packaged && !packSize)) return rest;
+  const quantity = round(item.quantity * unit.factor * (packSize || 1), 4);
+  if (quantity === 0) return rest;
+  const lineTotal = item.totalAmount || item.quantity * item.unitPrice;
+  return { ...rest, baseUnit: unit.baseUnit, baseQuantity: quantity, baseUnitPrice: round(lineTotal / quantity, 4) };
+};
+
+// e.g. "$0.50/each"; sub-unit prices keep four decimals so they do not round to zero
+export const formatBaseUnitPrice = (item: LineItem, currencySymbol: string): string =>
+  item.baseUnitPrice === undefined || !item.baseUnit ? '' : `${currencySymbol}${item.baseUnitPrice.toFixed(Math.abs(item.baseUnitPrice) < 1 ? 4 : 2)}/${item.baseUnit}`;
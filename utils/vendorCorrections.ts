@@ -0,0 +1,55 @@
+import { ReviewerCorrection } from "../types";
+
+const STORAGE_KEY = 'ester.vendorCorrections';
+// Oldest corrections are forgotten beyond this
+const MAX_CORRECTIONS = 300;
+const FORGOTTEN_KEY = 'ester.forgottenCorrections';
+const MAX_FORGOTTEN = 500;
+
+// Learned reviewer corrections survive reloads, like the vendor master; they hold no document images.
+export const loadVendorCorrections = (): ReviewerCorrection[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch (e) {
+    console.warn("Ignoring unreadable vendor corrections", e);
+    return [];
+  }
+};
+
+export const saveVendorCorrections = (corrections: ReviewerCorrection[]) => {
+  if (corrections.length === 0) localStorage.removeItem(STORAGE_KEY);
+  else localStorage.setItem(STORAGE_KEY, JSON.stringify([...corrections].sort((a, b) => b.recordedAt - a.recordedAt).slice(0, MAX_CORRECTIONS)));
+};
+
+// Ids (see ReviewerCorrection.id) of corrections a reviewer forgot, newest first
+const loadForgottenCorrectionIds = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(FORGOTTEN_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch (e) {
+    console.warn("Ignoring unreadable forgotten corrections", e);
+    return [];
+  }
+};
+
+// A document's corrections are recomputed on every edit; the latest set replaces the previous one.
+// Forgotten corrections stay forgotten, even though the edit that produced them is still there.
+export const replaceInvoiceCorrections = (invoiceId: string, corrections: ReviewerCorrection[]) => {
+  const forgotten = new Set(loadForgottenCorrectionIds());
+  const others = loadVendorCorrections().filter(c => c.invoiceId !== invoiceId);
+  saveVendorCorrections([...corrections.filter(c => !forgotten.has(c.id)), ...others]);
+};
+
+// Drops the matching corrections from what is stored now, not from a copy read earlier, and returns the rest
+export const forgetVendorCorrections = (remove: (correction: ReviewerCorrection) => boolean): ReviewerCorrection[] => {
+  const corrections = loadVendorCorrections();
+  const removedIds = corrections.filter(remove).map(c => c.id);
+  const kept = corrections.filter(c => !remove(c));
+  saveVendorCorrections(kept);
+  if (removedIds.length > 0) {
+    const forgotten = [...removedIds, ...loadForgottenCorrectionIds().filter(id => !removedIds.includes(id))];
+    localStorage.setItem(FORGOTTEN_KEY, JSON.stringify(forgotten.slice(0, MAX_FORGOTTEN)));
+  }
+  return kept;
+};
@@ -0,0 +1,93 @@
+import { RemittanceDetails, VendorMasterEntry } from "../types";
+import { hasBankIdentifiers } from './bankDetails';
+
+const STORAGE_KEY = 'ester.vendorMaster';
+
+// Header aliases accepted in imported vendor master files (compared lowercase, alphanumerics only)
+const COLUMN_ALIASES: Record<string, string[]> = {
+  vendorName: ['vendorname', 'vendor', 'name', 'supplier', 'suppliername', 'payee'],
+  vendorTaxId: ['vendortaxid', 'taxid', 'vat', 'vatnumber', 'vatid', 'ein', 'tin', 'gstin', 'rfc'],
+  bankName: ['bankname', 'bank'],
+  accountHolder: ['accountholder', 'beneficiary', 'accountname'],
+  iban: ['iban'],
+  swiftBic: ['swiftbic', 'swift', 'bic', 'swiftcode'],
+  accountNumber: ['accountnumber', 'account', 'acct', 'accountno', 'bankaccount'],
+  routingNumber: ['routingnumber', 'routing', 'aba', 'sortcode', 'bsb']
+};
+
+const REMITTANCE_KEYS: (keyof RemittanceDetails)[] = ['bankName', 'accountHolder', 'iban', 'swiftBic', 'accountNumber', 'routingNumber'];
+
+const canonicalKey = (header: string): string | undefined => {
+  const key = header.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return Object.keys(COLUMN_ALIASES).find(field => COLUMN_ALIASES[field].includes(key));
+};
+
+// Minimal RFC 4180 splitter: handles quoted fields, escaped quotes and commas/semicolons inside quotes.
+const parseCsvRows = (text: string): string[][] => {
+  const delimiter = (text.split('\n')[0].match(/;/g) || []).length > (text.split('\n')[0].match(/,/g) || []).length ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') inQuotes = true;
+    else if (ch === delimiter) { row.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(cell => cell.trim() !== '')) rows.push(row);
+      row = [];
+    } else field += ch;
+  }
+  row.push(field);
+  if (row.some(cell => cell.trim() !== '')) rows.push(row);
+  return rows;
+};
+
+const toEntry = (record: Record<string, any>): VendorMasterEntry | null => {
+  const flat: Record<string, string> = {};
+  Object.entries({ ...record, ...(record.remittance || {}) }).forEach(([header, value]) => {
+    const key = canonicalKey(header);
+    if (key && value !== undefined && value !== null && String(value).trim() !== '') flat[key] = String(value).trim();
+  });
+  const remittance: RemittanceDetails = {};
+  REMITTANCE_KEYS.forEach(key => { if (flat[key]) remittance[key] = flat[key]; });
+  if (!flat.vendorName || !hasBankIdentifiers(remittance)) return null;
+  return { vendorName: flat.vendorName, vendorTaxId: flat.vendorTaxId, remittance };
+};
+
+// Accepts a CSV export from the ERP or a JSON array of vendor records. Rows without a name or bank account are skipped.
+export const parseVendorMaster = (text: string, fileName: string): VendorMasterEntry[] => {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  if (fileName.toLowerCase().endsWith('.json') || trimmed.startsWith('[')) {
+    const parsed = JSON.parse(trimmed);
+    const records = Array.isArray(parsed) ? parsed : parsed.vendors || [];
+    return records.map(toEntry).filter((e: VendorMasterEntry | null): e is VendorMasterEntry => !!e);
+  }
+  const [headers, ...rows] = parseCsvRows(trimmed);
+  if (!headers) return [];
+  return rows
+    .map(cells => toEntry(Object.fromEntries(headers.map((h, i) => [h, cells[i]]))))
+    .filter((e): e is VendorMasterEntry => !!e);
+};
+
+// The vendor master is reference data, so unlike invoices it is kept across reloads.
+export const loadVendorMaster = (): VendorMasterEntry[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch (e) {
+    console.warn("Ignoring unreadable vendor master", e);
+    return [];
+  }
+};
+
+export const saveVendorMaster = (entries: VendorMasterEntry[]) => {
+  if (entries.length === 0) localStorage.removeItem(STORAGE_KEY);
+  else localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+};
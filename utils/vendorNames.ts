@@ -0,0 +1,25 @@
+const LEGAL_SUFFIXES = /\b(inc|incorporated|llc|ltd|limited|gmbh|ag|co|corp|corporation|company|sa|sarl|bv|nv|plc|kk|srl|spa)\b/g;
+
+// Comparison key for a vendor name: lowercase, legal form and punctuation dropped,
+// so "ACME Supply Co." and "Acme Supply Company" share one key.
+export const normalizeVendorName = (name?: string) => (name || '').toLowerCase().replace(/[.,]/g, ' ').replace(LEGAL_SUFFIXES, '').replace(/[^\p{L}\p{N}]/gu, '');
+
+const bigrams = (value: string): string[] => Array.from({ length: Math.max(0, value.length - 1) }, (_, i) => value.slice(i, i + 2));
+
+// Sørensen–Dice similarity of the normalized names' character bigrams, 0..1
+export const vendorNameSimilarity = (a?: string, b?: string): number => {
+  const keyA = normalizeVendorName(a);
+  const keyB = normalizeVendorName(b);
+  if (!keyA || !keyB) return 0;
+  if (keyA === keyB) return 1;
+  const pairsA = bigrams(keyA);
+  const pairsB = bigrams(keyB);
+  if (pairsA.length === 0 || pairsB.length === 0) return 0;
+  const remaining = [...pairsB];
+  let shared = 0;
+  pairsA.forEach(pair => {
+    const index = remaining.indexOf(pair);
+    if (index >= 0) { shared++; remaining.splice(index, 1); }
+  });
+  return (2 * shared) / (pairsA.length + pairsB.length);
+};
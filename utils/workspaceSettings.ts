@@ -0,0 +1,33 @@
+import { WorkspaceSettings } from "../types";
+
+const STORAGE_KEY = 'ester.workspaces';
+const ACTIVE_KEY = 'ester.activeWorkspace';
+
+export const DEFAULT_WORKSPACE: WorkspaceSettings = {
+  id: 'default',
+  name: 'Default Workspace',
+  provider: { kind: 'gemini', model: 'gemini-2.5-flash' }
+};
+
+// Workspace settings survive reloads; invoice data itself stays session-only.
+export const loadWorkspaces = (): WorkspaceSettings[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    if (Array.isArray(stored) && stored.length > 0) {
+      return stored.map((ws: WorkspaceSettings) => ({ ...DEFAULT_WORKSPACE, ...ws, provider: { ...DEFAULT_WORKSPACE.provider, ...ws.provider } }));
+    }
+  } catch (e) {
+    console.warn("Ignoring unreadable workspace settings", e);
+  }
+  return [DEFAULT_WORKSPACE];
+};
+
+export const saveWorkspaces = (workspaces: WorkspaceSettings[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(workspaces));
+};
+
+export const loadActiveWorkspaceId = (): string => localStorage.getItem(ACTIVE_KEY) || DEFAULT_WORKSPACE.id;
+
+export const saveActiveWorkspaceId = (id: string) => {
+  localStorage.setItem(ACTIVE_KEY, id);
+};
@@ -0,0 +1,119 @@
+// Minimal namespace-aware XML reader and writer for structured e-invoices. Regex based rather than DOMParser so it
+// also runs under Node (evaluation harness). No DTDs or external entities: they are skipped, never fetched.
+
+export interface XmlElement {
+  name: string; // Local name, e.g. 'ID' for <cbc:ID>
+  namespace: string; // Resolved namespace URI; '' when none is declared
+  attributes: Record<string, string>; // As written, e.g. 'currencyID', 'xmlns:cbc'
+  children: XmlElement[];
+  text: string; // Character data directly inside this element, CDATA included
+}
+
+export const xmlSyntaxError = (message: string): Error => {
+  const e: any = new Error(`Invalid XML: ${message}`);
+  e.code = 'INVALID_XML';
+  return e;
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeEntities = (text: string): string => text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-z]+);/g, (match, entity: string) => {
+  if (entity[0] !== '#') return ENTITIES[entity] ?? match;
+  const code = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+  return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+});
+
+// Comments, CDATA, processing instructions, DOCTYPE, closing tags, opening tags, text
+const TOKEN = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE(?:[^>[]|\[[\s\S]*?\])*>|<\/([^\s>]+)\s*>|<([^\s/>!?]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|[^<]+/y;
+const ATTRIBUTE = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+// The document's root element
+export const parseXml = (source: string): XmlElement => {
+  const document: XmlElement = { name: '', namespace: '', attributes: {}, children: [], text: '' };
+  const stack: { element: XmlElement, qualifiedName: string, scope: Record<string, string> }[] = [{ element: document, qualifiedName: '', scope: {} }];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < source.length) {
+    const at = TOKEN.lastIndex;
+    const token = TOKEN.exec(source);
+    if (!token) throw xmlSyntaxError(`unexpected markup at offset ${at}`);
+    const [raw, cdata, closing, opening, attributeText, selfClosing] = token;
+    const current = stack[stack.length - 1];
+    if (cdata !== undefined) {
+      current.element.text += cdata;
+    } else if (closing) {
+      if (closing !== current.qualifiedName) throw xmlSyntaxError(`</${closing}> does not close <${current.qualifiedName || 'document'}>`);
+      stack.pop();
+    } else if (opening) {
+      const attributes: Record<string, string> = {};
+      for (const match of (attributeText || '').matchAll(ATTRIBUTE)) attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+      const scope = { ...current.scope };
+      Object.entries(attributes).forEach(([key, value]) => {
+        if (key === 'xmlns') scope[''] = value;
+        else if (key.startsWith('xmlns:')) scope[key.slice(6)] = value;
+      });
+      const colon = opening.indexOf(':');
+      const element: XmlElement = { name: opening.slice(colon + 1), namespace: scope[colon > 0 ? opening.slice(0, colon) : ''] || '', attributes, children: [], text: '' };
+      current.element.children.push(element);
+      if (!selfClosing) stack.push({ element, qualifiedName: opening, scope });
+    } else if (!raw.startsWith('<')) {
+      current.element.text += decodeEntities(raw);
+    }
+  }
+  if (stack.length > 1) throw xmlSyntaxError(`<${stack[stack.length - 1].qualifiedName}> is never closed`);
+  if (document.children.length !== 1) throw xmlSyntaxError('expected exactly one root element');
+  return document.children[0];
+};
+
+// Bytes to text in the encoding the XML declaration names (UTF-8 when it names none)
+export const decodeXml = (bytes: Uint8Array): string => {
+  const declared = /^(?:\u00ef\u00bb\u00bf)?<\?xml[^>]*encoding\s*=\s*["']([^"']+)["']/.exec(new TextDecoder('latin1').decode(bytes.subarray(0, 200)));
+  try {
+    return new TextDecoder(declared ? declared[1] : 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes); // Unknown label
+  }
+};
+
+export const isXmlFile = (file: File): boolean => file.type === 'application/xml' || file.type === 'text/xml' || /\.xml$/i.test(file.name);
+
+// Follows child elements by local name, e.g. findElement(party, 'PartyName', 'Name')
+export const findElement = (element: XmlElement | undefined, ...path: string[]): XmlElement | undefined =>
+  path.reduce<XmlElement | undefined>((node, name) => node?.children.find(child => child.name === name), element);
+
+export const findElements = (element: XmlElement | undefined, ...path: string[]): XmlElement[] => {
+  const parent = findElement(element, ...path.slice(0, -1));
+  return parent ? parent.children.filter(child => child.name === path[path.length - 1]) : [];
+};
+
+// Trimmed text at the path; undefined when missing or empty
+export const textAt = (element: XmlElement | undefined, ...path: string[]): string | undefined =>
+  findElement(element, ...path)?.text.trim() || undefined;
+
+// Element tree for writing; see writeXml
+export interface XmlOutputElement {
+  name: string; // Qualified, e.g. 'cbc:ID'
+  attributes?: Record<string, string>;
+  text?: string;
+  children?: XmlOutputElement[];
+}
+
+export const escapeXml = (value: string): string => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Leaf element, or null when the value is missing so optional terms drop out of the document
+export const xmlLeaf = (name: string, value?: string | number, attributes?: Record<string, string>): XmlOutputElement | null =>
+  value === undefined || value === '' ? null : { name, text: String(value), attributes };
+
+// Element with children; null when none of them are present
+export const xmlGroup = (name: string, children: (XmlOutputElement | null | undefined | false)[], attributes?: Record<string, string>): XmlOutputElement | null => {
+  const present = children.filter((child): child is XmlOutputElement => !!child);
+  return present.length > 0 ? { name, children: present, attributes } : null;
+};
+
+const writeElement = (element: XmlOutputElement, indent: string): string => {
+  const attributes = Object.entries(element.attributes || {}).map(([key, value]) => ` ${key}="${escapeXml(value)}"`).join('');
+  if (element.children?.length) return `${indent}<${element.name}${attributes}>\n${element.children.map(child => writeElement(child, `${indent}  `)).join('\n')}\n${indent}</${element.name}>`;
+  return `${indent}<${element.name}${attributes}>${escapeXml(element.text || '')}</${element.name}>`;
+};
+
+// UTF-8 XML document, indented two spaces per level
+export const writeXml = (root: XmlOutputElement): string => `<?xml version="1.0" encoding="UTF-8"?>\n${writeElement(root, '')}\n`;